@@ -0,0 +1,127 @@
+/**
+ * Achievements: what they are, the events that unlock them and the stored unlocks
+ */
+
+import { Achievement, AchievementEventMap, AchievementEventName } from './types';
+import { STORAGE_KEYS, GAMEPLAY_CONFIG } from './config';
+
+/**
+ * Every achievement, in gallery order
+ */
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'first-clear',
+        name: 'First Clear',
+        description: 'Clear a line',
+        event: 'linesCleared',
+        condition: clear => clear.linesCleared > 0,
+    },
+    {
+        id: 'four-at-once',
+        name: 'Four at Once',
+        description: 'Clear 4 lines with one piece',
+        event: 'linesCleared',
+        condition: clear => clear.linesCleared >= 4,
+    },
+    {
+        id: 'clean-sweep',
+        name: 'Clean Sweep',
+        description: 'Clear the whole board',
+        event: 'linesCleared',
+        condition: clear => clear.boardCleared,
+    },
+    {
+        id: 'kaboom',
+        name: 'Kaboom',
+        description: `Explode a block worth more than ${GAMEPLAY_CONFIG.explosionThreshold} points`,
+        event: 'linesCleared',
+        condition: clear => clear.cells.some(cell => cell.pointValue > GAMEPLAY_CONFIG.explosionThreshold),
+    },
+    {
+        id: 'level-10',
+        name: 'Double Digits',
+        description: 'Reach level 10',
+        event: 'levelUp',
+        condition: ({ level }) => level >= 10,
+    },
+    {
+        id: 'hard-20k',
+        name: 'Hard Earned',
+        description: 'Finish a hard mode game with 20,000 points and no bot turns (daily challenges excluded)',
+        event: 'gameFinished',
+        // The daily challenge is played in hard mode too, but it is its own competition
+        condition: game => game.mode === 'hard' && !game.daily && game.botTurns === 0 && game.score >= 20000,
+    },
+    {
+        id: 'three-stars',
+        name: 'Perfectionist',
+        description: 'Solve a puzzle with 3 stars',
+        event: 'puzzleFinished',
+        condition: result => result.solved && result.stars === 3,
+    },
+];
+
+/**
+ * Gets the ids of the unlocked achievements
+ * @returns When each was unlocked (ms since the epoch), by id; ids no longer defined are dropped
+ */
+export function getUnlockedAchievements(): Record<string, number> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS.achievements);
+        const parsed = stored ? JSON.parse(stored) : null;
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            return Object.fromEntries(Object.entries(parsed).filter(([id, unlockedAt]) =>
+                ACHIEVEMENTS.some(achievement => achievement.id === id) && Number.isFinite(unlockedAt)
+            )) as Record<string, number>;
+        }
+    } catch (e) {
+        console.warn('Failed to load achievements from localStorage:', e);
+    }
+    return {};
+}
+
+/**
+ * Finds the achievements an event meets that aren't unlocked yet
+ * @param event - Event that fired
+ * @param payload - The event's payload
+ * @param unlocked - Unlocks so far (the stored ones if omitted)
+ */
+export function checkAchievements<K extends AchievementEventName>(
+    event: K,
+    payload: AchievementEventMap[K],
+    unlocked: Record<string, number> = getUnlockedAchievements()
+): Achievement[] {
+    return ACHIEVEMENTS.filter(achievement =>
+        achievement.event === event &&
+        !(achievement.id in unlocked) &&
+        (achievement.condition as (payload: AchievementEventMap[K]) => boolean)(payload)
+    );
+}
+
+/**
+ * Checks an event and stores the achievements it unlocks; unlocks are kept for good
+ * @param event - Event that fired
+ * @param payload - The event's payload
+ * @param now - Unlock time (now if omitted)
+ * @returns The achievements unlocked just now, for the toast
+ */
+export function recordAchievementEvent<K extends AchievementEventName>(
+    event: K,
+    payload: AchievementEventMap[K],
+    now: number = Date.now()
+): Achievement[] {
+    const unlocked = getUnlockedAchievements();
+    const earned = checkAchievements(event, payload, unlocked);
+    if (earned.length === 0) {
+        return [];
+    }
+    earned.forEach(achievement => {
+        unlocked[achievement.id] = now;
+    });
+    try {
+        localStorage.setItem(STORAGE_KEYS.achievements, JSON.stringify(unlocked));
+    } catch (e) {
+        console.warn('Failed to save achievements to localStorage:', e);
+    }
+    return earned;
+}
@@ -0,0 +1,67 @@
+/**
+ * Adaptive mode: reads how the player is doing from the board and recent clears, and turns that into
+ * a difficulty that sets the piece-size weights and how much of each hand is guaranteed to fit
+ */
+
+import { AdaptiveState } from './types';
+import { ADAPTIVE_CONFIG, GAMEPLAY_CONFIG } from './config';
+
+/**
+ * How a hand is dealt at a given difficulty
+ */
+export interface AdaptiveDealRules {
+    sizeBias: number;              // Piece weights are divided by size ^ sizeBias (1 = easy mode's small-piece bias)
+    guaranteedPieces: number;      // Pieces drawn until the hand so far fits together (the rest are dealt at random)
+}
+
+/**
+ * Starts the tracking for a new adaptive game
+ */
+export function createAdaptiveState(): AdaptiveState {
+    return {
+        difficulty: ADAPTIVE_CONFIG.initialDifficulty,
+        recentClears: [],
+        linesAtHandStart: 0,
+        nearDeathHands: 0,
+    };
+}
+
+/**
+ * Moves the difficulty at the end of a hand, before the next one is dealt
+ * Clearing more than ADAPTIVE_CONFIG.targetClearsPerHand lines per hand and keeping the board emptier than
+ * targetFill raise it; a fuller board or a slower clear rate lower it, and a nearly full board drops it sharply
+ * @param state - Tracking before the hand ended (not modified)
+ * @param fill - Share of playable cells filled now (see Board.getFillRatio)
+ * @param linesCleared - Lines cleared this game so far
+ * @returns Tracking for the next hand
+ */
+export function updateAdaptiveState(state: AdaptiveState, fill: number, linesCleared: number): AdaptiveState {
+    const recentClears = [...state.recentClears, linesCleared - state.linesAtHandStart].slice(-ADAPTIVE_CONFIG.recentHands);
+    const clearRate = recentClears.reduce((sum, lines) => sum + lines, 0) / recentClears.length;
+    const nearDeath = fill >= ADAPTIVE_CONFIG.nearDeathFill;
+    let change = (clearRate - ADAPTIVE_CONFIG.targetClearsPerHand) * ADAPTIVE_CONFIG.clearStep
+        - (fill - ADAPTIVE_CONFIG.targetFill) * ADAPTIVE_CONFIG.fillStep;
+    if (nearDeath) {
+        change -= ADAPTIVE_CONFIG.nearDeathDrop;
+    }
+    return {
+        difficulty: Math.min(1, Math.max(0, state.difficulty + change)),
+        recentClears,
+        linesAtHandStart: linesCleared,
+        nearDeathHands: state.nearDeathHands + (nearDeath ? 1 : 0),
+    };
+}
+
+/**
+ * Gets the dealing rules for a difficulty
+ * The size bias slides from easiestSizeBias to hardestSizeBias; the guarantee goes from the whole hand
+ * at difficulty 0 to nothing at difficulty 1
+ * @param difficulty - 0 (most relief) to 1 (no help)
+ */
+export function getAdaptiveDealRules(difficulty: number): AdaptiveDealRules {
+    const { easiestSizeBias, hardestSizeBias } = ADAPTIVE_CONFIG;
+    return {
+        sizeBias: easiestSizeBias + (hardestSizeBias - easiestSizeBias) * difficulty,
+        guaranteedPieces: Math.round(GAMEPLAY_CONFIG.shapesPerTurn * (1 - difficulty)),
+    };
+}
@@ -0,0 +1,241 @@
+/**
+ * Bot agents: strategies that look at the board and queue and decide the placements for the turn
+ * Agents only plan; the caller applies the plan (on a timer in the browser, directly in headless runs)
+ */
+
+import { Shape, TransformTokens, ReachableOrientation, RandomSource, AgentName } from './types';
+import { Board } from './board';
+import { getPlacementMasks, findFullLinesInBits, clearLinesInBits, bitsToGrid } from './bitboard';
+import { getReachableOrientations } from './shapes';
+import { solveHand, spendTokens, createWeightedEvaluation, SolverStep, EvaluationWeights } from './solver';
+import { randomInt } from './random';
+import { GameEngine } from './engine';
+import { SOLVER_CONFIG } from './config';
+
+/**
+ * What an agent sees when planning a turn
+ */
+export interface AgentView {
+    board: Board;                  // Board to plan on (agents must not modify it)
+    queue: (Shape | null)[];       // Queued pieces (empty slots are skipped)
+    tokens: TransformTokens;       // Rotations and mirrors the plan may spend
+}
+
+/**
+ * A strategy that plans a turn: state in, ordered placements out
+ */
+export interface Agent {
+    readonly name: AgentName;
+    /**
+     * Plans the placements for the turn
+     * @param view - Board, queue and tokens to plan with
+     * @param random - Random source for agents that make random choices
+     * @returns Placements in order; fewer than the queued pieces if the rest can't be placed
+     */
+    planTurn(view: AgentView, random: RandomSource): SolverStep[];
+}
+
+/**
+ * One placement an agent could make next, with the board it leads to
+ */
+interface Candidate {
+    step: SolverStep;
+    filled: bigint;                // Filled cells after the placement and its clears
+    linesCleared: number;          // Rows and columns the placement clears
+    tokens: TransformTokens;       // Tokens left after turning the piece
+}
+
+/**
+ * Picks the next placement from the candidates (never empty)
+ */
+type CandidateChooser = (candidates: Candidate[], board: Board, random: RandomSource) => Candidate;
+
+/**
+ * Lists every placement of the remaining pieces in the given orientations
+ */
+function listCandidates(
+    board: Board,
+    filled: bigint,
+    pieces: { shape: Shape; queueIndex: number }[],
+    tokens: TransformTokens,
+    orientationsOf: (shape: Shape) => ReachableOrientation[]
+): Candidate[] {
+    const size = board.getDimensions();
+    const layout = board.getLayout();
+    const playable = board.getPlayableBits();
+    const empty = playable & ~filled;
+    const candidates: Candidate[] = [];
+    for (const piece of pieces) {
+        for (const orientation of orientationsOf(piece.shape)) {
+            for (const { position, mask } of getPlacementMasks(orientation.shape, size)) {
+                if ((mask & empty) !== mask) continue;
+                const placed = filled | mask;
+                const lines = findFullLinesInBits(placed, playable, layout);
+                candidates.push({
+                    step: { queueIndex: piece.queueIndex, transforms: orientation.transforms, position: { ...position } },
+                    filled: clearLinesInBits(placed, lines, layout),
+                    linesCleared: lines.rows.length + lines.columns.length,
+                    tokens: spendTokens(tokens, orientation),
+                });
+            }
+        }
+    }
+    return candidates;
+}
+
+/**
+ * Plans a turn one placement at a time, letting the chooser pick each placement
+ * Pieces are only turned (spending tokens) when nothing fits as dealt
+ */
+function planStepByStep(view: AgentView, random: RandomSource, choose: CandidateChooser): SolverStep[] {
+    let filled = view.board.getFilledBits();
+    let tokens = view.tokens;
+    let remaining = view.queue
+        .map((shape, queueIndex) => ({ shape, queueIndex }))
+        .filter((piece): piece is { shape: Shape; queueIndex: number } => piece.shape !== null);
+    const steps: SolverStep[] = [];
+
+    while (remaining.length > 0) {
+        let candidates = listCandidates(view.board, filled, remaining, tokens, shape => [{ shape, transforms: [] }]);
+        if (candidates.length === 0) {
+            // The first reachable orientation is the piece as dealt, which was just tried
+            candidates = listCandidates(view.board, filled, remaining, tokens, shape => getReachableOrientations(shape, tokens).slice(1));
+        }
+        if (candidates.length === 0) {
+            break;
+        }
+        const chosen = choose(candidates, view.board, random);
+        steps.push(chosen.step);
+        filled = chosen.filled;
+        tokens = chosen.tokens;
+        remaining = remaining.filter(piece => piece.queueIndex !== chosen.step.queueIndex);
+    }
+    return steps;
+}
+
+/**
+ * Picks the first candidate with the highest score
+ */
+function bestCandidate(candidates: Candidate[], score: (candidate: Candidate) => number): Candidate {
+    let best = candidates[0];
+    let bestScore = score(best);
+    for (const candidate of candidates.slice(1)) {
+        const value = score(candidate);
+        if (value > bestScore) {
+            best = candidate;
+            bestScore = value;
+        }
+    }
+    return best;
+}
+
+/**
+ * Plays a random legal placement at every step
+ */
+export const randomAgent: Agent = {
+    name: 'random',
+    planTurn: (view, random) =>
+        planStepByStep(view, random, (candidates, _board, pick) => candidates[randomInt(candidates.length, pick)]),
+};
+
+/**
+ * Plays the placement that clears the most lines at every step (the first one found on ties)
+ */
+export const greedyAgent: Agent = {
+    name: 'greedy',
+    planTurn: (view, random) =>
+        planStepByStep(view, random, candidates => bestCandidate(candidates, candidate => candidate.linesCleared)),
+};
+
+/**
+ * Searches the whole hand with the solver and plays its best plan
+ * Pieces are only turned when the hand can't be placed as dealt
+ */
+export const lookaheadAgent: Agent = {
+    name: 'lookahead',
+    planTurn: view => {
+        const plan = solveHand(view.board, view.queue);
+        if (plan?.complete) {
+            return plan.steps;
+        }
+        const turned = solveHand(view.board, view.queue, { tokens: view.tokens });
+        if (turned && (!plan || turned.steps.length > plan.steps.length)) {
+            return turned.steps;
+        }
+        return plan?.steps ?? [];
+    },
+};
+
+/**
+ * Builds an agent that scores the board after each single placement with weighted features
+ * @param weights - How much each feature counts (SOLVER_CONFIG.weights if omitted)
+ */
+export function createWeightedAgent(weights: EvaluationWeights = SOLVER_CONFIG.weights): Agent {
+    const evaluate = createWeightedEvaluation(weights);
+    return {
+        name: 'weighted',
+        planTurn: (view, random) => {
+            const size = view.board.getDimensions();
+            const playable = view.board.getPlayableGrid();
+            return planStepByStep(view, random, candidates => bestCandidate(candidates, candidate =>
+                evaluate({ grid: bitsToGrid(candidate.filled, size), playable, linesCleared: candidate.linesCleared })
+            ));
+        },
+    };
+}
+
+/**
+ * Built-in agents by name
+ */
+export const AGENTS: Record<AgentName, Agent> = {
+    random: randomAgent,
+    greedy: greedyAgent,
+    lookahead: lookaheadAgent,
+    weighted: createWeightedAgent(),
+};
+
+/**
+ * Looks up a built-in agent
+ * @param name - Agent name (unknown names, e.g. from old settings, get the lookahead agent)
+ */
+export function getAgent(name: AgentName): Agent {
+    return AGENTS[name] ?? lookaheadAgent;
+}
+
+/**
+ * Builds an agent's view of an engine's current turn
+ */
+export function createAgentView(engine: GameEngine): AgentView {
+    return { board: engine.getBoard(), queue: engine.getState().queue, tokens: engine.getTransformTokens() };
+}
+
+/**
+ * Lets an agent play one turn on an engine, applying its plan directly
+ * @param engine - Engine to play on (deals must not be deferred)
+ * @param agent - Agent to plan the turn
+ * @param random - Random source for the agent (Math.random if omitted, so the engine's seeded source isn't advanced)
+ * @returns Number of pieces placed
+ */
+export function playAgentTurn(engine: GameEngine, agent: Agent, random: RandomSource = Math.random): number {
+    if (engine.getState().gameOver) {
+        return 0;
+    }
+    let placed = 0;
+    for (const { queueIndex, transforms, position } of agent.planTurn(createAgentView(engine), random)) {
+        for (const transform of transforms) {
+            if (!engine.transform(queueIndex, transform)) {
+                return placed;
+            }
+        }
+        const result = engine.place(queueIndex, position);
+        if (!result) {
+            return placed;
+        }
+        placed++;
+        // The rest of the plan was for the hand that just ended
+        if (result.queueRefilled || result.gameOver || engine.isDealPending()) {
+            return placed;
+        }
+    }
+    return placed;
+}
@@ -0,0 +1,181 @@
+/**
+ * Bitboard helpers: a W x H board packed into one BigInt, bit (y * width + x) per cell
+ * Placement masks for every shape and offset are precomputed once per board size, so a fit check
+ * is a single AND and a full line is a single compare against the line's playable cells
+ */
+
+import { Position, Shape, BoardSize } from './types';
+import { BOARD_CONFIG } from './config';
+
+/**
+ * Bit masks for the rows and columns of one board size
+ */
+export interface BitboardLayout {
+    width: number;
+    height: number;
+    rows: bigint[];                // Every cell of row y
+    columns: bigint[];             // Every cell of column x
+}
+
+/**
+ * One way to place a shape: where its top-left goes and the cells it covers
+ */
+export interface PlacementMask {
+    position: Position;
+    mask: bigint;
+}
+
+// Single-cell bits for every index a supported board can have
+const CELL_BITS: bigint[] = Array.from({ length: BOARD_CONFIG.maxCellCount * BOARD_CONFIG.maxCellCount }, (_, i) => 1n << BigInt(i));
+const layouts = new Map<string, BitboardLayout>();
+const placementMasks = new Map<string, Map<string, PlacementMask[]>>();
+
+/**
+ * Gets the bit for a cell
+ * @param width - Board width in cells
+ * @param x - Column index
+ * @param y - Row index
+ */
+export function cellBit(width: number, x: number, y: number): bigint {
+    return CELL_BITS[y * width + x] ?? 1n << BigInt(y * width + x);
+}
+
+/**
+ * Gets the row and column masks for a board size (built once per size)
+ * @param size - Board dimensions in cells
+ */
+export function getBitboardLayout(size: BoardSize): BitboardLayout {
+    const key = `${size.width}x${size.height}`;
+    let layout = layouts.get(key);
+    if (!layout) {
+        const rows = Array.from({ length: size.height }, (_, y) =>
+            Array.from({ length: size.width }, (__, x) => cellBit(size.width, x, y)).reduce((a, b) => a | b, 0n)
+        );
+        const columns = Array.from({ length: size.width }, (_, x) =>
+            Array.from({ length: size.height }, (__, y) => cellBit(size.width, x, y)).reduce((a, b) => a | b, 0n)
+        );
+        layout = { width: size.width, height: size.height, rows, columns };
+        layouts.set(key, layout);
+    }
+    return layout;
+}
+
+/**
+ * Packs a [y][x] grid of booleans into bits
+ * @param grid - Cells to pack (true = set)
+ */
+export function gridToBits(grid: boolean[][]): bigint {
+    const width = grid.length > 0 ? grid[0].length : 0;
+    let bits = 0n;
+    for (let y = 0; y < grid.length; y++) {
+        for (let x = 0; x < grid[y].length; x++) {
+            if (grid[y][x]) {
+                bits |= cellBit(width, x, y);
+            }
+        }
+    }
+    return bits;
+}
+
+/**
+ * Counts the set bits
+ * @param bits - Packed cells
+ */
+export function countBits(bits: bigint): number {
+    let count = 0;
+    let rest = bits;
+    while (rest > 0n) {
+        rest &= rest - 1n;
+        count++;
+    }
+    return count;
+}
+
+/**
+ * Unpacks bits into a [y][x] grid of booleans
+ * @param bits - Packed cells
+ * @param size - Board dimensions in cells
+ */
+export function bitsToGrid(bits: bigint, size: BoardSize): boolean[][] {
+    const grid: boolean[][] = [];
+    let rest = bits;
+    for (let y = 0; y < size.height; y++) {
+        const row: boolean[] = [];
+        for (let x = 0; x < size.width; x++) {
+            row.push((rest & 1n) === 1n);
+            rest >>= 1n;
+        }
+        grid.push(row);
+    }
+    return grid;
+}
+
+/**
+ * Gets every in-bounds placement of a shape (built once per shape and board size)
+ * Positions are in row-major order, matching the order getValidPositions reports them
+ * @param shape - The shape to place
+ * @param size - Board dimensions in cells
+ */
+export function getPlacementMasks(shape: Shape, size: BoardSize): PlacementMask[] {
+    const sizeKey = `${size.width}x${size.height}`;
+    let bySize = placementMasks.get(sizeKey);
+    if (!bySize) {
+        bySize = new Map();
+        placementMasks.set(sizeKey, bySize);
+    }
+    const shapeKey = shape.map(block => `${block.x},${block.y}`).join(';');
+    let masks = bySize.get(shapeKey);
+    if (!masks) {
+        masks = [];
+        for (let y = 0; y < size.height; y++) {
+            for (let x = 0; x < size.width; x++) {
+                const inBounds = shape.every(block =>
+                    x + block.x >= 0 && x + block.x < size.width && y + block.y >= 0 && y + block.y < size.height
+                );
+                if (inBounds) {
+                    const mask = shape.reduce((bits, block) => bits | cellBit(size.width, x + block.x, y + block.y), 0n);
+                    masks.push({ position: { x, y }, mask });
+                }
+            }
+        }
+        bySize.set(shapeKey, masks);
+    }
+    return masks;
+}
+
+/**
+ * Finds the rows and columns whose playable cells are all filled
+ * Lines with no playable cells never count as full
+ * @param filled - Filled cells
+ * @param playable - Playable cells
+ * @param layout - Line masks for the board size
+ */
+export function findFullLinesInBits(filled: bigint, playable: bigint, layout: BitboardLayout): { rows: number[]; columns: number[] } {
+    const isFull = (line: bigint) => {
+        const cells = line & playable;
+        return cells !== 0n && (filled & cells) === cells;
+    };
+    const rows: number[] = [];
+    const columns: number[] = [];
+    layout.rows.forEach((line, row) => {
+        if (isFull(line)) rows.push(row);
+    });
+    layout.columns.forEach((line, col) => {
+        if (isFull(line)) columns.push(col);
+    });
+    return { rows, columns };
+}
+
+/**
+ * Empties the given rows and columns
+ * @param filled - Filled cells
+ * @param lines - Rows and columns to clear
+ * @param layout - Line masks for the board size
+ * @returns The filled cells left
+ */
+export function clearLinesInBits(filled: bigint, lines: { rows: number[]; columns: number[] }, layout: BitboardLayout): bigint {
+    let cleared = 0n;
+    for (const row of lines.rows) cleared |= layout.rows[row];
+    for (const col of lines.columns) cleared |= layout.columns[col];
+    return filled & ~cleared;
+}
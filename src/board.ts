@@ -1,44 +1,221 @@
 /**
- * Game board management for the 8x8 grid
+ * Game board management for the W x H grid
  */
 
-import { Position, Shape, PlacedBlock } from './types';
-import { BOARD_CELL_COUNT } from './constants';
+import { Position, Shape, BoardSize, BoardMask, BoardCellType } from './types';
+import { DEFAULT_BOARD_SIZE } from './constants';
+import { BOARD_CONFIG, BOARD_MASK_CHARS } from './config';
+import { BitboardLayout, getBitboardLayout, cellBit, gridToBits, bitsToGrid, countBits, findFullLinesInBits } from './bitboard';
 
-const BOARD_SIZE = BOARD_CELL_COUNT;
+/**
+ * Checks that untrusted data (a stored save or pasted replay) describes a supported board size
+ * @param size - value to check
+ */
+export function isValidBoardSize(size: unknown): size is BoardSize {
+    if (!size || typeof size !== 'object') {
+        return false;
+    }
+    const { width, height } = size as Partial<BoardSize>;
+    return [width, height].every(side =>
+        Number.isInteger(side) &&
+        (side as number) >= BOARD_CONFIG.minCellCount &&
+        (side as number) <= BOARD_CONFIG.maxCellCount
+    );
+}
+
+/**
+ * Checks that untrusted data is a mask of the given size using only known cell characters
+ * @param mask - value to check
+ * @param size - dimensions the mask must have
+ */
+export function isValidBoardMask(mask: unknown, size: BoardSize): mask is BoardMask {
+    const chars: string[] = Object.values(BOARD_MASK_CHARS);
+    return Array.isArray(mask) &&
+        mask.length === size.height &&
+        mask.every(row =>
+            typeof row === 'string' &&
+            row.length === size.width &&
+            [...row].every(char => chars.includes(char))
+        ) &&
+        mask.some(row => row.includes(BOARD_MASK_CHARS.open));
+}
 
 /**
- * Board class manages the 8x8 game grid
+ * Finds the rows and columns whose playable cells are all filled
+ * Lines with no playable cells never count as full
+ * @param grid - Filled cells, indexed [y][x]
+ * @param playable - Playable cells, same dimensions as grid
+ * @returns Indices of the full rows and columns
+ */
+export function findFullLines(grid: boolean[][], playable: boolean[][]): { rows: number[]; columns: number[] } {
+    const height = grid.length;
+    const width = height > 0 ? grid[0].length : 0;
+    return findFullLinesInBits(gridToBits(grid), gridToBits(playable), getBitboardLayout({ width, height }));
+}
+
+/**
+ * Board class manages the game grid
  * Tracks which cells are filled and provides operations for placing shapes
+ * Cells are stored as bitboards (see bitboard.ts); the [y][x] grid methods are a façade over them
  */
 export class Board {
-    private grid: boolean[][];
+    private width: number;
+    private height: number;
+    private layout: BitboardLayout;
+    private filled: bigint = 0n;            // Filled cells
+    private mask: BoardMask | null = null;  // null = every cell is open
+    private playable: bigint;               // Cells that can be filled
+
+    /**
+     * @param size - Board dimensions in cells (defaults to the standard 8x8)
+     * @param mask - Blocked and missing cells (every cell is open if omitted)
+     */
+    constructor(size: BoardSize = DEFAULT_BOARD_SIZE, mask: BoardMask | null = null) {
+        this.width = size.width;
+        this.height = size.height;
+        this.layout = getBitboardLayout(size);
+        this.playable = this.applyMask(mask);
+    }
+
+    /**
+     * Stores a mask for the current dimensions and derives the playable cells from it
+     * @param mask - Mask to apply, or null for a plain board
+     * @returns The playable cells
+     */
+    private applyMask(mask: BoardMask | null): bigint {
+        if (mask && !isValidBoardMask(mask, this.getDimensions())) {
+            throw new Error(`Board mask does not describe a ${this.width}x${this.height} board`);
+        }
+        this.mask = mask ? [...mask] : null;
+        return gridToBits(Array(this.height).fill(null).map((_, y) =>
+            Array(this.width).fill(null).map((__, x) => !mask || mask[y][x] === BOARD_MASK_CHARS.open)
+        ));
+    }
 
-    constructor() {
-        // Initialize empty 8x8 grid
-        this.grid = Array(BOARD_SIZE).fill(null).map(() => 
-            Array(BOARD_SIZE).fill(false)
-        );
+    /**
+     * Gets the bit for a cell (the position must be in bounds)
+     */
+    private bit(pos: Position): bigint {
+        return cellBit(this.width, pos.x, pos.y);
+    }
+
+    /**
+     * Checks if a position lies on the board
+     * @param pos - Grid position to check
+     */
+    isInBounds(pos: Position): boolean {
+        return pos.x >= 0 && pos.x < this.width && pos.y >= 0 && pos.y < this.height;
+    }
+
+    /**
+     * Gets what kind of cell is at a position (positions off the board are missing)
+     * @param pos - Grid position to check
+     */
+    getCellType(pos: Position): BoardCellType {
+        if (!this.isInBounds(pos)) {
+            return 'missing';
+        }
+        if (!this.mask) {
+            return 'open';
+        }
+        const char = this.mask[pos.y][pos.x];
+        return char === BOARD_MASK_CHARS.open ? 'open' : char === BOARD_MASK_CHARS.blocked ? 'blocked' : 'missing';
+    }
+
+    /**
+     * Checks if a cell can ever hold a block (on the board and not blocked or missing)
+     * @param pos - Grid position to check
+     */
+    isPlayable(pos: Position): boolean {
+        return this.isInBounds(pos) && (this.playable & this.bit(pos)) !== 0n;
     }
 
     /**
      * Checks if a cell at the given position is empty
      * @param pos - Grid position to check
-     * @returns True if the cell is empty (within bounds and not filled)
+     * @returns True if the cell is empty (playable and not filled)
      */
     isCellEmpty(pos: Position): boolean {
-        if (pos.x < 0 || pos.x >= BOARD_SIZE || pos.y < 0 || pos.y >= BOARD_SIZE) {
+        if (!this.isPlayable(pos)) {
             return false;
         }
-        return !this.grid[pos.y][pos.x];
+        return (this.filled & this.bit(pos)) === 0n;
+    }
+
+    /**
+     * Gets the board mask
+     * @returns A copy of the mask rows, or null if every cell is open
+     */
+    getMask(): BoardMask | null {
+        return this.mask ? [...this.mask] : null;
+    }
+
+    /**
+     * Gets which cells can hold blocks
+     * @returns The playable grid, indexed [y][x]
+     */
+    getPlayableGrid(): boolean[][] {
+        return bitsToGrid(this.playable, this.getDimensions());
     }
 
     /**
      * Gets the current state of the board
-     * @returns A copy of the grid array
+     * @returns The filled grid, indexed [y][x]
      */
     getGrid(): boolean[][] {
-        return this.grid.map(row => [...row]);
+        return bitsToGrid(this.filled, this.getDimensions());
+    }
+
+    /**
+     * Replaces the whole grid (e.g. when restoring an earlier state)
+     * @param grid - Grid to copy, indexed [y][x]
+     */
+    setGrid(grid: boolean[][]): void {
+        this.filled = gridToBits(grid);
+    }
+
+    /**
+     * Gets the filled cells as a bitboard
+     */
+    getFilledBits(): bigint {
+        return this.filled;
+    }
+
+    /**
+     * Replaces the filled cells with a bitboard (e.g. from a solver or bot lookahead)
+     * @param bits - Filled cells
+     */
+    setFilledBits(bits: bigint): void {
+        this.filled = bits;
+    }
+
+    /**
+     * Gets the playable cells as a bitboard
+     */
+    getPlayableBits(): bigint {
+        return this.playable;
+    }
+
+    /**
+     * Gets the cells a piece could go in (playable and empty) as a bitboard
+     */
+    getEmptyBits(): bigint {
+        return this.playable & ~this.filled;
+    }
+
+    /**
+     * Gets the share of playable cells that are filled (0 = empty, 1 = full)
+     */
+    getFillRatio(): number {
+        const playable = countBits(this.playable);
+        return playable > 0 ? countBits(this.filled & this.playable) / playable : 0;
+    }
+
+    /**
+     * Gets the row and column masks for the board's size
+     */
+    getLayout(): BitboardLayout {
+        return this.layout;
     }
 
     /**
@@ -49,10 +226,9 @@ export class Board {
      */
     placeShape(shape: Shape, position: Position): void {
         for (const block of shape) {
-            const x = position.x + block.x;
-            const y = position.y + block.y;
-            if (x >= 0 && x < BOARD_SIZE && y >= 0 && y < BOARD_SIZE) {
-                this.grid[y][x] = true;
+            const cell = { x: position.x + block.x, y: position.y + block.y };
+            if (this.isPlayable(cell)) {
+                this.filled |= this.bit(cell);
             }
         }
     }
@@ -65,68 +241,65 @@ export class Board {
      */
     removeShape(shape: Shape, position: Position): void {
         for (const block of shape) {
-            const x = position.x + block.x;
-            const y = position.y + block.y;
-            if (x >= 0 && x < BOARD_SIZE && y >= 0 && y < BOARD_SIZE) {
-                this.grid[y][x] = false;
-            }
+            this.clearCell(position.x + block.x, position.y + block.y);
         }
     }
 
     /**
      * Clears a specific row by setting all cells in that row to empty
-     * @param row - Row index (0-7)
+     * @param row - Row index
      */
     clearRow(row: number): void {
-        if (row >= 0 && row < BOARD_SIZE) {
-            this.grid[row].fill(false);
+        if (row >= 0 && row < this.height) {
+            this.filled &= ~this.layout.rows[row];
         }
     }
 
     /**
      * Clears a specific column by setting all cells in that column to empty
-     * @param col - Column index (0-7)
+     * @param col - Column index
      */
     clearColumn(col: number): void {
-        if (col >= 0 && col < BOARD_SIZE) {
-            for (let row = 0; row < BOARD_SIZE; row++) {
-                this.grid[row][col] = false;
-            }
+        if (col >= 0 && col < this.width) {
+            this.filled &= ~this.layout.columns[col];
         }
     }
 
     /**
      * Clears a specific cell by setting it to empty
-     * @param x - Column index (0-7)
-     * @param y - Row index (0-7)
+     * @param x - Column index
+     * @param y - Row index
      */
     clearCell(x: number, y: number): void {
-        if (x >= 0 && x < BOARD_SIZE && y >= 0 && y < BOARD_SIZE) {
-            this.grid[y][x] = false;
+        if (this.isInBounds({ x, y })) {
+            this.filled &= ~this.bit({ x, y });
         }
     }
 
+    /**
+     * Checks if a line's playable cells are all filled (false if it has none)
+     */
+    private isLineFull(line: bigint): boolean {
+        const cells = line & this.playable;
+        return cells !== 0n && (this.filled & cells) === cells;
+    }
+
     /**
      * Checks if a row is completely filled
      * @param row - Row index to check
-     * @returns True if all cells in the row are filled
+     * @returns True if the row has playable cells and all of them are filled
      */
     isRowFull(row: number): boolean {
-        if (row < 0 || row >= BOARD_SIZE) return false;
-        return this.grid[row].every(cell => cell === true);
+        return row >= 0 && row < this.height && this.isLineFull(this.layout.rows[row]);
     }
 
     /**
      * Checks if a column is completely filled
      * @param col - Column index to check
-     * @returns True if all cells in the column are filled
+     * @returns True if the column has playable cells and all of them are filled
      */
     isColumnFull(col: number): boolean {
-        if (col < 0 || col >= BOARD_SIZE) return false;
-        for (let row = 0; row < BOARD_SIZE; row++) {
-            if (!this.grid[row][col]) return false;
-        }
-        return true;
+        return col >= 0 && col < this.width && this.isLineFull(this.layout.columns[col]);
     }
 
     /**
@@ -134,13 +307,7 @@ export class Board {
      * @returns Array of row indices that are full
      */
     getFullRows(): number[] {
-        const fullRows: number[] = [];
-        for (let row = 0; row < BOARD_SIZE; row++) {
-            if (this.isRowFull(row)) {
-                fullRows.push(row);
-            }
-        }
-        return fullRows;
+        return findFullLinesInBits(this.filled, this.playable, this.layout).rows;
     }
 
     /**
@@ -148,24 +315,19 @@ export class Board {
      * @returns Array of column indices that are full
      */
     getFullColumns(): number[] {
-        const fullColumns: number[] = [];
-        for (let col = 0; col < BOARD_SIZE; col++) {
-            if (this.isColumnFull(col)) {
-                fullColumns.push(col);
-            }
-        }
-        return fullColumns;
+        return findFullLinesInBits(this.filled, this.playable, this.layout).columns;
     }
 
     /**
      * Gets all empty cells on the board
-     * @returns Array of positions that are empty
+     * @returns Array of playable positions that are empty
      */
     getEmptyCells(): Position[] {
+        const empty = this.getEmptyBits();
         const emptyCells: Position[] = [];
-        for (let y = 0; y < BOARD_SIZE; y++) {
-            for (let x = 0; x < BOARD_SIZE; x++) {
-                if (!this.grid[y][x]) {
+        for (let y = 0; y < this.height; y++) {
+            for (let x = 0; x < this.width; x++) {
+                if ((empty & this.bit({ x, y })) !== 0n) {
                     emptyCells.push({ x, y });
                 }
             }
@@ -177,31 +339,51 @@ export class Board {
      * Checks if the board has no filled cells
      */
     isEmpty(): boolean {
-        for (let y = 0; y < BOARD_SIZE; y++) {
-            for (let x = 0; x < BOARD_SIZE; x++) {
-                if (this.grid[y][x]) {
-                    return false;
-                }
-            }
-        }
-        return true;
+        return this.filled === 0n;
     }
 
     /**
      * Resets the board to an empty state
+     * @param size - New dimensions (keeps the current ones if omitted)
+     * @param mask - New mask, or null for a plain board (if omitted, the current mask is kept when the size is unchanged)
      */
-    reset(): void {
-        this.grid = Array(BOARD_SIZE).fill(null).map(() => 
-            Array(BOARD_SIZE).fill(false)
-        );
+    reset(size: BoardSize = this.getDimensions(), mask?: BoardMask | null): void {
+        const sameSize = size.width === this.width && size.height === this.height;
+        const nextMask = mask !== undefined ? mask : sameSize ? this.mask : null;
+        this.width = size.width;
+        this.height = size.height;
+        this.layout = getBitboardLayout(size);
+        this.filled = 0n;
+        this.playable = this.applyMask(nextMask);
     }
 
     /**
-     * Gets the board size (always 8 for this game)
-     * @returns The board size
+     * Gets the board width (the side length for square boards)
+     * @returns The number of columns
      */
     getSize(): number {
-        return BOARD_SIZE;
+        return this.width;
+    }
+
+    /**
+     * Gets the number of columns
+     */
+    getWidth(): number {
+        return this.width;
+    }
+
+    /**
+     * Gets the number of rows
+     */
+    getHeight(): number {
+        return this.height;
+    }
+
+    /**
+     * Gets the board dimensions
+     */
+    getDimensions(): BoardSize {
+        return { width: this.width, height: this.height };
     }
 
     /**
@@ -212,42 +394,13 @@ export class Board {
      * @returns Object with arrays of row and column indices that would be full
      */
     getFullLinesIfPlaced(shape: Shape, position: Position): { rows: number[]; columns: number[] } {
-        // Create a temporary grid with the shape placed
-        const tempGrid = this.grid.map(row => [...row]);
-        
-        // Place shape on temp grid
+        let placed = this.filled;
         for (const block of shape) {
-            const x = position.x + block.x;
-            const y = position.y + block.y;
-            if (x >= 0 && x < BOARD_SIZE && y >= 0 && y < BOARD_SIZE) {
-                tempGrid[y][x] = true;
+            const cell = { x: position.x + block.x, y: position.y + block.y };
+            if (this.isPlayable(cell)) {
+                placed |= this.bit(cell);
             }
         }
-        
-        // Check which rows would be full
-        const fullRows: number[] = [];
-        for (let row = 0; row < BOARD_SIZE; row++) {
-            if (tempGrid[row].every(cell => cell === true)) {
-                fullRows.push(row);
-            }
-        }
-        
-        // Check which columns would be full
-        const fullColumns: number[] = [];
-        for (let col = 0; col < BOARD_SIZE; col++) {
-            let isFull = true;
-            for (let row = 0; row < BOARD_SIZE; row++) {
-                if (!tempGrid[row][col]) {
-                    isFull = false;
-                    break;
-                }
-            }
-            if (isFull) {
-                fullColumns.push(col);
-            }
-        }
-        
-        return { rows: fullRows, columns: fullColumns };
+        return findFullLinesInBits(placed, this.playable, this.layout);
     }
 }
-
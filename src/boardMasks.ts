@@ -0,0 +1,76 @@
+/**
+ * Built-in board outlines, generated to fit any board size
+ */
+
+import { BoardMask, BoardSize, BoardShapeName } from './types';
+import { BOARD_MASK_CHARS } from './config';
+
+/**
+ * Every built-in board outline, plain square first
+ */
+export const BOARD_SHAPE_NAMES: readonly BoardShapeName[] = ['square', 'cross', 'donut', 'pillars'];
+
+/**
+ * Builds mask rows by asking for the character of every cell
+ */
+function buildMask(size: BoardSize, cellAt: (x: number, y: number) => string): BoardMask {
+    return Array.from({ length: size.height }, (_, y) =>
+        Array.from({ length: size.width }, (__, x) => cellAt(x, y)).join('')
+    );
+}
+
+/**
+ * Plus-shaped board: a square missing from each corner
+ */
+function createCrossMask(size: BoardSize): BoardMask {
+    const cornerWidth = Math.floor(size.width / 4);
+    const cornerHeight = Math.floor(size.height / 4);
+    return buildMask(size, (x, y) => {
+        const inCornerColumn = x < cornerWidth || x >= size.width - cornerWidth;
+        const inCornerRow = y < cornerHeight || y >= size.height - cornerHeight;
+        return inCornerColumn && inCornerRow ? BOARD_MASK_CHARS.missing : BOARD_MASK_CHARS.open;
+    });
+}
+
+/**
+ * Ring-shaped board: a hole in the middle
+ */
+function createDonutMask(size: BoardSize): BoardMask {
+    const ringWidth = Math.floor(size.width * 3 / 8);
+    const ringHeight = Math.floor(size.height * 3 / 8);
+    return buildMask(size, (x, y) => {
+        const inHoleColumn = x >= ringWidth && x < size.width - ringWidth;
+        const inHoleRow = y >= ringHeight && y < size.height - ringHeight;
+        return inHoleColumn && inHoleRow ? BOARD_MASK_CHARS.missing : BOARD_MASK_CHARS.open;
+    });
+}
+
+/**
+ * Full board with four blocked cells placed symmetrically a quarter of the way in
+ */
+function createPillarsMask(size: BoardSize): BoardMask {
+    const columns = [Math.floor(size.width / 4), size.width - 1 - Math.floor(size.width / 4)];
+    const rows = [Math.floor(size.height / 4), size.height - 1 - Math.floor(size.height / 4)];
+    return buildMask(size, (x, y) =>
+        columns.includes(x) && rows.includes(y) ? BOARD_MASK_CHARS.blocked : BOARD_MASK_CHARS.open
+    );
+}
+
+/**
+ * Creates the mask for a built-in board outline
+ * @param shape - Outline name
+ * @param size - Board dimensions the mask should cover
+ * @returns The mask, or null for a plain square board
+ */
+export function createBoardMask(shape: BoardShapeName, size: BoardSize): BoardMask | null {
+    switch (shape) {
+        case 'cross':
+            return createCrossMask(size);
+        case 'donut':
+            return createDonutMask(size);
+        case 'pillars':
+            return createPillarsMask(size);
+        case 'square':
+            return null;
+    }
+}
@@ -3,13 +3,42 @@
  * This file contains all hardcoded values that could be adjusted for game balance or behavior
  */
 
-import { GameSettings } from './types';
+import { GameSettings, GameMode, ModeRules, BoardSize, BoardSizeName } from './types';
 
 /**
  * Board configuration
+ * cellCount is the side of the standard board; other sizes come from BOARD_SIZE_PRESETS
  */
 export const BOARD_CONFIG = {
     cellCount: 8,
+    minCellCount: 4,
+    maxCellCount: 16,
+} as const;
+
+/**
+ * Limits for piece packs loaded at runtime
+ */
+export const PIECE_PACK_CONFIG = {
+    maxPieces: 64,
+    maxPieceSpan: 5, // Widest/tallest a piece may be, in cells
+} as const;
+
+/**
+ * Board sizes offered in the settings panel
+ */
+export const BOARD_SIZE_PRESETS: Record<BoardSizeName, BoardSize> = {
+    quick: { width: 6, height: 6 },
+    standard: { width: BOARD_CONFIG.cellCount, height: BOARD_CONFIG.cellCount },
+    marathon: { width: 10, height: 10 },
+};
+
+/**
+ * Characters used in board mask rows
+ */
+export const BOARD_MASK_CHARS = {
+    open: '.',
+    blocked: '#',
+    missing: ' ',
 } as const;
 
 /**
@@ -35,6 +64,7 @@ export const ANIMATION_CONFIG = {
     pulseCycleMs: 1000, // Duration of one pulse cycle
     explosionMs: 500, // Duration of explosion animation
     levelUpMs: 2000, // Duration of level up text animation
+    achievementToastMs: 3000, // How long each achievement toast stays on the board
 } as const;
 
 /**
@@ -48,10 +78,128 @@ export const GAME_OVER_CONFIG = {
 
 /**
  * Easy mode shape generation configuration
+ * attemptsPerPiece: draws tried for each piece before the rest of the hand is dealt at random
  */
 export const EASY_MODE_CONFIG = {
-    maxOptimisticAttempts: 10,
-    fallbackAttempts: 20,
+    attemptsPerPiece: 50,
+} as const;
+
+/**
+ * Adaptive mode configuration (see adaptive.ts)
+ * Difficulty runs from 0 (most relief) to 1 (no help) and moves a little at every deal:
+ * up while the player clears lines and keeps the board open, down as the board fills, sharply when it is nearly full
+ */
+export const ADAPTIVE_CONFIG = {
+    initialDifficulty: 0.5,
+    recentHands: 4,             // Hands the clear rate is averaged over
+    targetClearsPerHand: 1,     // Clear rate that holds the difficulty steady on a comfortable board
+    clearStep: 0.1,             // Difficulty change per line per hand above or below the target
+    targetFill: 0.35,           // Board fill that holds the difficulty steady
+    fillStep: 0.5,              // Difficulty change per unit of fill above or below the target
+    nearDeathFill: 0.65,        // Fill at which the player counts as close to losing
+    nearDeathDrop: 0.15,        // Extra difficulty drop for a hand dealt onto a nearly full board
+    easiestSizeBias: 1,         // Piece weights are divided by size ^ bias: 1 favors small pieces like easy mode,
+    hardestSizeBias: -0.5,      // 0 deals by weight like hard mode, below 0 favors big pieces
+} as const;
+
+/**
+ * Blitz mode configuration
+ * The clock only runs while the tab is visible and a live game is waiting for a move
+ */
+export const BLITZ_CONFIG = {
+    timeLimitSeconds: 180,      // Clock at the start of a game
+    bonusSecondsPerLine: 2,     // Added for every row or column cleared
+    boardClearBonusSeconds: 5,  // Added on top when a clear empties the board
+    warningSeconds: 10,         // The countdown is highlighted from here on
+} as const;
+
+/**
+ * Zen mode configuration
+ * reliefShare: share of the filled cells cleared when no piece fits, oldest blocks first
+ * (more blocks go if a piece still doesn't fit)
+ */
+export const ZEN_CONFIG = {
+    reliefShare: 0.5,
+} as const;
+
+/**
+ * Hand solver configuration
+ * maxNodes: boards searched before the search settles for the best plan found so far; three pieces on an empty
+ * 8x8 board need up to about 65,000, so an opening hand without turns is always searched in full; with rotation
+ * and mirror tokens an open board has far more plans, and the search settles for the best it found in time
+ * weights: default evaluation of the board after the hand (see createWeightedEvaluation)
+ */
+export const SOLVER_CONFIG = {
+    maxNodes: 100000,
+    weights: {
+        linesCleared: 10,  // Per line cleared while playing the hand
+        emptyCells: 1,     // Per empty playable cell left
+        holes: 4,          // Penalty per empty cell boxed in on all four sides
+        regions: 3,        // Penalty per empty region beyond the first
+    },
+} as const;
+
+/**
+ * Bot play configuration (Auto Place and the watch-the-bot demo)
+ */
+export const BOT_CONFIG = {
+    autoPlaceIntervalMs: 100, // Time between Auto Place placements
+    demoMoveIntervalMs: 450,  // Time between placements in the demo
+    demoTurnPauseMs: 700,     // Pause before the demo plays the next hand
+} as const;
+
+/**
+ * Headless batch simulation configuration (see simulation.ts)
+ * maxTurns: placements after which a simulated game is stopped (easy mode games can run very long)
+ * agentSeedMask: mixed into each game's seed to seed the agent's own random source
+ */
+export const SIMULATION_CONFIG = {
+    maxTurns: 2000,
+    agentSeedMask: 0x5bd1e995,
+} as const;
+
+/**
+ * Per-mode rules
+ * undoLimit: undos allowed per game (null = unlimited, 0 = disabled)
+ * rotationTokens / mirrorTokens: player rotations and mirrors of queued pieces per game (same convention)
+ * hintLimit: solver hints per game (same convention)
+ * endless: running out of moves clears the oldest blocks (ZEN_CONFIG) instead of ending the game
+ * Adaptive mode deals by its current difficulty (ADAPTIVE_CONFIG) and sits between easy and hard on the rest
+ * Blitz mode deals like easy mode against the clock (BLITZ_CONFIG), with no undo or hints
+ * Zen mode deals like easy mode, allows everything and never ends; it keeps stats instead of high scores
+ */
+export const MODE_RULES: Record<GameMode, ModeRules> = {
+    easy: { undoLimit: 3, rotationTokens: null, mirrorTokens: 3, hintLimit: 3, endless: false },
+    hard: { undoLimit: 0, rotationTokens: 0, mirrorTokens: 0, hintLimit: 0, endless: false },
+    adaptive: { undoLimit: 1, rotationTokens: null, mirrorTokens: 1, hintLimit: 1, endless: false },
+    blitz: { undoLimit: 0, rotationTokens: null, mirrorTokens: null, hintLimit: 0, endless: false },
+    zen: { undoLimit: null, rotationTokens: null, mirrorTokens: null, hintLimit: null, endless: true },
+};
+
+/**
+ * Authored puzzles (see puzzles.ts)
+ * seed: deals the shuffled point values, so every attempt at a puzzle scores the same
+ * rules: what every puzzle allows; a puzzle file can grant rotation and mirror tokens
+ * solverMaxNodes: placements the editor's solvability check tries before giving up (see solvePuzzle)
+ * exportUrlLifetimeMs: how long an exported file's download URL is kept; browsers may read the file well after the click
+ */
+export const PUZZLE_CONFIG = {
+    seed: 1,
+    rules: { undoLimit: null, rotationTokens: 0, mirrorTokens: 0, hintLimit: 0, endless: false } as ModeRules,
+    solverMaxNodes: 20000,
+    exportUrlLifetimeMs: 40000,
+} as const;
+
+/**
+ * Daily challenge (see daily.ts)
+ * Hard mode deals from the seed alone, so every player gets the same pieces whatever they do with them;
+ * the game is always on a plain standard board with the classic pieces and no hold slot
+ * historyDays: days shown in the history calendar, ending today
+ */
+export const DAILY_CONFIG = {
+    mode: 'hard' as GameMode,
+    historyDays: 28,
+    shareTitle: 'ochoXocho Daily',
 } as const;
 
 /**
@@ -112,8 +260,13 @@ export const DEFAULT_SETTINGS: GameSettings = {
     soundEnabled: true,
     theme: 'classic',
     mode: 'easy',
+    boardSize: 'standard',
+    boardShape: 'square',
     showPointValues: true, // Dev setting: off by default
+    showDevOverlay: false, // Dev setting
     autoplaceEnabled: true, // Autoplace button enabled by default
+    botStrategy: 'lookahead',
+    holdSlot: { easy: true, hard: false, adaptive: true, blitz: true, zen: true },
 };
 
 /**
@@ -124,9 +277,45 @@ export const STORAGE_KEYS = {
     highScores: {
         easy: 'ochoXocho_highScores_easy',
         hard: 'ochoXocho_highScores_hard',
+        adaptive: 'ochoXocho_highScores_adaptive',
+        blitz: 'ochoXocho_highScores_blitz',
+    },
+    zenStats: 'ochoXocho_zenStats',
+    puzzleProgress: 'ochoXocho_puzzleProgress',
+    dailyResults: 'ochoXocho_dailyResults',
+    achievements: 'ochoXocho_achievements',
+    savedGame: 'ochoXocho_savedGame',
+    piecePack: 'ochoXocho_piecePack',
+    replays: {
+        last: 'ochoXocho_replay_last',
+        best: {
+            easy: 'ochoXocho_replay_best_easy',
+            hard: 'ochoXocho_replay_best_hard',
+            adaptive: 'ochoXocho_replay_best_adaptive',
+            blitz: 'ochoXocho_replay_best_blitz',
+            zen: 'ochoXocho_replay_best_zen',
+        },
     },
 } as const;
 
+/**
+ * Saved game configuration
+ * Bump version whenever the SavedGame format or the classic piece pack changes; older saves are discarded
+ */
+export const SAVE_GAME_CONFIG = {
+    version: 5,
+} as const;
+
+/**
+ * Replay recording and playback configuration
+ * Bump version whenever a seed would deal differently (e.g. the classic piece pack changes); older replays are discarded
+ */
+export const REPLAY_CONFIG = {
+    version: 4,
+    stepIntervalMs: 700, // Time between moves at 1x speed
+    speeds: [0.5, 1, 2, 4], // Cycled by the speed button
+} as const;
+
 /**
  * High score configuration
  */
@@ -3,10 +3,12 @@
  */
 
 import { BOARD_CONFIG } from './config';
+import { BoardSize, BoardLayout } from './types';
 
 export const BOARD_CELL_COUNT = BOARD_CONFIG.cellCount;
-export const BOARD_PIXEL_SIZE = 600;
-export const CELL_SIZE = BOARD_PIXEL_SIZE / BOARD_CELL_COUNT;
+export const DEFAULT_BOARD_SIZE: BoardSize = { width: BOARD_CELL_COUNT, height: BOARD_CELL_COUNT };
+export const BOARD_PIXEL_SIZE = 600; // Side of the square board area; every board size is scaled to fit it
+export const CELL_SIZE = BOARD_PIXEL_SIZE / BOARD_CELL_COUNT; // Cell size on the standard board
 
 export const QUEUE_AREA_HEIGHT = 220;
 export const CANVAS_WIDTH = BOARD_PIXEL_SIZE;
@@ -21,18 +23,39 @@ export const QUEUE_CELL_SIZE = 42; // (unused for sizing, kept for compatibility
 
 // Drag and drop constants
 export const LIFT_OFFSET_PIXELS = 100; // Vertical offset for lifted piece during drag
+export const TAP_MAX_MOVE_PIXELS = 10; // A press released within this distance on its queue card is a tap (rotates the piece)
+
+/**
+ * Calculates where a board of the given size is drawn: scaled so its longer side fills the
+ * board area and centered on the shorter side.
+ * @param size - board dimensions in cells
+ */
+export function getBoardLayout(size: BoardSize): BoardLayout {
+    const cellSize = BOARD_PIXEL_SIZE / Math.max(size.width, size.height);
+    return {
+        width: size.width,
+        height: size.height,
+        cellSize,
+        originX: (BOARD_PIXEL_SIZE - size.width * cellSize) / 2,
+        originY: (BOARD_PIXEL_SIZE - size.height * cellSize) / 2,
+    };
+}
+
+export const HOLD_SLOT_WIDTH = 120; // Hold slot at the right end of the queue strip, when enabled
 
 /**
  * Calculates the rectangle for a queue item positioned horizontally under the board.
  * @param index - zero-based item index
  * @param totalItems - number of items in the queue (default 3)
+ * @param reserveHoldSlot - leave room for the hold slot at the right end of the strip
  */
-export function getQueueItemRect(index: number, totalItems: number = 3) {
+export function getQueueItemRect(index: number, totalItems: number = 3, reserveHoldSlot: boolean = false) {
     // Each slot gets equal width (approx 33% of canvas) with 2% canvas gap between slots
     const gap = CANVAS_WIDTH * 0.02;
-    const slotWidth = (CANVAS_WIDTH - gap * (totalItems - 1)) / totalItems;
+    const availableWidth = reserveHoldSlot ? CANVAS_WIDTH - HOLD_SLOT_WIDTH - gap : CANVAS_WIDTH;
+    const slotWidth = (availableWidth - gap * (totalItems - 1)) / totalItems;
     const totalWidth = slotWidth * totalItems + gap * (totalItems - 1);
-    const startX = (CANVAS_WIDTH - totalWidth) / 2;
+    const startX = (availableWidth - totalWidth) / 2;
     const x = startX + index * (slotWidth + gap);
     const y = BOARD_PIXEL_SIZE + QUEUE_AREA_PADDING + QUEUE_LABEL_HEIGHT;
 
@@ -44,3 +67,36 @@ export function getQueueItemRect(index: number, totalItems: number = 3) {
     };
 }
 
+/**
+ * Calculates the rectangle for the hold slot, to the right of the queue items.
+ */
+export function getHoldSlotRect() {
+    return {
+        x: CANVAS_WIDTH - HOLD_SLOT_WIDTH,
+        y: BOARD_PIXEL_SIZE + QUEUE_AREA_PADDING + QUEUE_LABEL_HEIGHT,
+        width: HOLD_SLOT_WIDTH,
+        height: QUEUE_ITEM_HEIGHT,
+    };
+}
+
+// Replay control bar (drawn in the strip below the queue during playback)
+export const REPLAY_CONTROLS_HEIGHT = 36;
+export const REPLAY_CONTROL_ORDER = ['playPause', 'step', 'speed', 'exit'] as const;
+
+/**
+ * Calculates the rectangle for a replay control button in the bar under the queue.
+ * The right side of the bar is left free for the move counter.
+ * @param index - zero-based button index in REPLAY_CONTROL_ORDER
+ */
+export function getReplayControlRect(index: number) {
+    const buttonWidth = 90;
+    const gap = 8;
+    const height = REPLAY_CONTROLS_HEIGHT - 8;
+
+    return {
+        x: QUEUE_AREA_PADDING + index * (buttonWidth + gap),
+        y: CANVAS_HEIGHT - REPLAY_CONTROLS_HEIGHT + 2,
+        width: buttonWidth,
+        height,
+    };
+}
@@ -0,0 +1,114 @@
+/**
+ * Daily challenge: a game seeded from the calendar date, one ranked attempt a day and the stored results
+ */
+
+import { DailyResult } from './types';
+import { STORAGE_KEYS, DAILY_CONFIG } from './config';
+
+/**
+ * Gets a day's date as YYYY-MM-DD in local time, so the challenge changes at the player's midnight
+ * @param now - Moment to take the date of (now if omitted)
+ */
+export function getDailyDate(now: Date = new Date()): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Derives a day's seed from its date (32-bit FNV-1a hash), so every player deals the same game
+ * @param date - Date as YYYY-MM-DD
+ */
+export function getDailySeed(date: string): number {
+    let hash = 0x811c9dc5;
+    for (const char of `daily:${date}`) {
+        hash ^= char.charCodeAt(0);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Checks that a stored value has every field of a daily result
+ */
+function isDailyResult(value: unknown): value is DailyResult {
+    const result = value as Partial<DailyResult> | null;
+    return !!result && typeof result === 'object' &&
+        typeof result.date === 'string' &&
+        Number.isFinite(result.score) &&
+        Number.isFinite(result.linesCleared) &&
+        Number.isFinite(result.level) &&
+        Number.isFinite(result.piecesPlaced) &&
+        typeof result.finished === 'boolean' &&
+        typeof result.board === 'string';
+}
+
+/**
+ * Gets every stored daily result
+ * @returns Results by date (days without a ranked attempt are missing)
+ */
+export function getDailyResults(): Record<string, DailyResult> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS.dailyResults);
+        const parsed = stored ? JSON.parse(stored) : null;
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            return Object.fromEntries(Object.entries(parsed).filter(([date, result]) => isDailyResult(result) && result.date === date)) as Record<string, DailyResult>;
+        }
+    } catch (e) {
+        console.warn('Failed to load daily results from localStorage:', e);
+    }
+    return {};
+}
+
+/**
+ * Gets a day's ranked attempt
+ * @param date - Date as YYYY-MM-DD
+ * @returns The result, or null if the day's attempt hasn't been started
+ */
+export function getDailyResult(date: string): DailyResult | null {
+    return getDailyResults()[date] ?? null;
+}
+
+/**
+ * Stores a day's ranked attempt, replacing what was stored for that day
+ * The attempt is stored when it starts and again when it ends, so reloading mid-game doesn't give a second try
+ * @param result - The attempt so far
+ */
+export function recordDailyResult(result: DailyResult): void {
+    const results = getDailyResults();
+    results[result.date] = result;
+    try {
+        localStorage.setItem(STORAGE_KEYS.dailyResults, JSON.stringify(results));
+    } catch (e) {
+        console.warn('Failed to save daily results to localStorage:', e);
+    }
+}
+
+/**
+ * Gets the days of the history calendar, oldest first, with the result of each day that was played
+ * @param today - Last day shown, as YYYY-MM-DD
+ * @param days - Number of days shown
+ */
+export function getDailyHistory(today: string = getDailyDate(), days: number = DAILY_CONFIG.historyDays): { date: string; result: DailyResult | null }[] {
+    const results = getDailyResults();
+    const [year, month, day] = today.split('-').map(Number);
+    return Array.from({ length: days }, (_, index) => {
+        // Date handles the month and year boundaries
+        const date = getDailyDate(new Date(year, month - 1, day - (days - 1 - index)));
+        return { date, result: results[date] ?? null };
+    });
+}
+
+/**
+ * Builds the text to share a day's result: the challenge and date, the final board as emoji and the score
+ * @param result - The day's ranked attempt
+ */
+export function createDailyShareText(result: DailyResult): string {
+    let text = `${DAILY_CONFIG.shareTitle} ${result.date}${result.finished ? '' : ' (unfinished)'}\n`;
+    if (result.board) {
+        text += `${result.board}\n`;
+    }
+    text += `Score: ${result.score.toLocaleString()}\n`;
+    text += `Lines: ${result.linesCleared.toLocaleString()}\n`;
+    text += `Level: ${result.level}`;
+    return text;
+}
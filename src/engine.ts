@@ -0,0 +1,1524 @@
+/**
+ * Headless game engine - owns the board, queue, scoring and level rules with no DOM dependencies
+ * The browser Game class is a thin adapter over this; simulations and bots can drive it directly
+ */
+
+import { Position, Shape, PlacedBlock, GameState, GameMode, ScoredCell, LineClearResult, GameEventMap, GameEventName, GameEventListener, UndoStatus, HintStatus, BoardRelief, ModeRules, Puzzle, PuzzleResult, SavedGame, ReplayMove, GameReplay, BoardSize, BoardMask, PiecePack, PieceTransform, TransformTokens, DealRequest, DealResult } from './types';
+import { Board } from './board';
+import { dealHand, getShapeColor, getShapeIndex, getShapePointValue, updateColorScheme, randomizeShapePointValues, getShapePointValues, setShapePointValues, getShapeColorScheme, setShapeColorScheme, setActivePiecePack, transformShape, getReachableOrientations } from './shapes';
+import { CLASSIC_PIECE_PACK, isSamePiecePack } from './piecePacks';
+import { canPlaceShape, getValidPositions } from './validator';
+import { calculateScore } from './scoring';
+import { checkGameOver } from './gameOver';
+import { createAdaptiveState, updateAdaptiveState } from './adaptive';
+import { isPuzzleGoalMet, ratePuzzle } from './puzzles';
+import { GAMEPLAY_CONFIG, MODE_RULES, BLITZ_CONFIG, ZEN_CONFIG, PUZZLE_CONFIG, SAVE_GAME_CONFIG, REPLAY_CONFIG } from './config';
+import { DEFAULT_BOARD_SIZE } from './constants';
+import { SeededRandom, createSeed } from './random';
+import { EventEmitter } from './events';
+
+/**
+ * Everything that happened as a result of one placement
+ */
+export interface PlacementResult {
+    placedBlock: PlacedBlock;
+    clear: LineClearResult | null;
+    previousLevel: number;
+    levelChanged: boolean;
+    queueRefilled: boolean;
+    relief: BoardRelief | null;    // Blocks cleared because no piece fit (endless modes)
+    gameOver: boolean;
+}
+
+/**
+ * What happened when a piece was moved into the hold slot
+ */
+export interface HoldResult {
+    held: Shape;                   // Piece now in the hold slot
+    released: Shape | null;        // Piece swapped back into the queue, if the slot was occupied
+    queueRefilled: boolean;
+    gameOver: boolean;
+}
+
+/**
+ * What happened when a queued piece was rotated or mirrored
+ */
+export interface TransformResult {
+    shape: Shape;                  // The piece in its new orientation
+    tokens: TransformTokens;       // Tokens left afterwards
+    gameOver: boolean;
+}
+
+/**
+ * What happened when a replay spent the token of a turn that was undone
+ */
+export interface SpentTokenResult {
+    tokens: TransformTokens;       // Tokens left afterwards
+    gameOver: boolean;
+}
+
+/**
+ * Any move a replay can hold
+ */
+export type MoveResult = PlacementResult | HoldResult | TransformResult | SpentTokenResult;
+
+/**
+ * Codes for rotate and mirror moves in the replay log ([queueIndex, code])
+ */
+const TRANSFORM_CODES: Record<PieceTransform, number> = {
+    rotate: 1,
+    mirror: 2,
+};
+
+/**
+ * Queue index of a [index, code] move that only spends a token: the turn it paid for was undone
+ */
+const SPENT_TOKEN_INDEX = -1;
+
+/**
+ * A placement the player could make right now
+ */
+export interface LegalMove {
+    queueIndex: number;
+    position: Position;
+}
+
+/**
+ * A placement the player could make after turning a queued piece
+ */
+export interface TurnedMove {
+    queueIndex: number;
+    transforms: PieceTransform[];  // Turns to apply with transform() before placing
+    position: Position;
+}
+
+/**
+ * Hands dealt this game, for balance measurements (not saved, and not rolled back by undo)
+ */
+export interface DealStats {
+    hands: number;                 // Hands dealt, including the opening hand
+    fallbackHands: number;         // Hands where easy mode found no fitting piece for some slot
+    fallbackPieces: number;        // Pieces in those hands dealt at random
+}
+
+/**
+ * Options for creating an engine
+ */
+export interface GameEngineOptions {
+    mode: GameMode;
+    rng?: SeededRandom;            // Seeded random source (a fresh seed is used if omitted)
+    boardSize?: BoardSize;         // Board dimensions (standard 8x8 if omitted)
+    boardMask?: BoardMask | null;  // Blocked and missing cells (plain board if omitted)
+    piecePack?: PiecePack;         // Pieces the queue is dealt from (classic pieces if omitted)
+    holdEnabled?: boolean;         // Whether the hold slot can be used (off if omitted)
+    deferDeals?: boolean;          // Deal refills through dealRequested / completeDeal() instead of in place (off if omitted)
+}
+
+/**
+ * Everything needed to put the engine back exactly where it was before a placement
+ */
+interface EngineSnapshot {
+    state: GameState;
+    shapesPlacedThisTurn: number;
+    rngState: number;              // Restored so an undone queue refill deals the same shapes again
+    moves: ReplayMove[];           // Undone moves drop out of the replay log
+    dealPending: boolean;          // The queue was waiting for a deferred deal
+}
+
+/**
+ * A point in a game that a search can go back to (see GameEngine.createCheckpoint); treat as opaque
+ */
+export interface EngineCheckpoint {
+    snapshot: EngineSnapshot;
+}
+
+/**
+ * GameEngine applies the game rules to a board and queue
+ * All randomness comes from the injected seeded random source
+ */
+export class GameEngine {
+    private board: Board;
+    private state: GameState;
+    private shapesPlacedThisTurn: number = 0;
+    private rng: SeededRandom;
+    private mode: GameMode;
+    private puzzle: Puzzle | null = null; // Puzzle being played (its progress lives in state.puzzle)
+    private readonly events = new EventEmitter<GameEventMap>();
+    private undoStack: EngineSnapshot[] = [];
+    private redoStack: EngineSnapshot[] = [];
+    private undosUsed: number = 0;
+    private hintsUsed: number = 0;
+    private botTurns: number = 0; // Turns Auto Place played a piece in
+    private moves: ReplayMove[] = [];
+    private piecePack: PiecePack;
+    private holdEnabled: boolean;
+    private readonly deferDeals: boolean;
+    private pendingDeal: DealRequest | null = null;
+    private nextDealId: number = 1;
+    private dealStats: DealStats = { hands: 0, fallbackHands: 0, fallbackPieces: 0 };
+
+    constructor(options: GameEngineOptions) {
+        this.mode = options.mode;
+        this.holdEnabled = options.holdEnabled ?? false;
+        this.deferDeals = options.deferDeals ?? false;
+        this.rng = options.rng ?? new SeededRandom(createSeed());
+        this.piecePack = options.piecePack ?? CLASSIC_PIECE_PACK;
+        this.board = new Board(options.boardSize ?? DEFAULT_BOARD_SIZE, options.boardMask ?? null);
+        this.state = this.createInitialState();
+    }
+
+    /**
+     * Builds a fresh state for a new game from the current random source
+     */
+    private createInitialState(): GameState {
+        // Shape lookups are global, so the pack is made active before anything is dealt
+        setActivePiecePack(this.piecePack);
+        // Point values must be drawn before the queue so a seed always maps to the same values
+        randomizeShapePointValues(this.rng.source);
+        updateColorScheme(1);
+        const puzzle = this.puzzle;
+        const adaptive = this.mode === 'adaptive' && !puzzle ? createAdaptiveState() : null;
+        const placedBlocks = puzzle ? this.placePuzzleBlocks(puzzle) : [];
+        return {
+            board: this.board.getGrid(),
+            queue: puzzle
+                ? this.copyPuzzleHand(puzzle.hands[0])
+                : this.generateQueue(this.countTransformTokens(0, 0), adaptive?.difficulty ?? null),
+            placedBlocks,
+            score: 0,
+            gameOver: false,
+            level: 1,
+            levelProgress: 0,
+            totalShapesPlaced: 0,
+            turn: 0,
+            linesCleared: 0,
+            held: null,
+            rotationsUsed: 0,
+            mirrorsUsed: 0,
+            adaptive,
+            timeLeftMs: this.getStartingClock(),
+            boardReliefs: 0,
+            puzzle: puzzle ? { id: puzzle.id, handsDealt: 1, solved: false } : null,
+        };
+    }
+
+    /**
+     * Puts a puzzle's starting blocks on the empty board
+     * They count as placed before the first turn, so they're worth their base value
+     */
+    private placePuzzleBlocks(puzzle: Puzzle): PlacedBlock[] {
+        return puzzle.blocks.map(({ shape, position, shapeIndex }) => {
+            this.board.placeShape(shape, position);
+            return {
+                shape: shape.map(cell => ({ ...cell })),
+                position: { ...position },
+                color: getShapeColor(shapeIndex),
+                pointValue: getShapePointValue(shapeIndex, 0),
+                lineClearBonuses: 0,
+                totalShapesPlacedAtPlacement: 0,
+                shapeIndex,
+                darkness: 1.0,
+            };
+        });
+    }
+
+    /**
+     * Copies one of a puzzle's hands into queue slots (shorter hands leave the last slots empty)
+     */
+    private copyPuzzleHand(hand: Shape[]): (Shape | null)[] {
+        const slots: (Shape | null)[] = hand.map(shape => shape.map(cell => ({ ...cell })));
+        while (slots.length < GAMEPLAY_CONFIG.shapesPerTurn) {
+            slots.push(null);
+        }
+        return slots;
+    }
+
+    /**
+     * Gets the clock a new game starts with in the current mode (null in untimed modes and puzzles)
+     */
+    private getStartingClock(): number | null {
+        return this.mode === 'blitz' && !this.puzzle ? BLITZ_CONFIG.timeLimitSeconds * 1000 : null;
+    }
+
+    /**
+     * Starts a new game (leaving any puzzle being played)
+     * @param rng - Seeded random source for the new game (a fresh seed is used if omitted)
+     * @param boardSize - Board dimensions for the new game (keeps the current size if omitted)
+     * @param boardMask - Board mask for the new game, or null for a plain board (see Board.reset for the default)
+     * @param piecePack - Pieces for the new game (keeps the current pack if omitted)
+     * @param mode - Mode for the new game (keeps the current mode if omitted)
+     */
+    reset(
+        rng: SeededRandom = new SeededRandom(createSeed()),
+        boardSize: BoardSize = this.board.getDimensions(),
+        boardMask?: BoardMask | null,
+        piecePack: PiecePack = this.piecePack,
+        mode: GameMode = this.mode
+    ): void {
+        this.puzzle = null;
+        this.mode = mode;
+        this.startGame(rng, boardSize, boardMask, piecePack);
+    }
+
+    /**
+     * Starts an attempt at a puzzle: its board, blocks and hands replace dealing, and its rules replace the mode's
+     * The mode, board and pack settings are kept for the game after the puzzle (see reset)
+     * @param puzzle - Validated puzzle (see parsePuzzle)
+     */
+    startPuzzle(puzzle: Puzzle): void {
+        this.puzzle = puzzle;
+        // A fixed seed keeps the shuffled point values, and so the scores, the same on every attempt
+        this.startGame(new SeededRandom(PUZZLE_CONFIG.seed), puzzle.boardSize, puzzle.boardMask, CLASSIC_PIECE_PACK);
+    }
+
+    /**
+     * Clears everything from the last game and sets up the next one
+     */
+    private startGame(rng: SeededRandom, boardSize: BoardSize, boardMask: BoardMask | null | undefined, piecePack: PiecePack): void {
+        this.rng = rng;
+        this.piecePack = piecePack;
+        this.pendingDeal = null;
+        this.board.reset(boardSize, boardMask);
+        this.shapesPlacedThisTurn = 0;
+        this.clearHistory();
+        this.undosUsed = 0;
+        this.hintsUsed = 0;
+        this.botTurns = 0;
+        this.moves = [];
+        this.dealStats = { hands: 0, fallbackHands: 0, fallbackPieces: 0 };
+        this.state = this.createInitialState();
+    }
+
+    /**
+     * Whether anything has been played or spent this game: a move, an undo or a hint
+     * Until then the opening can be dealt again for another mode, board or pack; after that a re-deal
+     * would hand back the spent allowances and a hand the player has already seen
+     */
+    hasStarted(): boolean {
+        return this.state.turn > 0 || this.moves.length > 0 || this.undosUsed > 0 || this.hintsUsed > 0;
+    }
+
+    /**
+     * Changes the game mode if the game hasn't started (see hasStarted)
+     * A game in progress keeps its mode so its replay deals the same hands; once it is over the mode applies from the next game
+     * @param mode - New game mode
+     * @returns True if the engine now uses the requested mode
+     */
+    setMode(mode: GameMode): boolean {
+        if (mode === this.mode) {
+            return true;
+        }
+        if (this.puzzle || this.state.gameOver) {
+            // Puzzles play by their own rules; either way the mode applies from the next game
+            this.mode = mode;
+            return true;
+        }
+        if (this.hasStarted()) {
+            return false;
+        }
+        this.mode = mode;
+        // Nothing played yet: deal the new mode's opening from the seed so the game stays replayable
+        this.reset(new SeededRandom(this.rng.getSeed()));
+        this.events.emit('queueRefilled', { queue: [...this.state.queue] });
+        return true;
+    }
+
+    /**
+     * Changes the board dimensions and mask if the game hasn't started (see hasStarted)
+     * A game in progress keeps its board; pass the size and mask to reset() to use them for the next game
+     * @param size - New board dimensions
+     * @param mask - New board mask (null for a plain board)
+     * @returns True if the board now has the requested size and mask (never during a puzzle, which has its own board)
+     */
+    setBoardSize(size: BoardSize, mask: BoardMask | null = null): boolean {
+        if (this.puzzle) {
+            return false;
+        }
+        const current = this.board.getDimensions();
+        const sameMask = JSON.stringify(mask) === JSON.stringify(this.board.getMask());
+        if (size.width === current.width && size.height === current.height && sameMask) {
+            return true;
+        }
+        if (this.hasStarted()) {
+            return false;
+        }
+        // Deal the opening again from the seed so the game stays replayable
+        this.reset(new SeededRandom(this.rng.getSeed()), size, mask);
+        this.events.emit('queueRefilled', { queue: [...this.state.queue] });
+        return true;
+    }
+
+    /**
+     * Changes the piece pack if the game hasn't started (see hasStarted)
+     * A game in progress keeps its pieces; pass the pack to reset() to use it for the next game
+     * @param pack - New piece pack
+     * @returns True if the game now uses the requested pack (never during a puzzle, which uses the classic pieces)
+     */
+    setPiecePack(pack: PiecePack): boolean {
+        if (this.puzzle) {
+            return false;
+        }
+        if (isSamePiecePack(pack, this.piecePack)) {
+            return true;
+        }
+        if (this.hasStarted()) {
+            return false;
+        }
+        // Deal the opening again from the seed so the game stays replayable
+        this.reset(new SeededRandom(this.rng.getSeed()), this.board.getDimensions(), this.board.getMask(), pack);
+        this.events.emit('queueRefilled', { queue: [...this.state.queue] });
+        return true;
+    }
+
+    /**
+     * Subscribes to a game event (placements, clears, level ups, queue refills, game over, score changes)
+     * @param event - Event name
+     * @param listener - Called with the typed event payload
+     * @returns A function that removes the listener
+     */
+    on<K extends GameEventName>(event: K, listener: GameEventListener<K>): () => void {
+        return this.events.on(event, listener);
+    }
+
+    /**
+     * Gets the current game mode
+     */
+    getMode(): GameMode {
+        return this.mode;
+    }
+
+    /**
+     * Gets the rules in force: the puzzle's while one is being played, otherwise the mode's
+     */
+    getRules(): ModeRules {
+        return this.puzzle?.rules ?? MODE_RULES[this.mode];
+    }
+
+    /**
+     * Gets the puzzle being played
+     * @returns The puzzle, or null outside puzzles
+     */
+    getPuzzle(): Puzzle | null {
+        return this.puzzle;
+    }
+
+    /**
+     * Gets how the puzzle attempt ended
+     * @returns The result once a puzzle is over, otherwise null
+     */
+    getPuzzleResult(): PuzzleResult | null {
+        if (!this.puzzle || !this.state.puzzle || !this.state.gameOver) {
+            return null;
+        }
+        const { solved } = this.state.puzzle;
+        return {
+            puzzleId: this.puzzle.id,
+            solved,
+            stars: ratePuzzle(this.puzzle, solved, this.state.turn),
+            piecesPlaced: this.state.turn,
+            score: this.state.score,
+        };
+    }
+
+    /**
+     * Gets adaptive mode's current difficulty (0 = most relief, 1 = no help)
+     * @returns The difficulty, or null outside adaptive mode
+     */
+    getDifficulty(): number | null {
+        return this.state.adaptive?.difficulty ?? null;
+    }
+
+    /**
+     * Runs blitz mode's clock down, ending the game when it reaches zero
+     * The engine has no clock of its own: the caller decides when time passes (e.g. only while the tab is visible)
+     * @param elapsedMs - Time that passed since the last tick
+     * @returns True if the clock ran out on this tick
+     */
+    tickClock(elapsedMs: number): boolean {
+        if (this.state.timeLeftMs === null || this.state.gameOver || elapsedMs <= 0) {
+            return false;
+        }
+        this.state.timeLeftMs = Math.max(0, this.state.timeLeftMs - elapsedMs);
+        if (this.state.timeLeftMs > 0) {
+            return false;
+        }
+        this.state.gameOver = true;
+        this.emitGameOver();
+        return true;
+    }
+
+    /**
+     * Gets blitz mode's clock
+     * @returns Milliseconds left, or null in untimed modes
+     */
+    getTimeLeft(): number | null {
+        return this.state.timeLeftMs;
+    }
+
+    /**
+     * Generates a new queue of shapes for the current mode from the engine's random source
+     * @param tokens - Rotation and mirror tokens the player has left (easy mode deals pieces that fit once turned)
+     * @param difficulty - Adaptive mode's difficulty to deal at (null in other modes)
+     */
+    private generateQueue(tokens: TransformTokens = this.getTransformTokens(), difficulty: number | null = this.getDifficulty()): Shape[] {
+        const result = dealHand(this.createDealRequest(tokens, difficulty));
+        this.rng.setState(result.rngState);
+        this.recordDeal(result);
+        return result.shapes;
+    }
+
+    /**
+     * Counts a dealt hand in the deal stats
+     */
+    private recordDeal(result: DealResult): void {
+        this.dealStats.hands++;
+        if (result.fallbackPieces > 0) {
+            this.dealStats.fallbackHands++;
+            this.dealStats.fallbackPieces += result.fallbackPieces;
+        }
+    }
+
+    /**
+     * Describes the next deal from the current board, random state and tokens
+     */
+    private createDealRequest(tokens: TransformTokens, difficulty: number | null = this.getDifficulty()): DealRequest {
+        return {
+            id: this.nextDealId++,
+            mode: this.mode,
+            boardSize: this.board.getDimensions(),
+            boardMask: this.board.getMask(),
+            filled: this.board.getFilledBits(),
+            piecePack: this.piecePack,
+            seed: this.rng.getSeed(),
+            rngState: this.rng.getState(),
+            tokens,
+            ...(difficulty !== null ? { difficulty } : {}),
+        };
+    }
+
+    /**
+     * Refills the emptied queue, or with deferred deals asks for the hand (see completeDeal)
+     * Puzzle hands are fixed, so they are never deferred
+     * @returns True if the queue was refilled now
+     */
+    private refillQueue(): boolean {
+        if (this.puzzle && this.state.puzzle) {
+            // Puzzles deal their next fixed hand; once they run out the queue stays empty
+            const hand = this.puzzle.hands[this.state.puzzle.handsDealt];
+            if (!hand) {
+                return false;
+            }
+            this.state.queue = this.copyPuzzleHand(hand);
+            this.state.puzzle = { ...this.state.puzzle, handsDealt: this.state.puzzle.handsDealt + 1 };
+            return true;
+        }
+        if (this.state.adaptive) {
+            // The hand just ended: the next one is dealt at the difficulty it earned
+            this.state.adaptive = updateAdaptiveState(this.state.adaptive, this.board.getFillRatio(), this.state.linesCleared);
+        }
+        if (this.deferDeals) {
+            this.pendingDeal = this.createDealRequest(this.getTransformTokens());
+            return false;
+        }
+        this.state.queue = this.generateQueue();
+        return true;
+    }
+
+    /**
+     * Fills the queue with a hand dealt for the pending deal request
+     * Answers for a request that is no longer pending (e.g. the placement was undone) are ignored
+     * @param id - The DealRequest the hand was dealt for
+     * @param result - Hand and random state from dealHand()
+     * @returns True if the queue was refilled
+     */
+    completeDeal(id: number, result: DealResult): boolean {
+        if (!this.pendingDeal || this.pendingDeal.id !== id || this.state.gameOver) {
+            return false;
+        }
+        this.pendingDeal = null;
+        this.rng.setState(result.rngState);
+        this.recordDeal(result);
+        this.state.queue = [...result.shapes];
+        const relief = checkGameOver(this.board, result.shapes, this.state.held, this.getTransformTokens())
+            ? this.handleStuck(result.shapes)
+            : null;
+
+        this.events.emit('queueRefilled', { queue: [...this.state.queue] });
+        if (relief) {
+            this.events.emit('boardRelieved', relief);
+        }
+        if (this.state.gameOver) {
+            this.emitGameOver();
+        }
+        return true;
+    }
+
+    /**
+     * Gets the deal the queue is waiting for (deferred deals only)
+     * @returns A copy of the request, or null if the queue isn't waiting
+     */
+    getPendingDeal(): DealRequest | null {
+        return this.pendingDeal ? { ...this.pendingDeal } : null;
+    }
+
+    /**
+     * Whether the queue is empty until a deferred deal completes
+     */
+    isDealPending(): boolean {
+        return this.pendingDeal !== null;
+    }
+
+    /**
+     * Places the queued shape at the given board position and applies all follow-up rules:
+     * line clears, scoring, level progress, queue refill and game over detection
+     * @param queueIndex - Index of the shape in the queue
+     * @param position - Grid position for the shape's origin
+     * @returns What happened, or null if the move is not legal
+     */
+    place(queueIndex: number, position: Position): PlacementResult | null {
+        if (this.state.gameOver) {
+            return null;
+        }
+        const shape = this.state.queue[queueIndex];
+        if (!shape || !canPlaceShape(this.board, shape, position)) {
+            return null;
+        }
+
+        if (this.getRules().undoLimit !== 0) {
+            this.undoStack.push(this.createSnapshot());
+            this.redoStack = [];
+        }
+
+        const shapeIndexInPool = getShapeIndex(shape);
+        // Newly placed blocks start with base value (1-8) - store this value
+        const placedBlock: PlacedBlock = {
+            shape,
+            position: { ...position },
+            color: getShapeColor(shapeIndexInPool),
+            pointValue: getShapePointValue(shapeIndexInPool, 0),  // Store base value (original, never modified)
+            lineClearBonuses: 0,  // Track line clear bonuses separately
+            totalShapesPlacedAtPlacement: this.state.totalShapesPlaced,
+            shapeIndex: shapeIndexInPool,  // Store the original shape index
+            darkness: 1.0,  // Start at full brightness
+        };
+
+        this.board.placeShape(shape, position);
+        this.state.placedBlocks.push(placedBlock);
+        this.moves.push([queueIndex, position.x, position.y]);
+        // Leave a hole instead of shifting positions so queue slots stay fixed
+        this.state.queue[queueIndex] = null;
+
+        this.shapesPlacedThisTurn++;
+        this.state.totalShapesPlaced++;
+        this.state.turn++;
+
+        const previousLevel = this.state.level;
+        const clear = this.checkAndClearLines();
+
+        // If required number of shapes have been placed, generate new queue based on mode
+        // (puzzle hands can be shorter, so they end once the queue is empty)
+        let queueRefilled = false;
+        const handFinished = this.shapesPlacedThisTurn >= GAMEPLAY_CONFIG.shapesPerTurn ||
+            (this.puzzle !== null && !this.state.queue.some(Boolean));
+        if (this.state.puzzle?.solved) {
+            // A solved puzzle ends right away
+            this.state.gameOver = true;
+        } else if (handFinished) {
+            this.shapesPlacedThisTurn = 0;
+            queueRefilled = this.refillQueue();
+        }
+
+        // Check for game over with whatever is left to place (after any queue regeneration)
+        const activeQueue = this.state.queue.filter((q): q is Shape => !!q);
+        let relief: BoardRelief | null = null;
+        if (!this.state.gameOver && activeQueue.length > 0 && checkGameOver(this.board, activeQueue, this.state.held, this.getTransformTokens())) {
+            relief = this.handleStuck(activeQueue);
+        }
+        if (this.puzzle && activeQueue.length === 0) {
+            // Every hand has been played without meeting the goal
+            this.state.gameOver = true;
+        }
+
+        const result: PlacementResult = {
+            placedBlock,
+            clear,
+            previousLevel,
+            levelChanged: this.state.level !== previousLevel,
+            queueRefilled,
+            relief,
+            gameOver: this.state.gameOver,
+        };
+        this.emitPlacementEvents(queueIndex, result);
+        if (this.pendingDeal) {
+            this.events.emit('dealRequested', { ...this.pendingDeal });
+        }
+        return result;
+    }
+
+    /**
+     * Moves a queued piece into the hold slot, swapping out the piece already held
+     * Stashing into an empty slot uses up the queue slot like a placement, so the queue refills once all three are used
+     * @param queueIndex - Index of the piece in the queue
+     * @returns What happened, or null if the hold slot is off or the move is not possible
+     */
+    hold(queueIndex: number): HoldResult | null {
+        const shape = this.state.queue[queueIndex];
+        if (!this.isHoldEnabled() || this.state.gameOver || !shape) {
+            return null;
+        }
+
+        if (this.getRules().undoLimit !== 0) {
+            this.undoStack.push(this.createSnapshot());
+            this.redoStack = [];
+        }
+
+        const released = this.state.held;
+        this.state.held = shape;
+        this.state.queue[queueIndex] = released;
+        this.moves.push([queueIndex]);
+
+        let queueRefilled = false;
+        if (!released) {
+            this.shapesPlacedThisTurn++;
+            if (this.shapesPlacedThisTurn >= GAMEPLAY_CONFIG.shapesPerTurn) {
+                this.shapesPlacedThisTurn = 0;
+                queueRefilled = this.refillQueue();
+            }
+        }
+
+        // With a deal pending the next hand isn't known yet, so the game can't be over
+        const activeQueue = this.state.queue.filter((q): q is Shape => !!q);
+        let relief: BoardRelief | null = null;
+        if (!this.pendingDeal && checkGameOver(this.board, activeQueue, this.state.held, this.getTransformTokens())) {
+            relief = this.handleStuck(activeQueue);
+        }
+
+        this.events.emit('pieceHeld', { queueIndex, held: shape, released });
+        if (queueRefilled) {
+            this.events.emit('queueRefilled', { queue: [...this.state.queue] });
+        } else if (this.pendingDeal) {
+            this.events.emit('dealRequested', { ...this.pendingDeal });
+        }
+        if (relief) {
+            this.events.emit('boardRelieved', relief);
+        }
+        if (this.state.gameOver) {
+            this.emitGameOver();
+        }
+        return { held: shape, released, queueRefilled, gameOver: this.state.gameOver };
+    }
+
+    /**
+     * Rotates a queued piece a quarter turn clockwise or mirrors it, spending one of the mode's tokens
+     * Turns that leave the piece unchanged (e.g. rotating the square) are refused and cost nothing
+     * @param queueIndex - Index of the piece in the queue
+     * @param transform - 'rotate' or 'mirror'
+     * @returns The new orientation and tokens left, or null if the move is not possible
+     */
+    transform(queueIndex: number, transform: PieceTransform): TransformResult | null {
+        const shape = this.state.queue[queueIndex];
+        const tokens = this.getTransformTokens();
+        const remaining = transform === 'rotate' ? tokens.rotationsRemaining : tokens.mirrorsRemaining;
+        if (this.state.gameOver || !shape || remaining === 0) {
+            return null;
+        }
+        const turned = transformShape(shape, transform);
+        if (!turned) {
+            return null;
+        }
+
+        if (this.getRules().undoLimit !== 0) {
+            this.undoStack.push(this.createSnapshot());
+            this.redoStack = [];
+        }
+
+        this.state.queue[queueIndex] = turned;
+        if (transform === 'rotate') {
+            this.state.rotationsUsed++;
+        } else {
+            this.state.mirrorsUsed++;
+        }
+        this.moves.push([queueIndex, TRANSFORM_CODES[transform]]);
+
+        // Spending the last token can leave only orientations that don't fit
+        const tokensLeft = this.getTransformTokens();
+        const activeQueue = this.state.queue.filter((q): q is Shape => !!q);
+        const relief = checkGameOver(this.board, activeQueue, this.state.held, tokensLeft) ? this.handleStuck(activeQueue) : null;
+
+        this.events.emit('pieceTransformed', { queueIndex, transform, shape: turned, tokens: tokensLeft });
+        if (relief) {
+            this.events.emit('boardRelieved', relief);
+        }
+        if (this.state.gameOver) {
+            this.emitGameOver();
+        }
+        return { shape: turned, tokens: tokensLeft, gameOver: this.state.gameOver };
+    }
+
+    /**
+     * Gets how many rotations and mirrors the player has left this game
+     */
+    getTransformTokens(): TransformTokens {
+        return this.countTransformTokens(this.state.rotationsUsed, this.state.mirrorsUsed);
+    }
+
+    /**
+     * Works out the tokens left in the current mode after some have been spent
+     */
+    private countTransformTokens(rotationsUsed: number, mirrorsUsed: number): TransformTokens {
+        const rules = this.getRules();
+        return {
+            rotationsRemaining: rules.rotationTokens === null ? null : Math.max(rules.rotationTokens - rotationsUsed, 0),
+            mirrorsRemaining: rules.mirrorTokens === null ? null : Math.max(rules.mirrorTokens - mirrorsUsed, 0),
+        };
+    }
+
+    /**
+     * Applies one recorded move (see ReplayMove)
+     * @param move - Placement, hold or transform move
+     * @returns What happened, or null if the move is not possible
+     */
+    applyMove(move: ReplayMove): MoveResult | null {
+        if (move.length === 1) {
+            return this.hold(move[0]);
+        }
+        if (move.length === 2) {
+            const transform = (Object.keys(TRANSFORM_CODES) as PieceTransform[]).find(name => TRANSFORM_CODES[name] === move[1]);
+            if (!transform) {
+                return null;
+            }
+            return move[0] === SPENT_TOKEN_INDEX ? this.spendToken(transform) : this.transform(move[0], transform);
+        }
+        return this.place(move[0], { x: move[1], y: move[2] });
+    }
+
+    /**
+     * Spends a rotation or mirror token without turning a piece, as the undone turn it replays did
+     * @returns The tokens left, or null if none of that kind are left
+     */
+    private spendToken(transform: PieceTransform): SpentTokenResult | null {
+        const tokens = this.getTransformTokens();
+        const remaining = transform === 'rotate' ? tokens.rotationsRemaining : tokens.mirrorsRemaining;
+        if (this.state.gameOver || remaining === 0) {
+            return null;
+        }
+        if (transform === 'rotate') {
+            this.state.rotationsUsed++;
+        } else {
+            this.state.mirrorsUsed++;
+        }
+        this.moves.push([SPENT_TOKEN_INDEX, TRANSFORM_CODES[transform]]);
+        return { tokens: this.getTransformTokens(), gameOver: false };
+    }
+
+    /**
+     * Turns the hold slot on or off
+     * It can't be turned off while it holds a piece; the setting then applies from the next game
+     * @param enabled - Whether the hold slot can be used
+     * @returns True if the hold slot is now in the requested state
+     */
+    setHoldEnabled(enabled: boolean): boolean {
+        if (!enabled && this.state.held) {
+            return false;
+        }
+        this.holdEnabled = enabled;
+        return true;
+    }
+
+    /**
+     * Whether the hold slot can be used (never in puzzles)
+     */
+    isHoldEnabled(): boolean {
+        return this.holdEnabled && !this.puzzle;
+    }
+
+    /**
+     * Fires the events for a placement once the state is fully updated
+     * Order: shapePlaced, linesCleared, scoreChanged, levelUp, queueRefilled, boardRelieved, puzzleFinished, gameOver
+     */
+    private emitPlacementEvents(queueIndex: number, result: PlacementResult): void {
+        const { placedBlock, clear } = result;
+        this.events.emit('shapePlaced', {
+            queueIndex,
+            shape: placedBlock.shape,
+            position: { ...placedBlock.position },
+            placedBlock,
+            turn: this.state.turn,
+        });
+        if (clear) {
+            this.events.emit('linesCleared', clear);
+            this.events.emit('scoreChanged', { score: this.state.score, delta: clear.points });
+        }
+        if (result.levelChanged) {
+            this.events.emit('levelUp', { previousLevel: result.previousLevel, level: this.state.level });
+        }
+        if (result.queueRefilled) {
+            this.events.emit('queueRefilled', { queue: [...this.state.queue] });
+        }
+        if (result.relief) {
+            this.events.emit('boardRelieved', result.relief);
+        }
+        if (result.gameOver) {
+            this.emitGameOver();
+        }
+    }
+
+    /**
+     * Announces the end of the game; a puzzle's result is announced just before it
+     */
+    private emitGameOver(): void {
+        const puzzleResult = this.getPuzzleResult();
+        if (puzzleResult) {
+            this.events.emit('puzzleFinished', puzzleResult);
+        }
+        this.events.emit('gameOver', {
+            score: this.state.score,
+            level: this.state.level,
+            turn: this.state.turn,
+            linesCleared: this.state.linesCleared,
+        });
+    }
+
+    /**
+     * Handles running out of moves: endless modes clear the oldest blocks and play on, other modes end the game
+     * An endless game still ends if the pieces don't fit even once every block is cleared
+     * @param queue - Pieces left to place (the held piece is checked too)
+     * @returns The relief, or null if nothing was cleared
+     */
+    private handleStuck(queue: Shape[]): BoardRelief | null {
+        const relief = this.getRules().endless ? this.relieveBoard(queue) : null;
+        if (!relief || checkGameOver(this.board, queue, this.state.held, this.getTransformTokens())) {
+            this.state.gameOver = true;
+        }
+        return relief;
+    }
+
+    /**
+     * Clears whole blocks, oldest first (by totalShapesPlacedAtPlacement), until ZEN_CONFIG.reliefShare
+     * of the filled cells are gone and one of the pieces fits; the cleared cells score nothing
+     * @param queue - Pieces left to place
+     * @returns The relief, or null if there were no blocks to clear
+     */
+    private relieveBoard(queue: Shape[]): BoardRelief | null {
+        const filledCells = this.state.placedBlocks.reduce((sum, block) => sum + block.shape.length, 0);
+        const target = Math.ceil(filledCells * ZEN_CONFIG.reliefShare);
+        const oldestFirst = [...this.state.placedBlocks]
+            .sort((a, b) => a.totalShapesPlacedAtPlacement - b.totalShapesPlacedAtPlacement);
+        const removed = new Set<PlacedBlock>();
+        const cells: ScoredCell[] = [];
+        for (const block of oldestFirst) {
+            if (cells.length >= target && !checkGameOver(this.board, queue, this.state.held, this.getTransformTokens())) {
+                break;
+            }
+            const pointValue = this.getBlockValue(block);
+            for (const cell of block.shape) {
+                const x = block.position.x + cell.x;
+                const y = block.position.y + cell.y;
+                this.board.clearCell(x, y);
+                cells.push({ x, y, color: block.color, pointValue });
+            }
+            removed.add(block);
+        }
+        if (cells.length === 0) {
+            return null;
+        }
+        this.state.placedBlocks = this.state.placedBlocks.filter(block => !removed.has(block));
+        this.state.boardReliefs++;
+        return { cells, reliefs: this.state.boardReliefs };
+    }
+
+    /**
+     * Checks for full rows and columns, clears them, and awards points
+     * In a puzzle, also checks the clear against the goal
+     * @returns The clear that happened, or null if no lines were full
+     */
+    private checkAndClearLines(): LineClearResult | null {
+        const fullRows = this.board.getFullRows();
+        const fullColumns = this.board.getFullColumns();
+
+        if (fullRows.length === 0 && fullColumns.length === 0) {
+            return null;
+        }
+
+        const linesCleared = fullRows.length + fullColumns.length;
+        const cells = this.collectClearedCells(fullRows, fullColumns, linesCleared);
+
+        // Clear full rows and columns on the board immediately
+        for (const row of fullRows) {
+            this.board.clearRow(row);
+        }
+        for (const col of fullColumns) {
+            this.board.clearColumn(col);
+        }
+
+        const boardCleared = this.willBoardBeCleared(fullRows, fullColumns);
+        const points = calculateScore(
+            fullRows,
+            fullColumns,
+            this.state.placedBlocks,
+            boardCleared,
+            this.state.totalShapesPlaced
+        );
+        this.state.score += points;
+        this.state.linesCleared += linesCleared;
+        if (this.state.timeLeftMs !== null) {
+            const bonusSeconds = linesCleared * BLITZ_CONFIG.bonusSecondsPerLine + (boardCleared ? BLITZ_CONFIG.boardClearBonusSeconds : 0);
+            this.state.timeLeftMs += bonusSeconds * 1000;
+        }
+
+        this.removeCellsFromShapes(fullRows, fullColumns);
+
+        // Darken all remaining blocks and increment their line clear bonuses
+        this.state.placedBlocks.forEach(block => {
+            block.darkness = Math.max(0, block.darkness - GAMEPLAY_CONFIG.darknessReduction);
+            block.lineClearBonuses += linesCleared; // Increment line clear bonuses by 1 for each line/column cleared
+        });
+
+        // Update level progress
+        this.state.levelProgress += linesCleared * GAMEPLAY_CONFIG.levelProgressPerLine;
+        const previousLevel = this.state.level;
+        while (this.state.levelProgress >= GAMEPLAY_CONFIG.levelProgressThreshold) {
+            this.state.levelProgress -= GAMEPLAY_CONFIG.levelProgressThreshold;
+            this.state.level++;
+        }
+
+        // Update color scheme if level changed (colors change every level up to level 10)
+        if (this.state.level !== previousLevel) {
+            updateColorScheme(this.state.level);
+            this.state.placedBlocks.forEach(block => {
+                block.color = getShapeColor(block.shapeIndex);
+            });
+        }
+
+        const clear: LineClearResult = { rows: fullRows, columns: fullColumns, linesCleared, points, boardCleared, cells };
+        if (this.puzzle && this.state.puzzle && isPuzzleGoalMet(this.puzzle.goal, clear, this.state.score)) {
+            this.state.puzzle = { ...this.state.puzzle, solved: true };
+        }
+        return clear;
+    }
+
+    /**
+     * Collects every placed cell inside the cleared lines with the value it has at the moment of clearing
+     */
+    private collectClearedCells(fullRows: number[], fullColumns: number[], linesCleared: number): ScoredCell[] {
+        const cells: ScoredCell[] = [];
+        for (const block of this.state.placedBlocks) {
+            // Include the current clear bonuses (linesCleared) since blocks are being cleared now
+            const pointValue = this.getBlockValue(block) + block.lineClearBonuses + linesCleared;
+            for (const cell of block.shape) {
+                const x = block.position.x + cell.x;
+                const y = block.position.y + cell.y;
+                if (fullRows.includes(y) || fullColumns.includes(x)) {
+                    cells.push({ x, y, color: block.color, pointValue });
+                }
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * Calculates a block's base value plus the tier increments earned since it was placed
+     */
+    private getBlockValue(block: PlacedBlock): number {
+        const placementLevel = Math.floor(block.totalShapesPlacedAtPlacement / GAMEPLAY_CONFIG.shapesPerValueTier);
+        const currentLevel = Math.floor(this.state.totalShapesPlaced / GAMEPLAY_CONFIG.shapesPerValueTier);
+        return block.pointValue + (currentLevel - placementLevel) * GAMEPLAY_CONFIG.pointsPerTier;
+    }
+
+    /**
+     * Removes cells from shapes that are in cleared rows or columns
+     */
+    private removeCellsFromShapes(fullRows: number[], fullColumns: number[]): void {
+        this.state.placedBlocks = this.state.placedBlocks
+            .map(block => {
+                const remainingCells = block.shape.filter(cell => {
+                    const absoluteX = block.position.x + cell.x;
+                    const absoluteY = block.position.y + cell.y;
+                    return !fullRows.includes(absoluteY) && !fullColumns.includes(absoluteX);
+                });
+                return remainingCells.length === 0 ? null : { ...block, shape: remainingCells };
+            })
+            .filter((block): block is PlacedBlock => block !== null);
+    }
+
+    /**
+     * Determines whether the current clear will remove every remaining block
+     */
+    private willBoardBeCleared(fullRows: number[], fullColumns: number[]): boolean {
+        const clearedRows = new Set(fullRows);
+        const clearedCols = new Set(fullColumns);
+
+        return this.state.placedBlocks.every(block =>
+            block.shape.every(cell =>
+                clearedRows.has(block.position.y + cell.y) || clearedCols.has(block.position.x + cell.x)
+            )
+        );
+    }
+
+    /**
+     * Lists the cells left on the board at game over with the bonus each one is worth
+     * Bonus value is the base value plus tier increments (line clear bonuses are not included)
+     */
+    getGameOverBonusCells(): ScoredCell[] {
+        const cells: ScoredCell[] = [];
+        for (const block of this.state.placedBlocks) {
+            const pointValue = this.getBlockValue(block);
+            for (const cell of block.shape) {
+                cells.push({
+                    x: block.position.x + cell.x,
+                    y: block.position.y + cell.y,
+                    color: block.color,
+                    pointValue,
+                });
+            }
+        }
+        return cells;
+    }
+
+    /**
+     * Awards the game over bonus for one remaining cell and removes it from the board
+     * @param x - Column of the cell
+     * @param y - Row of the cell
+     * @returns Points awarded (0 if the cell was empty or the game is not over)
+     */
+    awardBonusCell(x: number, y: number): number {
+        if (!this.state.gameOver) {
+            return 0;
+        }
+        const cell = this.getGameOverBonusCells().find(c => c.x === x && c.y === y);
+        if (!cell) {
+            return 0;
+        }
+        this.state.score += cell.pointValue;
+        this.board.clearCell(x, y);
+        this.state.placedBlocks = this.state.placedBlocks
+            .map(block => {
+                const remainingCells = block.shape.filter(c =>
+                    !(block.position.x + c.x === x && block.position.y + c.y === y)
+                );
+                return remainingCells.length === 0 ? null : { ...block, shape: remainingCells };
+            })
+            .filter((block): block is PlacedBlock => block !== null);
+        this.events.emit('scoreChanged', { score: this.state.score, delta: cell.pointValue });
+        return cell.pointValue;
+    }
+
+    /**
+     * Awards the whole game over bonus at once (for headless play)
+     * @returns Total points awarded
+     */
+    awardGameOverBonus(): number {
+        let total = 0;
+        for (const cell of this.getGameOverBonusCells()) {
+            total += this.awardBonusCell(cell.x, cell.y);
+        }
+        this.clearRemainingBlocks();
+        return total;
+    }
+
+    /**
+     * Empties the board once the game over sequence has finished
+     */
+    clearRemainingBlocks(): void {
+        this.board.reset();
+        this.state.placedBlocks = [];
+    }
+
+    /**
+     * Takes back the most recent placement, hold or turn, including any clears, level ups and queue refill it caused
+     * Rotation and mirror tokens stay spent, so an undo can't be traded for more turns; the replay log keeps them as spent-token moves
+     * @returns True if a move was undone
+     */
+    undo(): boolean {
+        const snapshot = this.canUndo() ? this.undoStack.pop() : undefined;
+        if (!snapshot) {
+            return false;
+        }
+        const { rotationsUsed, mirrorsUsed } = this.state;
+        this.redoStack.push(this.createSnapshot());
+        this.restoreSnapshot(snapshot);
+        // Replays must spend the same tokens, or later deals and game over checks would see more left
+        for (let used = this.state.rotationsUsed; used < rotationsUsed; used++) {
+            this.moves.push([SPENT_TOKEN_INDEX, TRANSFORM_CODES.rotate]);
+        }
+        for (let used = this.state.mirrorsUsed; used < mirrorsUsed; used++) {
+            this.moves.push([SPENT_TOKEN_INDEX, TRANSFORM_CODES.mirror]);
+        }
+        this.state.rotationsUsed = rotationsUsed;
+        this.state.mirrorsUsed = mirrorsUsed;
+        this.undosUsed++;
+        this.events.emit('undone', this.getUndoStatus());
+        return true;
+    }
+
+    /**
+     * Re-applies the most recently undone placement
+     * @returns True if a placement was redone
+     */
+    redo(): boolean {
+        const snapshot = this.canRedo() ? this.redoStack.pop() : undefined;
+        if (!snapshot) {
+            return false;
+        }
+        this.undoStack.push(this.createSnapshot());
+        this.restoreSnapshot(snapshot);
+        this.events.emit('redone', this.getUndoStatus());
+        return true;
+    }
+
+    /**
+     * Whether undo() would succeed right now (history exists, allowance left, game still running)
+     */
+    canUndo(): boolean {
+        const remaining = this.getUndoStatus().undosRemaining;
+        return !this.state.gameOver && this.undoStack.length > 0 && (remaining === null || remaining > 0);
+    }
+
+    /**
+     * Whether redo() would succeed right now
+     */
+    canRedo(): boolean {
+        return !this.state.gameOver && this.redoStack.length > 0;
+    }
+
+    /**
+     * Gets how many undos have been used this game and how many the current mode still allows
+     */
+    getUndoStatus(): UndoStatus {
+        const limit = this.getRules().undoLimit;
+        return {
+            undosUsed: this.undosUsed,
+            undosRemaining: limit === null ? null : Math.max(0, limit - this.undosUsed),
+        };
+    }
+
+    /**
+     * Spends one hint from the current mode's allowance (hints are not taken back by undo)
+     * @returns True if a hint was available
+     */
+    useHint(): boolean {
+        if (!this.canUseHint()) {
+            return false;
+        }
+        this.hintsUsed++;
+        this.events.emit('hintUsed', this.getHintStatus());
+        return true;
+    }
+
+    /**
+     * Whether useHint() would succeed right now (allowance left, game still running)
+     */
+    canUseHint(): boolean {
+        const remaining = this.getHintStatus().hintsRemaining;
+        return !this.state.gameOver && (remaining === null || remaining > 0);
+    }
+
+    /**
+     * Gets how many hints have been used this game and how many the current mode still allows
+     */
+    getHintStatus(): HintStatus {
+        const limit = this.getRules().hintLimit;
+        return {
+            hintsUsed: this.hintsUsed,
+            hintsRemaining: limit === null ? null : Math.max(0, limit - this.hintsUsed),
+        };
+    }
+
+    /**
+     * Counts a turn the bot played for the player (not taken back by undo), so scores show how much the player played themselves
+     */
+    recordBotTurn(): void {
+        this.botTurns++;
+    }
+
+    /**
+     * Gets how many turns the bot has played for the player this game
+     */
+    getBotTurns(): number {
+        return this.botTurns;
+    }
+
+    /**
+     * Copies everything a placement can change
+     * Placed blocks are copied because clears mutate their darkness, bonuses and color in place
+     */
+    private createSnapshot(): EngineSnapshot {
+        return {
+            state: {
+                ...this.state,
+                board: this.board.getGrid(),
+                queue: [...this.state.queue],
+                placedBlocks: this.state.placedBlocks.map(block => ({ ...block, position: { ...block.position } })),
+            },
+            shapesPlacedThisTurn: this.shapesPlacedThisTurn,
+            rngState: this.rng.getState(),
+            moves: [...this.moves],
+            dealPending: this.pendingDeal !== null,
+        };
+    }
+
+    /**
+     * Captures the game so a search can try a move and come back, even from game over (see restoreCheckpoint)
+     */
+    createCheckpoint(): EngineCheckpoint {
+        return { snapshot: this.createSnapshot() };
+    }
+
+    /**
+     * Puts the game back to a checkpoint; a checkpoint can be returned to any number of times
+     * The undo history is cleared, since it belongs to the moves being abandoned
+     * @param checkpoint - Checkpoint taken from this engine during the current game
+     */
+    restoreCheckpoint(checkpoint: EngineCheckpoint): void {
+        const { state } = checkpoint.snapshot;
+        // Restoring hands the snapshot's objects to the live game, so restore a copy and keep the checkpoint intact
+        this.restoreSnapshot({
+            ...checkpoint.snapshot,
+            state: {
+                ...state,
+                queue: [...state.queue],
+                placedBlocks: state.placedBlocks.map(block => ({ ...block, position: { ...block.position } })),
+            },
+            moves: [...checkpoint.snapshot.moves],
+        });
+        this.clearHistory();
+    }
+
+    /**
+     * Puts the engine back to a snapshot taken by createSnapshot()
+     */
+    private restoreSnapshot(snapshot: EngineSnapshot): void {
+        const levelChanged = snapshot.state.level !== this.state.level;
+        this.board.setGrid(snapshot.state.board);
+        this.state = snapshot.state;
+        this.shapesPlacedThisTurn = snapshot.shapesPlacedThisTurn;
+        this.rng.setState(snapshot.rngState);
+        this.moves = snapshot.moves;
+        if (levelChanged) {
+            // Queue colors come from the level's color scheme
+            updateColorScheme(this.state.level);
+        }
+        // Any deal in flight was for the state being replaced; ask again if the restored queue was waiting too
+        this.pendingDeal = null;
+        if (snapshot.dealPending) {
+            this.pendingDeal = this.createDealRequest(this.getTransformTokens());
+            this.events.emit('dealRequested', { ...this.pendingDeal });
+        }
+    }
+
+    /**
+     * Captures everything needed to resume this game later (undo history is not included)
+     * @returns A versioned, JSON-safe snapshot of the game
+     */
+    toSaveData(): SavedGame {
+        const { state, shapesPlacedThisTurn, rngState, moves } = this.createSnapshot();
+        // Saved while a deal was pending: the queue is empty and is dealt again from rngState on resume
+        return {
+            version: SAVE_GAME_CONFIG.version,
+            savedAt: Date.now(),
+            mode: this.mode,
+            boardSize: this.board.getDimensions(),
+            ...this.getBoardMaskField(),
+            ...this.getPiecePackField(),
+            seed: this.rng.getSeed(),
+            rngState,
+            state,
+            shapesPlacedThisTurn,
+            shapePointValues: getShapePointValues(),
+            colorScheme: getShapeColorScheme(),
+            undosUsed: this.undosUsed,
+            hintsUsed: this.hintsUsed,
+            botTurns: this.botTurns,
+            moves,
+        };
+    }
+
+    /**
+     * Resumes a game captured by toSaveData()
+     * The snapshot is assumed to be validated already (see loadSavedGame)
+     * @param saved - Snapshot to resume
+     */
+    loadSaveData(saved: SavedGame): void {
+        this.mode = saved.mode;
+        this.puzzle = null;
+        this.rng = new SeededRandom(saved.seed);
+        this.rng.setState(saved.rngState);
+        this.board.reset(saved.boardSize, saved.boardMask ?? null);
+        this.board.setGrid(saved.state.board);
+        this.state = {
+            ...saved.state,
+            board: this.board.getGrid(),
+            queue: [...saved.state.queue],
+            placedBlocks: saved.state.placedBlocks.map(block => ({ ...block, position: { ...block.position } })),
+            held: saved.state.held ?? null,
+            adaptive: saved.state.adaptive ?? null,
+            timeLeftMs: saved.state.timeLeftMs ?? null,
+            boardReliefs: saved.state.boardReliefs ?? 0,
+            puzzle: null,
+        };
+        if (this.state.held) {
+            // The held piece stays usable even if the hold slot has since been turned off
+            this.holdEnabled = true;
+        }
+        this.shapesPlacedThisTurn = saved.shapesPlacedThisTurn;
+        this.undosUsed = saved.undosUsed;
+        this.hintsUsed = saved.hintsUsed ?? 0;
+        this.botTurns = saved.botTurns ?? 0;
+        this.moves = saved.moves.map(move => [...move] as ReplayMove);
+        this.clearHistory();
+        this.piecePack = saved.piecePack ?? CLASSIC_PIECE_PACK;
+        setActivePiecePack(this.piecePack);
+        setShapePointValues(saved.shapePointValues);
+        setShapeColorScheme(saved.colorScheme);
+        this.pendingDeal = null;
+        this.dealStats = { hands: 0, fallbackHands: 0, fallbackPieces: 0 };
+        if (!this.state.gameOver && !this.state.queue.some(Boolean)) {
+            this.state.queue = this.generateQueue();
+        }
+    }
+
+    /**
+     * Gets the replay log of this game: its seed, mode and every move that was kept (undone moves are dropped)
+     */
+    getReplay(): GameReplay {
+        return {
+            version: REPLAY_CONFIG.version,
+            seed: this.rng.getSeed(),
+            mode: this.mode,
+            boardSize: this.board.getDimensions(),
+            ...this.getBoardMaskField(),
+            ...this.getPiecePackField(),
+            moves: this.moves.map(move => [...move] as ReplayMove),
+            score: this.state.score,
+            recordedAt: Date.now(),
+        };
+    }
+
+    /**
+     * Drops all undo and redo history
+     */
+    private clearHistory(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    /**
+     * Lists every legal placement for every shape currently in the queue
+     */
+    getLegalMoves(): LegalMove[] {
+        if (this.state.gameOver) {
+            return [];
+        }
+        const moves: LegalMove[] = [];
+        this.state.queue.forEach((shape, queueIndex) => {
+            if (!shape) {
+                return;
+            }
+            for (const position of getValidPositions(this.board, shape)) {
+                moves.push({ queueIndex, position });
+            }
+        });
+        return moves;
+    }
+
+    /**
+     * Lists the placements that are only possible after rotating or mirroring a queued piece with the tokens left
+     * Each piece's orientations are listed with the fewest turns that reach them
+     */
+    getTurnedMoves(): TurnedMove[] {
+        if (this.state.gameOver) {
+            return [];
+        }
+        const tokens = this.getTransformTokens();
+        const moves: TurnedMove[] = [];
+        this.state.queue.forEach((shape, queueIndex) => {
+            if (!shape) {
+                return;
+            }
+            // The first orientation is the piece as it is, which getLegalMoves() already covers
+            for (const { shape: turned, transforms } of getReachableOrientations(shape, tokens).slice(1)) {
+                for (const position of getValidPositions(this.board, turned)) {
+                    moves.push({ queueIndex, transforms, position });
+                }
+            }
+        });
+        return moves;
+    }
+
+    /**
+     * Gets the current game state
+     * @returns A copy of the current game state with an up-to-date board grid
+     */
+    getState(): GameState {
+        return {
+            ...this.state,
+            board: this.board.getGrid(),
+            queue: [...this.state.queue],
+            placedBlocks: [...this.state.placedBlocks],
+        };
+    }
+
+    /**
+     * Gets the live board (for rendering and input validation; do not mutate)
+     */
+    getBoard(): Board {
+        return this.board;
+    }
+
+    /**
+     * Gets the board dimensions
+     */
+    getBoardSize(): BoardSize {
+        return this.board.getDimensions();
+    }
+
+    /**
+     * Gets the board mask (null for a plain board)
+     */
+    getBoardMask(): BoardMask | null {
+        return this.board.getMask();
+    }
+
+    /**
+     * Builds the optional boardMask field for saves and replays (left out for plain boards)
+     */
+    private getBoardMaskField(): { boardMask?: BoardMask } {
+        const mask = this.board.getMask();
+        return mask ? { boardMask: mask } : {};
+    }
+
+    /**
+     * Builds the optional piecePack field for saves and replays (left out for the classic pieces)
+     */
+    private getPiecePackField(): { piecePack?: PiecePack } {
+        return isSamePiecePack(this.piecePack, CLASSIC_PIECE_PACK) ? {} : { piecePack: this.piecePack };
+    }
+
+    /**
+     * Gets the pack the queue is dealt from
+     */
+    getPiecePack(): PiecePack {
+        return this.piecePack;
+    }
+
+    /**
+     * Gets how many shapes have been placed from the current queue
+     */
+    getShapesPlacedThisTurn(): number {
+        return this.shapesPlacedThisTurn;
+    }
+
+    /**
+     * Gets how many hands were dealt this game and how often easy mode had to deal pieces at random
+     */
+    getDealStats(): DealStats {
+        return { ...this.dealStats };
+    }
+
+    /**
+     * Gets the engine's seeded random source (shared with cosmetic randomness so runs stay reproducible)
+     */
+    getRandom(): SeededRandom {
+        return this.rng;
+    }
+}
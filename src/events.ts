@@ -0,0 +1,61 @@
+/**
+ * Minimal typed event emitter used by the game engine
+ */
+
+/**
+ * Emits events whose names and payload types are described by an event map
+ * (e.g. GameEventMap), so subscribers get typed payloads without casts
+ */
+export class EventEmitter<Events extends object> {
+    private listeners: { [K in keyof Events]?: Array<(payload: Events[K]) => void> } = {};
+
+    /**
+     * Subscribes to an event
+     * @param event - Event name
+     * @param listener - Called with the event payload every time the event fires
+     * @returns A function that removes the listener
+     */
+    on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+        const listeners = this.listeners[event] ?? [];
+        listeners.push(listener);
+        this.listeners[event] = listeners;
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Removes a listener added with on()
+     * @param event - Event name
+     * @param listener - The listener to remove
+     */
+    off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): void {
+        const listeners = this.listeners[event];
+        if (!listeners) {
+            return;
+        }
+        const index = listeners.indexOf(listener);
+        if (index >= 0) {
+            listeners.splice(index, 1);
+        }
+    }
+
+    /**
+     * Fires an event to every current listener
+     * A throwing listener is logged and skipped so it can't break the game or other subscribers
+     * @param event - Event name
+     * @param payload - Data passed to each listener
+     */
+    emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const listeners = this.listeners[event];
+        if (!listeners) {
+            return;
+        }
+        // Copy so listeners can unsubscribe while the event is being dispatched
+        for (const listener of [...listeners]) {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`[EVENT] Listener for "${String(event)}" failed:`, error);
+            }
+        }
+    }
+}
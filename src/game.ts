@@ -1,37 +1,49 @@
 /**
- * Main game orchestrator - manages game loop, state, and all game systems
+ * Main game orchestrator - connects the headless engine to rendering, input, sound and the DOM
  */
 
-import { Position, Shape, PlacedBlock, DragState, GameState, AnimatingCell, GameSettings } from './types';
-import { Board } from './board';
-import { generateShapes, generateEasyShapes, getShapeColor, getShapeIndex, getShapePointValue, updateColorScheme } from './shapes';
+import { Position, Shape, GameState, AnimatingCell, GameSettings, LineClearResult, BoardRelief, GameEventName, GameEventListener, UndoStatus, HintStatus, MoveHint, GameReplay, ReplayControl, BoardSize, BoardMask, PiecePack, PieceTransform, TransformTokens, DealRequest, AgentName, Puzzle, CanvasTarget, DailyGame, Achievement, AchievementEventMap, AchievementEventName } from './types';
 import { Renderer } from './renderer';
 import { InputHandler } from './input';
-import { calculateScore } from './scoring';
-import { checkGameOver } from './gameOver';
 import { SoundManager } from './sound';
-import { recordScore } from './highScores';
-import { GAMEPLAY_CONFIG, ANIMATION_CONFIG, GAME_OVER_CONFIG } from './config';
+import { recordScore, recordZenSession } from './highScores';
+import { saveGame, loadSavedGame, clearSavedGame } from './savedGame';
+import { GAMEPLAY_CONFIG, ANIMATION_CONFIG, GAME_OVER_CONFIG, REPLAY_CONFIG, BOARD_SIZE_PRESETS, BOT_CONFIG, BLITZ_CONFIG, DAILY_CONFIG } from './config';
 import { getUIColorForLevel, getButtonColors } from './colorConfig';
-import { findOptimalPlacementOrder } from './boardUtils';
+import { SolverStep } from './solver';
+import { SolverWorkerClient, SolverTask, SolverJobCancelledError } from './solverWorkerClient';
+import { SeededRandom, createSeed, randomInt, shuffleInPlace } from './random';
+import { GameEngine } from './engine';
+import { ReplayPlayer, recordReplay } from './replay';
+import { createHint } from './hints';
+import { getAdaptiveDealRules } from './adaptive';
+import { dealHand, getShapePointValues, setShapePointValues, getShapeColorScheme, setShapeColorScheme, getActivePiecePack, setActivePiecePack } from './shapes';
+import { CLASSIC_PIECE_PACK, isSamePiecePack, loadStoredPiecePack, storePiecePack } from './piecePacks';
+import { createBoardMask } from './boardMasks';
+import { recordPuzzleResult, getPuzzle } from './puzzles';
+import { PuzzleEditor } from './puzzleEditor';
+import { PuzzleSolution } from './puzzleSolver';
+import { getDailyDate, getDailySeed, getDailyResult, recordDailyResult } from './daily';
+import { recordAchievementEvent } from './achievements';
+import { DEFAULT_BOARD_SIZE } from './constants';
 
 /**
  * Game class orchestrates all game systems and manages the game loop
+ * Rules live in GameEngine; this class only adds drag state, animation, sound and DOM output
  */
 export class Game {
-    private board: Board;
-    private state: GameState;
+    private engine: GameEngine;
     private renderer: Renderer;
     private inputHandler: InputHandler;
     private canvas: HTMLCanvasElement;
     private scoreElement: HTMLElement | null;
     private turnElement: HTMLElement | null;
     private linesElement: HTMLElement | null;
-    private levelElement: HTMLElement | null;
-    private levelProgressElement: HTMLElement | null;
-    private emojiBoardElement: HTMLElement | null;
+    private hintElement: HTMLElement | null;
+    private timeDisplay: HTMLElement | null;
+    private timeElement: HTMLElement | null;
     private animationFrameId: number | null = null;
-    private shapesPlacedThisTurn: number = 0;
+    private liftedQueueIndex: number | null = null; // Queue slot currently being dragged (hidden from display)
     private animatingCells: AnimatingCell[] = [];
     private readonly ANIMATION_DURATION = ANIMATION_CONFIG.lineClearMs;
     private gameOverStartTime: number | null = null;
@@ -41,53 +53,88 @@ export class Game {
     private readonly LEVEL_UP_ANIMATION_DURATION = ANIMATION_CONFIG.levelUpMs;
     private settings: GameSettings;
     private soundManager: SoundManager;
+    private replayPlayer: ReplayPlayer | null = null; // Set while a replay is being watched
+    private replayPlaying: boolean = false;
+    private replaySpeedIndex: number = 1; // Index into REPLAY_CONFIG.speeds (1x)
+    private replayNextStepAt: number = 0;
+    private replayRestore: { pointValues: number[]; colorScheme: string[]; piecePack: PiecePack } | null = null; // Live game's shape globals
+    private piecePack: PiecePack; // Pack new games are dealt from (a resumed game keeps its own)
+    private readonly solverWorker = new SolverWorkerClient(); // Deals and solves off the main thread
+    private dealTask: { id: number; task: SolverTask<unknown> } | null = null; // Deal the queue is waiting for
+    private botTask: SolverTask<SolverStep[]> | null = null; // Bot plan being searched
+    private botTimers: ReturnType<typeof setTimeout>[] = []; // Pending bot placements and demo turns
+    private botDemo: { agent: AgentName } | null = null; // Set while the bot plays a demo game
+    private hint: MoveHint | null = null; // Shown on the board until the position changes
+    private hintTask: SolverTask<SolverStep[]> | null = null; // Hint being searched
+    private clockTickAt: number | null = null; // When blitz mode's clock last ticked (null while it is stopped)
+    private editor: PuzzleEditor | null = null; // Set while the puzzle editor is open; the live game waits underneath
+    private daily: DailyGame | null = null; // Set while the daily challenge is played
+    private achievementToasts: Achievement[] = []; // Unlocks waiting to be shown, one toast at a time
+    private achievementToastStartTime: number | null = null; // When the first waiting toast appeared
     // Animation index is based on level, not cycling
 
-    constructor(canvas: HTMLCanvasElement, initialSettings: GameSettings) {
+    /**
+     * @param canvas - Canvas the game is drawn on
+     * @param initialSettings - Settings to start with
+     * @param rng - Seeded random source for every random decision (a fresh seed is used if omitted)
+     */
+    constructor(canvas: HTMLCanvasElement, initialSettings: GameSettings, rng: SeededRandom = new SeededRandom(createSeed())) {
         this.canvas = canvas;
         this.settings = { ...initialSettings };
-        this.board = new Board();
-        // Generate initial queue based on mode
-        const initialQueue = this.settings.mode === 'easy' 
-            ? generateEasyShapes(this.board)
-            : generateShapes();
-        
-        this.state = {
-            board: this.board.getGrid(),
-            queue: initialQueue,
-            placedBlocks: [],
-            score: 0,
-            gameOver: false,
-            level: 1,
-            levelProgress: 0,
-            totalShapesPlaced: 0,
-            turn: 0,
-            linesCleared: 0,
-        };
+        const board = this.getBoardSettings();
+        this.piecePack = loadStoredPiecePack() ?? CLASSIC_PIECE_PACK;
+        this.engine = new GameEngine({
+            mode: this.settings.mode,
+            rng,
+            boardSize: board.size,
+            boardMask: board.mask,
+            piecePack: this.piecePack,
+            holdEnabled: this.settings.holdSlot[this.settings.mode],
+            deferDeals: true,
+        });
+        const resumed = this.resumeSavedGame();
 
         this.renderer = new Renderer(canvas, this.settings);
+        this.renderer.setReplayControlHandler(this.handleReplayControl.bind(this));
         this.inputHandler = new InputHandler(
             canvas,
-            this.board,
-            this.state.queue,
+            this.engine.getBoard(),
+            this.getDisplayQueue(),
             this.handlePlaceShape.bind(this),
             this.removeShapeFromQueue.bind(this),
-            this.restoreShapeToQueue.bind(this)
+            this.restoreShapeToQueue.bind(this),
+            this.handleHold.bind(this),
+            this.handleTransform.bind(this)
         );
+        // A resumed game keeps its hold slot if it has a piece in it
+        this.inputHandler.setHoldEnabled(this.engine.isHoldEnabled());
 
         this.scoreElement = document.getElementById('score-value');
         this.turnElement = document.getElementById('turn-value');
         this.linesElement = document.getElementById('lines-value');
-        this.levelElement = null; // Level number removed, only progress bar shown
-        this.levelProgressElement = null; // No longer using single progress bar element
-        this.emojiBoardElement = null; // Emoji board is now only shown on game over screen
+        this.hintElement = document.getElementById('hint-message');
+        this.timeDisplay = document.getElementById('time-display');
+        this.timeElement = document.getElementById('time-value');
         this.soundManager = new SoundManager(initialSettings.soundEnabled);
-        // Initialize color scheme for starting level
-        updateColorScheme(this.state.level);
+        this.subscribeToEngineEvents();
+        document.addEventListener('visibilitychange', () => this.handleVisibilityChange());
+        if (resumed) {
+            // A resumed game may be past level 1
+            this.updateUIColors();
+        }
         this.updateScoreDisplay();
         this.updateTurnDisplay();
         this.updateLinesDisplay();
         this.updateLevelDisplay();
+        this.updateTimeDisplay();
+    }
+
+    /**
+     * Gets the board dimensions and mask selected in the settings
+     */
+    private getBoardSettings(): { size: BoardSize; mask: BoardMask | null } {
+        const size = BOARD_SIZE_PRESETS[this.settings.boardSize];
+        return { size, mask: createBoardMask(this.settings.boardShape, size) };
     }
 
     /**
@@ -95,7 +142,6 @@ export class Game {
      * @param updatedSettings - latest settings selected by the player
      */
     updateSettings(updatedSettings: GameSettings): void {
-        const modeChanged = this.settings.mode !== updatedSettings.mode;
         const themeChanged = this.settings.theme !== updatedSettings.theme;
         this.settings = { ...updatedSettings };
         this.renderer.updateSettings(this.settings);
@@ -111,13 +157,47 @@ export class Game {
             this.animatingCells = [];
         }
         
-        // If mode changed and game is not over, regenerate queue with new mode
-        if (modeChanged && !this.state.gameOver) {
-            this.state.queue = this.settings.mode === 'easy'
-                ? generateEasyShapes(this.board)
-                : generateShapes();
-            this.inputHandler.updateQueue(this.state.queue);
+        if (this.daily) {
+            // The daily challenge keeps its own rules; mode, board and hold settings apply from the next game
+            return;
         }
+        // A new mode applies immediately until the game starts, otherwise from the next game
+        this.engine.setMode(this.settings.mode);
+        // A new board size or shape applies immediately until the game starts, otherwise from the next game
+        const board = this.getBoardSettings();
+        this.engine.setBoardSize(board.size, board.mask);
+        // Turning the hold slot off waits until it is empty
+        this.engine.setHoldEnabled(this.settings.holdSlot[this.settings.mode]);
+        this.inputHandler.setHoldEnabled(this.engine.isHoldEnabled());
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+    }
+
+    /**
+     * Switches the pieces new games are dealt from and remembers the choice
+     * Applies immediately until the game starts, otherwise from the next game
+     * @param pack - Validated pack, or null for the classic pieces
+     * @returns True if the current game already uses the pack
+     */
+    setPiecePack(pack: PiecePack | null): boolean {
+        this.piecePack = pack ?? CLASSIC_PIECE_PACK;
+        storePiecePack(pack && !isSamePiecePack(pack, CLASSIC_PIECE_PACK) ? pack : null);
+        if (this.replayPlayer || this.daily) {
+            // The live game is paused under the replay, and the daily challenge always uses the classic pieces;
+            // either way the pack applies from the next game
+            return false;
+        }
+        const applied = this.engine.setPiecePack(this.piecePack);
+        if (applied) {
+            this.inputHandler.updateQueue(this.getDisplayQueue());
+        }
+        return applied;
+    }
+
+    /**
+     * Gets the pack new games are dealt from
+     */
+    getPiecePack(): PiecePack {
+        return this.piecePack;
     }
 
     /**
@@ -161,9 +241,20 @@ export class Game {
             cell.progress = Math.min(elapsed / duration, 1);
             return cell.progress < 1; // Remove completed animations
         });
-        
+        this.updateClock(currentTime);
+
+        if (this.editor) {
+            // The editor's tools and panel change the board it shows
+            this.inputHandler.updateBoard(this.editor.getBoard());
+            return;
+        }
+        if (this.replayPlayer) {
+            this.updateReplay(currentTime);
+            return;
+        }
+
         // Don't update game logic if game is over (freeze the board)
-        if (this.state.gameOver) {
+        if (this.engine.getState().gameOver) {
             // Still update game over animation
             if (this.gameOverStartTime === null) {
                 this.gameOverStartTime = currentTime;
@@ -172,12 +263,36 @@ export class Game {
         }
         
         // Update input handler references
-        this.inputHandler.updateBoard(this.board);
-        this.inputHandler.updateQueue(this.state.queue);
+        this.inputHandler.updateBoard(this.engine.getBoard());
+        this.inputHandler.updateQueue(this.getDisplayQueue());
         
         // Reset game over animation start time if not game over
-        if (!this.state.gameOver) {
-            this.gameOverStartTime = null;
+        this.gameOverStartTime = null;
+    }
+
+    /**
+     * Runs blitz mode's clock while the live game is waiting for a move
+     * It stops during replays, in the puzzle editor and while the next hand is being dealt; a hidden tab stops it too (see handleVisibilityChange)
+     */
+    private updateClock(currentTime: number): void {
+        const running = this.engine.getTimeLeft() !== null && !this.engine.getState().gameOver &&
+            !this.replayPlayer && !this.editor && !this.engine.isDealPending() && !document.hidden;
+        if (running && this.clockTickAt !== null) {
+            this.engine.tickClock(currentTime - this.clockTickAt);
+        }
+        this.clockTickAt = running ? currentTime : null;
+        this.updateTimeDisplay();
+    }
+
+    /**
+     * Pauses blitz mode's clock with the tab
+     * Animation frames stop while the tab is hidden, so the gap is dropped instead of counted when it comes back
+     */
+    private handleVisibilityChange(): void {
+        this.clockTickAt = null;
+        if (document.hidden) {
+            // A reload after leaving the tab resumes the clock where it stopped
+            this.saveProgress();
         }
     }
 
@@ -185,6 +300,16 @@ export class Game {
      * Renders the current game state
      */
     private render(): void {
+        if (this.editor) {
+            const { index, count } = this.editor.getHandPosition();
+            this.renderer.renderEditor(this.editor.getBoard(), this.editor.getPlacedBlocks(), this.editor.getHandShapes(), `HAND ${index + 1} OF ${count}`);
+            return;
+        }
+        if (this.replayPlayer) {
+            this.renderReplay(this.replayPlayer);
+            return;
+        }
+        const state = this.engine.getState();
         const dragState = this.inputHandler.getDragState();
         // Only show fade overlay after popping animation completes
         const gameOverProgress = (this.gameOverStartTime !== null && this.gameOverPopComplete)
@@ -199,19 +324,67 @@ export class Game {
             this.levelUpStartTime = null;
         }
         this.renderer.render(
-            this.board,
-            this.state.placedBlocks,
-            this.state.queue,
+            this.engine.getBoard(),
+            state.placedBlocks,
+            this.getDisplayQueue(),
             dragState,
-            this.state.gameOver,
+            state.gameOver,
             this.animatingCells,
             gameOverProgress,
-            this.state.totalShapesPlaced,
+            state.totalShapesPlaced,
             levelUpProgress,
-            this.state.level,
-            this.state.score,
-            this.state.linesCleared
+            state.level,
+            state.score,
+            state.linesCleared,
+            this.engine.isHoldEnabled(),
+            state.held,
+            this.engine.getTransformTokens(),
+            this.hint,
+            this.engine.getPuzzleResult()
         );
+        if (this.settings.showDevOverlay) {
+            this.renderer.drawDevOverlay(this.getDevOverlayLines());
+        }
+        this.renderAchievementToast();
+    }
+
+    /**
+     * Draws the toast for the oldest waiting achievement, moving on to the next once it has been shown
+     */
+    private renderAchievementToast(): void {
+        if (this.achievementToasts.length === 0) {
+            return;
+        }
+        this.achievementToastStartTime ??= Date.now();
+        const progress = (Date.now() - this.achievementToastStartTime) / ANIMATION_CONFIG.achievementToastMs;
+        if (progress >= 1) {
+            this.achievementToasts.shift();
+            this.achievementToastStartTime = null;
+            return;
+        }
+        const [achievement] = this.achievementToasts;
+        this.renderer.drawAchievementToast(achievement.name, achievement.description, progress);
+    }
+
+    /**
+     * Gets the dev overlay's readouts: mode, seed and board fill, plus adaptive mode's difficulty and what it reacts to
+     */
+    private getDevOverlayLines(): string[] {
+        const { adaptive } = this.engine.getState();
+        const lines = [
+            `mode ${this.engine.getMode()}  seed ${this.getSeed()}`,
+            `fill ${Math.round(this.engine.getBoard().getFillRatio() * 100)}%`,
+        ];
+        if (adaptive) {
+            const rules = getAdaptiveDealRules(adaptive.difficulty);
+            lines.push(
+                `difficulty ${adaptive.difficulty.toFixed(2)}`,
+                `size bias ${rules.sizeBias.toFixed(2)}  guaranteed ${rules.guaranteedPieces}/3`,
+                `recent clears ${adaptive.recentClears.join(' ') || '-'}`,
+                `near-death hands ${adaptive.nearDeathHands}`
+            );
+        }
+        return lines;
     }
 
     /**
@@ -223,339 +396,390 @@ export class Game {
     }
 
     /**
-     * Removes a shape from the queue when it's selected for dragging
-     * @param shapeIndex - Index of the shape to remove
+     * Lifts a shape out of the queue when it's selected for dragging
+     * The engine queue is untouched; the slot is only hidden until the drag ends
+     * @param shapeIndex - Index of the shape being dragged
      */
     private removeShapeFromQueue(shapeIndex: number): void {
-        if (shapeIndex < 0 || shapeIndex >= this.state.queue.length) {
+        if (shapeIndex < 0 || shapeIndex >= this.engine.getState().queue.length) {
             return;
         }
-        // Leave a hole instead of shifting positions so queue slots stay fixed
-        this.state.queue[shapeIndex] = null;
-        this.inputHandler.updateQueue(this.state.queue);
+        this.liftedQueueIndex = shapeIndex;
+        this.inputHandler.updateQueue(this.getDisplayQueue());
     }
 
     /**
      * Restores a shape to the queue at the specified index (when drag is cancelled or invalid)
      * @param shapeIndex - Index where the shape should be restored
-     * @param shape - The shape to restore
+     * @param _shape - The shape being restored (already held by the engine queue)
      */
-    private restoreShapeToQueue(shapeIndex: number, shape: Shape): void {
+    private restoreShapeToQueue(shapeIndex: number, _shape: Shape): void {
         if (shapeIndex < 0) {
             return;
         }
-        // Ensure the queue has a slot at this index
-        while (this.state.queue.length < 3) {
-            this.state.queue.push(null);
+        this.liftedQueueIndex = null;
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+    }
+
+    /**
+     * Gets the queue as the player sees it (the slot being dragged is shown empty)
+     */
+    private getDisplayQueue(): (Shape | null)[] {
+        const queue = this.engine.getState().queue;
+        if (this.replayPlayer) {
+            // Nothing can be picked up while a replay is showing
+            return queue.map(() => null);
+        }
+        if (this.liftedQueueIndex !== null && this.liftedQueueIndex < queue.length) {
+            queue[this.liftedQueueIndex] = null;
         }
-        this.state.queue[shapeIndex] = shape;
-        this.inputHandler.updateQueue(this.state.queue);
+        return queue;
     }
 
     /**
      * Handles placing a shape on the board
      * Called by the input handler when a shape is dropped
-     * @param shapeIndex - Index of the shape that was in the queue (before removal)
+     * @param shapeIndex - Index of the shape in the queue
      * @param position - Grid position where the shape is placed
      */
     private handlePlaceShape(shapeIndex: number, position: Position): void {
-        if (this.state.gameOver) {
-            return;
+        this.liftedQueueIndex = null;
+        // The bot plays demo games on its own
+        if (!this.botDemo) {
+            this.placeFromQueue(shapeIndex, position);
         }
+    }
 
-        // Shape was already removed from queue when dragging started
-        // We need to get the shape from the drag state instead
-        const dragState = this.inputHandler.getDragState();
-        if (!dragState.shape) {
-            return;
+    /**
+     * Handles dropping a shape on the hold slot
+     * Called by the input handler; feedback is driven by the engine's events
+     * @param shapeIndex - Index of the shape in the queue
+     * @returns True if the shape went into the hold slot
+     */
+    private handleHold(shapeIndex: number): boolean {
+        this.liftedQueueIndex = null;
+        if (this.botDemo || !this.engine.hold(shapeIndex)) {
+            return false;
         }
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+        return true;
+    }
 
-        const shape = dragState.shape;
-        const shapeIndexInPool = getShapeIndex(shape);
-        const shapeColor = getShapeColor(shapeIndexInPool);
-        // Newly placed blocks start with base value (1-8) - store this value
-        const basePointValue = getShapePointValue(shapeIndexInPool, 0);
-
-        // Place the shape on the board
-        this.board.placeShape(shape, position);
-
-        // Add to placed blocks - store the base point value
-        const placedBlock: PlacedBlock = {
-            shape,
-            position,
-            color: shapeColor,
-            pointValue: basePointValue,  // Store base value (original, never modified)
-            lineClearBonuses: 0,  // Track line clear bonuses separately
-            totalShapesPlacedAtPlacement: this.state.totalShapesPlaced,
-            shapeIndex: shapeIndexInPool,  // Store the original shape index
-            darkness: 1.0,  // Start at full brightness
-        };
-        this.state.placedBlocks.push(placedBlock);
-        // Resume AudioContext on first user interaction (fixes autoplay policy)
-        this.soundManager.resumeContext();
-        this.soundManager.playPlace();
-        console.log(`[PLACE] Placed shape at (${position.x}, ${position.y}), total blocks: ${this.state.placedBlocks.length}`);
-
-        // Shape was already removed from queue when dragging started
-        this.shapesPlacedThisTurn++;
-        this.state.totalShapesPlaced++;
-        this.state.turn++;
-        this.updateTurnDisplay();
-
-        // Color scheme updates are now handled when level changes (every 10 levels)
-
-        // Check for full rows and columns
-        this.checkAndClearLines();
-
-        // If required number of shapes have been placed, generate new queue based on mode
-        if (this.shapesPlacedThisTurn >= GAMEPLAY_CONFIG.shapesPerTurn) {
-            this.shapesPlacedThisTurn = 0;
-            this.state.queue = this.settings.mode === 'easy'
-                ? generateEasyShapes(this.board)
-                : generateShapes();
-            
-            // Check for game over at the beginning of each new round (after queue regeneration)
-            const activeQueue = this.state.queue.filter((q): q is Shape => !!q);
-            if (activeQueue.length > 0) {
-                const isGameOver = checkGameOver(this.board, activeQueue);
-                if (isGameOver) {
-                    this.triggerGameOver();
-                }
-            }
-        } else {
-            // Check for game over after placing a shape (in case lines cleared made room)
-            const activeQueue = this.state.queue.filter((q): q is Shape => !!q);
-            if (activeQueue.length > 0) {
-                const isGameOver = checkGameOver(this.board, activeQueue);
-                if (isGameOver) {
-                    this.triggerGameOver();
-                }
-            } else {
-                // If queue is empty, game is not over yet (waiting for new shapes)
-                this.state.gameOver = false;
-                this.gameOverStartTime = null;
-            }
+    /**
+     * Rotates or mirrors a queued shape (tapped in the queue, or being dragged)
+     * @param shapeIndex - Index of the shape in the queue
+     * @param transform - 'rotate' or 'mirror'
+     * @returns The shape in its new orientation, or null if it can't be turned
+     */
+    private handleTransform(shapeIndex: number, transform: PieceTransform): Shape | null {
+        if (this.replayPlayer || this.botDemo) {
+            return null;
         }
-
-        this.updateScoreDisplay();
+        const result = this.engine.transform(shapeIndex, transform);
+        if (!result) {
+            return null;
+        }
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+        return result.shape;
     }
 
     /**
-     * Removes cells from shapes that are in cleared rows or columns
-     * @param fullRows - Array of cleared row indices
-     * @param fullColumns - Array of cleared column indices
+     * Rotates or mirrors the piece being dragged (keyboard shortcut)
+     * @param transform - 'rotate' or 'mirror'
+     * @returns True if the piece was turned
      */
-    private removeCellsFromShapes(fullRows: number[], fullColumns: number[]): void {
-        const beforeCount = this.state.placedBlocks.length;
-        const beforeTotalCells = this.state.placedBlocks.reduce((sum, b) => sum + b.shape.length, 0);
-        
-        this.state.placedBlocks = this.state.placedBlocks.map(block => {
-            // Filter out cells that are in cleared rows or columns
-            const remainingCells = block.shape.filter(cell => {
-                const absoluteX = block.position.x + cell.x;
-                const absoluteY = block.position.y + cell.y;
-                
-                // Keep cell if it's NOT in any cleared row AND NOT in any cleared column
-                const inClearedRow = fullRows.includes(absoluteY);
-                const inClearedColumn = fullColumns.includes(absoluteX);
-                
-                return !inClearedRow && !inClearedColumn;
-            });
-            
-            // Return updated block with remaining cells, or null if all cells were removed
-            if (remainingCells.length === 0) {
-                console.log(`[CLEAR] Removed entire block at (${block.position.x}, ${block.position.y})`);
-                return null;
-            }
-            
-            if (remainingCells.length < block.shape.length) {
-                console.log(`[CLEAR] Partially removed block: ${block.shape.length} -> ${remainingCells.length} cells`);
-            }
-            
-            return {
-                ...block,
-                shape: remainingCells
-            };
-        }).filter((block): block is PlacedBlock => block !== null);
-        
-        const afterCount = this.state.placedBlocks.length;
-        const afterTotalCells = this.state.placedBlocks.reduce((sum, b) => sum + b.shape.length, 0);
-        
-        if (beforeCount !== afterCount || beforeTotalCells !== afterTotalCells) {
-            console.log(`[CLEAR] Shape count: ${beforeCount} -> ${afterCount}, Total cells: ${beforeTotalCells} -> ${afterTotalCells}`);
-            console.log(`[CLEAR] Cleared rows: [${fullRows.join(', ')}], columns: [${fullColumns.join(', ')}]`);
-        }
+    transformDraggedPiece(transform: PieceTransform): boolean {
+        return this.inputHandler.transformDragged(transform);
     }
 
     /**
-     * Cleans up shapes after animation completes
-     * @param fullRows - Array of cleared row indices
-     * @param fullColumns - Array of cleared column indices
+     * Gets how many rotations and mirrors are left this game
      */
-    private cleanupAfterAnimation(fullRows: number[], fullColumns: number[]): void {
-        this.removeCellsFromShapes(fullRows, fullColumns);
+    getTransformTokens(): TransformTokens {
+        return this.engine.getTransformTokens();
     }
 
     /**
-     * Checks for full rows and columns, clears them, and awards points
-     * Does NOT clear if game is over - board should remain visible
+     * Places a queued shape through the engine
+     * Shared by drag-and-drop and the bot; feedback is driven by the engine's events
+     * @param queueIndex - Index of the shape in the queue
+     * @param position - Grid position where the shape is placed
+     * @returns True if the shape was placed
      */
-    private checkAndClearLines(): void {
-        // Never clear lines if game is over - board should stay visible
-        if (this.state.gameOver) {
-            return;
+    private placeFromQueue(queueIndex: number, position: Position): boolean {
+        if (!this.engine.place(queueIndex, position)) {
+            return false;
         }
-        
-        const fullRows = this.board.getFullRows();
-        const fullColumns = this.board.getFullColumns();
+        // Update input handler with current board and queue (critical for validation after a bot move)
+        this.inputHandler.updateBoard(this.engine.getBoard());
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+        return true;
+    }
 
-        if (fullRows.length === 0 && fullColumns.length === 0) {
-            return;
+    /**
+     * Restores the game saved before the last reload, in the mode and on the board it was played with
+     * Mode and board settings that differ apply from the next game (main.ts points them at the saved game first)
+     * @returns True if a saved game was resumed
+     */
+    private resumeSavedGame(): boolean {
+        const saved = loadSavedGame();
+        if (!saved) {
+            return false;
         }
+        if (saved.state.gameOver) {
+            clearSavedGame();
+            return false;
+        }
+        this.engine.loadSaveData(saved);
+        console.log(`[SAVE] Resumed game from ${new Date(saved.savedAt).toISOString()}, turn ${saved.state.turn}, score ${saved.state.score}`);
+        return true;
+    }
 
-        const linesCleared = fullRows.length + fullColumns.length;
-
-        const shouldAnimate = this.settings.enableAnimations;
-
-        if (shouldAnimate) {
-            // Start animations for cells being removed
-            const currentTime = Date.now();
-            
-            for (const block of this.state.placedBlocks) {
-                // Calculate current point value for this block (base + line clear bonuses + level increments)
-                // Include the current clear bonuses (linesCleared) since blocks are being cleared now
-                const placementLevel = Math.floor(block.totalShapesPlacedAtPlacement / GAMEPLAY_CONFIG.shapesPerValueTier);
-                const currentLevel = Math.floor(this.state.totalShapesPlaced / GAMEPLAY_CONFIG.shapesPerValueTier);
-                const levelIncrements = currentLevel - placementLevel;
-                // Include current clear bonuses in the calculation to match displayed value
-                const currentPointValue = block.pointValue + block.lineClearBonuses + linesCleared + (levelIncrements * GAMEPLAY_CONFIG.pointsPerTier);
-                
-                // Determine if this block should explode (point value > explosion threshold)
-                const shouldExplode = currentPointValue > GAMEPLAY_CONFIG.explosionThreshold;
-                
-                for (const cell of block.shape) {
-                    const absoluteX = block.position.x + cell.x;
-                    const absoluteY = block.position.y + cell.y;
-                    
-                    const inClearedRow = fullRows.includes(absoluteY);
-                    const inClearedColumn = fullColumns.includes(absoluteX);
-                    
-                    if (inClearedRow || inClearedColumn) {
-                        // Add staggered delay based on position for more varied animations
-                        // Calculate delay: cells in rows clear left-to-right, columns clear top-to-bottom
-                        let staggerDelay = 0;
-                        if (inClearedRow) {
-                            // Stagger horizontally: left cells clear first
-                            staggerDelay = absoluteX * 15; // 15ms per cell
-                        } else if (inClearedColumn) {
-                            // Stagger vertically: top cells clear first
-                            staggerDelay = absoluteY * 15; // 15ms per cell
-                        }
-                        
-                        // Use one animation per level (level-based, not cycling)
-                        const animationIndex = (this.state.level - 1) % 17;
-                        
-                        // Determine animation type based on point value
-                        const animationType = shouldExplode ? 'explosion' : 'clear';
-                        
-                        // Add to animating cells with animation index and staggered start time
-                        this.animatingCells.push({
-                            x: absoluteX,
-                            y: absoluteY,
-                            color: block.color,
-                            startTime: currentTime + staggerDelay,
-                            progress: 0,
-                            type: animationType,
-                            animationIndex: animationIndex
-                        });
-                    }
-                }
-            }
-        } else {
-            this.animatingCells = [];
+    /**
+     * Saves the in-progress game (finished games, bot demos, puzzles and daily challenges are never saved)
+     */
+    private saveProgress(): void {
+        // While a deal is pending the queue is empty; the save follows once the hand arrives
+        if (!this.engine.getState().gameOver && !this.engine.isDealPending() && !this.botDemo && !this.engine.getPuzzle() && !this.daily) {
+            saveGame(this.engine.toSaveData());
         }
+    }
 
-        // Clear full rows and columns on the board immediately
-        for (const row of fullRows) {
-            this.board.clearRow(row);
+    /**
+     * Takes back the last placement if the current mode allows it
+     * @returns True if a placement was undone
+     */
+    undo(): boolean {
+        if (this.replayPlayer || this.botDemo || this.editor || this.inputHandler.getDragState().isDragging) {
+            return false;
         }
+        const undone = this.engine.undo();
+        if (undone) {
+            console.log(`[UNDO] Undo used (${this.engine.getUndoStatus().undosUsed} this game)`);
+        }
+        return undone;
+    }
 
-        for (const col of fullColumns) {
-            this.board.clearColumn(col);
+    /**
+     * Re-applies the last undone placement
+     * @returns True if a placement was redone
+     */
+    redo(): boolean {
+        if (this.replayPlayer || this.botDemo || this.editor || this.inputHandler.getDragState().isDragging) {
+            return false;
         }
+        return this.engine.redo();
+    }
 
-        const boardCleared = this.willBoardBeCleared(fullRows, fullColumns);
-        const points = calculateScore(
-            fullRows,
-            fullColumns,
-            this.state.placedBlocks,
-            boardCleared,
-            this.state.totalShapesPlaced
-        );
-        this.state.score += points;
-        this.updateScoreDisplay();
-        this.soundManager.playClear(linesCleared, boardCleared);
+    /**
+     * Whether the current mode (or puzzle) allows undo at all
+     */
+    isUndoEnabled(): boolean {
+        return this.engine.getRules().undoLimit !== 0;
+    }
 
-        // Vibrate on mobile when line/column is completed
-        if (linesCleared > 0 && 'vibrate' in navigator) {
-            // Short vibration pattern: vibrate for 50ms
-            navigator.vibrate(50);
-        }
+    /**
+     * Gets how many undos have been used this game and how many are left
+     */
+    getUndoStatus(): UndoStatus {
+        return this.engine.getUndoStatus();
+    }
+
+    /**
+     * Whether the undo control should be enabled
+     */
+    canUndo(): boolean {
+        return this.engine.canUndo();
+    }
+
+    /**
+     * Whether the redo control should be enabled
+     */
+    canRedo(): boolean {
+        return this.engine.canRedo();
+    }
 
-        // Update lines cleared counter
-        this.state.linesCleared += linesCleared;
+    /**
+     * Syncs animations, input and HUD after the engine state was replaced by undo or redo
+     */
+    private refreshAfterHistoryChange(): void {
+        // Cells animating out may have just been restored
+        this.animatingCells = [];
+        this.levelUpStartTime = null;
+        this.inputHandler.updateBoard(this.engine.getBoard());
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+        this.updateUIColors();
+        this.updateScoreDisplay();
+        this.updateTurnDisplay();
         this.updateLinesDisplay();
+        this.updateLevelDisplay();
+    }
 
-        // Darken all remaining blocks and increment their line clear bonuses
-        this.state.placedBlocks.forEach(block => {
-            block.darkness = Math.max(0, block.darkness - GAMEPLAY_CONFIG.darknessReduction);
-            block.lineClearBonuses += linesCleared; // Increment line clear bonuses by 1 for each line/column cleared
-        });
+    /**
+     * Subscribes to a game event
+     * @param event - Event name (shapePlaced, linesCleared, levelUp, queueRefilled, gameOver, scoreChanged)
+     * @param listener - Called with the typed event payload
+     * @returns A function that removes the listener
+     */
+    on<K extends GameEventName>(event: K, listener: GameEventListener<K>): () => void {
+        return this.engine.on(event, listener);
+    }
 
-        // Update level progress
-        this.state.levelProgress += linesCleared * GAMEPLAY_CONFIG.levelProgressPerLine;
-        // Check for level up
-        const previousLevel = this.state.level;
-        
-        while (this.state.levelProgress >= GAMEPLAY_CONFIG.levelProgressThreshold) {
-            this.state.levelProgress -= GAMEPLAY_CONFIG.levelProgressThreshold;
-            this.state.level++;
-        }
-        
-        // Update color scheme if level changed (colors change every level up to level 10)
-        if (this.state.level !== previousLevel) {
-            console.log(`[COLOR] Level changed from ${previousLevel} to ${this.state.level}`);
-            updateColorScheme(this.state.level);
-            // Update colors for all placed blocks
-            this.state.placedBlocks.forEach(block => {
-                block.color = getShapeColor(block.shapeIndex);
-            });
+    /**
+     * Wires the HUD, sound, haptics and animations to the engine's events
+     */
+    private subscribeToEngineEvents(): void {
+        // HUD
+        this.on('shapePlaced', () => this.updateTurnDisplay());
+        this.on('scoreChanged', () => this.updateScoreDisplay());
+        this.on('linesCleared', () => {
+            this.updateLinesDisplay();
+            this.updateLevelDisplay();
+        });
+        this.on('levelUp', ({ previousLevel, level }) => {
+            console.log(`[COLOR] Level changed from ${previousLevel} to ${level}`);
             // Update UI colors to match new level
             this.updateUIColors();
             // Start level up animation
             this.levelUpStartTime = Date.now();
             // Force a re-render to show new colors in queue
             this.render();
+        });
+
+        // Sound
+        this.on('shapePlaced', ({ position }) => {
+            // Resume AudioContext on first user interaction (fixes autoplay policy)
+            this.soundManager.resumeContext();
+            this.soundManager.playPlace();
+            console.log(`[PLACE] Placed shape at (${position.x}, ${position.y}), total blocks: ${this.engine.getState().placedBlocks.length}`);
+        });
+        this.on('linesCleared', clear => {
+            console.log(`[CLEAR] Cleared rows: [${clear.rows.join(', ')}], columns: [${clear.columns.join(', ')}]`);
+            this.soundManager.playClear(clear.linesCleared, clear.boardCleared);
+        });
+
+        // Haptics
+        this.on('linesCleared', () => {
+            // Vibrate on mobile when line/column is completed
+            if ('vibrate' in navigator) {
+                // Short vibration pattern: vibrate for 50ms
+                navigator.vibrate(50);
+            }
+        });
+
+        // Undo and redo replace the whole state, so refresh everything derived from it
+        this.on('undone', () => this.refreshAfterHistoryChange());
+        this.on('redone', () => this.refreshAfterHistoryChange());
+
+        // Deals run on the solver worker; a deal is dropped once the state it was for is gone
+        this.on('dealRequested', request => this.requestDeal(request));
+        this.on('undone', () => this.dropStaleDeal());
+        this.on('redone', () => this.dropStaleDeal());
+        this.on('queueRefilled', () => this.dropStaleDeal());
+
+        // A hint is only good for the position it was found for
+        this.on('shapePlaced', () => this.clearHint());
+        this.on('pieceHeld', () => this.clearHint());
+        this.on('pieceTransformed', () => this.clearHint());
+        this.on('undone', () => this.clearHint());
+        this.on('redone', () => this.clearHint());
+        this.on('queueRefilled', () => this.clearHint());
+        this.on('boardRelieved', () => this.clearHint());
+        this.on('gameOver', () => this.clearHint());
+
+        // Persistence: auto-save after every change so a reload resumes the run
+        this.on('shapePlaced', () => this.saveProgress());
+        this.on('pieceHeld', () => this.saveProgress());
+        this.on('pieceTransformed', () => this.saveProgress());
+        this.on('undone', () => this.saveProgress());
+        this.on('redone', () => this.saveProgress());
+        this.on('queueRefilled', () => this.saveProgress());
+        // The ranked daily attempt isn't saved, so its stored result follows every placement instead
+        this.on('shapePlaced', () => this.recordDailyAttempt(false));
+        // A finished game is not resumable
+        this.on('gameOver', () => clearSavedGame());
+        this.on('puzzleFinished', result => {
+            console.log(`[PUZZLE] ${result.puzzleId} ${result.solved ? `solved in ${result.piecesPlaced} pieces (${result.stars} stars)` : 'not solved'}`);
+            // Only built-in puzzles keep progress, so test plays from the editor aren't recorded
+            if (!this.isPuzzleTestPlay()) {
+                recordPuzzleResult(result);
+            }
+        });
+
+        // Achievements (gameFinished is checked in recordFinishedGame, once the final score is known)
+        this.on('linesCleared', clear => this.checkAchievements('linesCleared', clear));
+        this.on('levelUp', change => this.checkAchievements('levelUp', change));
+        this.on('puzzleFinished', result => this.checkAchievements('puzzleFinished', result));
+
+        // Animations and game over sequence (endless modes clear part of the board instead)
+        this.on('linesCleared', clear => this.animateLineClear(clear, this.engine.getState().level));
+        this.on('boardRelieved', relief => this.animateRelief(relief, this.engine.getState().level));
+        this.on('gameOver', () => this.triggerGameOver());
+    }
+
+    /**
+     * Starts the clear animation for the cells removed by a line clear
+     * @param clear - The clear reported by the engine
+     * @param level - Level after the clear (picks the animation style)
+     */
+    private animateLineClear(clear: LineClearResult, level: number): void {
+        if (!this.settings.enableAnimations) {
+            this.animatingCells = [];
+            return;
         }
-        
-        this.updateLevelDisplay();
 
-        // Remove cells from shapes after animation completes
-        if (shouldAnimate && this.animatingCells.length > 0) {
-            // Wait for the longest animation to complete (explosions take longer than regular clears)
-            const maxAnimationDuration = Math.max(this.ANIMATION_DURATION, ANIMATION_CONFIG.explosionMs);
-            setTimeout(() => {
-                this.removeCellsFromShapes(fullRows, fullColumns);
-            }, maxAnimationDuration);
-        } else {
-            // No animations, clean up immediately
-            this.removeCellsFromShapes(fullRows, fullColumns);
+        // Start animations for cells being removed
+        const currentTime = Date.now();
+        // Use one animation per level (level-based, not cycling)
+        const animationIndex = (level - 1) % 17;
+
+        for (const cell of clear.cells) {
+            // Add staggered delay based on position for more varied animations
+            // Cells in rows clear left-to-right, columns clear top-to-bottom (15ms per cell)
+            const staggerDelay = clear.rows.includes(cell.y) ? cell.x * 15 : cell.y * 15;
+
+            // Blocks valued above the explosion threshold explode instead of clearing
+            const animationType = cell.pointValue > GAMEPLAY_CONFIG.explosionThreshold ? 'explosion' : 'clear';
+
+            this.animatingCells.push({
+                x: cell.x,
+                y: cell.y,
+                color: cell.color,
+                startTime: currentTime + staggerDelay,
+                progress: 0,
+                type: animationType,
+                animationIndex: animationIndex
+            });
         }
     }
 
     /**
-     * Updates the score display in the UI
+     * Clears the blocks an endless game removed to keep going, with the line clear animation for the level
+     * @param relief - The relief reported by the engine
+     * @param level - Current level (picks the animation style)
      */
+    private animateRelief(relief: BoardRelief, level: number): void {
+        console.log(`[ZEN] Cleared ${relief.cells.length} cells to keep going (${relief.reliefs} this game)`);
+        this.soundManager.playClear(1, false);
+        if (!this.settings.enableAnimations) {
+            this.animatingCells = [];
+            return;
+        }
+        const currentTime = Date.now();
+        relief.cells.forEach((cell, index) => {
+            // Oldest blocks go first, 15ms apart like a line clear
+            this.animatingCells.push({
+                x: cell.x,
+                y: cell.y,
+                color: cell.color,
+                startTime: currentTime + index * 15,
+                progress: 0,
+                type: 'clear',
+                animationIndex: (level - 1) % 17,
+            });
+        });
+    }
+
     /**
      * Formats a number with commas (e.g., 1234 -> "1,234")
      */
@@ -563,9 +787,12 @@ export class Game {
         return num.toLocaleString('en-US');
     }
 
+    /**
+     * Updates the score display in the UI
+     */
     private updateScoreDisplay(): void {
         if (this.scoreElement) {
-            this.scoreElement.textContent = this.formatNumber(this.state.score);
+            this.scoreElement.textContent = this.formatNumber(this.engine.getState().score);
         }
     }
 
@@ -574,7 +801,7 @@ export class Game {
      */
     private updateTurnDisplay(): void {
         if (this.turnElement) {
-            this.turnElement.textContent = this.formatNumber(this.state.turn);
+            this.turnElement.textContent = this.formatNumber(this.engine.getState().turn);
         }
     }
 
@@ -583,7 +810,26 @@ export class Game {
      */
     private updateLinesDisplay(): void {
         if (this.linesElement) {
-            this.linesElement.textContent = this.formatNumber(this.state.linesCleared);
+            this.linesElement.textContent = this.formatNumber(this.engine.getState().linesCleared);
+        }
+    }
+
+    /**
+     * Updates blitz mode's countdown in the UI (hidden in untimed modes)
+     */
+    private updateTimeDisplay(): void {
+        const timeLeft = this.engine.getTimeLeft();
+        if (this.timeDisplay) {
+            this.timeDisplay.hidden = timeLeft === null;
+            this.timeDisplay.classList.toggle('is-low', timeLeft !== null && timeLeft <= BLITZ_CONFIG.warningSeconds * 1000);
+        }
+        if (this.timeElement && timeLeft !== null) {
+            const seconds = Math.ceil(timeLeft / 1000);
+            const text = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+            // Runs every frame, so only touch the DOM when the shown second changes
+            if (this.timeElement.textContent !== text) {
+                this.timeElement.textContent = text;
+            }
         }
     }
 
@@ -591,7 +837,7 @@ export class Game {
      * Updates UI colors (buttons, score displays, high scores) to match the current level's color scheme
      */
     private updateUIColors(): void {
-        const uiColor = getUIColorForLevel(this.state.level, this.settings.theme);
+        const uiColor = getUIColorForLevel(this.engine.getState().level, this.settings.theme);
         const buttonColors = getButtonColors(uiColor, this.settings.theme);
 
         // Update CSS variables on body element (where theme is applied)
@@ -613,7 +859,7 @@ export class Game {
         // Calculate number of boxes (one per line to complete level)
         const linesPerLevel = Math.ceil(GAMEPLAY_CONFIG.levelProgressThreshold / GAMEPLAY_CONFIG.levelProgressPerLine);
         const progressBoxes = document.querySelectorAll('.progress-box');
-        const filledCount = Math.floor((this.state.levelProgress / GAMEPLAY_CONFIG.levelProgressThreshold) * linesPerLevel);
+        const filledCount = Math.floor((this.engine.getState().levelProgress / GAMEPLAY_CONFIG.levelProgressThreshold) * linesPerLevel);
         
         progressBoxes.forEach((box, index) => {
             if (index < filledCount) {
@@ -626,179 +872,329 @@ export class Game {
 
 
     /**
-     * Automatically places all three pieces in the queue using optimal placement order
+     * Asks the solver for the best next move and shows it on the board
+     * A hint is only spent once one is found for the position that is still on the board
+     * @returns The hint shown, or null if none is available (allowance used up, nothing fits, or the game moved on)
      */
-    autoPlacePieces(): void {
-        if (this.state.gameOver) {
-            return;
+    showHint(): Promise<MoveHint | null> {
+        if (this.hint) {
+            return Promise.resolve(this.hint);
         }
-
-        // Find optimal placement order
-        const placementOrder = findOptimalPlacementOrder(this.board, this.state.queue);
-        
-        if (!placementOrder || placementOrder.length === 0) {
-            console.warn('[AUTO-PLACE] No valid placement order found');
-            return;
+        if (!this.canShowHint()) {
+            return Promise.resolve(null);
         }
+        this.hintTask?.cancel();
+
+        const board = this.engine.getBoard();
+        const queue = this.engine.getState().queue;
+        // The lookahead agent is the solver: the hand as dealt first, turning pieces only if it doesn't fit
+        const task = this.solverWorker.run('plan', {
+            agent: 'lookahead',
+            boardSize: board.getDimensions(),
+            boardMask: board.getMask(),
+            filled: board.getFilledBits(),
+            piecePack: this.engine.getPiecePack(),
+            queue,
+            tokens: this.engine.getTransformTokens(),
+        });
+        this.hintTask = task;
+        const stateKey = this.getBotStateKey();
 
-        // Place each shape in the optimal order
-        // We need to place them one at a time, waiting for line clears between each
-        // For now, we'll place them sequentially with a small delay
-        placementOrder.forEach(({ shapeIndex, position }, index) => {
-            setTimeout(() => {
-                const shape = this.state.queue[shapeIndex];
-                if (!shape) {
-                    return;
+        return task.promise
+            .then(steps => {
+                if (this.hintTask === task) {
+                    this.hintTask = null;
                 }
+                if (this.getBotStateKey() !== stateKey || !this.canShowHint()) {
+                    return null;
+                }
+                const hint = createHint(this.engine.getBoard(), queue, steps);
+                if (!hint || !this.engine.useHint()) {
+                    return null;
+                }
+                this.hint = hint;
+                this.updateHintDisplay();
+                console.log(`[HINT] ${hint.explanation} (${this.engine.getHintStatus().hintsUsed} this game)`);
+                return hint;
+            })
+            .catch(error => {
+                if (!(error instanceof SolverJobCancelledError)) {
+                    console.warn('[HINT] Search failed:', error);
+                }
+                return null;
+            });
+    }
 
-                // Temporarily restore the shape to queue if it was removed
-                this.state.queue[shapeIndex] = shape;
-                this.inputHandler.updateQueue(this.state.queue);
+    /**
+     * Whether a hint can be asked for right now (mode allows one, allowance left, live game waiting for a move)
+     */
+    canShowHint(): boolean {
+        return this.engine.canUseHint() && !this.replayPlayer && !this.botDemo && !this.editor && !this.engine.isDealPending();
+    }
 
-                // Create a temporary drag state to simulate placement
-                const dragState = this.inputHandler.getDragState();
-                // We need to manually trigger placement since we're bypassing drag
-                // For now, we'll directly call handlePlaceShape logic
-                this.placeShapeDirectly(shape, position, shapeIndex);
-            }, index * 100); // Small delay between placements
-        });
+    /**
+     * Whether the current mode allows hints at all
+     */
+    isHintEnabled(): boolean {
+        return this.engine.getRules().hintLimit !== 0;
+    }
+
+    /**
+     * Gets how many hints have been used this game and how many are left
+     */
+    getHintStatus(): HintStatus {
+        return this.engine.getHintStatus();
+    }
+
+    /**
+     * Drops the hint on the board and any hint still being searched
+     */
+    private clearHint(): void {
+        this.hintTask?.cancel();
+        this.hintTask = null;
+        if (this.hint) {
+            this.hint = null;
+            this.updateHintDisplay();
+        }
+    }
+
+    /**
+     * Shows the current hint's explanation under the board (empty when there is none)
+     */
+    private updateHintDisplay(): void {
+        if (this.hintElement) {
+            this.hintElement.textContent = this.hint ? `Hint: ${this.hint.explanation}` : '';
+        }
     }
 
     /**
-     * Directly places a shape on the board (used by auto-place)
+     * Lets the bot play this turn: the agent plans on the solver worker and its placements follow with a short delay
+     * @param agent - Agent to play with (the bot strategy setting if omitted)
      */
-    private placeShapeDirectly(shape: Shape, position: Position, queueIndex: number): void {
-        if (this.state.gameOver) {
+    autoPlacePieces(agent: AgentName = this.settings.botStrategy): void {
+        if (!this.canAutoPlace()) {
             return;
         }
+        this.playBotTurn(agent, BOT_CONFIG.autoPlaceIntervalMs).then(placed => {
+            if (placed === 0 && !this.engine.getState().gameOver) {
+                console.warn(`[BOT] ${agent} agent found no placement`);
+            }
+        });
+    }
 
-        // Remove shape from queue
-        this.state.queue[queueIndex] = null;
-        this.inputHandler.updateQueue(this.state.queue);
-
-        const shapeIndexInPool = getShapeIndex(shape);
-        const shapeColor = getShapeColor(shapeIndexInPool);
-        const basePointValue = getShapePointValue(shapeIndexInPool, 0);
-
-        // Place the shape on the board
-        this.board.placeShape(shape, position);
-
-        // Add to placed blocks
-        const placedBlock: PlacedBlock = {
-            shape,
-            position,
-            color: shapeColor,
-            pointValue: basePointValue,
-            lineClearBonuses: 0,
-            totalShapesPlacedAtPlacement: this.state.totalShapesPlaced,
-            shapeIndex: shapeIndexInPool,
-            darkness: 1.0,
-        };
-        this.state.placedBlocks.push(placedBlock);
-        this.soundManager.resumeContext();
-        this.soundManager.playPlace();
+    /**
+     * Whether Auto Place may play a turn in the current game
+     * The ranked daily attempt is the player's own: every player gets the same game, so the bot can't play any of it
+     */
+    canAutoPlace(): boolean {
+        return !this.botDemo && !this.editor && !this.daily?.ranked;
+    }
 
-        this.shapesPlacedThisTurn++;
-        this.state.totalShapesPlaced++;
-        this.state.turn++;
-        this.updateTurnDisplay();
+    /**
+     * Starts a demo game the bot plays on its own until game over
+     * Demo games start fresh, ignore player input and are never saved, scored or recorded
+     * @param agent - Agent to play with (the bot strategy setting if omitted)
+     * @returns False if a demo can't start right now (mid-drag, while watching a replay or in the puzzle editor)
+     */
+    startBotDemo(agent: AgentName = this.settings.botStrategy): boolean {
+        if (this.replayPlayer || this.editor || this.inputHandler.getDragState().isDragging) {
+            return false;
+        }
+        this.reset(true, undefined, null, null);
+        // Agents don't use the hold slot
+        this.engine.setHoldEnabled(false);
+        this.inputHandler.setHoldEnabled(false);
+        this.botDemo = { agent };
+        this.scheduleBotDemoTurn(this.botDemo);
+        console.log(`[BOT] Demo started with the ${agent} agent`);
+        return true;
+    }
 
-        // Check for full rows and columns
-        this.checkAndClearLines();
-        
-        // Update input handler with current board state (critical for validation after auto-place)
-        this.inputHandler.updateBoard(this.board);
-
-        // If required number of shapes have been placed, generate new queue
-        if (this.shapesPlacedThisTurn >= GAMEPLAY_CONFIG.shapesPerTurn) {
-            this.shapesPlacedThisTurn = 0;
-            this.state.queue = this.settings.mode === 'easy'
-                ? generateEasyShapes(this.board)
-                : generateShapes();
-            // Update input handler with new queue
-            this.inputHandler.updateQueue(this.state.queue);
-            
-            const activeQueue = this.state.queue.filter((q): q is Shape => !!q);
-            if (activeQueue.length > 0) {
-                const isGameOver = checkGameOver(this.board, activeQueue);
-                if (isGameOver) {
-                    this.triggerGameOver();
-                }
+    /**
+     * Stops the bot demo and starts a fresh game for the player
+     */
+    stopBotDemo(): void {
+        if (this.botDemo) {
+            this.reset(true);
+        }
+    }
+
+    /**
+     * Whether the current game is a bot demo
+     */
+    isBotDemoRunning(): boolean {
+        return this.botDemo !== null;
+    }
+
+    /**
+     * Plays the demo's next turn after a pause, then schedules the one after it
+     * @param demo - The demo this turn belongs to (a newer or stopped demo ends the loop)
+     */
+    private scheduleBotDemoTurn(demo: { agent: AgentName }): void {
+        this.botTimers.push(setTimeout(() => {
+            if (this.botDemo !== demo || this.engine.getState().gameOver) {
+                return;
             }
-        } else {
-            // Update input handler with current queue state
-            this.inputHandler.updateQueue(this.state.queue);
-            
-            const activeQueue = this.state.queue.filter((q): q is Shape => !!q);
-            if (activeQueue.length > 0) {
-                const isGameOver = checkGameOver(this.board, activeQueue);
-                if (isGameOver) {
-                    this.triggerGameOver();
+            if (this.replayPlayer || this.engine.isDealPending()) {
+                // Wait for the replay to close or the next hand to arrive
+                this.scheduleBotDemoTurn(demo);
+                return;
+            }
+            this.playBotTurn(demo.agent, BOT_CONFIG.demoMoveIntervalMs).then(() => this.scheduleBotDemoTurn(demo));
+        }, BOT_CONFIG.demoTurnPauseMs));
+    }
+
+    /**
+     * Plans the turn with an agent on the solver worker and plays the plan on a timer
+     * The plan stops if the game moves on meanwhile (a player move, undo, replay or new game)
+     * @param agent - Agent to plan with
+     * @param intervalMs - Delay between placements
+     * @returns Resolves with the number of pieces placed once the plan is played or dropped
+     */
+    private playBotTurn(agent: AgentName, intervalMs: number): Promise<number> {
+        const state = this.engine.getState();
+        if (state.gameOver || this.replayPlayer || this.engine.isDealPending()) {
+            return Promise.resolve(0);
+        }
+        this.cancelBotTurn();
+
+        const board = this.engine.getBoard();
+        const task = this.solverWorker.run('plan', {
+            agent,
+            boardSize: board.getDimensions(),
+            boardMask: board.getMask(),
+            filled: board.getFilledBits(),
+            piecePack: this.engine.getPiecePack(),
+            queue: state.queue,
+            tokens: this.engine.getTransformTokens(),
+        });
+        this.botTask = task;
+        let stateKey = this.getBotStateKey();
+
+        return task.promise
+            .then(steps => new Promise<number>(resolve => {
+                this.botTask = null;
+                let placed = 0;
+                const playStep = (index: number) => {
+                    if (index >= steps.length || this.getBotStateKey() !== stateKey) {
+                        resolve(placed);
+                        return;
+                    }
+                    if (!this.applyBotStep(steps[index])) {
+                        console.warn('[BOT] Planned placement was rejected:', steps[index]);
+                        resolve(placed);
+                        return;
+                    }
+                    placed++;
+                    if (placed === 1) {
+                        // A turn counts once the bot has placed a piece in it
+                        this.engine.recordBotTurn();
+                    }
+                    stateKey = this.getBotStateKey();
+                    this.botTimers.push(setTimeout(() => playStep(index + 1), intervalMs));
+                };
+                playStep(0);
+            }))
+            .catch(error => {
+                if (!(error instanceof SolverJobCancelledError)) {
+                    console.warn('[BOT] Planning failed:', error);
                 }
-            } else {
-                // If queue is empty, game is not over yet (waiting for new shapes)
-                this.state.gameOver = false;
-                this.gameOverStartTime = null;
+                return 0;
+            });
+    }
+
+    /**
+     * Turns and places one piece of a bot plan
+     * @returns True if the piece was placed
+     */
+    private applyBotStep({ queueIndex, transforms, position }: SolverStep): boolean {
+        for (const transform of transforms) {
+            if (!this.engine.transform(queueIndex, transform)) {
+                return false;
             }
         }
+        return this.placeFromQueue(queueIndex, position);
+    }
 
-        this.updateScoreDisplay();
+    /**
+     * Identifies the position a bot plan or hint was made for; it is only used while this is unchanged
+     */
+    private getBotStateKey(): string {
+        const state = this.engine.getState();
+        return `${this.replayPlayer ? 'replay' : 'live'}|${state.turn}|${JSON.stringify(state.queue)}`;
+    }
+
+    /**
+     * Cancels the bot plan being searched and any placements still to come
+     */
+    private cancelBotTurn(): void {
+        this.botTask?.cancel();
+        this.botTask = null;
+        this.botTimers.forEach(timer => clearTimeout(timer));
+        this.botTimers = [];
+    }
+
+    /**
+     * Deals the next hand on the solver worker and hands it to the engine
+     * @param request - The deal the engine is waiting for
+     */
+    private requestDeal(request: DealRequest): void {
+        this.dealTask?.task.cancel();
+        const task = this.solverWorker.run('deal', request);
+        this.dealTask = { id: request.id, task };
+        task.promise
+            .then(result => this.engine.completeDeal(request.id, result))
+            .catch(error => {
+                if (error instanceof SolverJobCancelledError) {
+                    return;
+                }
+                console.warn('[DEAL] Worker deal failed, dealing on the main thread:', error);
+                this.engine.completeDeal(request.id, dealHand(request));
+            })
+            .finally(() => {
+                if (this.dealTask?.task === task) {
+                    this.dealTask = null;
+                }
+            });
+    }
+
+    /**
+     * Cancels the worker deal if the engine is no longer waiting for it (undo, redo, mode change, new game)
+     */
+    private dropStaleDeal(): void {
+        if (this.dealTask && this.engine.getPendingDeal()?.id !== this.dealTask.id) {
+            this.dealTask.task.cancel();
+            this.dealTask = null;
+        }
     }
 
     /**
      * Awards bonus points for remaining cells when the game ends, animating them one at a time.
      */
     private awardGameOverBonus(): void {
-        // Collect all cells with their positions and point values
-        const cellsToClear: Array<{
-            x: number;
-            y: number;
-            color: string;
-            pointValue: number;
-        }> = [];
-
-        for (const block of this.state.placedBlocks) {
-            // Calculate point value for game over bonus: base value + increments since placement
-            const placementLevel = Math.floor(block.totalShapesPlacedAtPlacement / GAMEPLAY_CONFIG.shapesPerValueTier);
-            const currentLevel = Math.floor(this.state.totalShapesPlaced / GAMEPLAY_CONFIG.shapesPerValueTier);
-            
-            // Each block increments by points per tier for every tier of shapes placed after it was placed
-            const levelIncrements = currentLevel - placementLevel;
-            const currentPointValue = block.pointValue + (levelIncrements * GAMEPLAY_CONFIG.pointsPerTier);
-            
-            for (const cell of block.shape) {
-                const absoluteX = block.position.x + cell.x;
-                const absoluteY = block.position.y + cell.y;
-                cellsToClear.push({
-                    x: absoluteX,
-                    y: absoluteY,
-                    color: block.color,
-                    pointValue: currentPointValue,
-                });
-            }
-        }
+        const cellsToClear = this.engine.getGameOverBonusCells();
 
         if (cellsToClear.length === 0) {
-            this.board.reset();
-            this.state.placedBlocks = [];
-            this.animatingCells = [];
+            // Nothing left to pop (blitz can run out of time right after a board clear)
+            this.finishGameOver();
             return;
         }
 
         // Shuffle for random order
-        for (let i = cellsToClear.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [cellsToClear[i], cellsToClear[j]] = [cellsToClear[j], cellsToClear[i]];
-        }
+        const random = this.engine.getRandom().source;
+        shuffleInPlace(cellsToClear, random);
 
         // Animate and clear cells one at a time
         const POP_DELAY = GAME_OVER_CONFIG.popDelayMs;
         const POP_ANIMATION_DURATION = GAME_OVER_CONFIG.popAnimationDurationMs;
 
+        // Draw animation indexes up front so the random source is consumed in a fixed order
+        const animationIndexes = cellsToClear.map(() => randomInt(10, random));
+
         cellsToClear.forEach((cell, index) => {
             setTimeout(() => {
                 // Add to animating cells with random animation index (0-9)
-                const randomAnimIndex = Math.floor(Math.random() * 10);
+                const randomAnimIndex = animationIndexes[index];
                 this.animatingCells.push({
                     x: cell.x,
                     y: cell.y,
@@ -812,15 +1208,8 @@ export class Game {
                 // Play pop sound
                 this.soundManager.playPop();
 
-                // Add points
-                this.state.score += cell.pointValue;
-                this.updateScoreDisplay();
-
-                // Remove from board
-                this.board.clearCell(cell.x, cell.y);
-
-                // Remove from placed blocks
-                this.removeCellFromPlacedBlocks(cell.x, cell.y);
+                // Add points and remove the cell from the board (the score display follows scoreChanged)
+                this.engine.awardBonusCell(cell.x, cell.y);
 
                 // Clean up animation after it completes
                 setTimeout(() => {
@@ -831,146 +1220,499 @@ export class Game {
             }, index * POP_DELAY);
         });
 
-        // Mark popping complete and start fade animation after all pops finish
         const totalPopDuration = cellsToClear.length * POP_DELAY + POP_ANIMATION_DURATION;
-        setTimeout(() => {
-            this.gameOverPopComplete = true;
-            // Start the fade overlay animation now
-            this.gameOverStartTime = Date.now();
-        }, totalPopDuration);
-
-        // Final cleanup after all animations
-        setTimeout(() => {
-            // Record the final score for the current mode
-            recordScore(this.state.score, this.settings.mode);
-            this.board.reset();
-            this.state.placedBlocks = [];
-            this.animatingCells = [];
-        }, totalPopDuration);
+        setTimeout(() => this.finishGameOver(), totalPopDuration);
     }
 
     /**
-     * Removes a specific cell from placed blocks.
+     * Ends the game over sequence once the bonus is counted: starts the fade overlay and records the game
      */
-    private removeCellFromPlacedBlocks(x: number, y: number): void {
-        this.state.placedBlocks = this.state.placedBlocks
-            .map(block => {
-                const remainingCells = block.shape.filter(cell => {
-                    const absoluteX = block.position.x + cell.x;
-                    const absoluteY = block.position.y + cell.y;
-                    return !(absoluteX === x && absoluteY === y);
-                });
-
-                if (remainingCells.length === 0) {
-                    return null;
-                }
+    private finishGameOver(): void {
+        // Mark popping complete and start the fade overlay animation now
+        this.gameOverPopComplete = true;
+        this.gameOverStartTime = Date.now();
+        // Record the final score for the current mode (bot demos don't count)
+        if (!this.botDemo) {
+            this.recordFinishedGame();
+        }
+        this.engine.clearRemainingBlocks();
+        this.animatingCells = [];
+    }
 
-                return {
-                    ...block,
-                    shape: remainingCells,
-                };
-            })
-            .filter((block): block is PlacedBlock => block !== null);
+    /**
+     * Records the game that just ended and its replay
+     * Endless modes aren't competitive: their sessions add to the zen stats instead of the high scores
+     * Daily challenges keep their own results (practice games aren't recorded)
+     */
+    private recordFinishedGame(): void {
+        const state = this.engine.getState();
+        this.checkAchievements('gameFinished', {
+            mode: this.engine.getMode(),
+            score: state.score,
+            linesCleared: state.linesCleared,
+            level: state.level,
+            daily: this.daily !== null,
+            botTurns: this.engine.getBotTurns(),
+        });
+        if (this.daily) {
+            this.recordDailyAttempt(true);
+            recordReplay(this.engine.getReplay());
+            return;
+        }
+        const { score, rotationsUsed, mirrorsUsed, totalShapesPlaced, linesCleared, boardReliefs } = this.engine.getState();
+        if (this.engine.getRules().endless) {
+            recordZenSession({ piecesPlaced: totalShapesPlaced, linesCleared, reliefs: boardReliefs, points: score });
+            recordReplay(this.engine.getReplay());
+            return;
+        }
+        const boardSize = this.engine.getBoardSize();
+        const { hintsUsed } = this.engine.getHintStatus();
+        const botTurns = this.engine.getBotTurns();
+        const difficulty = this.engine.getDifficulty();
+        const timed = this.engine.getTimeLeft() !== null;
+        recordScore(score, this.engine.getMode(), {
+            undos: this.engine.getUndoStatus().undosUsed,
+            ...(rotationsUsed > 0 ? { rotations: rotationsUsed } : {}),
+            ...(mirrorsUsed > 0 ? { mirrors: mirrorsUsed } : {}),
+            ...(hintsUsed > 0 ? { hints: hintsUsed } : {}),
+            ...(botTurns > 0 ? { botTurns } : {}),
+            ...(difficulty !== null ? { difficulty: Math.round(difficulty * 1000) / 1000 } : {}),
+            ...(timed ? { timeLimit: BLITZ_CONFIG.timeLimitSeconds } : {}),
+            boardSize: `${boardSize.width}x${boardSize.height}`,
+            ...(this.engine.getBoardMask() ? { boardShape: this.settings.boardShape } : {}),
+            ...(isSamePiecePack(this.engine.getPiecePack(), CLASSIC_PIECE_PACK) ? {} : { piecePack: this.engine.getPiecePack().name }),
+        });
+        recordReplay(this.engine.getReplay());
     }
 
     /**
-     * Transitions the game into the game-over state with audio/visual feedback.
+     * Unlocks the achievements an event earns and queues their toasts
+     * Bot demos and puzzle test plays don't earn achievements
      */
-    private triggerGameOver(): void {
-        if (this.state.gameOver) {
+    private checkAchievements<K extends AchievementEventName>(event: K, payload: AchievementEventMap[K]): void {
+        if (this.botDemo || this.isPuzzleTestPlay()) {
             return;
         }
+        const unlocked = recordAchievementEvent(event, payload);
+        unlocked.forEach(achievement => console.log(`[ACHIEVEMENT] Unlocked ${achievement.name}`));
+        this.achievementToasts.push(...unlocked);
+    }
 
-        this.state.gameOver = true;
+    /**
+     * Transitions the game into the game-over state with audio/visual feedback.
+     */
+    private triggerGameOver(): void {
         this.gameOverPopComplete = false;
         this.gameOverStartTime = null; // Will be set after popping completes
         this.soundManager.playGameOver();
         // Start the bonus animation after a brief delay
         setTimeout(() => {
+            if (this.engine.getPuzzle()) {
+                // Puzzles have no bonus: the board stays as it was left under the result
+                this.gameOverPopComplete = true;
+                this.gameOverStartTime = Date.now();
+                return;
+            }
             this.awardGameOverBonus();
         }, GAME_OVER_CONFIG.restartDelayMs);
     }
 
-    /**
-     * Determines whether the current clear will remove every remaining block.
-     */
-    private willBoardBeCleared(fullRows: number[], fullColumns: number[]): boolean {
-        if (this.state.placedBlocks.length === 0) {
-            return true;
-        }
-
-        const clearedRows = new Set(fullRows);
-        const clearedCols = new Set(fullColumns);
-
-        for (const block of this.state.placedBlocks) {
-            for (const cell of block.shape) {
-                const absoluteX = block.position.x + cell.x;
-                const absoluteY = block.position.y + cell.y;
-                const cleared = clearedRows.has(absoluteY) || clearedCols.has(absoluteX);
-                if (!cleared) {
-                    return false;
-                }
-            }
-        }
-
-        return true;
-    }
-
     /**
      * Resets the game to initial state
      * Can be forced via UI button even if the round is mid-progress
+     * @param force - Reset even if the current game is still in progress
+     * @param rng - Seeded random source for the new game (a fresh seed is used if omitted)
+     * @param puzzle - Puzzle to start instead of a normal game (the one being played is started again if omitted)
+     * @param daily - Daily challenge to start instead of a normal game, dealt from its date's seed
+     *                (the one being played is started again as practice if omitted)
      */
-    reset(force: boolean = false): void {
-        if (!force && !this.state.gameOver) {
+    reset(
+        force: boolean = false,
+        rng: SeededRandom = new SeededRandom(createSeed()),
+        puzzle: Puzzle | null = this.engine.getPuzzle(),
+        daily: DailyGame | null = this.daily && { date: this.daily.date, ranked: false }
+    ): void {
+        const previous = this.engine.getState();
+        if (!force && !previous.gameOver) {
             console.warn('[RESET] Reset called but game is not over - ignoring');
             return;
         }
         
-        const context = this.state.gameOver ? 'game over' : 'manual restart';
-        console.log(`[RESET] Resetting game (${context}). Previous blocks: ${this.state.placedBlocks.length}`);
+        const context = previous.gameOver ? 'game over' : 'manual restart';
+        console.log(`[RESET] Resetting game (${context}). Previous blocks: ${previous.placedBlocks.length}`);
+        if (!previous.gameOver && previous.turn > 0 && !this.botDemo && this.engine.getRules().endless) {
+            // Endless games only end here, when the player starts over
+            this.recordFinishedGame();
+        }
+        if (this.daily?.ranked) {
+            // Leaving the ranked attempt ends it; it is already stored if the game was over
+            this.recordDailyAttempt(previous.gameOver);
+        }
         this.stop();
+        if (this.replayPlayer) {
+            this.stopReplay();
+        }
         
-        // This is the ONLY place where board.reset() should be called
-        this.board.reset();
-        
-        this.state = {
-            board: this.board.getGrid(),
-            queue: generateShapes(),
-            placedBlocks: [],
-            score: 0,
-            gameOver: false,
-            level: 1,
-            levelProgress: 0,
-            totalShapesPlaced: 0,
-            turn: 0,
-            linesCleared: 0,
-        };
-        this.shapesPlacedThisTurn = 0;
+        // The engine resets the mode, board, queue, point values and color scheme, dealing the opening once
+        this.daily = puzzle ? null : daily;
+        if (puzzle) {
+            this.engine.startPuzzle(puzzle);
+        } else if (this.daily) {
+            this.engine.reset(new SeededRandom(getDailySeed(this.daily.date)), DEFAULT_BOARD_SIZE, null, CLASSIC_PIECE_PACK, DAILY_CONFIG.mode);
+        } else {
+            const board = this.getBoardSettings();
+            this.engine.reset(rng, board.size, board.mask, this.piecePack, this.settings.mode);
+        }
+        this.dropStaleDeal();
+        this.cancelBotTurn();
+        this.botDemo = null;
+        this.clearHint();
+        this.engine.setHoldEnabled(!this.daily && this.settings.holdSlot[this.settings.mode]);
+        this.inputHandler.setHoldEnabled(this.engine.isHoldEnabled());
+        clearSavedGame();
+        this.liftedQueueIndex = null;
         this.animatingCells = [];
         this.gameOverStartTime = null;
-        this.inputHandler.updateBoard(this.board);
-        this.inputHandler.updateQueue(this.state.queue);
+        this.inputHandler.updateBoard(this.engine.getBoard());
+        this.inputHandler.updateQueue(this.getDisplayQueue());
         this.renderer.updateSettings(this.settings);
         // Reset final board snapshot when game resets
         this.renderer.resetFinalBoardSnapshot();
-        // Initialize color scheme for starting level
-        updateColorScheme(this.state.level);
         // Initialize UI colors for starting level
         this.updateUIColors();
         this.updateScoreDisplay();
         this.updateTurnDisplay();
         this.updateLinesDisplay();
         this.updateLevelDisplay();
+        this.updateTimeDisplay();
         this.start();
         console.log('[RESET] Game reset complete');
     }
 
+    /**
+     * Starts an attempt at a puzzle in place of the current game; Restart tries the puzzle again
+     * @param puzzle - Puzzle to play
+     * @returns False if a puzzle can't start right now (mid-drag or in the puzzle editor)
+     */
+    startPuzzle(puzzle: Puzzle): boolean {
+        if (this.editor || this.inputHandler.getDragState().isDragging) {
+            return false;
+        }
+        this.reset(true, undefined, puzzle, null);
+        console.log(`[PUZZLE] Started ${puzzle.id}`);
+        return true;
+    }
+
+    /**
+     * Leaves the puzzle being played and starts a normal game with the current settings
+     */
+    exitPuzzle(): void {
+        if (this.engine.getPuzzle()) {
+            this.reset(true, undefined, null);
+        }
+    }
+
+    /**
+     * Gets the puzzle being played
+     * @returns The puzzle, or null outside puzzles
+     */
+    getPuzzle(): Puzzle | null {
+        return this.engine.getPuzzle();
+    }
+
+    /**
+     * Whether the puzzle being played is a test play from the editor rather than a built-in puzzle
+     */
+    private isPuzzleTestPlay(): boolean {
+        const puzzle = this.engine.getPuzzle();
+        return !!puzzle && getPuzzle(puzzle.id) !== puzzle;
+    }
+
+    /**
+     * Starts today's daily challenge in place of the current game: the same pieces, point values and colors for every player
+     * The ranked attempt counts from the moment it starts; Restart and practice replay the day's game without ranking it
+     * @param ranked - Whether this is the day's ranked attempt
+     * @returns False if the challenge can't start right now (mid-drag, in the puzzle editor, while watching a replay,
+     *          or a ranked attempt was asked for and today's is used up)
+     */
+    startDaily(ranked: boolean): boolean {
+        const date = getDailyDate();
+        if (this.editor || this.replayPlayer || this.inputHandler.getDragState().isDragging || (ranked && getDailyResult(date))) {
+            return false;
+        }
+        this.reset(true, undefined, null, { date, ranked });
+        this.recordDailyAttempt(false);
+        console.log(`[DAILY] Started ${date}${ranked ? ' (ranked)' : ' (practice)'}`);
+        return true;
+    }
+
+    /**
+     * Leaves the daily challenge and starts a normal game with the current settings
+     */
+    exitDaily(): void {
+        if (this.daily) {
+            this.reset(true, undefined, null, null);
+        }
+    }
+
+    /**
+     * Gets the daily challenge being played
+     * @returns The challenge, or null outside the daily challenge
+     */
+    getDaily(): DailyGame | null {
+        return this.daily;
+    }
+
+    /**
+     * Stores the ranked daily attempt as it stands (practice games aren't stored)
+     * @param finished - Whether the game is over; only finished attempts get a picture of the final board
+     */
+    private recordDailyAttempt(finished: boolean): void {
+        if (!this.daily?.ranked) {
+            return;
+        }
+        const { score, linesCleared, level, totalShapesPlaced } = this.engine.getState();
+        recordDailyResult({
+            date: this.daily.date,
+            score,
+            linesCleared,
+            level,
+            piecesPlaced: totalShapesPlaced,
+            finished,
+            board: finished ? this.renderer.generateEmojiGrid() : '',
+        });
+    }
+
+    /**
+     * Shows the puzzle editor on the canvas in place of the game, which waits underneath until it closes
+     * Presses on the canvas become taps for the editor's tools instead of drags
+     * @param editor - Puzzle to edit
+     * @returns False if the editor can't open right now (mid-drag, while watching a replay or during a bot demo)
+     */
+    openEditor(editor: PuzzleEditor): boolean {
+        if (this.replayPlayer || this.botDemo || this.inputHandler.getDragState().isDragging) {
+            return false;
+        }
+        this.clearHint();
+        this.editor = editor;
+        this.animatingCells = [];
+        this.levelUpStartTime = null;
+        this.inputHandler.setHoldEnabled(false);
+        this.inputHandler.setTapHandler(target => this.handleEditorTap(target));
+        return true;
+    }
+
+    /**
+     * Closes the puzzle editor and goes back to the game
+     */
+    closeEditor(): void {
+        if (!this.editor) {
+            return;
+        }
+        this.editor = null;
+        this.inputHandler.setTapHandler(null);
+        this.inputHandler.setHoldEnabled(this.engine.isHoldEnabled());
+        this.inputHandler.updateBoard(this.engine.getBoard());
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+    }
+
+    /**
+     * Whether the puzzle editor is open
+     */
+    isEditing(): boolean {
+        return this.editor !== null;
+    }
+
+    /**
+     * Applies a tap on the canvas to the puzzle being edited: board cells take the selected tool, queue cards edit the hand shown
+     * @param target - Cell or queue card tapped
+     */
+    private handleEditorTap(target: CanvasTarget): void {
+        const editor = this.editor;
+        if (!editor) {
+            return;
+        }
+        const changed = target.type === 'cell' ? editor.tapCell(target.position) : editor.tapHandSlot(target.index);
+        if (changed) {
+            this.soundManager.playPlace();
+        }
+    }
+
+    /**
+     * Checks that a puzzle can be solved, searching on the solver worker
+     * @param puzzle - Puzzle to check
+     */
+    checkPuzzle(puzzle: Puzzle): Promise<PuzzleSolution> {
+        return this.solverWorker.run('puzzle', puzzle).promise;
+    }
+
+    /**
+     * Starts watching a replay; the live game is paused underneath and resumes when playback exits
+     * @param replay - Replay to watch
+     * @returns False if a replay can't start right now (mid-drag, in the puzzle editor or during the game over sequence)
+     */
+    startReplay(replay: GameReplay): boolean {
+        const liveGameOverRunning = this.engine.getState().gameOver && !this.gameOverPopComplete;
+        if (this.inputHandler.getDragState().isDragging || this.editor || liveGameOverRunning) {
+            return false;
+        }
+        if (!this.replayRestore) {
+            // Replays re-deal the pack, point values and colors from their own seed, so keep the live game's
+            this.replayRestore = { pointValues: getShapePointValues(), colorScheme: getShapeColorScheme(), piecePack: getActivePiecePack() };
+        }
+        this.replayPlayer = new ReplayPlayer(replay);
+        const replayEngine = this.replayPlayer.getEngine();
+        replayEngine.on('linesCleared', clear => this.animateLineClear(clear, replayEngine.getState().level));
+        replayEngine.on('levelUp', () => { this.levelUpStartTime = Date.now(); });
+        this.replayPlaying = true;
+        this.replayNextStepAt = Date.now() + this.getReplayStepInterval();
+        this.animatingCells = [];
+        this.levelUpStartTime = null;
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+        console.log(`[REPLAY] Playing ${replay.mode} game: ${replay.moves.length} moves, score ${replay.score}`);
+        return true;
+    }
+
+    /**
+     * Leaves replay playback and returns to the live game
+     */
+    stopReplay(): void {
+        if (!this.replayPlayer) {
+            return;
+        }
+        this.replayPlayer = null;
+        if (this.replayRestore) {
+            setActivePiecePack(this.replayRestore.piecePack);
+            setShapePointValues(this.replayRestore.pointValues);
+            setShapeColorScheme(this.replayRestore.colorScheme);
+            this.replayRestore = null;
+        }
+        this.animatingCells = [];
+        this.levelUpStartTime = null;
+        this.inputHandler.updateBoard(this.engine.getBoard());
+        this.inputHandler.updateQueue(this.getDisplayQueue());
+        console.log('[REPLAY] Playback stopped');
+    }
+
+    /**
+     * Whether a replay is currently being watched
+     */
+    isReplaying(): boolean {
+        return this.replayPlayer !== null;
+    }
+
+    /**
+     * Handles a click on the replay control bar
+     * @param control - The control that was clicked
+     */
+    private handleReplayControl(control: ReplayControl): void {
+        const player = this.replayPlayer;
+        if (!player) {
+            return;
+        }
+        switch (control) {
+            case 'playPause':
+                if (player.isFinished()) {
+                    // Watch again from the first move
+                    this.startReplay(player.getReplay());
+                } else {
+                    this.replayPlaying = !this.replayPlaying;
+                    this.replayNextStepAt = Date.now() + this.getReplayStepInterval();
+                }
+                break;
+            case 'step':
+                this.replayPlaying = false;
+                player.step();
+                break;
+            case 'speed':
+                this.replaySpeedIndex = (this.replaySpeedIndex + 1) % REPLAY_CONFIG.speeds.length;
+                break;
+            case 'exit':
+                this.stopReplay();
+                break;
+        }
+    }
+
+    /**
+     * Advances playback when the next move is due
+     */
+    private updateReplay(currentTime: number): void {
+        const player = this.replayPlayer;
+        if (!player || !this.replayPlaying || currentTime < this.replayNextStepAt) {
+            return;
+        }
+        player.step();
+        this.replayNextStepAt = currentTime + this.getReplayStepInterval();
+        if (player.isFinished()) {
+            this.replayPlaying = false;
+        }
+    }
+
+    /**
+     * Gets the delay between replay moves at the current speed
+     */
+    private getReplayStepInterval(): number {
+        return REPLAY_CONFIG.stepIntervalMs / REPLAY_CONFIG.speeds[this.replaySpeedIndex];
+    }
+
+    /**
+     * Draws the replayed game and its control bar
+     */
+    private renderReplay(player: ReplayPlayer): void {
+        const engine = player.getEngine();
+        const state = engine.getState();
+        const levelUpProgress = this.levelUpStartTime !== null
+            ? Math.min((Date.now() - this.levelUpStartTime) / this.LEVEL_UP_ANIMATION_DURATION, 1)
+            : 0;
+        if (levelUpProgress >= 1) {
+            this.levelUpStartTime = null;
+        }
+        this.renderer.render(
+            engine.getBoard(),
+            state.placedBlocks,
+            state.queue,
+            this.inputHandler.getDragState(),
+            false, // The replay bar shows when playback has finished; no game over overlay
+            this.animatingCells,
+            0,
+            state.totalShapesPlaced,
+            levelUpProgress,
+            state.level,
+            state.score,
+            state.linesCleared,
+            // Only games that used the hold slot show it in playback
+            state.held !== null || player.getReplay().moves.some(move => move.length === 1),
+            state.held,
+            engine.getTransformTokens()
+        );
+        this.renderer.drawReplayControls({
+            playing: this.replayPlaying,
+            speed: REPLAY_CONFIG.speeds[this.replaySpeedIndex],
+            moveIndex: player.getMoveIndex(),
+            totalMoves: player.getTotalMoves(),
+        }, state.score);
+    }
+
     /**
      * Gets the current game state (for debugging or external access)
      * @returns A copy of the current game state
      */
     getState(): GameState {
-        return { ...this.state };
+        return this.engine.getState();
+    }
+
+    /**
+     * Gets the headless engine driving this game (for bots, tools and tests)
+     */
+    getEngine(): GameEngine {
+        return this.engine;
+    }
+
+    /**
+     * Gets the seed the current game was started with (for reproducing a run)
+     */
+    getSeed(): number {
+        return this.engine.getRandom().getSeed();
     }
 
     /**
@@ -985,6 +1727,7 @@ export class Game {
      * @returns true if game is active and in progress
      */
     isGameInSession(): boolean {
-        return !this.state.gameOver && (this.state.placedBlocks.length > 0 || this.state.turn > 0);
+        const state = this.engine.getState();
+        return !state.gameOver && (state.placedBlocks.length > 0 || this.engine.hasStarted());
     }
 }
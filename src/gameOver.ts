@@ -2,24 +2,34 @@
  * Game over detection - checks if any shapes can be placed on the board
  */
 
-import { Shape } from './types';
+import { Shape, TransformTokens } from './types';
 import { Board } from './board';
 import { canPlaceAnyShape } from './validator';
+import { getReachableOrientations } from './shapes';
 
 /**
  * Checks if the game is over by determining if any shape from the queue
- * can be placed on the board
+ * (or the hold slot, which can be swapped into the queue at any time) can be placed on the board,
+ * in any orientation the player can still turn it into
  * @param board - The current game board state
  * @param queue - The queue of 3 shapes available to place
+ * @param held - The piece in the hold slot, if any
+ * @param tokens - Rotation and mirror tokens the player has left (none by default)
  * @returns True if game is over (no shapes can be placed)
  */
-export function checkGameOver(board: Board, queue: Shape[]): boolean {
-    // If there are no shapes in the queue, game is not over yet
-    if (queue.length === 0) {
+export function checkGameOver(
+    board: Board,
+    queue: Shape[],
+    held: Shape | null = null,
+    tokens: TransformTokens = { rotationsRemaining: 0, mirrorsRemaining: 0 }
+): boolean {
+    const available = held ? [...queue, held] : queue;
+    // If there are no shapes to place, game is not over yet
+    if (available.length === 0) {
         return false;
     }
 
-    // Check if any shape in the queue can be placed
-    return !canPlaceAnyShape(board, queue);
+    // Check if any available shape can be placed
+    const orientations = available.flatMap(shape => getReachableOrientations(shape, tokens).map(reachable => reachable.shape));
+    return !canPlaceAnyShape(board, orientations);
 }
-
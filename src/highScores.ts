@@ -1,20 +1,29 @@
 /**
  * High score tracking system with daily, weekly, and yearly records
+ * Zen mode is not competitive, so it keeps running totals instead (see recordZenSession)
  */
 
 import { STORAGE_KEYS, HIGH_SCORE_CONFIG } from './config';
+import { ScoreRecordDetails, ZenStats } from './types';
 
-interface HighScoreEntry {
+interface HighScoreEntry extends ScoreRecordDetails {
     score: number;
     timestamp: number;
 }
 
+/**
+ * Gets the localStorage key a mode's scores are kept under (unknown modes share easy mode's list)
+ */
+function getStorageKey(mode: string): string {
+    return (STORAGE_KEYS.highScores as Partial<Record<string, string>>)[mode] ?? STORAGE_KEYS.highScores.easy;
+}
+
 /**
  * Gets all stored high scores from localStorage for a specific mode
  */
 function getStoredScores(mode: string = 'easy'): HighScoreEntry[] {
     try {
-        const key = mode === 'hard' ? STORAGE_KEYS.highScores.hard : STORAGE_KEYS.highScores.easy;
+        const key = getStorageKey(mode);
         const stored = localStorage.getItem(key);
         if (!stored) return [];
         return JSON.parse(stored);
@@ -28,7 +37,7 @@ function getStoredScores(mode: string = 'easy'): HighScoreEntry[] {
  */
 function saveScores(scores: HighScoreEntry[], mode: string = 'easy'): void {
     try {
-        const key = mode === 'hard' ? STORAGE_KEYS.highScores.hard : STORAGE_KEYS.highScores.easy;
+        const key = getStorageKey(mode);
         localStorage.setItem(key, JSON.stringify(scores));
     } catch {
         // Ignore storage errors
@@ -69,13 +78,15 @@ function getYearStart(): number {
 /**
  * Records a new score if it's a high score
  * @param score - The score to record
- * @param mode - The game mode ('easy' or 'hard')
+ * @param mode - The game mode ('easy', 'hard', 'adaptive' or 'blitz')
+ * @param details - Optional facts about the run (e.g. undos used) stored with the entry
  */
-export function recordScore(score: number, mode: string = 'easy'): void {
+export function recordScore(score: number, mode: string = 'easy', details: ScoreRecordDetails = {}): void {
     if (score <= 0) return;
 
     const scores = getStoredScores(mode);
     scores.push({
+        ...details,
         score,
         timestamp: Date.now(),
     });
@@ -130,7 +141,7 @@ export function getHighestEver(mode: string = 'easy'): number {
 
 /**
  * Gets all high score records for display for a specific mode
- * @param mode - The game mode ('easy' or 'hard')
+ * @param mode - The game mode ('easy', 'hard', 'adaptive' or 'blitz')
  */
 export function getHighScores(mode: string = 'easy'): {
     today: number;
@@ -144,3 +155,37 @@ export function getHighScores(mode: string = 'easy'): {
     };
 }
 
+
+/**
+ * Gets the running totals of finished zen sessions
+ */
+export function getZenStats(): ZenStats {
+    const empty: ZenStats = { sessions: 0, piecesPlaced: 0, linesCleared: 0, reliefs: 0, points: 0 };
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS.zenStats);
+        return stored ? { ...empty, ...JSON.parse(stored) } : empty;
+    } catch {
+        return empty;
+    }
+}
+
+/**
+ * Adds a finished zen session to the running totals
+ * @param session - What the session added (empty sessions are not counted)
+ */
+export function recordZenSession(session: Omit<ZenStats, 'sessions'>): void {
+    if (session.piecesPlaced <= 0) return;
+
+    const stats = getZenStats();
+    try {
+        localStorage.setItem(STORAGE_KEYS.zenStats, JSON.stringify({
+            sessions: stats.sessions + 1,
+            piecesPlaced: stats.piecesPlaced + session.piecesPlaced,
+            linesCleared: stats.linesCleared + session.linesCleared,
+            reliefs: stats.reliefs + session.reliefs,
+            points: stats.points + session.points,
+        }));
+    } catch {
+        // Ignore storage errors
+    }
+}
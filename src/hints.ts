@@ -0,0 +1,100 @@
+/**
+ * Move hints: turns the first step of a solver plan into a placement the player can be shown, with a short reason
+ */
+
+import { Shape, MoveHint, PieceTransform } from './types';
+import { Board } from './board';
+import { transformShape } from './shapes';
+import { SolverStep } from './solver';
+
+const TIMES = ['once', 'twice', 'three times'];
+
+/**
+ * Lists line numbers for display, e.g. "row 3", "rows 2 and 4", "columns 1, 5 and 6"
+ * @param kind - "row" or "column"
+ * @param indexes - 0-based line indexes (shown 1-based)
+ */
+function describeLines(kind: string, indexes: number[]): string {
+    const numbers = indexes.map(index => String(index + 1));
+    if (numbers.length === 1) {
+        return `${kind} ${numbers[0]}`;
+    }
+    return `${kind}s ${numbers.slice(0, -1).join(', ')} and ${numbers[numbers.length - 1]}`;
+}
+
+/**
+ * Describes the turns to make before placing the piece, e.g. "mirror it and rotate it twice"
+ */
+function describeTransforms(transforms: PieceTransform[]): string {
+    const rotations = transforms.filter(transform => transform === 'rotate').length;
+    const parts: string[] = [];
+    if (transforms.includes('mirror')) {
+        parts.push('mirror it');
+    }
+    if (rotations > 0) {
+        parts.push(`rotate it ${TIMES[rotations - 1] ?? `${rotations} times`}`);
+    }
+    return parts.join(' and ');
+}
+
+/**
+ * Writes the explanation shown with a hint
+ * @param lines - Lines the placement clears
+ * @param transforms - Turns to make before placing the piece
+ * @param fitsWholeHand - Whether the plan places every queued piece
+ * @param piecesLeft - Queued pieces, including the hinted one
+ */
+export function explainHint(
+    lines: { rows: number[]; columns: number[] },
+    transforms: PieceTransform[],
+    fitsWholeHand: boolean,
+    piecesLeft: number
+): string {
+    let reason: string;
+    if (lines.rows.length > 0 || lines.columns.length > 0) {
+        const cleared = [
+            ...(lines.rows.length > 0 ? [describeLines('row', lines.rows)] : []),
+            ...(lines.columns.length > 0 ? [describeLines('column', lines.columns)] : []),
+        ];
+        reason = `Clears ${cleared.join(' and ')}`;
+    } else if (!fitsWholeHand) {
+        reason = 'Not every piece fits; this places the most';
+    } else if (piecesLeft > 1) {
+        reason = 'Leaves room for the rest of the hand';
+    } else {
+        reason = 'Keeps the board as open as possible';
+    }
+    const turns = describeTransforms(transforms);
+    return turns ? `${reason} (${turns} first)` : reason;
+}
+
+/**
+ * Builds the hint for the first placement of a plan
+ * @param board - Board the plan was made for
+ * @param queue - Queue the plan was made for
+ * @param steps - The plan, in order (e.g. from the lookahead agent)
+ * @returns The hint, or null if the plan places nothing
+ */
+export function createHint(board: Board, queue: (Shape | null)[], steps: SolverStep[]): MoveHint | null {
+    const step = steps[0];
+    let shape = step ? queue[step.queueIndex] ?? null : null;
+    if (!step || !shape) {
+        return null;
+    }
+    for (const transform of step.transforms) {
+        shape = transformShape(shape, transform);
+        if (!shape) {
+            return null;
+        }
+    }
+    const lines = board.getFullLinesIfPlaced(shape, step.position);
+    const piecesLeft = queue.filter(Boolean).length;
+    return {
+        queueIndex: step.queueIndex,
+        transforms: [...step.transforms],
+        shape,
+        position: { ...step.position },
+        lines,
+        explanation: explainHint(lines, step.transforms, steps.length >= piecesLeft, piecesLeft),
+    };
+}
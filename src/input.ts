@@ -2,15 +2,17 @@
  * Mouse input handling for drag-and-drop operations
  */
 
-import { Position, DragState, Shape } from './types';
+import { Position, DragState, Shape, PieceTransform, CanvasTarget } from './types';
 import { snapToGrid, canPlaceShape } from './validator';
 import { Board } from './board';
 import {
     BOARD_PIXEL_SIZE,
-    CELL_SIZE,
     CANVAS_HEIGHT,
+    getBoardLayout,
     getQueueItemRect,
+    getHoldSlotRect,
     LIFT_OFFSET_PIXELS,
+    TAP_MAX_MOVE_PIXELS,
 } from './constants';
 
 /**
@@ -22,6 +24,11 @@ export class InputHandler {
     private onPlaceShape: (shapeIndex: number, position: Position) => void;
     private onRemoveFromQueue: (shapeIndex: number) => void;
     private onRestoreToQueue: (shapeIndex: number, shape: Shape) => void;
+    private onHold: (shapeIndex: number) => boolean;
+    private onTransform: (shapeIndex: number, transform: PieceTransform) => Shape | null;
+    private holdEnabled: boolean = false;
+    private pressPoint: { x: number; y: number } | null = null; // Where the current drag started, to tell taps from drags
+    private onTap: ((target: CanvasTarget) => void) | null = null; // Set while presses are taps rather than drags (the puzzle editor)
     private board: Board;
     private queue: (Shape | null)[];
     private originalQueueIndex: number = -1; // Track where the shape was originally in the queue
@@ -32,7 +39,9 @@ export class InputHandler {
         queue: (Shape | null)[],
         onPlaceShape: (shapeIndex: number, position: Position) => void,
         onRemoveFromQueue: (shapeIndex: number) => void,
-        onRestoreToQueue: (shapeIndex: number, shape: Shape) => void
+        onRestoreToQueue: (shapeIndex: number, shape: Shape) => void,
+        onHold: (shapeIndex: number) => boolean = () => false,
+        onTransform: (shapeIndex: number, transform: PieceTransform) => Shape | null = () => null
     ) {
         this.canvas = canvas;
         this.board = board;
@@ -40,6 +49,8 @@ export class InputHandler {
         this.onPlaceShape = onPlaceShape;
         this.onRemoveFromQueue = onRemoveFromQueue;
         this.onRestoreToQueue = onRestoreToQueue;
+        this.onHold = onHold;
+        this.onTransform = onTransform;
         this.dragState = {
             isDragging: false,
             shapeIndex: -1,
@@ -87,6 +98,114 @@ export class InputHandler {
         this.board = newBoard;
     }
 
+    /**
+     * Turns the hold slot drop target on or off (the queue cards shrink to make room for it)
+     * @param enabled - Whether the hold slot is shown
+     */
+    setHoldEnabled(enabled: boolean): void {
+        this.holdEnabled = enabled;
+    }
+
+    /**
+     * Makes presses report what they landed on instead of starting drags, or goes back to dragging
+     * @param handler - Called with the cell or queue card pressed (null to drag again)
+     */
+    setTapHandler(handler: ((target: CanvasTarget) => void) | null): void {
+        this.onTap = handler;
+    }
+
+    /**
+     * Finds the board cell or queue card under a canvas point
+     * @param point - Canvas coordinates
+     * @returns The cell or queue slot, or null if the point is over neither
+     */
+    getTargetAt(point: { x: number; y: number }): CanvasTarget | null {
+        if (this.isOverBoard(point)) {
+            const { cellSize, originX, originY } = getBoardLayout(this.board.getDimensions());
+            return { type: 'cell', position: snapToGrid(point.x - originX, point.y - originY, cellSize) };
+        }
+        for (let i = 0; i < 3; i++) {
+            const rect = getQueueItemRect(i, 3, this.holdEnabled);
+            if (point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height) {
+                return { type: 'queue', index: i };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Reports a press to the tap handler, if one is set
+     * @param point - Press position in canvas coordinates
+     * @returns True if the press was a tap, so no drag should start
+     */
+    private handleTap(point: { x: number; y: number }): boolean {
+        if (!this.onTap) return false;
+        const target = this.getTargetAt(point);
+        if (target) {
+            this.onTap(target);
+        }
+        return true;
+    }
+
+    /**
+     * Rotates or mirrors the shape being dragged and re-checks where it would land
+     * @param transform - 'rotate' or 'mirror'
+     * @returns True if the shape changed
+     */
+    transformDragged(transform: PieceTransform): boolean {
+        if (!this.dragState.isDragging || this.originalQueueIndex < 0) return false;
+        const shape = this.onTransform(this.originalQueueIndex, transform);
+        if (!shape) return false;
+        this.dragState.shape = shape;
+        if (this.dragState.anchorPoint) {
+            this.updateDragTarget(this.dragState.anchorPoint);
+        }
+        return true;
+    }
+
+    /**
+     * Recomputes the ghost position and validity for the dragged shape with the pointer at a canvas point
+     * @param point - Pointer position in canvas coordinates
+     */
+    private updateDragTarget(point: { x: number; y: number }): void {
+        if (!this.dragState.shape) return;
+        const effectivePosition = { x: point.x, y: point.y - LIFT_OFFSET_PIXELS };
+        const gridPos = this.calculateGridPositionFromEffectivePosition(effectivePosition, this.dragState.shape);
+        if (gridPos) {
+            this.dragState.mousePosition = gridPos;
+            this.dragState.hasBoardPosition = true;
+            this.dragState.isValidPosition = canPlaceShape(this.board, this.dragState.shape, gridPos);
+        } else {
+            this.dragState.hasBoardPosition = false;
+            this.dragState.isValidPosition = false;
+            this.dragState.mousePosition = { x: 0, y: 0 };
+        }
+    }
+
+    /**
+     * Checks whether a drag ended as a tap: released close to where it started, still on the same queue card
+     * @param point - Release position in canvas coordinates
+     */
+    private isTapOnQueueItem(point: { x: number; y: number }): boolean {
+        if (!this.pressPoint || this.originalQueueIndex < 0) return false;
+        const moved = Math.hypot(point.x - this.pressPoint.x, point.y - this.pressPoint.y);
+        const rect = getQueueItemRect(this.originalQueueIndex, 3, this.holdEnabled);
+        return moved <= TAP_MAX_MOVE_PIXELS &&
+            point.x >= rect.x && point.x <= rect.x + rect.width &&
+            point.y >= rect.y && point.y <= rect.y + rect.height;
+    }
+
+    /**
+     * Checks if a canvas point lies over the hold slot (uses the pointer itself, not the lifted piece)
+     * @param point - Canvas coordinates
+     */
+    private isOverHoldSlot(point: { x: number; y: number }): boolean {
+        if (!this.holdEnabled) return false;
+        const rect = getHoldSlotRect();
+        return point.x >= rect.x && point.x <= rect.x + rect.width &&
+            point.y >= rect.y && point.y <= rect.y + rect.height;
+    }
+
     /**
      * Converts screen event coordinates to normalized canvas coordinates
      * Uses getBoundingClientRect() to account for CSS scaling
@@ -132,13 +251,14 @@ export class InputHandler {
         // Don't allow dragging if game is over
         // (This will be checked via the game state, but we can add an early return)
         const { x: canvasX, y: canvasY } = this.getCanvasCoordinates(event);
+        if (this.handleTap({ x: canvasX, y: canvasY })) return;
 
         // Check if click is within any queue card under the board
         // Use fixed queue size (3) for hit detection so areas don't move
         const QUEUE_SIZE = 3;
         if (canvasY >= BOARD_PIXEL_SIZE && canvasY <= CANVAS_HEIGHT) {
             for (let i = 0; i < QUEUE_SIZE; i++) {
-                const rect = getQueueItemRect(i, QUEUE_SIZE);
+                const rect = getQueueItemRect(i, QUEUE_SIZE, this.holdEnabled);
                 if (
                     canvasX >= rect.x &&
                     canvasX <= rect.x + rect.width &&
@@ -151,6 +271,7 @@ export class InputHandler {
                         this.dragState.shapeIndex = i;
                         this.dragState.shape = this.queue[i];
                         this.originalQueueIndex = i; // Store original position
+                        this.pressPoint = { x: canvasX, y: canvasY };
                         // Remove shape from queue immediately when selected
                         this.onRemoveFromQueue(i);
                         break;
@@ -160,6 +281,16 @@ export class InputHandler {
         }
     }
 
+    /**
+     * Checks if a canvas point lies over the board itself (boards smaller than the board area are centered in it)
+     * @param point - Canvas coordinates
+     */
+    private isOverBoard(point: { x: number; y: number }): boolean {
+        const { width, height, cellSize, originX, originY } = getBoardLayout(this.board.getDimensions());
+        return point.x >= originX && point.x < originX + width * cellSize &&
+            point.y >= originY && point.y < originY + height * cellSize;
+    }
+
     /**
      * Calculates the grid position for a shape based on its effective position (lifted piece position)
      * @param effectivePosition - The on-screen position of the lifted piece (anchor + offset)
@@ -168,26 +299,26 @@ export class InputHandler {
      */
     private calculateGridPositionFromEffectivePosition(effectivePosition: { x: number; y: number }, shape: Shape): Position | null {
         // Check if effectivePosition (lifted piece) is over the board
-        if (effectivePosition.x < 0 || effectivePosition.x >= BOARD_PIXEL_SIZE || 
-            effectivePosition.y < 0 || effectivePosition.y >= BOARD_PIXEL_SIZE) {
+        if (!this.isOverBoard(effectivePosition)) {
             return null;
         }
+        const { cellSize, originX, originY } = getBoardLayout(this.board.getDimensions());
 
         // Find the top-left block of the shape
         const minX = Math.min(...shape.map(b => b.x));
         const minY = Math.min(...shape.map(b => b.y));
         const maxX = Math.max(...shape.map(b => b.x));
         const maxY = Math.max(...shape.map(b => b.y));
-        const shapeWidth = (maxX - minX + 1) * CELL_SIZE;
-        const shapeHeight = (maxY - minY + 1) * CELL_SIZE;
+        const shapeWidth = (maxX - minX + 1) * cellSize;
+        const shapeHeight = (maxY - minY + 1) * cellSize;
 
-        // Calculate where the top-left block is in pixel space
+        // Calculate where the top-left block is in pixel space, relative to the board's top-left corner
         // Shape is centered on effectivePosition
-        const topLeftBlockPixelX = effectivePosition.x - shapeWidth / 2 + minX * CELL_SIZE;
-        const topLeftBlockPixelY = effectivePosition.y - shapeHeight / 2 + minY * CELL_SIZE;
+        const topLeftBlockPixelX = effectivePosition.x - originX - shapeWidth / 2 + minX * cellSize;
+        const topLeftBlockPixelY = effectivePosition.y - originY - shapeHeight / 2 + minY * cellSize;
 
         // Convert the top-left block position to grid coordinates
-        const gridPos = snapToGrid(topLeftBlockPixelX, topLeftBlockPixelY, CELL_SIZE);
+        const gridPos = snapToGrid(topLeftBlockPixelX, topLeftBlockPixelY, cellSize);
 
         // Adjust grid position to account for the shape's internal offset
         return {
@@ -229,6 +360,7 @@ export class InputHandler {
             this.dragState.mousePosition = { x: 0, y: 0 };
         }
         this.dragState.previewLinesCleared = undefined;
+        this.dragState.isOverHoldSlot = this.isOverHoldSlot({ x: canvasX, y: canvasY });
     }
 
     /**
@@ -253,23 +385,32 @@ export class InputHandler {
 
         // Check if the effectivePosition (lifted piece) is over the board and placement is valid
         let shapePlaced = false;
-        if (gridPos && effectivePosition.x >= 0 && effectivePosition.x < BOARD_PIXEL_SIZE && 
-            effectivePosition.y >= 0 && effectivePosition.y < BOARD_PIXEL_SIZE) {
+        if (gridPos && this.isOverBoard(effectivePosition)) {
             
             if (canPlaceShape(this.board, this.dragState.shape, gridPos)) {
-                // Pass -1 as shapeIndex since shape was already removed from queue
-                this.onPlaceShape(-1, gridPos);
+                // Pass the original queue slot so the game can place it from its own queue
+                this.onPlaceShape(this.originalQueueIndex, gridPos);
                 shapePlaced = true;
             }
         }
 
+        // Dropped on the hold slot instead of the board
+        if (!shapePlaced && this.originalQueueIndex >= 0 && this.isOverHoldSlot({ x: canvasX, y: canvasY })) {
+            shapePlaced = this.onHold(this.originalQueueIndex);
+        }
+
         // If shape wasn't placed (invalid position or outside board), restore it to queue
         if (!shapePlaced && this.dragState.shape && this.originalQueueIndex >= 0) {
             this.onRestoreToQueue(this.originalQueueIndex, this.dragState.shape);
+            // A tap on a queue card rotates that piece
+            if (this.isTapOnQueueItem({ x: canvasX, y: canvasY })) {
+                this.onTransform(this.originalQueueIndex, 'rotate');
+            }
         }
 
         // Reset drag state
         this.originalQueueIndex = -1;
+        this.pressPoint = null;
         this.dragState = {
             isDragging: false,
             shapeIndex: -1,
@@ -293,6 +434,7 @@ export class InputHandler {
 
         // Reset drag state
         this.originalQueueIndex = -1;
+        this.pressPoint = null;
         this.dragState = {
             isDragging: false,
             shapeIndex: -1,
@@ -312,15 +454,24 @@ export class InputHandler {
     private handleTouchStart(event: TouchEvent): void {
         event.preventDefault(); // Prevent scrolling
         if (event.touches.length === 0) return;
+
+        // A second finger tapping while a piece is dragged rotates it
+        if (this.dragState.isDragging) {
+            if (event.touches.length >= 2) {
+                this.transformDragged('rotate');
+            }
+            return;
+        }
         
         const { x: canvasX, y: canvasY } = this.getCanvasCoordinates(event);
+        if (this.handleTap({ x: canvasX, y: canvasY })) return;
 
         // Check if touch is within any queue card under the board
         // Use fixed queue size (3) for hit detection so areas don't move
         const QUEUE_SIZE = 3;
         if (canvasY >= BOARD_PIXEL_SIZE && canvasY <= CANVAS_HEIGHT) {
             for (let i = 0; i < QUEUE_SIZE; i++) {
-                const rect = getQueueItemRect(i, QUEUE_SIZE);
+                const rect = getQueueItemRect(i, QUEUE_SIZE, this.holdEnabled);
                 if (
                     canvasX >= rect.x &&
                     canvasX <= rect.x + rect.width &&
@@ -333,6 +484,7 @@ export class InputHandler {
                         this.dragState.shapeIndex = i;
                         this.dragState.shape = this.queue[i];
                         this.originalQueueIndex = i; // Store original position
+                        this.pressPoint = { x: canvasX, y: canvasY };
                         // Set anchor point to exact touch location (don't move it to board)
                         this.dragState.anchorPoint = { x: canvasX, y: canvasY };
                         // Remove shape from queue immediately when selected
@@ -377,6 +529,7 @@ export class InputHandler {
             this.dragState.mousePosition = { x: 0, y: 0 };
         }
         this.dragState.previewLinesCleared = undefined;
+        this.dragState.isOverHoldSlot = this.isOverHoldSlot({ x: canvasX, y: canvasY });
     }
 
     /**
@@ -385,7 +538,8 @@ export class InputHandler {
      */
     private handleTouchEnd(event: TouchEvent): void {
         event.preventDefault();
-        if (!this.dragState.isDragging) return;
+        // Lifting the second finger of a two-finger tap keeps the drag going
+        if (!this.dragState.isDragging || event.touches.length > 0) return;
 
         // Update anchor to final position (normalized canvas coordinates)
         const { x: canvasX, y: canvasY } = this.getCanvasCoordinates(event);
@@ -406,23 +560,32 @@ export class InputHandler {
 
         // Check if the effectivePosition (lifted piece) is over the board and placement is valid
         let shapePlaced = false;
-        if (gridPos && effectivePosition.x >= 0 && effectivePosition.x < BOARD_PIXEL_SIZE && 
-            effectivePosition.y >= 0 && effectivePosition.y < BOARD_PIXEL_SIZE) {
+        if (gridPos && this.isOverBoard(effectivePosition)) {
             
             if (canPlaceShape(this.board, this.dragState.shape, gridPos)) {
-                // Pass -1 as shapeIndex since shape was already removed from queue
-                this.onPlaceShape(-1, gridPos);
+                // Pass the original queue slot so the game can place it from its own queue
+                this.onPlaceShape(this.originalQueueIndex, gridPos);
                 shapePlaced = true;
             }
         }
 
+        // Dropped on the hold slot instead of the board
+        if (!shapePlaced && this.originalQueueIndex >= 0 && this.isOverHoldSlot({ x: canvasX, y: canvasY })) {
+            shapePlaced = this.onHold(this.originalQueueIndex);
+        }
+
         // If shape wasn't placed (invalid position or outside board), restore it to queue
         if (!shapePlaced && this.dragState.shape && this.originalQueueIndex >= 0) {
             this.onRestoreToQueue(this.originalQueueIndex, this.dragState.shape);
+            // A tap on a queue card rotates that piece
+            if (this.isTapOnQueueItem({ x: canvasX, y: canvasY })) {
+                this.onTransform(this.originalQueueIndex, 'rotate');
+            }
         }
 
         // Reset drag state
         this.originalQueueIndex = -1;
+        this.pressPoint = null;
         this.dragState = {
             isDragging: false,
             shapeIndex: -1,
@@ -448,6 +611,7 @@ export class InputHandler {
 
         // Reset drag state
         this.originalQueueIndex = -1;
+        this.pressPoint = null;
         this.dragState = {
             isDragging: false,
             shapeIndex: -1,
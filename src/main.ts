@@ -3,17 +3,44 @@
  */
 
 import { Game } from './game';
-import { GameSettings, ThemeName, GameMode } from './types';
-import { getHighScores, recordScore } from './highScores';
+import { GameSettings, ThemeName, GameMode, GameReplay, BoardSizeName, BoardShapeName, AgentName, Puzzle, EditorTool, PuzzleGoal, DailyGame } from './types';
+import { getHighScores, getZenStats, recordScore } from './highScores';
+import { loadSavedGame, getSavedGameSettings } from './savedGame';
+import { getLastReplay, getBestReplay, encodeReplay, decodeReplay } from './replay';
+import { parsePiecePack, isSamePiecePack, CLASSIC_PIECE_PACK } from './piecePacks';
+import { PUZZLES, getPuzzleProgress } from './puzzles';
+import { PuzzleEditor } from './puzzleEditor';
+import { getShapeColor } from './shapes';
+import { getDailyDate, getDailyResult, getDailyHistory, createDailyShareText } from './daily';
+import { ACHIEVEMENTS, getUnlockedAchievements } from './achievements';
 import {
     DEFAULT_SETTINGS,
     STORAGE_KEYS,
     HIGH_SCORE_CONFIG,
+    MODE_RULES,
     RESPONSIVE_CANVAS_LIMITS,
     GAMEPLAY_CONFIG,
+    PUZZLE_CONFIG,
 } from './config';
 import { CANVAS_WIDTH, CANVAS_HEIGHT } from './constants';
 
+/**
+ * Points the mode and board settings at the saved game, which is resumed as it was played
+ * Mode and board can't change mid-game, so the settings panel has to show the game being resumed
+ * @returns The settings to start with (stored again if they changed)
+ */
+function matchSettingsToSavedGame(settings: GameSettings): GameSettings {
+    const saved = loadSavedGame();
+    const savedSettings = saved && !saved.state.gameOver ? getSavedGameSettings(saved) : null;
+    if (!savedSettings || (savedSettings.mode === settings.mode && savedSettings.boardSize === settings.boardSize && savedSettings.boardShape === settings.boardShape)) {
+        return settings;
+    }
+    console.log(`[SAVE] Switching settings to the saved ${savedSettings.mode} ${savedSettings.boardSize} ${savedSettings.boardShape} game`);
+    const matched = { ...settings, ...savedSettings };
+    saveSettings(matched);
+    return matched;
+}
+
 /**
  * Loads settings from localStorage, falling back to defaults
  */
@@ -23,7 +50,7 @@ function loadSettings(): GameSettings {
         if (stored) {
             const parsed = JSON.parse(stored);
             // Merge with defaults to handle any missing properties
-            return { ...DEFAULT_SETTINGS, ...parsed };
+            return { ...DEFAULT_SETTINGS, ...parsed, holdSlot: { ...DEFAULT_SETTINGS.holdSlot, ...parsed.holdSlot } };
         }
     } catch (e) {
         console.warn('Failed to load settings from localStorage:', e);
@@ -80,7 +107,7 @@ document.addEventListener('DOMContentLoaded', () => {
         return;
     }
 
-    const settingsState: GameSettings = loadSettings();
+    const settingsState: GameSettings = matchSettingsToSavedGame(loadSettings());
     applyTheme(settingsState.theme);
 
     // Create progress boxes dynamically based on lines per level
@@ -97,7 +124,47 @@ document.addEventListener('DOMContentLoaded', () => {
     game.start();
 
     const updateHighScoreMode = setupHighScores(game, settingsState);
-    const { updateModeSelectState } = setupSettingsControls(game, settingsState, updateHighScoreMode);
+    const { updateModeSelectState, closeSettingsPanel } = setupSettingsControls(game, settingsState, updateHighScoreMode);
+    const updateUndoButtons = setupUndoControls(game);
+    const updateHintButton = setupHintControls(game);
+    // Auto Place is off for games the bot may not play (the ranked daily attempt, a bot demo)
+    const autoPlaceButton = document.getElementById('auto-place-button') as HTMLButtonElement | null;
+    const updateAutoPlaceButton = () => {
+        if (autoPlaceButton) {
+            autoPlaceButton.disabled = !game.canAutoPlace();
+        }
+    };
+    setupReplayControls(game, closeSettingsPanel);
+    const updateBotDemoButton = setupBotDemoControls(game, closeSettingsPanel, () => {
+        updateModeSelectState();
+        updateUndoButtons();
+        updateHintButton();
+        updateAutoPlaceButton();
+    });
+    setupPuzzleControls(game, closeSettingsPanel, () => {
+        updateModeSelectState();
+        updateUndoButtons();
+        updateHintButton();
+        updateBotDemoButton();
+        updateAutoPlaceButton();
+    });
+    setupDailyControls(game, closeSettingsPanel, () => {
+        updateModeSelectState();
+        updateUndoButtons();
+        updateHintButton();
+        updateBotDemoButton();
+        updateAutoPlaceButton();
+    });
+    setupPuzzleEditor(game, closeSettingsPanel, () => {
+        updateModeSelectState();
+        updateUndoButtons();
+        updateHintButton();
+        updateBotDemoButton();
+        updateAutoPlaceButton();
+    });
+    setupPiecePackControls(game);
+    setupTransformKeys(game);
+    setupAchievementGallery(game);
 
     // Restart button provides explicit control over resetting the board
     const restartButton = document.getElementById('restart-button');
@@ -106,11 +173,15 @@ document.addEventListener('DOMContentLoaded', () => {
             game.reset(true);
             // Update mode select state after reset
             updateModeSelectState();
+            updateUndoButtons();
+            updateHintButton();
+            updateBotDemoButton();
+            updateAutoPlaceButton();
         });
     }
 
-    // Auto-place button automatically places all three pieces
-    const autoPlaceButton = document.getElementById('auto-place-button');
+    // Auto-place button lets the selected bot strategy play this turn
+    updateAutoPlaceButton();
     if (autoPlaceButton) {
         autoPlaceButton.addEventListener('click', () => {
             // Double-check setting before executing (in case setting changed mid-game)
@@ -122,7 +193,7 @@ document.addEventListener('DOMContentLoaded', () => {
     }
 });
 
-function setupSettingsControls(game: Game, initialSettings: GameSettings, updateHighScoreMode?: (mode: GameMode) => void): { updateModeSelectState: () => void; updateAutoplaceButtonVisibility: (enabled: boolean) => void } {
+function setupSettingsControls(game: Game, initialSettings: GameSettings, updateHighScoreMode?: (mode: GameMode) => void): { updateModeSelectState: () => void; updateAutoplaceButtonVisibility: (enabled: boolean) => void; closeSettingsPanel: () => void } {
     const panel = document.getElementById('settings-panel');
     const backdrop = document.getElementById('settings-backdrop');
     const openButton = document.getElementById('settings-button');
@@ -134,8 +205,15 @@ function setupSettingsControls(game: Game, initialSettings: GameSettings, update
     const themeSelect = document.getElementById('setting-theme') as HTMLSelectElement | null;
     const soundInput = document.getElementById('setting-enable-sound') as HTMLInputElement | null;
     const modeSelect = document.getElementById('setting-mode') as HTMLSelectElement | null;
+    const boardSizeSelect = document.getElementById('setting-board-size') as HTMLSelectElement | null;
+    const boardShapeSelect = document.getElementById('setting-board-shape') as HTMLSelectElement | null;
     const pointValuesInput = document.getElementById('setting-show-point-values') as HTMLInputElement | null;
+    const devOverlayInput = document.getElementById('setting-show-dev-overlay') as HTMLInputElement | null;
     const autoplaceInput = document.getElementById('setting-autoplace-enabled') as HTMLInputElement | null;
+    const botStrategySelect = document.getElementById('setting-bot-strategy') as HTMLSelectElement | null;
+    const holdSlotInput = document.getElementById('setting-hold-slot') as HTMLInputElement | null;
+    // The hold slot is remembered per difficulty; the checkbox shows the selected one
+    const holdSlot = { ...initialSettings.holdSlot };
 
     // Sync inputs with initial settings so toggles reflect any future default changes
     if (gridInput) gridInput.checked = initialSettings.showGrid;
@@ -144,14 +222,21 @@ function setupSettingsControls(game: Game, initialSettings: GameSettings, update
     if (themeSelect) themeSelect.value = initialSettings.theme;
     if (soundInput) soundInput.checked = initialSettings.soundEnabled;
     if (modeSelect) modeSelect.value = initialSettings.mode;
+    if (boardSizeSelect) boardSizeSelect.value = initialSettings.boardSize;
+    if (boardShapeSelect) boardShapeSelect.value = initialSettings.boardShape;
     if (pointValuesInput) pointValuesInput.checked = initialSettings.showPointValues;
+    if (devOverlayInput) devOverlayInput.checked = initialSettings.showDevOverlay;
     if (autoplaceInput) autoplaceInput.checked = initialSettings.autoplaceEnabled;
+    if (botStrategySelect) botStrategySelect.value = initialSettings.botStrategy;
+    if (holdSlotInput) holdSlotInput.checked = holdSlot[initialSettings.mode];
 
     const pushToGame = () => {
         const themeValue = (themeSelect?.value as ThemeName) ?? initialSettings.theme;
         const modeValue = (modeSelect?.value as GameMode) ?? initialSettings.mode;
+        const boardSizeValue = (boardSizeSelect?.value as BoardSizeName) ?? initialSettings.boardSize;
+        const boardShapeValue = (boardShapeSelect?.value as BoardShapeName) ?? initialSettings.boardShape;
         applyTheme(themeValue);
-        updateModeDisplay(modeValue);
+        updateModeDisplay(modeValue, game.getPuzzle(), game.getDaily());
         
         // Update high score mode when it changes
         if (updateHighScoreMode) {
@@ -165,8 +250,13 @@ function setupSettingsControls(game: Game, initialSettings: GameSettings, update
             soundEnabled: soundInput?.checked ?? true,
             theme: themeValue,
             mode: modeValue,
+            boardSize: boardSizeValue,
+            boardShape: boardShapeValue,
             showPointValues: pointValuesInput?.checked ?? false,
+            showDevOverlay: devOverlayInput?.checked ?? false,
             autoplaceEnabled: autoplaceInput?.checked ?? true,
+            botStrategy: (botStrategySelect?.value as AgentName) ?? initialSettings.botStrategy,
+            holdSlot: { ...holdSlot },
         };
         game.updateSettings(updatedSettings);
         saveSettings(updatedSettings); // Save to localStorage
@@ -190,8 +280,8 @@ function setupSettingsControls(game: Game, initialSettings: GameSettings, update
     // Initialize button visibility based on initial settings
     updateAutoplaceButtonVisibility(initialSettings.autoplaceEnabled);
 
-    // Update mode select disabled state based on game session
-    // Note: Only the difficulty (mode) select is disabled during play.
+    // Update mode and board select disabled state based on game session
+    // Note: Only the difficulty (mode), board size and board shape selects are disabled during play.
     // The settings button and panel remain fully accessible.
     const updateModeSelectState = () => {
         const isInSession = game.isGameInSession();
@@ -203,19 +293,43 @@ function setupSettingsControls(game: Game, initialSettings: GameSettings, update
                 modeSelect.title = '';
             }
         }
-        // Settings button and panel are never disabled - only the mode select is restricted
+        for (const boardSelect of [boardSizeSelect, boardShapeSelect]) {
+            if (boardSelect) {
+                boardSelect.disabled = isInSession;
+                boardSelect.title = isInSession ? 'Cannot change the board while a game is in progress' : '';
+            }
+        }
+        // Settings button and panel are never disabled - only the mode and board selects are restricted
     };
 
-    // Check game state periodically to update mode select
-    setInterval(updateModeSelectState, 500);
+    // A session starts with the first move or hint and ends at game over; undoing doesn't end it, since a re-deal
+    // for another mode or board would hand back the spent undos and tokens
+    game.on('shapePlaced', updateModeSelectState);
+    game.on('pieceHeld', updateModeSelectState);
+    game.on('pieceTransformed', updateModeSelectState);
+    game.on('hintUsed', updateModeSelectState);
+    game.on('gameOver', updateModeSelectState);
     updateModeSelectState(); // Initial check
 
-    [gridInput, ghostInput, animationInput, soundInput, pointValuesInput, autoplaceInput].forEach(input => {
+    [gridInput, ghostInput, animationInput, soundInput, pointValuesInput, devOverlayInput, autoplaceInput].forEach(input => {
         input?.addEventListener('change', pushToGame);
     });
+    holdSlotInput?.addEventListener('change', () => {
+        const modeValue = (modeSelect?.value as GameMode) ?? initialSettings.mode;
+        holdSlot[modeValue] = holdSlotInput.checked;
+        pushToGame();
+    });
 
     themeSelect?.addEventListener('change', pushToGame);
-    modeSelect?.addEventListener('change', pushToGame);
+    modeSelect?.addEventListener('change', () => {
+        if (holdSlotInput && modeSelect) {
+            holdSlotInput.checked = holdSlot[modeSelect.value as GameMode];
+        }
+        pushToGame();
+    });
+    boardSizeSelect?.addEventListener('change', pushToGame);
+    boardShapeSelect?.addEventListener('change', pushToGame);
+    botStrategySelect?.addEventListener('change', pushToGame);
     
     // Initialize mode display
     updateModeDisplay(initialSettings.mode);
@@ -258,17 +372,25 @@ function setupSettingsControls(game: Game, initialSettings: GameSettings, update
     });
 
     // Return the update functions so they can be called from outside
-    return { updateModeSelectState, updateAutoplaceButtonVisibility };
+    return { updateModeSelectState, updateAutoplaceButtonVisibility, closeSettingsPanel: () => togglePanel(false) };
 }
 
 function applyTheme(theme: ThemeName): void {
     document.body?.setAttribute('data-theme', theme);
 }
 
-function updateModeDisplay(mode: GameMode): void {
+const MODE_NAMES: Record<GameMode, string> = { easy: 'Easy', hard: 'Hard', adaptive: 'Adaptive', blitz: 'Blitz', zen: 'Zen' };
+
+function updateModeDisplay(mode: GameMode, puzzle: Puzzle | null = null, daily: DailyGame | null = null): void {
     const modeDisplay = document.getElementById('mode-display');
     if (modeDisplay) {
-        modeDisplay.textContent = mode === 'easy' ? 'Easy' : 'Hard';
+        if (puzzle) {
+            modeDisplay.textContent = `Puzzle: ${puzzle.name}`;
+        } else if (daily) {
+            modeDisplay.textContent = daily.ranked ? 'Daily' : 'Daily (practice)';
+        } else {
+            modeDisplay.textContent = MODE_NAMES[mode];
+        }
     }
 }
 
@@ -338,12 +460,13 @@ function setupResponsiveUI(canvas: HTMLCanvasElement): void {
         const scoreDisplay = document.getElementById('score-display');
         const turnDisplay = document.getElementById('turn-display');
         const linesDisplay = document.getElementById('lines-display');
+        const timeDisplay = document.getElementById('time-display');
         const highScoreToday = document.getElementById('high-score-today-display');
         const highScoreWeek = document.getElementById('high-score-week-display');
         const highScoreYear = document.getElementById('high-score-year-display');
         const modeDisplay = document.getElementById('mode-display');
         
-        [scoreDisplay, turnDisplay, linesDisplay, highScoreToday, highScoreWeek, highScoreYear, modeDisplay].forEach(el => {
+        [scoreDisplay, turnDisplay, linesDisplay, timeDisplay, highScoreToday, highScoreWeek, highScoreYear, modeDisplay].forEach(el => {
             if (el) {
                 el.style.fontSize = `${baseFontSize}px`;
             }
@@ -399,15 +522,23 @@ function setupHighScores(game: Game, initialSettings: GameSettings): (mode: Game
     };
 
     const updateHighScores = () => {
-        // Get scores for the current mode
-        const scores = getHighScores(currentMode);
-        const todayEl = document.getElementById('high-score-today');
-        const weekEl = document.getElementById('high-score-week');
-        const yearEl = document.getElementById('high-score-year');
-        
-        if (todayEl) todayEl.textContent = formatNumber(scores.today);
-        if (weekEl) weekEl.textContent = formatNumber(scores.week);
-        if (yearEl) yearEl.textContent = formatNumber(scores.ever);
+        let entries: [string, number][];
+        if (MODE_RULES[currentMode].endless) {
+            // Zen mode isn't competitive: show its running totals instead of high scores
+            const stats = getZenStats();
+            entries = [['Sessions', stats.sessions], ['Lines', stats.linesCleared], ['Points', stats.points]];
+        } else {
+            // Get scores for the current mode
+            const scores = getHighScores(currentMode);
+            entries = [['Today', scores.today], ['Week', scores.week], ['Ever', scores.ever]];
+        }
+        ['high-score-today', 'high-score-week', 'high-score-year'].forEach((id, index) => {
+            const [label, value] = entries[index];
+            const labelEl = document.getElementById(`${id}-label`);
+            const valueEl = document.getElementById(id);
+            if (labelEl) labelEl.textContent = label;
+            if (valueEl) valueEl.textContent = formatNumber(value);
+        });
     };
 
     // Update when mode changes
@@ -426,3 +557,738 @@ function setupHighScores(game: Game, initialSettings: GameSettings): (mode: Game
     return updateMode;
 }
 
+/**
+ * Wires the undo/redo buttons and keyboard shortcuts (Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z, Ctrl/Cmd+Y)
+ * @returns A function that refreshes the buttons' enabled state and visibility
+ */
+function setupUndoControls(game: Game): () => void {
+    const undoButton = document.getElementById('undo-button') as HTMLButtonElement | null;
+    const redoButton = document.getElementById('redo-button') as HTMLButtonElement | null;
+    const undoLabel = document.getElementById('undo-label');
+
+    const updateUndoButtons = () => {
+        // Modes without undo hide the controls entirely
+        const display = game.isUndoEnabled() ? '' : 'none';
+        const { undosRemaining } = game.getUndoStatus();
+        if (undoButton) {
+            undoButton.style.display = display;
+            undoButton.disabled = !game.canUndo();
+        }
+        if (redoButton) {
+            redoButton.style.display = display;
+            redoButton.disabled = !game.canRedo();
+        }
+        if (undoLabel) {
+            undoLabel.textContent = undosRemaining === null ? 'Undo' : `Undo (${undosRemaining})`;
+        }
+    };
+
+    undoButton?.addEventListener('click', () => game.undo());
+    redoButton?.addEventListener('click', () => game.redo());
+
+    document.addEventListener('keydown', event => {
+        if (!(event.ctrlKey || event.metaKey)) {
+            return;
+        }
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+            event.preventDefault();
+            game.undo();
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+            event.preventDefault();
+            game.redo();
+        }
+    });
+
+    // Anything that changes the history or the allowance refreshes the buttons
+    game.on('shapePlaced', updateUndoButtons);
+    game.on('undone', updateUndoButtons);
+    game.on('redone', updateUndoButtons);
+    game.on('gameOver', updateUndoButtons);
+    document.getElementById('setting-mode')?.addEventListener('change', updateUndoButtons);
+    updateUndoButtons();
+
+    return updateUndoButtons;
+}
+
+/**
+ * Wires the hint button: it asks the solver for the next move and shows how many hints are left
+ * @returns A function that refreshes the button's enabled state, label and visibility
+ */
+function setupHintControls(game: Game): () => void {
+    const hintButton = document.getElementById('hint-button') as HTMLButtonElement | null;
+    const hintLabel = document.getElementById('hint-label');
+    let searching = false;
+
+    const updateHintButton = () => {
+        const { hintsRemaining } = game.getHintStatus();
+        if (hintButton) {
+            // Modes without hints hide the button entirely
+            hintButton.style.display = game.isHintEnabled() ? '' : 'none';
+            hintButton.disabled = searching || !game.canShowHint();
+        }
+        if (hintLabel) {
+            hintLabel.textContent = hintsRemaining === null ? 'Hint' : `Hint (${hintsRemaining})`;
+        }
+    };
+
+    hintButton?.addEventListener('click', () => {
+        searching = true;
+        updateHintButton();
+        game.showHint().then(hint => {
+            searching = false;
+            updateHintButton();
+            if (!hint && game.canShowHint()) {
+                flashButtonText(hintButton, 'No move fits');
+            }
+        });
+    });
+
+    game.on('hintUsed', updateHintButton);
+    game.on('shapePlaced', updateHintButton);
+    game.on('queueRefilled', updateHintButton);
+    game.on('undone', updateHintButton);
+    game.on('redone', updateHintButton);
+    game.on('gameOver', updateHintButton);
+    document.getElementById('setting-mode')?.addEventListener('change', updateHintButton);
+    updateHintButton();
+
+    return updateHintButton;
+}
+
+/**
+ * Briefly shows feedback text on a button, then restores its label
+ */
+function flashButtonText(button: HTMLButtonElement, text: string): void {
+    const original = button.dataset.label ?? button.textContent ?? '';
+    button.dataset.label = original;
+    button.textContent = text;
+    setTimeout(() => {
+        button.textContent = original;
+    }, 2000);
+}
+
+/**
+ * Wires the watch-the-bot button: it starts a demo game with the selected strategy, or stops the running one
+ * @param closeSettingsPanel - Closes the settings panel so the demo is visible
+ * @param onGameChanged - Called after the button starts or stops a game
+ * @returns A function that refreshes the button label (call after the game is reset elsewhere)
+ */
+function setupBotDemoControls(game: Game, closeSettingsPanel: () => void, onGameChanged: () => void): () => void {
+    const demoButton = document.getElementById('bot-demo-button') as HTMLButtonElement | null;
+
+    const updateLabel = () => {
+        if (demoButton) {
+            demoButton.textContent = game.isBotDemoRunning() ? 'Stop the bot' : 'Watch the bot play';
+        }
+    };
+
+    demoButton?.addEventListener('click', () => {
+        if (game.isBotDemoRunning()) {
+            game.stopBotDemo();
+        } else if (game.startBotDemo(loadSettings().botStrategy)) {
+            closeSettingsPanel();
+        } else {
+            flashButtonText(demoButton, 'Not right now');
+        }
+        updateLabel();
+        onGameChanged();
+    });
+
+    updateLabel();
+    return updateLabel;
+}
+
+/**
+ * Wires the replay buttons in the settings panel (watch last/best game, copy and load replay codes)
+ * @param closeSettingsPanel - Closes the settings panel so playback is visible
+ */
+function setupReplayControls(game: Game, closeSettingsPanel: () => void): void {
+    const lastButton = document.getElementById('replay-last-button') as HTMLButtonElement | null;
+    const bestButton = document.getElementById('replay-best-button') as HTMLButtonElement | null;
+    const copyButton = document.getElementById('replay-copy-button') as HTMLButtonElement | null;
+    const loadButton = document.getElementById('replay-load-button') as HTMLButtonElement | null;
+
+    const watch = (replay: GameReplay | null, button: HTMLButtonElement) => {
+        if (!replay) {
+            flashButtonText(button, 'No game recorded');
+            return;
+        }
+        if (game.startReplay(replay)) {
+            closeSettingsPanel();
+        }
+    };
+
+    lastButton?.addEventListener('click', () => watch(getLastReplay(), lastButton));
+    bestButton?.addEventListener('click', () => watch(getBestReplay(loadSettings().mode), bestButton));
+
+    copyButton?.addEventListener('click', async () => {
+        const replay = getLastReplay();
+        if (!replay) {
+            flashButtonText(copyButton, 'No game recorded');
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(encodeReplay(replay));
+            flashButtonText(copyButton, 'Copied!');
+        } catch (e) {
+            console.warn('Failed to copy replay code:', e);
+            flashButtonText(copyButton, 'Copy failed');
+        }
+    });
+
+    loadButton?.addEventListener('click', () => {
+        const code = window.prompt('Paste a replay code');
+        if (!code) {
+            return;
+        }
+        const replay = decodeReplay(code);
+        if (!replay) {
+            flashButtonText(loadButton, 'Invalid code');
+            return;
+        }
+        watch(replay, loadButton);
+    });
+}
+
+/**
+ * Wires the rotate (R) and mirror (M) keys for the piece being dragged
+ * Taps on queue cards and two-finger taps while dragging are handled by the input handler
+ */
+function setupTransformKeys(game: Game): void {
+    document.addEventListener('keydown', event => {
+        if (event.ctrlKey || event.metaKey || event.altKey || event.repeat) {
+            return;
+        }
+        const key = event.key.toLowerCase();
+        if (key === 'r') {
+            game.transformDraggedPiece('rotate');
+        } else if (key === 'm') {
+            game.transformDraggedPiece('mirror');
+        }
+    });
+}
+
+/**
+ * Wires the daily challenge section of the settings panel: today's ranked attempt, practice, sharing the result
+ * and a calendar of the last few weeks' results
+ * @param closeSettingsPanel - Closes the settings panel so the game is visible
+ * @param onGameChanged - Called after a daily game is started or left
+ */
+function setupDailyControls(game: Game, closeSettingsPanel: () => void, onGameChanged: () => void): void {
+    const status = document.getElementById('daily-status');
+    const calendar = document.getElementById('daily-calendar');
+    const rankedButton = document.getElementById('daily-ranked-button') as HTMLButtonElement | null;
+    const practiceButton = document.getElementById('daily-practice-button') as HTMLButtonElement | null;
+    const shareButton = document.getElementById('daily-share-button') as HTMLButtonElement | null;
+    const exitButton = document.getElementById('daily-exit-button') as HTMLButtonElement | null;
+
+    const updateDaily = () => {
+        const today = getDailyDate();
+        const result = getDailyResult(today);
+        const daily = game.getDaily();
+        if (status) {
+            if (daily?.ranked && !result?.finished) {
+                status.textContent = 'Playing today\'s ranked attempt';
+            } else if (result) {
+                status.textContent = `Today: ${result.score.toLocaleString('en-US')} points${result.finished ? '' : ' (unfinished)'}`;
+            } else {
+                status.textContent = 'The same game for everyone today - one ranked attempt, unlimited practice';
+            }
+        }
+        if (rankedButton) rankedButton.disabled = !!result;
+        if (shareButton) shareButton.disabled = !result || (!!daily?.ranked && !result.finished);
+        if (exitButton) exitButton.disabled = !daily;
+
+        calendar?.replaceChildren(...getDailyHistory(today).map(({ date, result: dayResult }) => {
+            const day = document.createElement('span');
+            day.className = 'daily-day';
+            day.classList.toggle('is-played', !!dayResult);
+            day.classList.toggle('is-today', date === today);
+            day.textContent = String(Number(date.slice(8)));
+            day.title = dayResult ? `${date}: ${dayResult.score.toLocaleString('en-US')} points` : `${date}: not played`;
+            return day;
+        }));
+    };
+
+    const changed = () => {
+        updateModeDisplay(loadSettings().mode, game.getPuzzle(), game.getDaily());
+        updateDaily();
+        onGameChanged();
+    };
+
+    const start = (ranked: boolean, button: HTMLButtonElement) => {
+        if (!game.startDaily(ranked)) {
+            flashButtonText(button, 'Not right now');
+            return;
+        }
+        closeSettingsPanel();
+        changed();
+    };
+
+    rankedButton?.addEventListener('click', () => start(true, rankedButton));
+    practiceButton?.addEventListener('click', () => start(false, practiceButton));
+    exitButton?.addEventListener('click', () => {
+        game.exitDaily();
+        changed();
+    });
+    shareButton?.addEventListener('click', async () => {
+        const result = getDailyResult(getDailyDate());
+        if (!result) {
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(createDailyShareText(result));
+            flashButtonText(shareButton, 'Copied!');
+        } catch (e) {
+            console.warn('Failed to copy daily result:', e);
+            flashButtonText(shareButton, 'Copy failed');
+        }
+    });
+
+    // The result is stored once the game over bonus is counted, so refresh whenever the panel opens;
+    // Restart turns a daily game into practice, and other games leave the challenge
+    document.getElementById('settings-button')?.addEventListener('click', updateDaily);
+    for (const id of ['restart-button', 'bot-demo-button', 'puzzle-list', 'editor-test-button']) {
+        document.getElementById(id)?.addEventListener('click', () => {
+            updateModeDisplay(loadSettings().mode, game.getPuzzle(), game.getDaily());
+            updateDaily();
+        });
+    }
+    updateDaily();
+}
+
+/**
+ * Wires the achievements gallery: every achievement, unlocked or not, rebuilt each time the panel opens
+ */
+function setupAchievementGallery(game: Game): void {
+    const panel = document.getElementById('achievements-panel');
+    const backdrop = document.getElementById('achievements-backdrop');
+    const openButton = document.getElementById('achievements-button');
+    const closeButton = document.getElementById('close-achievements-button');
+    const summary = document.getElementById('achievements-summary');
+    const list = document.getElementById('achievement-list');
+
+    const updateGallery = () => {
+        const unlocked = getUnlockedAchievements();
+        if (summary) {
+            summary.textContent = `${Object.keys(unlocked).length} of ${ACHIEVEMENTS.length} unlocked`;
+        }
+        list?.replaceChildren(...ACHIEVEMENTS.map(achievement => {
+            const unlockedAt = unlocked[achievement.id];
+            const item = document.createElement('li');
+            item.className = 'achievement';
+            item.classList.toggle('is-unlocked', unlockedAt !== undefined);
+            const name = document.createElement('div');
+            name.className = 'achievement-name';
+            name.textContent = `${unlockedAt !== undefined ? '🏆' : '🔒'} ${achievement.name}`;
+            const description = document.createElement('div');
+            description.className = 'achievement-description';
+            description.textContent = achievement.description;
+            item.append(name, description);
+            if (unlockedAt !== undefined) {
+                const date = document.createElement('div');
+                date.className = 'achievement-date';
+                date.textContent = `Unlocked ${new Date(unlockedAt).toLocaleDateString()}`;
+                item.append(date);
+            }
+            return item;
+        }));
+    };
+
+    const togglePanel = (open: boolean) => {
+        panel?.classList.toggle('is-visible', open);
+        backdrop?.classList.toggle('is-visible', open);
+        panel?.setAttribute('aria-hidden', open ? 'false' : 'true');
+        backdrop?.setAttribute('aria-hidden', open ? 'false' : 'true');
+        document.body.style.overflow = open ? 'hidden' : '';
+    };
+
+    openButton?.addEventListener('click', (e) => {
+        e.stopPropagation();
+        game.resumeSoundContext();
+        updateGallery();
+        togglePanel(true);
+    });
+    closeButton?.addEventListener('click', (e) => {
+        e.stopPropagation();
+        togglePanel(false);
+    });
+    backdrop?.addEventListener('click', (e) => {
+        e.stopPropagation();
+        togglePanel(false);
+    });
+    panel?.addEventListener('click', (e) => {
+        e.stopPropagation();
+    });
+    document.addEventListener('keydown', event => {
+        if (event.key === 'Escape') {
+            togglePanel(false);
+        }
+    });
+}
+
+/**
+ * Wires the puzzle section of the settings panel: one button per puzzle with its best stars, and a way back to normal play
+ * @param closeSettingsPanel - Closes the settings panel so the puzzle is visible
+ * @param onGameChanged - Called after a puzzle is started or left
+ */
+function setupPuzzleControls(game: Game, closeSettingsPanel: () => void, onGameChanged: () => void): void {
+    const list = document.getElementById('puzzle-list');
+    const status = document.getElementById('puzzle-status');
+    const exitButton = document.getElementById('puzzle-exit-button') as HTMLButtonElement | null;
+
+    const updatePuzzleList = () => {
+        const progress = getPuzzleProgress();
+        const current = game.getPuzzle();
+        list?.replaceChildren(...PUZZLES.map(puzzle => {
+            const stars = progress[puzzle.id] ?? 0;
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = 'settings-action';
+            button.textContent = `${puzzle.name} ${'★'.repeat(stars)}${'☆'.repeat(3 - stars)}`;
+            button.setAttribute('aria-pressed', String(puzzle.id === current?.id));
+            button.addEventListener('click', () => {
+                if (!game.startPuzzle(puzzle)) {
+                    flashButtonText(button, 'Not right now');
+                    return;
+                }
+                closeSettingsPanel();
+                changed();
+            });
+            return button;
+        }));
+        if (status) {
+            const solved = PUZZLES.filter(puzzle => progress[puzzle.id]).length;
+            status.textContent = current
+                ? `Playing "${current.name}" - Restart tries it again`
+                : `${solved} of ${PUZZLES.length} solved`;
+        }
+        if (exitButton) {
+            exitButton.disabled = !current;
+        }
+    };
+
+    const changed = () => {
+        updateModeDisplay(loadSettings().mode, game.getPuzzle(), game.getDaily());
+        updatePuzzleList();
+        onGameChanged();
+    };
+
+    exitButton?.addEventListener('click', () => {
+        game.exitPuzzle();
+        changed();
+    });
+    // New best ratings show up in the list; the bot demo leaves any puzzle
+    game.on('puzzleFinished', updatePuzzleList);
+    document.getElementById('bot-demo-button')?.addEventListener('click', changed);
+    updatePuzzleList();
+}
+
+/**
+ * Wires the puzzle editor: the open button in the settings panel and the editor panel under the board
+ * Test play starts the puzzle as a normal puzzle attempt; closing the editor after a test goes back to normal play
+ * @param closeSettingsPanel - Closes the settings panel so the editor is visible
+ * @param onGameChanged - Called after a test play starts or ends
+ */
+function setupPuzzleEditor(game: Game, closeSettingsPanel: () => void, onGameChanged: () => void): void {
+    const panel = document.getElementById('editor-panel');
+    const status = document.getElementById('editor-status');
+    const swatch = document.getElementById('editor-swatch');
+    const openButton = document.getElementById('editor-open-button') as HTMLButtonElement | null;
+    const toolSelect = document.getElementById('editor-tool') as HTMLSelectElement | null;
+    const pieceSelect = document.getElementById('editor-piece') as HTMLSelectElement | null;
+    const mirrorInput = document.getElementById('editor-mirror') as HTMLInputElement | null;
+    const goalSelect = document.getElementById('editor-goal') as HTMLSelectElement | null;
+    const goalValueInput = document.getElementById('editor-goal-value') as HTMLInputElement | null;
+    const widthInput = document.getElementById('editor-width') as HTMLInputElement | null;
+    const heightInput = document.getElementById('editor-height') as HTMLInputElement | null;
+    const starsTwoInput = document.getElementById('editor-stars-two') as HTMLInputElement | null;
+    const starsThreeInput = document.getElementById('editor-stars-three') as HTMLInputElement | null;
+    const rotationsInput = document.getElementById('editor-rotations') as HTMLInputElement | null;
+    const mirrorsInput = document.getElementById('editor-mirrors') as HTMLInputElement | null;
+    const idInput = document.getElementById('editor-id') as HTMLInputElement | null;
+    const nameInput = document.getElementById('editor-name') as HTMLInputElement | null;
+    const testButton = document.getElementById('editor-test-button') as HTMLButtonElement | null;
+    const backButton = document.getElementById('editor-back-button') as HTMLButtonElement | null;
+    const exportButton = document.getElementById('editor-export-button') as HTMLButtonElement | null;
+    const fileInput = document.getElementById('editor-file') as HTMLInputElement | null;
+
+    const editor = new PuzzleEditor();
+    let testing = false; // Whether the game underneath is a test play of the editor's puzzle
+
+    const showStatus = (message: string) => {
+        if (status) {
+            status.textContent = message;
+        }
+    };
+
+    // Pieces are listed by their index in the classic pack, which sets their color and points
+    pieceSelect?.replaceChildren(...CLASSIC_PIECE_PACK.pieces.map((piece, index) => {
+        const option = document.createElement('option');
+        option.value = piece.name;
+        option.textContent = `${index} · ${piece.name}`;
+        return option;
+    }));
+
+    const showBrush = () => {
+        const brush = editor.getBrush();
+        if (pieceSelect) pieceSelect.value = brush.piece;
+        if (mirrorInput) mirrorInput.checked = brush.mirror;
+        if (swatch) {
+            const index = CLASSIC_PIECE_PACK.pieces.findIndex(piece => piece.name === brush.piece);
+            swatch.style.background = getShapeColor(index);
+        }
+    };
+
+    // Fills the fields in from the puzzle (after opening or importing one)
+    const showPuzzle = () => {
+        const data = editor.getData();
+        const { width, height } = editor.getBoardSize();
+        if (goalSelect) goalSelect.value = data.goal.type;
+        if (goalValueInput && data.goal.type !== 'clearBoard') {
+            goalValueInput.value = String(data.goal.type === 'score' ? data.goal.points : data.goal.lines);
+        }
+        if (widthInput) widthInput.value = String(width);
+        if (heightInput) heightInput.value = String(height);
+        if (starsTwoInput) starsTwoInput.value = String(data.stars.two);
+        if (starsThreeInput) starsThreeInput.value = String(data.stars.three);
+        if (rotationsInput) rotationsInput.value = String(data.rotations ?? 0);
+        if (mirrorsInput) mirrorsInput.value = String(data.mirrors ?? 0);
+        if (idInput) idInput.value = data.id;
+        if (nameInput) nameInput.value = data.name;
+        showBrush();
+    };
+
+    const showButtons = () => {
+        if (panel) panel.hidden = !game.isEditing() && !testing;
+        if (testButton) testButton.disabled = !game.isEditing();
+        if (backButton) backButton.disabled = game.isEditing();
+        if (exportButton) exportButton.disabled = !game.isEditing();
+    };
+
+    const readNumber = (input: HTMLInputElement | null, fallback: number) => {
+        const value = Number(input?.value);
+        return Number.isFinite(value) ? Math.round(value) : fallback;
+    };
+
+    const readGoal = (): PuzzleGoal => {
+        const value = readNumber(goalValueInput, 1);
+        switch (goalSelect?.value) {
+            case 'linesAtOnce':
+                return { type: 'linesAtOnce', lines: value };
+            case 'score':
+                return { type: 'score', points: value };
+            default:
+                return { type: 'clearBoard' };
+        }
+    };
+
+    // Gets the puzzle ready to play, or shows why it isn't
+    const readPuzzle = (): Puzzle | null => {
+        try {
+            return editor.toPuzzle();
+        } catch (e) {
+            showStatus(e instanceof Error ? e.message : String(e));
+            return null;
+        }
+    };
+
+    const open = (): boolean => {
+        if (testing) {
+            // The test play is left for the editor; the player's game was replaced when it started
+            testing = false;
+            game.exitPuzzle();
+        }
+        if (!game.openEditor(editor)) {
+            return false;
+        }
+        showButtons();
+        onGameChanged();
+        return true;
+    };
+
+    openButton?.addEventListener('click', () => {
+        if (!open()) {
+            flashButtonText(openButton, 'Not right now');
+            return;
+        }
+        closeSettingsPanel();
+        showPuzzle();
+        showStatus('Tap the board to use the tool; tap a queue card to take its piece out, or an empty one to add the selected piece');
+    });
+
+    toolSelect?.addEventListener('change', () => editor.setTool(toolSelect.value as EditorTool));
+    pieceSelect?.addEventListener('change', () => {
+        editor.setBrush({ piece: pieceSelect.value, turns: 0, mirror: false });
+        showBrush();
+    });
+    document.getElementById('editor-turn-button')?.addEventListener('click', () => {
+        const brush = editor.getBrush();
+        // Skip orientations the piece is never dealt in
+        for (let turns = 1; turns <= 4; turns++) {
+            if (editor.setBrush({ ...brush, turns: (brush.turns + turns) % 4 })) break;
+        }
+        showBrush();
+    });
+    mirrorInput?.addEventListener('change', () => {
+        if (!editor.setBrush({ ...editor.getBrush(), mirror: mirrorInput.checked })) {
+            showStatus(`${editor.getBrush().piece} is never dealt mirrored`);
+        }
+        showBrush();
+    });
+
+    goalSelect?.addEventListener('change', () => editor.setGoal(readGoal()));
+    goalValueInput?.addEventListener('change', () => editor.setGoal(readGoal()));
+    const resize = () => {
+        const { width, height } = editor.getBoardSize();
+        editor.setBoardSize({ width: readNumber(widthInput, width), height: readNumber(heightInput, height) });
+        showPuzzle();
+    };
+    widthInput?.addEventListener('change', resize);
+    heightInput?.addEventListener('change', resize);
+    const readStars = () => editor.setStars(readNumber(starsTwoInput, 1), readNumber(starsThreeInput, 1));
+    starsTwoInput?.addEventListener('change', readStars);
+    starsThreeInput?.addEventListener('change', readStars);
+    const readTokens = () => editor.setTokens(readNumber(rotationsInput, 0), readNumber(mirrorsInput, 0));
+    rotationsInput?.addEventListener('change', readTokens);
+    mirrorsInput?.addEventListener('change', readTokens);
+    const readTitle = () => editor.setTitle(idInput?.value.trim() ?? '', nameInput?.value.trim() ?? '');
+    idInput?.addEventListener('change', readTitle);
+    nameInput?.addEventListener('change', readTitle);
+
+    document.getElementById('editor-prev-hand-button')?.addEventListener('click', () => {
+        editor.selectHand(editor.getHandPosition().index - 1);
+    });
+    document.getElementById('editor-next-hand-button')?.addEventListener('click', () => {
+        editor.selectHand(editor.getHandPosition().index + 1);
+    });
+    document.getElementById('editor-add-hand-button')?.addEventListener('click', () => editor.addHand());
+    document.getElementById('editor-remove-hand-button')?.addEventListener('click', () => editor.removeHand());
+
+    testButton?.addEventListener('click', () => {
+        const puzzle = readPuzzle();
+        if (!puzzle) {
+            return;
+        }
+        game.closeEditor();
+        testing = game.startPuzzle(puzzle);
+        showStatus(testing ? 'Test playing - Restart tries it again' : 'Not right now');
+        if (!testing) {
+            game.openEditor(editor);
+        }
+        updateModeDisplay(loadSettings().mode, game.getPuzzle(), game.getDaily());
+        showButtons();
+        onGameChanged();
+    });
+
+    backButton?.addEventListener('click', () => {
+        if (open()) {
+            updateModeDisplay(loadSettings().mode, game.getPuzzle(), game.getDaily());
+            showStatus('');
+        }
+    });
+
+    exportButton?.addEventListener('click', async () => {
+        const puzzle = readPuzzle();
+        if (!puzzle) {
+            return;
+        }
+        showStatus('Checking the puzzle can be solved...');
+        exportButton.disabled = true;
+        try {
+            const solution = await game.checkPuzzle(puzzle);
+            if (!solution.steps) {
+                showStatus(solution.exhaustive
+                    ? 'No way to meet the goal with these hands - not exported'
+                    : `No solution found in ${solution.nodes.toLocaleString('en-US')} tries - not exported`);
+                return;
+            }
+            const blob = new Blob([JSON.stringify(editor.getData(), null, 2) + '\n'], { type: 'application/json' });
+            const link = document.createElement('a');
+            link.href = URL.createObjectURL(blob);
+            link.download = `${puzzle.id}.json`;
+            link.click();
+            // Some browsers read the file well after click() returns, so the URL is kept for a while
+            setTimeout(() => URL.revokeObjectURL(link.href), PUZZLE_CONFIG.exportUrlLifetimeMs);
+            showStatus(`Solvable in ${solution.steps.length} pieces - exported ${link.download}`);
+        } catch (e) {
+            console.warn('Failed to check puzzle:', e);
+            showStatus('The solvability check failed - not exported');
+        } finally {
+            showButtons();
+        }
+    });
+
+    document.getElementById('editor-import-button')?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = '';
+        if (!file) {
+            return;
+        }
+        try {
+            editor.load(JSON.parse(await file.text()));
+            showPuzzle();
+            showStatus(`Imported ${file.name}`);
+        } catch (e) {
+            console.warn('Failed to import puzzle:', e);
+            showStatus(e instanceof Error ? e.message : 'Invalid puzzle file');
+        }
+    });
+
+    document.getElementById('editor-close-button')?.addEventListener('click', () => {
+        game.closeEditor();
+        if (testing) {
+            testing = false;
+            game.exitPuzzle();
+        }
+        updateModeDisplay(loadSettings().mode, game.getPuzzle(), game.getDaily());
+        showButtons();
+        onGameChanged();
+    });
+
+    showButtons();
+}
+
+/**
+ * Wires the piece pack section of the settings panel (load a pack from a JSON file, or go back to the classic pieces)
+ */
+function setupPiecePackControls(game: Game): void {
+    const status = document.getElementById('piece-pack-status');
+    const loadButton = document.getElementById('piece-pack-load-button') as HTMLButtonElement | null;
+    const classicButton = document.getElementById('piece-pack-classic-button') as HTMLButtonElement | null;
+    const fileInput = document.getElementById('piece-pack-file') as HTMLInputElement | null;
+
+    const showPack = (applied: boolean = true) => {
+        if (status) {
+            const { name, pieces } = game.getPiecePack();
+            status.textContent = `${name} (${pieces.length} pieces)${applied ? '' : ' - from the next game'}`;
+        }
+    };
+
+    loadButton?.addEventListener('click', () => fileInput?.click());
+    fileInput?.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = '';
+        if (!file || !loadButton) {
+            return;
+        }
+        try {
+            const pack = parsePiecePack(JSON.parse(await file.text()));
+            showPack(game.setPiecePack(pack));
+        } catch (e) {
+            console.warn('Failed to load piece pack:', e);
+            flashButtonText(loadButton, 'Invalid pack');
+            if (status && e instanceof Error) {
+                status.textContent = e.message;
+            }
+        }
+    });
+
+    classicButton?.addEventListener('click', () => showPack(game.setPiecePack(null)));
+
+    // A resumed game keeps the pack it was started with
+    showPack(isSamePiecePack(game.getEngine().getPiecePack(), game.getPiecePack()));
+}
+
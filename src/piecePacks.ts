@@ -0,0 +1,194 @@
+/**
+ * Piece packs: the set of pieces the queue is dealt from, loaded from JSON at runtime
+ *
+ * Pack format:
+ * {
+ *   "name": "My pack",
+ *   "pieces": [
+ *     { "name": "Domino", "cells": [{ "x": 0, "y": 0 }, { "x": 1, "y": 0 }], "weight": 2, "rotations": [0, 1] }
+ *   ]
+ * }
+ * - cells: the blocks of the piece; must be edge-connected, any offset (normalized to start at (0, 0))
+ * - pointValue: optional fixed base points per cell (level bonuses still apply, 0 never scores);
+ *   pieces without one get a shuffled value (1..n) each game
+ * - weight: optional relative chance of being dealt (default 1; 0 keeps the piece out of the deal)
+ * - rotations: optional allowed quarter turns clockwise (default [0, 1, 2, 3])
+ * - mirror: optional, true to also deal the piece mirrored (default false)
+ * Piece order matters: it sets each piece's color and its index in saved point values
+ */
+
+import { PiecePack, PackPiece, Position, Shape } from './types';
+import { PIECE_PACK_CONFIG, STORAGE_KEYS } from './config';
+import classicPackData from './packs/classic.json';
+
+const ALL_ROTATIONS = [0, 1, 2, 3];
+
+/**
+ * Translates cells so the piece's bounding box starts at (0, 0)
+ */
+function normalizeCells(cells: Position[]): Shape {
+    const minX = Math.min(...cells.map(cell => cell.x));
+    const minY = Math.min(...cells.map(cell => cell.y));
+    return cells.map(cell => ({ x: cell.x - minX, y: cell.y - minY }));
+}
+
+/**
+ * Checks that every cell can be reached from the first through edge-adjacent cells
+ */
+function isConnected(cells: Shape): boolean {
+    const keys = new Set(cells.map(cell => `${cell.x},${cell.y}`));
+    const seen = new Set<string>([`${cells[0].x},${cells[0].y}`]);
+    const stack: Position[] = [cells[0]];
+    while (stack.length > 0) {
+        const { x, y } = stack.pop()!;
+        for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+            const key = `${x + dx},${y + dy}`;
+            if (keys.has(key) && !seen.has(key)) {
+                seen.add(key);
+                stack.push({ x: x + dx, y: y + dy });
+            }
+        }
+    }
+    return seen.size === keys.size;
+}
+
+/**
+ * Validates one piece and fills in its defaults
+ * @throws Error describing the first problem found
+ */
+function parsePiece(data: unknown, index: number): PackPiece {
+    if (!data || typeof data !== 'object') {
+        throw new Error(`Piece ${index + 1} is not an object`);
+    }
+    const piece = data as Record<string, unknown>;
+    const name = typeof piece.name === 'string' && piece.name.trim() ? piece.name.trim() : null;
+    if (!name) {
+        throw new Error(`Piece ${index + 1} needs a name`);
+    }
+
+    const cells = piece.cells;
+    if (!Array.isArray(cells) || cells.length === 0) {
+        throw new Error(`Piece "${name}" needs at least one cell`);
+    }
+    if (!cells.every(cell => cell && Number.isInteger(cell.x) && Number.isInteger(cell.y))) {
+        throw new Error(`Piece "${name}" has a cell without integer x and y`);
+    }
+    const normalized = normalizeCells(cells.map(cell => ({ x: cell.x, y: cell.y })));
+    if (new Set(normalized.map(cell => `${cell.x},${cell.y}`)).size !== normalized.length) {
+        throw new Error(`Piece "${name}" lists a cell twice`);
+    }
+    const span = Math.max(...normalized.map(cell => Math.max(cell.x, cell.y))) + 1;
+    if (span > PIECE_PACK_CONFIG.maxPieceSpan) {
+        throw new Error(`Piece "${name}" is wider or taller than ${PIECE_PACK_CONFIG.maxPieceSpan} cells`);
+    }
+    if (!isConnected(normalized)) {
+        throw new Error(`Piece "${name}" is not connected`);
+    }
+
+    const { pointValue, weight = 1, rotations = ALL_ROTATIONS, mirror = false } = piece;
+    if (pointValue !== undefined && !(Number.isInteger(pointValue) && (pointValue as number) >= 0)) {
+        throw new Error(`Piece "${name}" has an invalid pointValue (expected a whole number of 0 or more)`);
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        throw new Error(`Piece "${name}" has an invalid weight (expected a number of 0 or more)`);
+    }
+    if (!Array.isArray(rotations) || rotations.length === 0 ||
+        !rotations.every(rotation => ALL_ROTATIONS.includes(rotation))) {
+        throw new Error(`Piece "${name}" has invalid rotations (expected quarter turns from 0 to 3)`);
+    }
+    if (typeof mirror !== 'boolean') {
+        throw new Error(`Piece "${name}" has an invalid mirror flag (expected true or false)`);
+    }
+
+    return {
+        name,
+        cells: normalized,
+        ...(pointValue !== undefined ? { pointValue: pointValue as number } : {}),
+        weight,
+        rotations: [...new Set(rotations as number[])].sort((a, b) => a - b),
+        mirror,
+    };
+}
+
+/**
+ * Validates a piece pack (usually parsed JSON) and normalizes it for use
+ * @param data - Untrusted pack data
+ * @returns The pack with defaults filled in and cells normalized
+ * @throws Error describing the first problem found
+ */
+export function parsePiecePack(data: unknown): PiecePack {
+    if (!data || typeof data !== 'object') {
+        throw new Error('A piece pack must be a JSON object');
+    }
+    const pack = data as Record<string, unknown>;
+    if (typeof pack.name !== 'string' || !pack.name.trim()) {
+        throw new Error('A piece pack needs a name');
+    }
+    if (!Array.isArray(pack.pieces) || pack.pieces.length === 0) {
+        throw new Error('A piece pack needs at least one piece');
+    }
+    if (pack.pieces.length > PIECE_PACK_CONFIG.maxPieces) {
+        throw new Error(`A piece pack can have at most ${PIECE_PACK_CONFIG.maxPieces} pieces`);
+    }
+    const pieces = pack.pieces.map((piece, index) => parsePiece(piece, index));
+    if (!pieces.some(piece => piece.weight > 0)) {
+        throw new Error('A piece pack needs at least one piece with a weight above 0');
+    }
+    return { name: pack.name.trim(), pieces };
+}
+
+/**
+ * Checks untrusted data (a stored save or pasted replay) without throwing
+ * @param data - Value to check
+ */
+export function isValidPiecePack(data: unknown): data is PiecePack {
+    try {
+        parsePiecePack(data);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The built-in pieces: monomino (never dealt, scores 0), domino, two trominoes, the seven tetrominoes, a 3x3 box,
+ * the twelve free pentominoes and two 2x2-plus-bar pieces
+ */
+export const CLASSIC_PIECE_PACK: PiecePack = parsePiecePack(classicPackData);
+
+/**
+ * Checks whether two packs have the same name and pieces
+ */
+export function isSamePiecePack(a: PiecePack, b: PiecePack): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Loads the piece pack the player picked last time
+ * @returns The stored pack, or null to use the classic pieces
+ */
+export function loadStoredPiecePack(): PiecePack | null {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS.piecePack);
+        return stored ? parsePiecePack(JSON.parse(stored)) : null;
+    } catch (e) {
+        console.warn('Failed to load piece pack from localStorage:', e);
+        return null;
+    }
+}
+
+/**
+ * Remembers the player's piece pack for the next visit
+ * @param pack - Pack to store, or null to go back to the classic pieces
+ */
+export function storePiecePack(pack: PiecePack | null): void {
+    try {
+        if (pack) {
+            localStorage.setItem(STORAGE_KEYS.piecePack, JSON.stringify(pack));
+        } else {
+            localStorage.removeItem(STORAGE_KEYS.piecePack);
+        }
+    } catch (e) {
+        console.warn('Failed to save piece pack to localStorage:', e);
+    }
+}
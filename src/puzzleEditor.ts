@@ -0,0 +1,375 @@
+/**
+ * Puzzle editor: the puzzle being designed and the edits the editor's tools make to it
+ * Headless like GameEngine: Game draws it and passes canvas taps to it, and main.ts wires the editor panel
+ */
+
+import { BoardSize, EditorTool, PlacedBlock, Position, Puzzle, PuzzleBlockData, PuzzleData, PuzzleGoal, PuzzlePieceRef, Shape } from './types';
+import { Board } from './board';
+import { CLASSIC_PIECE_PACK } from './piecePacks';
+import { orientPiece, getShapeColor, getShapePointValue } from './shapes';
+import { parsePuzzle } from './puzzles';
+import { BOARD_CONFIG, BOARD_MASK_CHARS, GAMEPLAY_CONFIG } from './config';
+
+/**
+ * The piece the editor stamps, paints with and adds to hands
+ */
+export interface EditorBrush {
+    piece: string;                 // Classic piece name
+    turns: number;                 // Quarter turns clockwise (0-3)
+    mirror: boolean;               // Mirrored before turning
+}
+
+/**
+ * Turns a brush into the cells it covers, or null if the classic pack never deals the piece that way
+ */
+function getBrushShape(brush: EditorBrush): Shape | null {
+    const piece = CLASSIC_PIECE_PACK.pieces.find(candidate => candidate.name === brush.piece);
+    return piece ? orientPiece(piece, brush.turns, brush.mirror) : null;
+}
+
+/**
+ * Writes a brush the way puzzle files name pieces (a plain name unless it is turned)
+ */
+function toPieceRef(brush: EditorBrush): PuzzlePieceRef {
+    if (brush.turns === 0 && !brush.mirror) {
+        return brush.piece;
+    }
+    return brush.mirror ? { piece: brush.piece, turns: brush.turns, mirror: true } : { piece: brush.piece, turns: brush.turns };
+}
+
+/**
+ * Reads a piece reference back into a brush
+ */
+function toBrush(ref: PuzzlePieceRef): EditorBrush {
+    return typeof ref === 'string'
+        ? { piece: ref, turns: 0, mirror: false }
+        : { piece: ref.piece, turns: ref.turns ?? 0, mirror: ref.mirror ?? false };
+}
+
+/**
+ * PuzzleEditor holds a puzzle in progress, which may not be valid yet (see toPuzzle)
+ * A new editor starts with an open standard board and one empty hand
+ */
+export class PuzzleEditor {
+    private id: string = 'my-puzzle';
+    private name: string = 'My Puzzle';
+    private board: string[];       // Mask rows; their count and length are the board size
+    private blocks: PuzzleBlockData[] = [];
+    private hands: PuzzlePieceRef[][]; // Hands may be empty while editing
+    private handIndex: number = 0; // Hand shown in the queue strip
+    private goal: PuzzleGoal = { type: 'clearBoard' };
+    private stars = { two: 6, three: 3 };
+    private rotations: number = 0;
+    private mirrors: number = 0;
+    private tool: EditorTool = 'piece';
+    private brush: EditorBrush = { piece: 'O', turns: 0, mirror: false };
+
+    constructor() {
+        this.board = this.createOpenRows({ width: BOARD_CONFIG.cellCount, height: BOARD_CONFIG.cellCount });
+        this.hands = [[]];
+    }
+
+    /**
+     * Starts editing a puzzle file, replacing everything
+     * @param data - Puzzle file contents (usually parsed JSON)
+     * @throws Error if the file isn't a valid puzzle (see parsePuzzle)
+     */
+    load(data: unknown): void {
+        const puzzle = parsePuzzle(data);
+        const file = JSON.parse(JSON.stringify(data)) as PuzzleData;
+        this.id = puzzle.id;
+        this.name = puzzle.name;
+        this.board = puzzle.boardMask ? [...puzzle.boardMask] : this.createOpenRows(puzzle.boardSize);
+        this.blocks = file.blocks ?? [];
+        this.hands = file.hands;
+        this.handIndex = 0;
+        this.goal = puzzle.goal;
+        this.stars = { ...puzzle.stars };
+        this.rotations = file.rotations ?? 0;
+        this.mirrors = file.mirrors ?? 0;
+    }
+
+    /**
+     * Builds mask rows with every cell open
+     */
+    private createOpenRows(size: BoardSize): string[] {
+        return Array.from({ length: size.height }, () => BOARD_MASK_CHARS.open.repeat(size.width));
+    }
+
+    /**
+     * Writes the puzzle as a puzzle file (fields left at their defaults are omitted)
+     */
+    getData(): PuzzleData {
+        const size = this.getBoardSize();
+        const plain = size.width === BOARD_CONFIG.cellCount && size.height === BOARD_CONFIG.cellCount &&
+            this.board.every(row => [...row].every(char => char === BOARD_MASK_CHARS.open));
+        return {
+            id: this.id,
+            name: this.name,
+            ...(plain ? {} : { board: [...this.board] }),
+            ...(this.blocks.length > 0 ? { blocks: this.blocks.map(block => ({ ...block })) } : {}),
+            hands: this.hands.map(hand => [...hand]),
+            goal: { ...this.goal },
+            stars: { ...this.stars },
+            ...(this.rotations > 0 ? { rotations: this.rotations } : {}),
+            ...(this.mirrors > 0 ? { mirrors: this.mirrors } : {}),
+        };
+    }
+
+    /**
+     * Checks the puzzle and turns it into one that can be played
+     * @throws Error describing the first problem found (see parsePuzzle)
+     */
+    toPuzzle(): Puzzle {
+        return parsePuzzle(this.getData());
+    }
+
+    /**
+     * Sets the puzzle's id and name (checked by toPuzzle)
+     */
+    setTitle(id: string, name: string): void {
+        this.id = id;
+        this.name = name;
+    }
+
+    /**
+     * Sets the goal
+     */
+    setGoal(goal: PuzzleGoal): void {
+        this.goal = { ...goal };
+    }
+
+    /**
+     * Sets the most pieces placed that still earn two and three stars (checked by toPuzzle)
+     */
+    setStars(two: number, three: number): void {
+        this.stars = { two, three };
+    }
+
+    /**
+     * Sets the rotation and mirror tokens the player gets
+     */
+    setTokens(rotations: number, mirrors: number): void {
+        this.rotations = rotations;
+        this.mirrors = mirrors;
+    }
+
+    /**
+     * Resizes the board to a plain one of the new size; blocks that no longer fit are dropped
+     * @param size - New dimensions (clamped to the sizes boards can be)
+     */
+    setBoardSize(size: BoardSize): void {
+        const clamp = (cells: number) => Math.max(BOARD_CONFIG.minCellCount, Math.min(BOARD_CONFIG.maxCellCount, cells));
+        size = { width: clamp(size.width), height: clamp(size.height) };
+        this.board = this.createOpenRows(size);
+        this.blocks = this.blocks.filter(block =>
+            this.getBlockCells(block).every(cell => cell.x < size.width && cell.y < size.height)
+        );
+    }
+
+    /**
+     * Chooses what tapping a board cell does
+     */
+    setTool(tool: EditorTool): void {
+        this.tool = tool;
+    }
+
+    /**
+     * Chooses the piece to stamp, paint with and add to hands
+     * @param brush - Piece name and orientation
+     * @returns False if the classic pack never deals the piece that way (the brush is kept)
+     */
+    setBrush(brush: EditorBrush): boolean {
+        if (!getBrushShape(brush)) {
+            return false;
+        }
+        this.brush = { ...brush };
+        return true;
+    }
+
+    /**
+     * Gets the selected piece and orientation
+     */
+    getBrush(): EditorBrush {
+        return { ...this.brush };
+    }
+
+    /**
+     * Applies the selected tool to a board cell
+     * @param position - Cell that was tapped
+     * @returns True if the puzzle changed
+     */
+    tapCell(position: Position): boolean {
+        const { x, y } = position;
+        if (x < 0 || y < 0 || y >= this.board.length || x >= this.board[y].length) {
+            return false;
+        }
+        const covering = this.blocks.findIndex(block => this.getBlockCells(block).some(cell => cell.x === x && cell.y === y));
+        switch (this.tool) {
+            case 'paint':
+                if (covering >= 0) {
+                    // Tapping a painted cell again empties it; whole pieces are removed with the eraser
+                    if (!('paint' in this.blocks[covering])) return false;
+                    this.blocks.splice(covering, 1);
+                    return true;
+                }
+                if (!this.isOpen(x, y)) return false;
+                this.blocks.push({ paint: this.brush.piece, x, y });
+                return true;
+            case 'piece': {
+                const shape = getBrushShape(this.brush)!;
+                const fits = shape.every(cell => this.isOpen(x + cell.x, y + cell.y) && !this.isCovered(x + cell.x, y + cell.y));
+                if (!fits) return false;
+                const ref = toPieceRef(this.brush);
+                this.blocks.push(typeof ref === 'string' ? { piece: ref, x, y } : { ...ref, x, y });
+                return true;
+            }
+            case 'blocked': {
+                if (covering >= 0) return false;
+                const char = this.board[y][x];
+                if (char === BOARD_MASK_CHARS.missing) return false;
+                this.setMaskChar(x, y, char === BOARD_MASK_CHARS.open ? BOARD_MASK_CHARS.blocked : BOARD_MASK_CHARS.open);
+                return true;
+            }
+            case 'erase':
+                if (covering >= 0) {
+                    this.blocks.splice(covering, 1);
+                    return true;
+                }
+                if (this.board[y][x] !== BOARD_MASK_CHARS.blocked) return false;
+                this.setMaskChar(x, y, BOARD_MASK_CHARS.open);
+                return true;
+        }
+    }
+
+    /**
+     * Changes one character of the mask
+     */
+    private setMaskChar(x: number, y: number, char: string): void {
+        const row = this.board[y];
+        this.board[y] = row.slice(0, x) + char + row.slice(x + 1);
+    }
+
+    /**
+     * Whether a cell is on the board and open (not blocked or missing)
+     */
+    private isOpen(x: number, y: number): boolean {
+        return y >= 0 && y < this.board.length && x >= 0 && x < this.board[y].length && this.board[y][x] === BOARD_MASK_CHARS.open;
+    }
+
+    /**
+     * Whether a block covers a cell
+     */
+    private isCovered(x: number, y: number): boolean {
+        return this.blocks.some(block => this.getBlockCells(block).some(cell => cell.x === x && cell.y === y));
+    }
+
+    /**
+     * Gets the board cells a block covers (none if its piece is unknown or turned into an orientation it is never dealt in)
+     */
+    private getBlockCells(block: PuzzleBlockData): Position[] {
+        const shape = 'paint' in block ? [{ x: 0, y: 0 }] : getBrushShape(toBrush(block));
+        return (shape ?? []).map(cell => ({ x: block.x + cell.x, y: block.y + cell.y }));
+    }
+
+    /**
+     * Edits a slot of the hand shown: taking the piece out of a filled slot, or adding the selected piece after the last one
+     * @param index - Queue slot that was tapped
+     * @returns True if the hand changed
+     */
+    tapHandSlot(index: number): boolean {
+        const hand = this.hands[this.handIndex];
+        if (index < hand.length) {
+            hand.splice(index, 1);
+            return true;
+        }
+        if (hand.length >= GAMEPLAY_CONFIG.shapesPerTurn) {
+            return false;
+        }
+        hand.push(toPieceRef(this.brush));
+        return true;
+    }
+
+    /**
+     * Adds an empty hand after the one shown and shows it
+     */
+    addHand(): void {
+        this.hands.splice(this.handIndex + 1, 0, []);
+        this.handIndex++;
+    }
+
+    /**
+     * Removes the hand shown (a puzzle always keeps one)
+     * @returns True if a hand was removed
+     */
+    removeHand(): boolean {
+        if (this.hands.length <= 1) {
+            return false;
+        }
+        this.hands.splice(this.handIndex, 1);
+        this.handIndex = Math.min(this.handIndex, this.hands.length - 1);
+        return true;
+    }
+
+    /**
+     * Shows another hand in the queue strip
+     * @param index - Hand to show (clamped to the hands there are)
+     */
+    selectHand(index: number): void {
+        this.handIndex = Math.max(0, Math.min(index, this.hands.length - 1));
+    }
+
+    /**
+     * Gets which hand is shown and how many there are
+     */
+    getHandPosition(): { index: number; count: number } {
+        return { index: this.handIndex, count: this.hands.length };
+    }
+
+    /**
+     * Gets the board size
+     */
+    getBoardSize(): BoardSize {
+        return { width: this.board[0]?.length ?? 0, height: this.board.length };
+    }
+
+    /**
+     * Builds the board for drawing: the mask with every block's cells filled
+     */
+    getBoard(): Board {
+        const board = new Board(this.getBoardSize(), this.board);
+        this.blocks.forEach(block => this.getBlockCells(block).forEach(cell => board.placeShape([{ x: 0, y: 0 }], cell)));
+        return board;
+    }
+
+    /**
+     * Builds the blocks for drawing, colored like the pieces they are (or are painted as) in the current color scheme
+     */
+    getPlacedBlocks(): PlacedBlock[] {
+        return this.blocks.map(block => {
+            const name = 'paint' in block ? block.paint : block.piece;
+            const shapeIndex = Math.max(0, CLASSIC_PIECE_PACK.pieces.findIndex(piece => piece.name === name));
+            return {
+                shape: this.getBlockCells(block).map(cell => ({ x: cell.x - block.x, y: cell.y - block.y })),
+                position: { x: block.x, y: block.y },
+                color: getShapeColor(shapeIndex),
+                pointValue: getShapePointValue(shapeIndex, 0),
+                lineClearBonuses: 0,
+                totalShapesPlacedAtPlacement: 0,
+                shapeIndex,
+                darkness: 1.0,
+            };
+        });
+    }
+
+    /**
+     * Gets the hand shown as queue slots (empty slots are null)
+     */
+    getHandShapes(): (Shape | null)[] {
+        const shapes: (Shape | null)[] = this.hands[this.handIndex].map(ref => getBrushShape(toBrush(ref)));
+        while (shapes.length < GAMEPLAY_CONFIG.shapesPerTurn) {
+            shapes.push(null);
+        }
+        return shapes;
+    }
+}
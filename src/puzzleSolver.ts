@@ -0,0 +1,118 @@
+/**
+ * Puzzle solvability check: searches a puzzle's hands for a line of play that meets its goal
+ * Every try is played on a real GameEngine, so goals (scores included) are judged exactly as in a game
+ */
+
+import { Puzzle, PuzzleGoal, Shape } from './types';
+import { Board } from './board';
+import { GameEngine, TurnedMove } from './engine';
+import { SeededRandom } from './random';
+import { cellBit, findFullLinesInBits, clearLinesInBits } from './bitboard';
+import {
+    getActivePiecePack,
+    setActivePiecePack,
+    getShapePointValues,
+    setShapePointValues,
+    getShapeColorScheme,
+    setShapeColorScheme,
+    transformShape,
+} from './shapes';
+import { PUZZLE_CONFIG } from './config';
+
+/**
+ * What the search found
+ */
+export interface PuzzleSolution {
+    steps: TurnedMove[] | null;    // Placements that meet the goal, in order (null if none was found)
+    nodes: number;                 // Placements tried
+    exhaustive: boolean;           // False if the node budget ran out before every line was tried
+}
+
+/**
+ * Ranks a move for the search order; higher goes first
+ * Moves that meet a line goal outright come first. Otherwise score goals try the moves completing the most lines first,
+ * while line goals try the ones completing the fewest, since an early clear usually breaks up the big one being set up
+ */
+function rankMove(board: Board, queue: (Shape | null)[], move: TurnedMove, goal: PuzzleGoal): number {
+    const shape = move.transforms.reduce((turned, transform) => transformShape(turned, transform) ?? turned, queue[move.queueIndex]!);
+    const { width } = board.getDimensions();
+    const placed = shape.reduce(
+        (bits, cell) => bits | cellBit(width, move.position.x + cell.x, move.position.y + cell.y),
+        board.getFilledBits()
+    );
+    const lines = findFullLinesInBits(placed, board.getPlayableBits(), board.getLayout());
+    const completed = lines.rows.length + lines.columns.length;
+    switch (goal.type) {
+        case 'clearBoard':
+            return completed > 0 && clearLinesInBits(placed, lines, board.getLayout()) === 0n ? Number.MAX_SAFE_INTEGER : -completed;
+        case 'linesAtOnce':
+            return completed >= goal.lines ? Number.MAX_SAFE_INTEGER : -completed;
+        case 'score':
+            return completed;
+    }
+}
+
+/**
+ * Searches for a way to meet a puzzle's goal with its hands, trying every order, orientation and position depth first
+ * Moves are tried in rankMove order; the first solution found is returned, which is not necessarily the shortest
+ * Starting a game changes the shape globals (pack, point values, colors), so they are put back afterwards
+ * @param puzzle - Validated puzzle (see parsePuzzle)
+ * @param maxNodes - Placement budget
+ */
+export function solvePuzzle(puzzle: Puzzle, maxNodes: number = PUZZLE_CONFIG.solverMaxNodes): PuzzleSolution {
+    const previousPack = getActivePiecePack();
+    const previousPointValues = getShapePointValues();
+    const previousColors = getShapeColorScheme();
+    try {
+        const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(PUZZLE_CONFIG.seed) });
+        engine.startPuzzle(puzzle);
+        // Line goals only depend on the cells, so positions reached in a different order only need searching once;
+        // scores also depend on when each block was placed and cleared around, so score goals search every line
+        const visited = new Set<string>();
+        let nodes = 0;
+        let outOfBudget = false;
+
+        const search = (steps: TurnedMove[]): TurnedMove[] | null => {
+            const state = engine.getState();
+            if (puzzle.goal.type !== 'score') {
+                const key = `${engine.getBoard().getFilledBits().toString(36)}|${JSON.stringify(state.queue)}|` +
+                    `${state.puzzle?.handsDealt}|${state.rotationsUsed},${state.mirrorsUsed}`;
+                if (visited.has(key)) return null;
+                visited.add(key);
+            }
+            const checkpoint = engine.createCheckpoint();
+            const moves: TurnedMove[] = [
+                ...engine.getLegalMoves().map(move => ({ ...move, transforms: [] })),
+                ...engine.getTurnedMoves(),
+            ];
+            const ranks = new Map(moves.map(move => [move, rankMove(engine.getBoard(), state.queue, move, puzzle.goal)]));
+            moves.sort((a, b) => ranks.get(b)! - ranks.get(a)!);
+            for (const move of moves) {
+                if (nodes >= maxNodes) {
+                    outOfBudget = true;
+                    return null;
+                }
+                nodes++;
+                move.transforms.forEach(transform => engine.transform(move.queueIndex, transform));
+                engine.place(move.queueIndex, move.position);
+                const { gameOver, puzzle: progress } = engine.getState();
+                if (progress?.solved) {
+                    return [...steps, move];
+                }
+                const found = gameOver ? null : search([...steps, move]);
+                if (found) {
+                    return found;
+                }
+                engine.restoreCheckpoint(checkpoint);
+            }
+            return null;
+        };
+
+        const steps = search([]);
+        return { steps, nodes, exhaustive: !outOfBudget };
+    } finally {
+        setActivePiecePack(previousPack);
+        setShapePointValues(previousPointValues);
+        setShapeColorScheme(previousColors);
+    }
+}
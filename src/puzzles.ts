@@ -0,0 +1,314 @@
+/**
+ * Authored puzzles: a fixed starting board, a fixed sequence of hands and a goal, rated with stars
+ *
+ * Puzzle format:
+ * {
+ *   "id": "first-clear",
+ *   "name": "First Clear",
+ *   "board": ["........", "...#...."],
+ *   "blocks": [{ "piece": "I", "x": 0, "y": 7 }, { "piece": "L", "x": 4, "y": 0, "turns": 1, "mirror": true }, { "paint": "T", "x": 7, "y": 3 }],
+ *   "hands": [["Domino", { "piece": "T", "turns": 2 }], ["O"]],
+ *   "goal": { "type": "clearBoard" },
+ *   "stars": { "two": 3, "three": 2 },
+ *   "rotations": 2,
+ *   "mirrors": 0
+ * }
+ * - board: optional mask rows (see BOARD_MASK_CHARS); their count and length set the board size (plain 8x8 if omitted)
+ * - blocks: optional starting blocks; piece names come from the classic pack, turned by "turns" quarter turns
+ *   clockwise after an optional "mirror"; x and y place the piece's top-left corner. A "paint" block fills a single
+ *   cell, colored and scored like the named piece
+ * - hands: dealt in order, one to three pieces each (a name, or an object with piece, turns and mirror)
+ * - goal: { "type": "clearBoard" }, { "type": "linesAtOnce", "lines": 4 } (in one placement) or { "type": "score", "points": 500 }
+ * - stars: the most pieces placed that still earn two and three stars (any solve earns one)
+ * - rotations / mirrors: optional tokens for turning queued pieces (PUZZLE_CONFIG.rules if omitted)
+ * Puzzles run out when the last hand is played without meeting the goal, or when no piece fits
+ */
+
+import { Puzzle, PuzzleBlock, PuzzleGoal, PuzzleResult, LineClearResult, Shape, BoardSize, BoardMask } from './types';
+import { PUZZLE_CONFIG, BOARD_CONFIG, BOARD_MASK_CHARS, GAMEPLAY_CONFIG, STORAGE_KEYS } from './config';
+import { CLASSIC_PIECE_PACK } from './piecePacks';
+import { orientPiece } from './shapes';
+import { isValidBoardMask } from './board';
+import firstClearData from './puzzles/first-clear.json';
+import upsideDownData from './puzzles/upside-down.json';
+import fourCornersData from './puzzles/four-corners.json';
+import pillarsData from './puzzles/pillars.json';
+
+const DEFAULT_SIZE: BoardSize = { width: BOARD_CONFIG.cellCount, height: BOARD_CONFIG.cellCount };
+
+/**
+ * Reads a whole number of at least min from a puzzle field
+ * @throws Error naming the field if the value is not one
+ */
+function readCount(value: unknown, field: string, min: number): number {
+    if (!Number.isInteger(value) || (value as number) < min) {
+        throw new Error(`Puzzle ${field} must be a whole number of ${min} or more`);
+    }
+    return value as number;
+}
+
+/**
+ * Looks up a classic piece by name
+ * @param where - Describes the reference for error messages
+ * @returns The piece's index in the classic pack (its shape index)
+ * @throws Error if there is no piece with that name
+ */
+function findClassicPiece(name: unknown, where: string): number {
+    if (typeof name !== 'string') {
+        throw new Error(`${where} needs a piece name`);
+    }
+    const index = CLASSIC_PIECE_PACK.pieces.findIndex(candidate => candidate.name === name);
+    if (index < 0) {
+        throw new Error(`${where} uses an unknown piece "${name}"`);
+    }
+    return index;
+}
+
+/**
+ * Resolves a piece reference (a classic piece name, or { piece, turns, mirror }) to its cells
+ * @param where - Describes the reference for error messages
+ * @returns The turned cells and the piece's shape index
+ * @throws Error if the piece is unknown or the pack never deals it in that orientation
+ */
+function parsePieceRef(data: unknown, where: string): { shape: Shape; shapeIndex: number } {
+    const ref = (typeof data === 'string' ? { piece: data } : data) as Record<string, unknown> | null;
+    if (!ref || typeof ref !== 'object') {
+        throw new Error(`${where} needs a piece name`);
+    }
+    const shapeIndex = findClassicPiece(ref.piece, where);
+    const piece = CLASSIC_PIECE_PACK.pieces[shapeIndex];
+    const { turns = 0, mirror = false } = ref;
+    if (!Number.isInteger(turns) || (turns as number) < 0 || (turns as number) > 3) {
+        throw new Error(`${where} has invalid turns (expected 0 to 3)`);
+    }
+    if (typeof mirror !== 'boolean') {
+        throw new Error(`${where} has an invalid mirror flag (expected true or false)`);
+    }
+    const shape = orientPiece(piece, turns as number, mirror);
+    if (!shape) {
+        throw new Error(`${where} turns "${piece.name}" into an orientation it is never dealt in`);
+    }
+    return { shape, shapeIndex };
+}
+
+/**
+ * Validates the board mask rows and derives the board size from them
+ */
+function parseBoard(data: unknown): { boardSize: BoardSize; boardMask: BoardMask | null } {
+    if (data === undefined) {
+        return { boardSize: DEFAULT_SIZE, boardMask: null };
+    }
+    const rows = Array.isArray(data) ? data : [];
+    const boardSize = { width: typeof rows[0] === 'string' ? rows[0].length : 0, height: rows.length };
+    const inRange = (side: number) => side >= BOARD_CONFIG.minCellCount && side <= BOARD_CONFIG.maxCellCount;
+    if (!inRange(boardSize.width) || !inRange(boardSize.height) || !isValidBoardMask(rows, boardSize)) {
+        throw new Error(
+            `Puzzle board must be ${BOARD_CONFIG.minCellCount} to ${BOARD_CONFIG.maxCellCount} equal rows of mask characters`
+        );
+    }
+    const plain = rows.every(row => [...row].every(char => char === BOARD_MASK_CHARS.open));
+    return { boardSize, boardMask: plain ? null : [...rows] };
+}
+
+/**
+ * Validates the starting blocks (whole pieces or painted cells): each must lie on open cells without overlapping another,
+ * and they must leave every line open
+ */
+function parseBlocks(data: unknown, boardSize: BoardSize, boardMask: BoardMask | null): PuzzleBlock[] {
+    if (data === undefined) {
+        return [];
+    }
+    if (!Array.isArray(data)) {
+        throw new Error('Puzzle blocks must be a list');
+    }
+    const filled = new Set<string>();
+    const blocks = data.map((block, index) => {
+        const where = `Block ${index + 1}`;
+        const painted = block && typeof block === 'object' && 'paint' in block;
+        const { shape, shapeIndex } = painted
+            ? { shape: [{ x: 0, y: 0 }], shapeIndex: findClassicPiece(block.paint, where) }
+            : parsePieceRef(block, where);
+        if (!Number.isInteger(block.x) || !Number.isInteger(block.y)) {
+            throw new Error(`${where} needs integer x and y`);
+        }
+        for (const cell of shape) {
+            const x = block.x + cell.x;
+            const y = block.y + cell.y;
+            const open = x >= 0 && y >= 0 && x < boardSize.width && y < boardSize.height &&
+                (!boardMask || boardMask[y][x] === BOARD_MASK_CHARS.open);
+            if (!open) {
+                throw new Error(`${where} covers a cell that is off the board or not open`);
+            }
+            if (filled.has(`${x},${y}`)) {
+                throw new Error(`${where} overlaps another block`);
+            }
+            filled.add(`${x},${y}`);
+        }
+        return { shape, position: { x: block.x, y: block.y }, shapeIndex };
+    });
+    const isDone = (x: number, y: number) => filled.has(`${x},${y}`) || (!!boardMask && boardMask[y][x] !== BOARD_MASK_CHARS.open);
+    const rows = Array.from({ length: boardSize.height }, (_, y) => y);
+    const columns = Array.from({ length: boardSize.width }, (_, x) => x);
+    if (rows.some(y => columns.every(x => isDone(x, y))) || columns.some(x => rows.every(y => isDone(x, y)))) {
+        throw new Error('Puzzle blocks fill a whole row or column before the first move');
+    }
+    return blocks;
+}
+
+/**
+ * Validates the fixed hands
+ */
+function parseHands(data: unknown): Shape[][] {
+    if (!Array.isArray(data) || data.length === 0) {
+        throw new Error('A puzzle needs at least one hand');
+    }
+    return data.map((hand, index) => {
+        if (!Array.isArray(hand) || hand.length === 0 || hand.length > GAMEPLAY_CONFIG.shapesPerTurn) {
+            throw new Error(`Hand ${index + 1} must have 1 to ${GAMEPLAY_CONFIG.shapesPerTurn} pieces`);
+        }
+        return hand.map((piece, slot) => parsePieceRef(piece, `Hand ${index + 1} piece ${slot + 1}`).shape);
+    });
+}
+
+/**
+ * Validates the goal
+ */
+function parseGoal(data: unknown): PuzzleGoal {
+    const goal = (data ?? {}) as Record<string, unknown>;
+    switch (goal.type) {
+        case 'clearBoard':
+            return { type: 'clearBoard' };
+        case 'linesAtOnce':
+            return { type: 'linesAtOnce', lines: readCount(goal.lines, 'goal lines', 1) };
+        case 'score':
+            return { type: 'score', points: readCount(goal.points, 'goal points', 1) };
+        default:
+            throw new Error('Puzzle goal type must be clearBoard, linesAtOnce or score');
+    }
+}
+
+/**
+ * Validates a puzzle (usually parsed JSON) and resolves its pieces
+ * @param data - Untrusted puzzle data
+ * @returns The puzzle with pieces turned, the board size derived and defaults filled in
+ * @throws Error describing the first problem found
+ */
+export function parsePuzzle(data: unknown): Puzzle {
+    if (!data || typeof data !== 'object') {
+        throw new Error('A puzzle must be a JSON object');
+    }
+    const puzzle = data as Record<string, unknown>;
+    if (typeof puzzle.id !== 'string' || !puzzle.id.trim()) {
+        throw new Error('A puzzle needs an id');
+    }
+    if (typeof puzzle.name !== 'string' || !puzzle.name.trim()) {
+        throw new Error('A puzzle needs a name');
+    }
+    const { boardSize, boardMask } = parseBoard(puzzle.board);
+    const stars = (puzzle.stars ?? {}) as Record<string, unknown>;
+    const two = readCount(stars.two, 'stars.two', 1);
+    const three = readCount(stars.three, 'stars.three', 1);
+    if (three > two) {
+        throw new Error('Puzzle stars.three cannot allow more pieces than stars.two');
+    }
+    const { rules } = PUZZLE_CONFIG;
+    return {
+        id: puzzle.id.trim(),
+        name: puzzle.name.trim(),
+        boardSize,
+        boardMask,
+        blocks: parseBlocks(puzzle.blocks, boardSize, boardMask),
+        hands: parseHands(puzzle.hands),
+        goal: parseGoal(puzzle.goal),
+        stars: { two, three },
+        rules: {
+            ...rules,
+            rotationTokens: puzzle.rotations === undefined ? rules.rotationTokens : readCount(puzzle.rotations, 'rotations', 0),
+            mirrorTokens: puzzle.mirrors === undefined ? rules.mirrorTokens : readCount(puzzle.mirrors, 'mirrors', 0),
+        },
+    };
+}
+
+/**
+ * The built-in puzzles, easiest first
+ */
+export const PUZZLES: Puzzle[] = [firstClearData, upsideDownData, fourCornersData, pillarsData].map(parsePuzzle);
+
+/**
+ * Looks up a built-in puzzle
+ * @param id - Puzzle id
+ * @returns The puzzle, or null if there is none with that id
+ */
+export function getPuzzle(id: string): Puzzle | null {
+    return PUZZLES.find(puzzle => puzzle.id === id) ?? null;
+}
+
+/**
+ * Checks a clear against a puzzle's goal
+ * @param goal - The puzzle's goal
+ * @param clear - The clear that just happened
+ * @param score - Score after the clear
+ */
+export function isPuzzleGoalMet(goal: PuzzleGoal, clear: LineClearResult, score: number): boolean {
+    switch (goal.type) {
+        case 'clearBoard':
+            return clear.boardCleared;
+        case 'linesAtOnce':
+            return clear.linesCleared >= goal.lines;
+        case 'score':
+            return score >= goal.points;
+    }
+}
+
+/**
+ * Rates a finished attempt: one star for solving, more for solving with fewer pieces (see Puzzle.stars)
+ * @param puzzle - The puzzle played
+ * @param solved - Whether the goal was met
+ * @param piecesPlaced - Pieces placed in the attempt
+ * @returns 0 to 3 stars
+ */
+export function ratePuzzle(puzzle: Puzzle, solved: boolean, piecesPlaced: number): number {
+    if (!solved) {
+        return 0;
+    }
+    if (piecesPlaced <= puzzle.stars.three) {
+        return 3;
+    }
+    return piecesPlaced <= puzzle.stars.two ? 2 : 1;
+}
+
+/**
+ * Gets the best star rating earned on each puzzle
+ * @returns Stars by puzzle id (puzzles never solved are missing)
+ */
+export function getPuzzleProgress(): Record<string, number> {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS.puzzleProgress);
+        const parsed = stored ? JSON.parse(stored) : null;
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            return Object.fromEntries(Object.entries(parsed).filter(([, stars]) => Number.isInteger(stars))) as Record<string, number>;
+        }
+    } catch (e) {
+        console.warn('Failed to load puzzle progress from localStorage:', e);
+    }
+    return {};
+}
+
+/**
+ * Stores a finished attempt if it beats the puzzle's best rating
+ * @param result - The attempt
+ * @returns True if the attempt is the puzzle's new best
+ */
+export function recordPuzzleResult(result: PuzzleResult): boolean {
+    const progress = getPuzzleProgress();
+    if (result.stars <= (progress[result.puzzleId] ?? 0)) {
+        return false;
+    }
+    progress[result.puzzleId] = result.stars;
+    try {
+        localStorage.setItem(STORAGE_KEYS.puzzleProgress, JSON.stringify(progress));
+    } catch (e) {
+        console.warn('Failed to save puzzle progress to localStorage:', e);
+    }
+    return true;
+}
@@ -0,0 +1,88 @@
+/**
+ * Seeded random number generation so a game can be reproduced from its seed
+ */
+
+import { RandomSource } from './types';
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ * The whole generator state is a single 32-bit integer, so it can be captured
+ * and restored cheaply (e.g. for saved games and replays)
+ */
+export class SeededRandom {
+    private readonly seed: number;
+    private state: number;
+
+    /**
+     * Drop-in replacement for Math.random that draws from this generator
+     */
+    readonly source: RandomSource = () => this.next();
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Returns the next value in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Gets the seed this generator was created with
+     */
+    getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * Gets the current internal state (advances with every draw)
+     */
+    getState(): number {
+        return this.state;
+    }
+
+    /**
+     * Restores a state previously returned by getState()
+     * @param state - Internal generator state
+     */
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
+
+/**
+ * Creates a fresh, unpredictable 32-bit seed for a new game
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Picks a random integer in [0, maxExclusive)
+ * @param maxExclusive - Upper bound (exclusive)
+ * @param random - Random source to draw from
+ */
+export function randomInt(maxExclusive: number, random: RandomSource = Math.random): number {
+    return Math.floor(random() * maxExclusive);
+}
+
+/**
+ * Shuffles an array in place (Fisher-Yates)
+ * @param items - Array to shuffle
+ * @param random - Random source to draw from
+ * @returns The same array, shuffled
+ */
+export function shuffleInPlace<T>(items: T[], random: RandomSource = Math.random): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = randomInt(i + 1, random);
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+}
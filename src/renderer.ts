@@ -2,21 +2,25 @@
  * Canvas rendering system for drawing the game board, shapes, queue, and score
  */
 
-import { Position, Shape, PlacedBlock, DragState, AnimatingCell, GameSettings } from './types';
+import { Position, Shape, PlacedBlock, DragState, AnimatingCell, GameSettings, ReplayControl, ReplayStatus, BoardLayout, BoardSize, TransformTokens, MoveHint, PuzzleResult } from './types';
 import { Board } from './board';
 import { getShapeColor, getShapeIndex, getShapePointValue } from './shapes';
 import { getColorSet } from './colorConfig';
 import {
     BOARD_PIXEL_SIZE,
-    BOARD_CELL_COUNT,
-    CELL_SIZE,
+    DEFAULT_BOARD_SIZE,
+    getBoardLayout,
     CANVAS_WIDTH,
     CANVAS_HEIGHT,
     QUEUE_AREA_HEIGHT,
     QUEUE_AREA_PADDING,
     QUEUE_ITEM_HEIGHT,
     getQueueItemRect,
+    getHoldSlotRect,
     LIFT_OFFSET_PIXELS,
+    REPLAY_CONTROLS_HEIGHT,
+    REPLAY_CONTROL_ORDER,
+    getReplayControlRect,
 } from './constants';
 import { GAMEPLAY_CONFIG, ANIMATION_CONFIG } from './config';
 
@@ -32,11 +36,15 @@ export class Renderer {
     private finalScore: number = 0; // Final score when game ended
     private finalLinesCleared: number = 0; // Final lines cleared when game ended
     private finalLevel: number = 1; // Final level when game ended
+    private finalBoardSize: BoardSize = DEFAULT_BOARD_SIZE; // Board dimensions when game ended
+    private layout: BoardLayout = getBoardLayout(DEFAULT_BOARD_SIZE); // Where the board being rendered sits on the canvas
     private currentLevel: number = 1;
     private blockIconImage: HTMLImageElement | null = null;
     private blockIconLoaded: boolean = false;
     private copyLinkBounds: { x: number; y: number; width: number; height: number } | null = null; // Bounds for copy link click detection
     private copyLinkText: string = '📋 Copy'; // Current text for copy link
+    private replayControlsVisible: boolean = false; // Whether the replay control bar was drawn this frame
+    private replayControlHandler: ((control: ReplayControl) => void) | null = null;
 
     constructor(canvas: HTMLCanvasElement, settings: GameSettings) {
         this.canvas = canvas;
@@ -59,6 +67,9 @@ export class Renderer {
             const rect = this.canvas.getBoundingClientRect();
             const x = (e.clientX - rect.left) * (this.canvas.width / rect.width);
             const y = (e.clientY - rect.top) * (this.canvas.height / rect.height);
+            if (this.handleReplayControlAt(x, y)) {
+                return;
+            }
             if (this.isPointInCopyLink(x, y)) {
                 this.copyEmojiBoard().then(success => {
                     if (success) {
@@ -79,6 +90,10 @@ export class Renderer {
             const touch = e.changedTouches[0];
             const x = (touch.clientX - rect.left) * (this.canvas.width / rect.width);
             const y = (touch.clientY - rect.top) * (this.canvas.height / rect.height);
+            if (this.handleReplayControlAt(x, y)) {
+                e.preventDefault();
+                return;
+            }
             if (this.isPointInCopyLink(x, y)) {
                 e.preventDefault();
                 this.copyEmojiBoard().then(success => {
@@ -225,6 +240,7 @@ export class Renderer {
         this.finalScore = 0;
         this.finalLinesCleared = 0;
         this.finalLevel = 1;
+        this.finalBoardSize = DEFAULT_BOARD_SIZE;
         this.copyLinkBounds = null;
         this.copyLinkText = '📋 Copy'; // Reset copy link text
     }
@@ -241,10 +257,11 @@ export class Renderer {
     }
 
     /**
-     * Generates a 4x4 emoji representation of the final board state with 4 distinct colors
-     * Uses the convertTo4x4Grid logic to map 8x8 to 4x4
+     * Generates a 4x4 emoji picture of the final board state with 4 distinct colors, one line per row
+     * Uses the convertTo4x4Grid logic to map the board to 4x4
+     * @returns The picture, or an empty string if no game has ended
      */
-    generateEmojiBoard(): string {
+    generateEmojiGrid(): string {
         if (!this.finalBoardState || this.finalBoardState.length === 0) {
             return '';
         }
@@ -330,17 +347,30 @@ export class Renderer {
             }
         };
 
-        // Convert 4x4 grid to emoji string
-        let emojiString = '';
+        // Convert 4x4 grid to emoji rows
+        const rows: string[] = [];
         for (let r = 0; r < 4; r++) {
+            let row = '';
             for (let c = 0; c < 4; c++) {
                 const cell = grid4x4[r][c];
-                emojiString += getEmojiForFillCount(cell.fillCount);
+                row += getEmojiForFillCount(cell.fillCount);
             }
-            emojiString += '\n';
+            rows.push(row);
+        }
+        return rows.join('\n');
+    }
+
+    /**
+     * Generates the emoji board to copy: the 4x4 picture followed by the score, lines and level
+     */
+    generateEmojiBoard(): string {
+        const grid = this.generateEmojiGrid();
+        if (!grid) {
+            return '';
         }
 
         // Add score, lines, and level
+        let emojiString = `${grid}\n`;
         emojiString += `\nScore: ${this.finalScore.toLocaleString()}\n`;
         emojiString += `Lines: ${this.finalLinesCleared.toLocaleString()}\n`;
         emojiString += `Level: ${this.finalLevel}`;
@@ -379,9 +409,11 @@ export class Renderer {
     }
 
     /**
-     * Draws the 8x8 game grid
+     * Draws the game grid lines for the current board size
+     * On masked boards only cells that exist get an outline, so missing cells leave gaps
+     * @param board - The game board (for its mask)
      */
-    drawGrid(): void {
+    drawGrid(board: Board): void {
         // Get grid color from CSS variable (theme-aware)
         // Try multiple times to ensure we get the correct value on responsive designs
         let gridColor = this.getCSSVariable('--grid-color');
@@ -396,23 +428,55 @@ export class Renderer {
         this.ctx.strokeStyle = gridColor;
         this.ctx.lineWidth = 1;
 
+        const { width, height, cellSize, originX, originY } = this.layout;
+        const boardRight = originX + width * cellSize;
+        const boardBottom = originY + height * cellSize;
+
+        if (board.getMask()) {
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    if (board.getCellType({ x, y }) !== 'missing') {
+                        this.ctx.strokeRect(originX + x * cellSize, originY + y * cellSize, cellSize, cellSize);
+                    }
+                }
+            }
+            return;
+        }
+
         // Draw vertical lines
-        for (let x = 0; x <= 8; x++) {
+        for (let x = 0; x <= width; x++) {
             this.ctx.beginPath();
-            this.ctx.moveTo(x * CELL_SIZE, 0);
-            this.ctx.lineTo(x * CELL_SIZE, BOARD_PIXEL_SIZE);
+            this.ctx.moveTo(originX + x * cellSize, originY);
+            this.ctx.lineTo(originX + x * cellSize, boardBottom);
             this.ctx.stroke();
         }
 
         // Draw horizontal lines
-        for (let y = 0; y <= 8; y++) {
+        for (let y = 0; y <= height; y++) {
             this.ctx.beginPath();
-            this.ctx.moveTo(0, y * CELL_SIZE);
-            this.ctx.lineTo(BOARD_PIXEL_SIZE, y * CELL_SIZE);
+            this.ctx.moveTo(originX, originY + y * cellSize);
+            this.ctx.lineTo(boardRight, originY + y * cellSize);
             this.ctx.stroke();
         }
     }
 
+    /**
+     * Fills blocked cells so they read as part of the board that can't be played
+     * Drawn regardless of the grid setting
+     * @param board - The game board
+     */
+    private drawBlockedCells(board: Board): void {
+        const { width, height, cellSize, originX, originY } = this.layout;
+        this.ctx.fillStyle = this.getCSSVariable('--blocked-cell-color') || '#cbd5e1';
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (board.getCellType({ x, y }) === 'blocked') {
+                    this.ctx.fillRect(originX + x * cellSize + 1, originY + y * cellSize + 1, cellSize - 2, cellSize - 2);
+                }
+            }
+        }
+    }
+
     /**
      * Draws all placed blocks on the board
      * @param board - The game board (to check if cells are actually filled)
@@ -532,6 +596,7 @@ export class Renderer {
      * @param pointValue - Optional point value to display on each cell
      */
     drawShape(shape: Shape, position: Position, color: string, isGhost: boolean = false, pointValue?: number): void {
+        const { cellSize, originX, originY } = this.layout;
         if (isGhost) {
             // Ghost preview: draw with outline style for better visibility
             this.ctx.globalAlpha = 0.3; // More transparent than before
@@ -540,11 +605,11 @@ export class Renderer {
             this.ctx.setLineDash([4, 4]); // Dashed outline pattern
             
             for (const block of shape) {
-                const x = (position.x + block.x) * CELL_SIZE;
-                const y = (position.y + block.y) * CELL_SIZE;
+                const x = originX + (position.x + block.x) * cellSize;
+                const y = originY + (position.y + block.y) * cellSize;
                 const blockX = x + 2;
                 const blockY = y + 2;
-                const blockSize = CELL_SIZE - 4;
+                const blockSize = cellSize - 4;
 
                 // Draw filled block with low opacity
                 this.ctx.fillStyle = color;
@@ -561,11 +626,11 @@ export class Renderer {
             this.ctx.globalAlpha = 1.0;
 
             for (const block of shape) {
-                const x = (position.x + block.x) * CELL_SIZE;
-                const y = (position.y + block.y) * CELL_SIZE;
+                const x = originX + (position.x + block.x) * cellSize;
+                const y = originY + (position.y + block.y) * cellSize;
                 const blockX = x + 2;
                 const blockY = y + 2;
-                const blockSize = CELL_SIZE - 4;
+                const blockSize = cellSize - 4;
 
                 this.drawBlock(blockX, blockY, blockSize, color);
 
@@ -574,14 +639,14 @@ export class Renderer {
                     // Calculate center of the filled block (accounting for 2px padding)
                     const blockX = x + 2;
                     const blockY = y + 2;
-                    const blockSize = CELL_SIZE - 4;
+                    const blockSize = cellSize - 4;
                     const centerX = blockX + blockSize / 2;
                     const centerY = blockY + blockSize / 2;
                     
                     // Use a semi-transparent white for less contrast
                     this.ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
                     // Font size should be slightly smaller (about 65% of cell size)
-                    const fontSize = Math.floor(CELL_SIZE * 0.65);
+                    const fontSize = Math.floor(cellSize * 0.65);
                     this.ctx.font = `bold ${fontSize}px sans-serif`;
                     
                     // Set text alignment for perfect centering
@@ -716,6 +781,7 @@ export class Renderer {
         }
 
         this.ctx.save();
+        const { width, height, cellSize, originX, originY } = this.layout;
         
         // Use a more obvious pulsing highlight effect
         const pulseProgress = (Date.now() % 800) / 800;
@@ -737,7 +803,7 @@ export class Renderer {
         
         // Highlight individual cells in full rows
         for (const row of previewLines.rows) {
-            for (let x = 0; x < BOARD_CELL_COUNT; x++) {
+            for (let x = 0; x < width; x++) {
                 const key = `${x},${row}`;
                 const blockColor = cellColorMap.get(key);
                 
@@ -747,11 +813,11 @@ export class Renderer {
                     const highlightColor = colors.highlight;
                     const borderColor = colors.border;
                     
-                    const cellX = x * CELL_SIZE;
-                    const cellY = row * CELL_SIZE;
+                    const cellX = originX + x * cellSize;
+                    const cellY = originY + row * cellSize;
                     const blockX = cellX + 2;
                     const blockY = cellY + 2;
-                    const blockSize = CELL_SIZE - 4;
+                    const blockSize = cellSize - 4;
                     
                     // Use icon shape for highlight instead of rectangle
                     const iconScale = 1.1;
@@ -795,7 +861,7 @@ export class Renderer {
         
         // Highlight individual cells in full columns - only highlight filled blocks using icon shape
         for (const col of previewLines.columns) {
-            for (let y = 0; y < BOARD_CELL_COUNT; y++) {
+            for (let y = 0; y < height; y++) {
                 const key = `${col},${y}`;
                 const blockColor = cellColorMap.get(key);
                 
@@ -805,11 +871,11 @@ export class Renderer {
                     const highlightColor = colors.highlight;
                     const borderColor = colors.border;
                     
-                    const cellX = col * CELL_SIZE;
-                    const cellY = y * CELL_SIZE;
+                    const cellX = originX + col * cellSize;
+                    const cellY = originY + y * cellSize;
                     const blockX = cellX + 2;
                     const blockY = cellY + 2;
-                    const blockSize = CELL_SIZE - 4;
+                    const blockSize = cellSize - 4;
                     
                     // Use icon shape for highlight instead of rectangle
                     const iconScale = 1.1;
@@ -860,86 +926,176 @@ export class Renderer {
     /**
      * Draws the queue of upcoming shapes beneath the board
      * @param queue - Array of shapes in the queue
+     * @param holdEnabled - Whether to draw the hold slot at the right end of the strip
+     * @param heldShape - Shape in the hold slot, if any
+     * @param holdHighlighted - Whether a dragged shape is over the hold slot
+     * @param transformTokens - Rotations and mirrors left, shown above the queue when the mode allows them
+     * @param hintedQueueIndex - Queue slot of the piece a hint recommends, outlined
      */
-    drawQueue(queue: (Shape | null)[]): void {
+    drawQueue(
+        queue: (Shape | null)[],
+        holdEnabled: boolean = false,
+        heldShape: Shape | null = null,
+        holdHighlighted: boolean = false,
+        transformTokens: TransformTokens | null = null,
+        hintedQueueIndex: number | null = null
+    ): void {
         const queueAreaTop = BOARD_PIXEL_SIZE;
 
         // Get theme colors for queue area (re-read on each render to catch theme changes)
         const queueStripBg = this.getCSSVariable('--queue-strip-bg') || '#f5f5f5';
-        const queueShapeBorder = this.getCSSVariable('--queue-shape-border') || '#333333';
         const queuePointText = this.getCSSVariable('--queue-point-text') || '#999999';
 
         // Draw queue background strip with theme color
         this.ctx.fillStyle = queueStripBg;
         this.ctx.fillRect(0, queueAreaTop, CANVAS_WIDTH, QUEUE_AREA_HEIGHT);
 
-        // Target 70% of the playing surface block size, but clamp to fit slot with padding
-        const maxCellSize = CELL_SIZE * 0.7;
-
         // Always draw 3 fixed areas - shapes stay in their positions even when one is removed
         const QUEUE_SIZE = 3;
         for (let i = 0; i < QUEUE_SIZE; i++) {
             // Get the fixed rectangle for this queue slot (always uses QUEUE_SIZE = 3)
-            const rect = getQueueItemRect(i, QUEUE_SIZE);
-            
-            // Only draw if there's a shape at this index and it's valid
-            if (i < queue.length) {
-                const shape = queue[i];
-                if (!shape || shape.length === 0) {
-                    continue;
-                }
-                const shapeColor = getShapeColor(getShapeIndex(shape));
-
-                // Calculate shape dimensions
-                const minX = Math.min(...shape.map(b => b.x));
-                const maxX = Math.max(...shape.map(b => b.x));
-                const minY = Math.min(...shape.map(b => b.y));
-                const maxY = Math.max(...shape.map(b => b.y));
-                const shapeWidth = maxX - minX + 1;
-                const shapeHeight = maxY - minY + 1;
-
-                // Compute cell size constrained by slot with small padding
-                const padding = 4;
-                const availableWidth = rect.width - padding * 2;
-                const availableHeight = QUEUE_ITEM_HEIGHT - padding * 2;
-                const cellSize = Math.min(
-                    maxCellSize,
-                    availableWidth / shapeWidth,
-                    availableHeight / shapeHeight
-                );
-
-                // Center the shape in the fixed area using the uniform cell size
-                const totalShapeWidth = shapeWidth * cellSize;
-                const totalShapeHeight = shapeHeight * cellSize;
-                const offsetX = rect.x + (rect.width - totalShapeWidth) / 2 - minX * cellSize;
-                const offsetY = rect.y + (QUEUE_ITEM_HEIGHT - totalShapeHeight) / 2 - minY * cellSize;
-
-                // Draw each block in the shape
-                for (const block of shape) {
-                    const x = offsetX + block.x * cellSize;
-                    const y = offsetY + block.y * cellSize;
-                    const blockSize = cellSize; // Use uniform cell size for all blocks
-
-                    this.drawBlock(x, y, blockSize, shapeColor, queueShapeBorder);
-                }
+            const rect = getQueueItemRect(i, QUEUE_SIZE, holdEnabled);
 
-                // Draw point value in bottom right corner if setting is enabled
-                if (this.settings.showPointValues) {
-                    const shapeIndex = getShapeIndex(shape);
-                    // Note: Queue shows base point value, not level-adjusted
-                    const pointValue = getShapePointValue(shapeIndex, 0);
-                    this.ctx.fillStyle = queuePointText;
-                    this.ctx.font = '14px sans-serif';
-                    this.ctx.textAlign = 'right';
-                    this.ctx.textBaseline = 'bottom';
-                    this.ctx.fillText(
-                        pointValue.toString(),
-                        rect.x + rect.width - 6,
-                        rect.y + QUEUE_ITEM_HEIGHT - 6
-                    );
+            // Only draw if there's a shape at this index and it's valid
+            // If no shape at this index, the area remains empty but still occupies its fixed position
+            const shape = i < queue.length ? queue[i] : null;
+            if (shape && shape.length > 0) {
+                this.drawQueueShape(shape, rect);
+                if (i === hintedQueueIndex) {
+                    this.drawHintedSlot(rect);
                 }
             }
-            // If no shape at this index, the area remains empty but still occupies its fixed position
+        }
+
+        if (transformTokens) {
+            this.drawTransformTokens(transformTokens, queuePointText);
+        }
+
+        if (!holdEnabled) return;
+
+        // Hold slot: labelled outline, filled in while a dragged shape is over it
+        const holdRect = getHoldSlotRect();
+        const accentColor = this.getCSSVariable('--accent-color') || '#2563eb';
+        this.ctx.save();
+        if (holdHighlighted) {
+            this.ctx.globalAlpha = 0.15;
+            this.ctx.fillStyle = accentColor;
+            this.ctx.fillRect(holdRect.x, holdRect.y, holdRect.width, holdRect.height);
+            this.ctx.globalAlpha = 1;
+        }
+        this.ctx.strokeStyle = holdHighlighted ? accentColor : queuePointText;
+        this.ctx.lineWidth = 2;
+        this.ctx.setLineDash([6, 4]);
+        this.ctx.strokeRect(holdRect.x + 1, holdRect.y + 1, holdRect.width - 2, holdRect.height - 2);
+        this.ctx.restore();
+
+        this.ctx.fillStyle = queuePointText;
+        this.ctx.font = '12px sans-serif';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'bottom';
+        this.ctx.fillText('HOLD', holdRect.x + holdRect.width / 2, holdRect.y - 4);
+
+        if (heldShape && heldShape.length > 0) {
+            this.drawQueueShape(heldShape, holdRect);
+        }
+    }
+
+    /**
+     * Outlines the queue slot of the piece a hint recommends
+     * @param rect - Slot rectangle
+     */
+    private drawHintedSlot(rect: { x: number; y: number; width: number; height: number }): void {
+        this.ctx.save();
+        this.ctx.strokeStyle = this.getCSSVariable('--accent-color') || '#2563eb';
+        this.ctx.lineWidth = 3;
+        this.ctx.setLineDash([6, 4]);
+        this.ctx.strokeRect(rect.x + 2, rect.y + 2, rect.width - 4, rect.height - 4);
+        this.ctx.restore();
+    }
+
+    /**
+     * Draws the rotations and mirrors left above the first queue card (modes without them show nothing)
+     * @param tokens - Tokens left this game
+     * @param color - Text color
+     */
+    private drawTransformTokens(tokens: TransformTokens, color: string): void {
+        const labels: string[] = [];
+        if (tokens.rotationsRemaining !== 0) {
+            labels.push(`ROTATE ${tokens.rotationsRemaining ?? '∞'}`);
+        }
+        if (tokens.mirrorsRemaining !== 0) {
+            labels.push(`MIRROR ${tokens.mirrorsRemaining ?? '∞'}`);
+        }
+        if (labels.length === 0) return;
+
+        const rect = getQueueItemRect(0);
+        this.ctx.fillStyle = color;
+        this.ctx.font = '12px sans-serif';
+        this.ctx.textAlign = 'left';
+        this.ctx.textBaseline = 'bottom';
+        this.ctx.fillText(labels.join(' · '), rect.x + 6, rect.y - 4);
+    }
+
+    /**
+     * Draws one shape centered in a queue or hold slot, with its point value if enabled
+     * @param shape - Shape to draw
+     * @param rect - Slot rectangle
+     */
+    private drawQueueShape(shape: Shape, rect: { x: number; y: number; width: number; height: number }): void {
+        const queueShapeBorder = this.getCSSVariable('--queue-shape-border') || '#333333';
+        const queuePointText = this.getCSSVariable('--queue-point-text') || '#999999';
+        const shapeColor = getShapeColor(getShapeIndex(shape));
+
+        // Target 70% of the playing surface block size, but clamp to fit slot with padding
+        const maxCellSize = this.layout.cellSize * 0.7;
+
+        // Calculate shape dimensions
+        const minX = Math.min(...shape.map(b => b.x));
+        const maxX = Math.max(...shape.map(b => b.x));
+        const minY = Math.min(...shape.map(b => b.y));
+        const maxY = Math.max(...shape.map(b => b.y));
+        const shapeWidth = maxX - minX + 1;
+        const shapeHeight = maxY - minY + 1;
+
+        // Compute cell size constrained by slot with small padding
+        const padding = 4;
+        const availableWidth = rect.width - padding * 2;
+        const availableHeight = QUEUE_ITEM_HEIGHT - padding * 2;
+        const cellSize = Math.min(
+            maxCellSize,
+            availableWidth / shapeWidth,
+            availableHeight / shapeHeight
+        );
+
+        // Center the shape in the fixed area using the uniform cell size
+        const totalShapeWidth = shapeWidth * cellSize;
+        const totalShapeHeight = shapeHeight * cellSize;
+        const offsetX = rect.x + (rect.width - totalShapeWidth) / 2 - minX * cellSize;
+        const offsetY = rect.y + (QUEUE_ITEM_HEIGHT - totalShapeHeight) / 2 - minY * cellSize;
+
+        // Draw each block in the shape
+        for (const block of shape) {
+            const x = offsetX + block.x * cellSize;
+            const y = offsetY + block.y * cellSize;
+            const blockSize = cellSize; // Use uniform cell size for all blocks
+
+            this.drawBlock(x, y, blockSize, shapeColor, queueShapeBorder);
+        }
+
+        // Draw point value in bottom right corner if setting is enabled
+        if (this.settings.showPointValues) {
+            const shapeIndex = getShapeIndex(shape);
+            // Note: Queue shows base point value, not level-adjusted
+            const pointValue = getShapePointValue(shapeIndex, 0);
+            this.ctx.fillStyle = queuePointText;
+            this.ctx.font = '14px sans-serif';
+            this.ctx.textAlign = 'right';
+            this.ctx.textBaseline = 'bottom';
+            this.ctx.fillText(
+                pointValue.toString(),
+                rect.x + rect.width - 6,
+                rect.y + QUEUE_ITEM_HEIGHT - 6
+            );
         }
     }
 
@@ -971,8 +1127,9 @@ export class Renderer {
         const minY = Math.min(...dragState.shape.map(b => b.y));
         const maxX = Math.max(...dragState.shape.map(b => b.x));
         const maxY = Math.max(...dragState.shape.map(b => b.y));
-        const shapeWidth = (maxX - minX + 1) * CELL_SIZE;
-        const shapeHeight = (maxY - minY + 1) * CELL_SIZE;
+        const { cellSize } = this.layout;
+        const shapeWidth = (maxX - minX + 1) * cellSize;
+        const shapeHeight = (maxY - minY + 1) * cellSize;
         
         // Center the shape
         this.ctx.translate(-shapeWidth / 2, -shapeHeight / 2);
@@ -982,11 +1139,11 @@ export class Renderer {
         const drawColor = (dragState.hasBoardPosition && !dragState.isValidPosition) ? '#ff0000' : color;
         this.ctx.globalAlpha = 0.7;
         for (const block of dragState.shape) {
-            const x = block.x * CELL_SIZE;
-            const y = block.y * CELL_SIZE;
+            const x = block.x * cellSize;
+            const y = block.y * cellSize;
             const blockX = x + 2;
             const blockY = y + 2;
-            const blockSize = CELL_SIZE - 4;
+            const blockSize = cellSize - 4;
             this.drawBlock(blockX, blockY, blockSize, drawColor);
         }
         
@@ -999,8 +1156,9 @@ export class Renderer {
      * @param cell - The animating cell to draw
      */
     drawAnimatingCell(cell: AnimatingCell): void {
-        const x = cell.x * CELL_SIZE;
-        const y = cell.y * CELL_SIZE;
+        const { cellSize, originX, originY } = this.layout;
+        const x = originX + cell.x * cellSize;
+        const y = originY + cell.y * cellSize;
         const isExplosion = cell.type === 'explosion';
         
         if (isExplosion) {
@@ -1008,11 +1166,11 @@ export class Renderer {
             const alpha = 1 - cell.progress;
             const scale = 1 + cell.progress * 2; // Expand from 1x to 3x size
             
-            const centerX = x + CELL_SIZE / 2;
-            const centerY = y + CELL_SIZE / 2;
-            const size = (CELL_SIZE - 4) * scale;
-            const offsetX = (CELL_SIZE - 4 - size) / 2;
-            const offsetY = (CELL_SIZE - 4 - size) / 2;
+            const centerX = x + cellSize / 2;
+            const centerY = y + cellSize / 2;
+            const size = (cellSize - 4) * scale;
+            const offsetX = (cellSize - 4 - size) / 2;
+            const offsetY = (cellSize - 4 - size) / 2;
             
             this.ctx.save();
             this.ctx.globalAlpha = alpha * 0.8; // Slightly transparent
@@ -1027,10 +1185,10 @@ export class Renderer {
             const particleCount = 8;
             for (let i = 0; i < particleCount; i++) {
                 const angle = (i / particleCount) * Math.PI * 2;
-                const distance = cell.progress * CELL_SIZE * 1.5;
+                const distance = cell.progress * cellSize * 1.5;
                 const particleX = centerX + Math.cos(angle) * distance;
                 const particleY = centerY + Math.sin(angle) * distance;
-                const particleSize = (CELL_SIZE - 4) * 0.3 * (1 - cell.progress);
+                const particleSize = (cellSize - 4) * 0.3 * (1 - cell.progress);
                 
                 this.ctx.fillStyle = cell.color;
                 this.ctx.beginPath();
@@ -1054,9 +1212,10 @@ export class Renderer {
      * @param animIndex - Animation index (0-16)
      */
     private drawClearAnimation(cell: AnimatingCell, x: number, y: number, animIndex: number): void {
-        const centerX = x + CELL_SIZE / 2;
-        const centerY = y + CELL_SIZE / 2;
-        const baseSize = CELL_SIZE - 4;
+        const { cellSize } = this.layout;
+        const centerX = x + cellSize / 2;
+        const centerY = y + cellSize / 2;
+        const baseSize = cellSize - 4;
         const progress = cell.progress;
         
         this.ctx.save();
@@ -1112,7 +1271,7 @@ export class Renderer {
                 
             case 3: // Slide up and fade
                 const alpha3 = 1 - progress;
-                const slideY3 = -progress * CELL_SIZE;
+                const slideY3 = -progress * cellSize;
                 this.ctx.globalAlpha = alpha3;
                 this.ctx.fillStyle = cell.color;
                 this.ctx.beginPath();
@@ -1229,7 +1388,7 @@ export class Renderer {
             case 10: { // Spiral out
                 const alpha = 1 - progress;
                 const rotation = progress * Math.PI * 3;
-                const distance = progress * CELL_SIZE * 0.5;
+                const distance = progress * cellSize * 0.5;
                 const scale = 1 - progress * 0.6;
                 const size = baseSize * scale;
                 this.ctx.globalAlpha = alpha;
@@ -1268,7 +1427,7 @@ export class Renderer {
                 
             case 12: { // Bounce out
                 const alpha = 1 - progress;
-                const bounce = Math.sin(progress * Math.PI) * (1 - progress) * CELL_SIZE * 0.3;
+                const bounce = Math.sin(progress * Math.PI) * (1 - progress) * cellSize * 0.3;
                 const scale = 1 - progress * 0.4;
                 const size = baseSize * scale;
                 const offset = (baseSize - size) / 2;
@@ -1309,7 +1468,7 @@ export class Renderer {
             case 14: { // Rotate and explode outward
                 const alpha = 1 - progress;
                 const rotation = progress * Math.PI * 4;
-                const explode = progress * CELL_SIZE * 0.8;
+                const explode = progress * cellSize * 0.8;
                 const scale = 1 - progress * 0.5;
                 const size = baseSize * scale;
                 this.ctx.globalAlpha = alpha;
@@ -1371,8 +1530,22 @@ export class Renderer {
     }
 
     /**
-     * Converts 8x8 board state to 4x4 grid representation
-     * Each 4x4 cell represents a 2x2 block from the original board
+     * Gets the board rows or columns summarised by one cell of the 4x4 game over grid
+     * On the 8x8 board each summary cell covers 2 cells; other sizes are split as evenly as possible
+     * @param index - Summary row or column (0-3)
+     * @param boardCells - Number of board rows or columns
+     * @returns Start (inclusive) and end (exclusive) board index
+     */
+    private getSummaryRange(index: number, boardCells: number): { start: number; end: number } {
+        return {
+            start: Math.floor(index * boardCells / 4),
+            end: Math.floor((index + 1) * boardCells / 4),
+        };
+    }
+
+    /**
+     * Converts the final board state to a 4x4 grid representation
+     * Each 4x4 cell represents an area of the original board (2x2 on the 8x8 board)
      * @returns 4x4 grid with color, darkness, and fill count (0-4) information
      */
     private convertTo4x4Grid(): Array<Array<{ color: string; darkness: number; fillCount: number }>> {
@@ -1380,19 +1553,20 @@ export class Renderer {
             return Array(4).fill(null).map(() => Array(4).fill({ color: '#ffffff', darkness: 1.0, fillCount: 0 }));
         }
 
-        // Create an 8x8 boolean grid to track filled cells
-        const grid8x8: Array<Array<{ filled: boolean; color: string }>> = Array(BOARD_CELL_COUNT)
+        // Create a board-sized grid to track filled cells
+        const { width, height } = this.finalBoardSize;
+        const boardGrid: Array<Array<{ filled: boolean; color: string }>> = Array(height)
             .fill(null)
-            .map(() => Array(BOARD_CELL_COUNT).fill({ filled: false, color: '#ffffff' }));
+            .map(() => Array(width).fill({ filled: false, color: '#ffffff' }));
 
-        // Fill the 8x8 grid with blocks from final board state
+        // Fill the board grid with blocks from final board state
         // Use original color (before darkness) - we'll apply darkness based on fill count
         for (const block of this.finalBoardState) {
             for (const cell of block.shape) {
                 const x = block.position.x + cell.x;
                 const y = block.position.y + cell.y;
-                if (x >= 0 && x < BOARD_CELL_COUNT && y >= 0 && y < BOARD_CELL_COUNT) {
-                    grid8x8[y][x] = { filled: true, color: block.color };
+                if (x >= 0 && x < width && y >= 0 && y < height) {
+                    boardGrid[y][x] = { filled: true, color: block.color };
                 }
             }
         }
@@ -1404,25 +1578,26 @@ export class Renderer {
 
         for (let r = 0; r < 4; r++) {
             for (let c = 0; c < 4; c++) {
-                // Top-left corner of 2x2 block in 8x8 grid
-                const startY = r * 2;
-                const startX = c * 2;
+                // Board area covered by this summary cell
+                const rows = this.getSummaryRange(r, height);
+                const columns = this.getSummaryRange(c, width);
+                const areaCells = (rows.end - rows.start) * (columns.end - columns.start);
 
-                // Count filled cells in this 2x2 block
-                let filledCount = 0;
+                // Count filled cells in this area
+                let filledCells = 0;
                 let representativeColor = '#ffffff';
                 const colorsInBlock: string[] = [];
 
-                for (let dy = 0; dy < 2; dy++) {
-                    for (let dx = 0; dx < 2; dx++) {
-                        const y = startY + dy;
-                        const x = startX + dx;
-                        if (grid8x8[y][x].filled) {
-                            filledCount++;
-                            colorsInBlock.push(grid8x8[y][x].color);
+                for (let y = rows.start; y < rows.end; y++) {
+                    for (let x = columns.start; x < columns.end; x++) {
+                        if (boardGrid[y][x].filled) {
+                            filledCells++;
+                            colorsInBlock.push(boardGrid[y][x].color);
                         }
                     }
                 }
+                // Scale to the 0-4 range of a 2x2 area so every board size shades the same way
+                const filledCount = areaCells > 0 ? Math.round(filledCells / areaCells * 4) : 0;
 
                 // Determine darkness based on fill count
                 // 0 = light (1.0), 1 = mid (0.7), 2 = dark (0.5), 3+ = darkest (0.3)
@@ -1495,8 +1670,9 @@ export class Renderer {
      * Draws game over overlay with animation
      * @param progress - Animation progress from 0 to 1
      * @param placedBlocks - Final board state to render as 4x4 grid
+     * @param puzzleResult - How the puzzle ended, shown in place of "GAME OVER" (null outside puzzles)
      */
-    drawGameOver(progress: number = 1, placedBlocks: PlacedBlock[] = []): void {
+    drawGameOver(progress: number = 1, placedBlocks: PlacedBlock[] = [], puzzleResult: PuzzleResult | null = null): void {
         // Animated overlay - fade in from 0 to 0.8 opacity
         const overlayAlpha = 0.8 * progress;
         this.ctx.fillStyle = `rgba(0, 0, 0, ${overlayAlpha})`;
@@ -1569,9 +1745,13 @@ export class Renderer {
         this.ctx.textBaseline = 'middle';
         
         // Add text shadow for glow
-        this.ctx.shadowColor = '#ff6b6b';
+        this.ctx.shadowColor = puzzleResult?.solved ? '#4ECDC4' : '#ff6b6b';
         this.ctx.shadowBlur = 20;
-        this.ctx.fillText('GAME OVER', BOARD_PIXEL_SIZE / 2, 80);
+        // A solved puzzle shows its stars out of three
+        const title = !puzzleResult ? 'GAME OVER'
+            : puzzleResult.solved ? `SOLVED ${'★'.repeat(puzzleResult.stars)}${'☆'.repeat(3 - puzzleResult.stars)}`
+            : 'NOT SOLVED';
+        this.ctx.fillText(title, BOARD_PIXEL_SIZE / 2, 80);
         
         // Reset shadow
         this.ctx.shadowBlur = 0;
@@ -1586,7 +1766,7 @@ export class Renderer {
         this.ctx.textAlign = 'center';
         this.ctx.textBaseline = 'middle';
         this.ctx.fillText(
-            'Use the Restart button to play again',
+            puzzleResult ? 'Use the Restart button to try again' : 'Use the Restart button to play again',
             BOARD_PIXEL_SIZE / 2,
             BOARD_PIXEL_SIZE - 50
         );
@@ -1595,8 +1775,8 @@ export class Renderer {
 
     /**
      * Draws a 4x4 grid representing the final board state
-     * Each cell in the 4x4 represents a 2x2 area on the 8x8 board
-     * Uses the darkest color from each 2x2 area
+     * Each cell in the 4x4 represents an area of the board (2x2 on the 8x8 board)
+     * Uses the darkest color from each area
      * @param placedBlocks - Final board state
      * @param progress - Animation progress for fade-in
      */
@@ -1652,18 +1832,16 @@ export class Renderer {
         // Draw 4x4 grid
         for (let gridYIdx = 0; gridYIdx < 4; gridYIdx++) {
             for (let gridXIdx = 0; gridXIdx < 4; gridXIdx++) {
-                // Each 4x4 cell represents a 2x2 area on the 8x8 board
-                const boardStartX = gridXIdx * 2;
-                const boardStartY = gridYIdx * 2;
+                // Each 4x4 cell represents an area of the board (2x2 on the 8x8 board)
+                const rows = this.getSummaryRange(gridYIdx, this.finalBoardSize.height);
+                const columns = this.getSummaryRange(gridXIdx, this.finalBoardSize.width);
                 
-                // Find the darkest color in this 2x2 area
+                // Find the darkest color in this area
                 let darkestColor: string | null = null;
                 let darkestBrightness = 255;
                 
-                for (let by = 0; by < 2; by++) {
-                    for (let bx = 0; bx < 2; bx++) {
-                        const boardX = boardStartX + bx;
-                        const boardY = boardStartY + by;
+                for (let boardY = rows.start; boardY < rows.end; boardY++) {
+                    for (let boardX = columns.start; boardX < columns.end; boardX++) {
                         const key = `${boardX},${boardY}`;
                         const cellColor = cellMap.get(key);
                         
@@ -1767,6 +1945,167 @@ export class Renderer {
         this.ctx.restore();
     }
 
+    /**
+     * Draws an achievement toast sliding down over the top of the board
+     * @param name - Achievement name
+     * @param description - What unlocked it
+     * @param progress - Animation progress (0 to 1): slides in, holds, then slides back out
+     */
+    drawAchievementToast(name: string, description: string, progress: number): void {
+        const slide = Math.min(progress / 0.1, (1 - progress) / 0.1, 1);
+        const width = BOARD_PIXEL_SIZE * 0.8;
+        const height = 64;
+        const x = (BOARD_PIXEL_SIZE - width) / 2;
+        const y = 12 - (1 - slide) * (height + 12);
+
+        this.ctx.save();
+        this.ctx.globalAlpha = slide;
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+        this.ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+        this.ctx.shadowBlur = 12;
+        this.ctx.beginPath();
+        this.ctx.roundRect(x, y, width, height, 12);
+        this.ctx.fill();
+        this.ctx.shadowBlur = 0;
+        this.ctx.strokeStyle = this.getCSSVariable('--accent-color') || '#4ECDC4';
+        this.ctx.lineWidth = 2;
+        this.ctx.stroke();
+
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.font = 'bold 20px sans-serif';
+        this.ctx.fillText(`🏆 ${name}`, BOARD_PIXEL_SIZE / 2, y + 22, width - 24);
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+        this.ctx.font = '14px sans-serif';
+        this.ctx.fillText(description, BOARD_PIXEL_SIZE / 2, y + 46, width - 24);
+        this.ctx.restore();
+    }
+
+    /**
+     * Sets the callback for clicks on the replay control bar
+     * @param handler - Called with the control that was clicked
+     */
+    setReplayControlHandler(handler: (control: ReplayControl) => void): void {
+        this.replayControlHandler = handler;
+    }
+
+    /**
+     * Runs the replay control handler if the point hits a control drawn this frame
+     * @returns True if a control was hit
+     */
+    private handleReplayControlAt(x: number, y: number): boolean {
+        if (!this.replayControlsVisible || !this.replayControlHandler) {
+            return false;
+        }
+        const index = REPLAY_CONTROL_ORDER.findIndex((_, i) => {
+            const rect = getReplayControlRect(i);
+            return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+        });
+        if (index < 0) {
+            return false;
+        }
+        this.replayControlHandler(REPLAY_CONTROL_ORDER[index]);
+        return true;
+    }
+
+    /**
+     * Draws developer readouts in the top-left corner of the board (see the dev overlay setting)
+     * @param lines - Text lines, top to bottom
+     */
+    drawDevOverlay(lines: string[]): void {
+        const { originX, originY } = this.layout;
+        const lineHeight = 16;
+        this.ctx.save();
+        this.ctx.font = '12px monospace';
+        const width = Math.max(...lines.map(line => this.ctx.measureText(line).width)) + 12;
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        this.ctx.fillRect(originX + 4, originY + 4, width, lines.length * lineHeight + 8);
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.textAlign = 'left';
+        this.ctx.textBaseline = 'top';
+        lines.forEach((line, index) => this.ctx.fillText(line, originX + 10, originY + 8 + index * lineHeight));
+        this.ctx.restore();
+    }
+
+    /**
+     * Draws the replay control bar (play/pause, step, speed, exit) and move counter under the queue
+     * @param status - Current playback status
+     * @param score - Score of the replayed game at the current move
+     */
+    drawReplayControls(status: ReplayStatus, score: number): void {
+        const barTop = CANVAS_HEIGHT - REPLAY_CONTROLS_HEIGHT;
+        const finished = status.moveIndex >= status.totalMoves;
+        const labels: Record<ReplayControl, string> = {
+            playPause: finished ? '⟲ Restart' : status.playing ? '❚❚ Pause' : '▶ Play',
+            step: 'Step ▸',
+            speed: `${status.speed}x`,
+            exit: '✕ Exit',
+        };
+
+        this.ctx.save();
+        this.ctx.fillStyle = this.getCSSVariable('--queue-strip-bg') || '#f5f5f5';
+        this.ctx.fillRect(0, barTop, CANVAS_WIDTH, REPLAY_CONTROLS_HEIGHT);
+
+        this.ctx.font = 'bold 14px sans-serif';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        REPLAY_CONTROL_ORDER.forEach((control, index) => {
+            const rect = getReplayControlRect(index);
+            const disabled = control === 'step' && finished;
+            this.ctx.globalAlpha = disabled ? 0.4 : 1;
+            this.ctx.fillStyle = this.getCSSVariable('--accent-color') || '#2563eb';
+            this.ctx.beginPath();
+            this.ctx.roundRect(rect.x, rect.y, rect.width, rect.height, 6);
+            this.ctx.fill();
+            this.ctx.fillStyle = this.getCSSVariable('--accent-color-contrast') || '#ffffff';
+            this.ctx.fillText(labels[control], rect.x + rect.width / 2, rect.y + rect.height / 2);
+        });
+        this.ctx.globalAlpha = 1;
+
+        // Move counter and score on the right
+        this.ctx.fillStyle = this.getCSSVariable('--queue-point-text') || '#999999';
+        this.ctx.font = '14px sans-serif';
+        this.ctx.textAlign = 'right';
+        this.ctx.fillText(
+            `Move ${status.moveIndex}/${status.totalMoves} · ${score.toLocaleString('en-US')}`,
+            CANVAS_WIDTH - QUEUE_AREA_PADDING,
+            barTop + REPLAY_CONTROLS_HEIGHT / 2
+        );
+        this.ctx.restore();
+
+        this.replayControlsVisible = true;
+    }
+
+    /**
+     * Draws the puzzle editor: the board being designed and one of its hands in the queue strip
+     * @param board - Board with the puzzle's mask and pre-placed blocks filled in
+     * @param placedBlocks - Pre-placed blocks
+     * @param hand - Pieces of the hand shown, by queue slot (null for empty slots)
+     * @param handLabel - Which hand is shown, drawn above the first queue card
+     */
+    renderEditor(board: Board, placedBlocks: PlacedBlock[], hand: (Shape | null)[], handLabel: string): void {
+        this.replayControlsVisible = false;
+        this.layout = getBoardLayout(board.getDimensions());
+        this.clear();
+        this.drawGrid(board);
+        this.drawBlockedCells(board);
+        this.drawBoard(board, placedBlocks);
+        this.drawQueue(hand);
+
+        // Outline the slot the next piece added goes into
+        const freeSlot = hand.indexOf(null);
+        if (freeSlot >= 0) {
+            this.drawHintedSlot(getQueueItemRect(freeSlot));
+        }
+        const rect = getQueueItemRect(0);
+        this.ctx.fillStyle = this.getCSSVariable('--queue-point-text') || '#999999';
+        this.ctx.font = '12px sans-serif';
+        this.ctx.textAlign = 'left';
+        this.ctx.textBaseline = 'bottom';
+        this.ctx.fillText(handLabel, rect.x + 6, rect.y - 4);
+    }
+
     /**
      * Main render method that draws everything
      * @param board - The game board
@@ -1779,6 +2118,13 @@ export class Renderer {
      * @param totalShapesPlaced - Total shapes placed (for calculating current point values)
      * @param levelUpProgress - Animation progress for level up text (0 to 1, 0 = not showing)
      * @param level - Current game level (for calculating contrasting highlight color)
+     * @param score - Current score (kept for copying the final board)
+     * @param linesCleared - Lines cleared so far (kept for copying the final board)
+     * @param holdEnabled - Whether the hold slot is shown
+     * @param heldShape - Shape in the hold slot, if any
+     * @param transformTokens - Rotations and mirrors left this game
+     * @param hint - Move hint to show: the piece's target as a ghost, the lines it clears and its queue slot
+     * @param puzzleResult - How the puzzle ended, for the game over overlay (null outside puzzles)
      */
     render(
         board: Board,
@@ -1792,15 +2138,32 @@ export class Renderer {
         levelUpProgress: number = 0,
         level: number = 1,
         score: number = 0,
-        linesCleared: number = 0
+        linesCleared: number = 0,
+        holdEnabled: boolean = false,
+        heldShape: Shape | null = null,
+        transformTokens: TransformTokens | null = null,
+        hint: MoveHint | null = null,
+        puzzleResult: PuzzleResult | null = null
     ): void {
         // Update current level for highlight color calculation
         this.currentLevel = level;
+        // The replay bar is only clickable on frames where it is drawn
+        this.replayControlsVisible = false;
+        this.layout = getBoardLayout(board.getDimensions());
         this.clear();
         if (this.settings.showGrid) {
-            this.drawGrid();
+            this.drawGrid(board);
         }
+        this.drawBlockedCells(board);
         this.drawBoard(board, placedBlocks, animatingCells, totalShapesPlaced);
+
+        // Hinted placement uses the same ghost and line highlight as a drag; a drag's own preview takes over the highlight
+        if (hint && !gameOver) {
+            this.drawShape(hint.shape, hint.position, getShapeColor(getShapeIndex(hint.shape)), true);
+            if (!(dragState.isDragging && dragState.previewLinesCleared)) {
+                this.drawPreviewLineHighlights(hint.lines, placedBlocks);
+            }
+        }
         
         // Draw grid ghost preview if dragging (shows where piece would land on grid)
         // This must be based on effectivePosition (lifted piece), not raw mouse position
@@ -1816,7 +2179,7 @@ export class Renderer {
             this.drawPreviewLineHighlights(dragState.previewLinesCleared, placedBlocks);
         }
         
-        this.drawQueue(queue);
+        this.drawQueue(queue, holdEnabled, heldShape, !!dragState.isOverHoldSlot, transformTokens, hint?.queueIndex ?? null);
         if (this.settings.showGhostPreview) {
             this.drawDragPreview(dragState);
         }
@@ -1836,10 +2199,11 @@ export class Renderer {
             this.finalScore = score;
             this.finalLinesCleared = linesCleared;
             this.finalLevel = level;
+            this.finalBoardSize = board.getDimensions();
         }
 
         if (gameOver) {
-            this.drawGameOver(gameOverProgress, placedBlocks);
+            this.drawGameOver(gameOverProgress, placedBlocks, puzzleResult);
         }
         
         if (levelUpProgress > 0 && levelUpProgress < 1) {
@@ -0,0 +1,216 @@
+/**
+ * Replay playback and storage
+ * A replay is the game's seed, mode and ordered moves; feeding the moves to a fresh engine
+ * with the same seed reproduces the game exactly
+ */
+
+import { GameReplay, GameMode, ReplayMove } from './types';
+import { GameEngine, MoveResult } from './engine';
+import { SeededRandom } from './random';
+import { STORAGE_KEYS, REPLAY_CONFIG, MODE_RULES } from './config';
+import { DEFAULT_BOARD_SIZE } from './constants';
+import { isValidBoardSize, isValidBoardMask } from './board';
+import { isValidPiecePack } from './piecePacks';
+
+/**
+ * Steps through a replay with its own engine, so playback never touches the live game
+ */
+export class ReplayPlayer {
+    private readonly replay: GameReplay;
+    private readonly engine: GameEngine;
+    private moveIndex: number = 0;
+
+    /**
+     * @param replay - The replay to play back
+     */
+    constructor(replay: GameReplay) {
+        this.replay = replay;
+        this.engine = new GameEngine({
+            mode: replay.mode,
+            rng: new SeededRandom(replay.seed),
+            boardSize: replay.boardSize ?? DEFAULT_BOARD_SIZE,
+            boardMask: replay.boardMask ?? null,
+            piecePack: replay.piecePack,
+            // Hold moves only appear in replays of games that had the hold slot on
+            holdEnabled: true,
+        });
+    }
+
+    /**
+     * Applies the next recorded move
+     * @returns The move's result, or null when the replay is finished or the move no longer fits
+     */
+    step(): MoveResult | null {
+        if (this.isFinished()) {
+            return null;
+        }
+        const result = this.engine.applyMove(this.replay.moves[this.moveIndex]);
+        if (!result) {
+            // The log doesn't match these rules (e.g. recorded by an older version); stop here
+            console.warn(`[REPLAY] Move ${this.moveIndex + 1} could not be applied, stopping playback`);
+            this.moveIndex = this.replay.moves.length;
+            return null;
+        }
+        this.moveIndex++;
+        return result;
+    }
+
+    /**
+     * Whether every move has been applied
+     */
+    isFinished(): boolean {
+        return this.moveIndex >= this.replay.moves.length;
+    }
+
+    /**
+     * Gets how many moves have been applied so far
+     */
+    getMoveIndex(): number {
+        return this.moveIndex;
+    }
+
+    /**
+     * Gets the number of moves in the replay
+     */
+    getTotalMoves(): number {
+        return this.replay.moves.length;
+    }
+
+    /**
+     * Gets the replay being played
+     */
+    getReplay(): GameReplay {
+        return this.replay;
+    }
+
+    /**
+     * Gets the engine the replay is played on (for rendering)
+     */
+    getEngine(): GameEngine {
+        return this.engine;
+    }
+}
+
+/**
+ * Checks that parsed data has the shape of a GameReplay for the current format version
+ */
+function isValidReplay(data: unknown): data is GameReplay {
+    if (!data || typeof data !== 'object') {
+        return false;
+    }
+    const replay = data as Partial<GameReplay>;
+    return replay.version === REPLAY_CONFIG.version &&
+        Object.keys(MODE_RULES).includes(replay.mode as string) &&
+        typeof replay.seed === 'number' &&
+        typeof replay.score === 'number' &&
+        (replay.boardSize === undefined || isValidBoardSize(replay.boardSize)) &&
+        (replay.boardMask === undefined || isValidBoardMask(replay.boardMask, replay.boardSize ?? DEFAULT_BOARD_SIZE)) &&
+        (replay.piecePack === undefined || isValidPiecePack(replay.piecePack)) &&
+        Array.isArray(replay.moves) &&
+        replay.moves.every((move: unknown) =>
+            Array.isArray(move) && move.length >= 1 && move.length <= 3 && move.every(value => Number.isInteger(value))
+        );
+}
+
+/**
+ * Base64-encodes text as UTF-8 (btoa alone only takes Latin-1, and pack and piece names can be any text)
+ */
+function encodeBase64(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+}
+
+/**
+ * Decodes base64 made by encodeBase64()
+ * Codes from before the UTF-8 encoding that aren't valid UTF-8 are read as Latin-1, as they were encoded
+ */
+function decodeBase64(code: string): string {
+    const binary = atob(code);
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    } catch {
+        return binary;
+    }
+}
+
+/**
+ * Encodes a replay as a short text code that can be pasted to teammates
+ * @param replay - Replay to encode
+ */
+export function encodeReplay(replay: GameReplay): string {
+    const moves = replay.moves.map((move: ReplayMove) => move.join('.')).join(',');
+    return encodeBase64(JSON.stringify({ ...replay, moves }));
+}
+
+/**
+ * Decodes a replay code produced by encodeReplay()
+ * @param code - Replay code
+ * @returns The replay, or null if the code is invalid
+ */
+export function decodeReplay(code: string): GameReplay | null {
+    try {
+        const parsed = JSON.parse(decodeBase64(code.trim()));
+        const moves = typeof parsed.moves === 'string' && parsed.moves.length > 0
+            ? parsed.moves.split(',').map((move: string) => move.split('.').map(Number))
+            : [];
+        const replay = { ...parsed, moves };
+        return isValidReplay(replay) ? replay : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads one stored replay
+ */
+function loadReplay(key: string): GameReplay | null {
+    try {
+        const stored = localStorage.getItem(key);
+        if (!stored) return null;
+        const parsed: unknown = JSON.parse(stored);
+        return isValidReplay(parsed) ? parsed : null;
+    } catch (e) {
+        console.warn('Failed to load replay from localStorage:', e);
+        return null;
+    }
+}
+
+/**
+ * Writes one replay to storage
+ */
+function storeReplay(key: string, replay: GameReplay): void {
+    try {
+        localStorage.setItem(key, JSON.stringify(replay));
+    } catch (e) {
+        console.warn('Failed to save replay to localStorage:', e);
+    }
+}
+
+/**
+ * Stores a finished game as the last replay, and as the mode's best replay if it beat the previous best
+ * @param replay - Replay of the finished game (with its final score)
+ */
+export function recordReplay(replay: GameReplay): void {
+    if (replay.moves.length === 0) return;
+
+    storeReplay(STORAGE_KEYS.replays.last, replay);
+    const best = getBestReplay(replay.mode);
+    if (!best || replay.score > best.score) {
+        storeReplay(STORAGE_KEYS.replays.best[replay.mode], replay);
+    }
+}
+
+/**
+ * Gets the most recently finished game
+ */
+export function getLastReplay(): GameReplay | null {
+    return loadReplay(STORAGE_KEYS.replays.last);
+}
+
+/**
+ * Gets the highest scoring recorded game for a mode
+ * @param mode - The game mode
+ */
+export function getBestReplay(mode: GameMode): GameReplay | null {
+    return loadReplay(STORAGE_KEYS.replays.best[mode]);
+}
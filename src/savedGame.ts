@@ -0,0 +1,104 @@
+/**
+ * Persists the in-progress game so it can be resumed after a reload or tab eviction
+ */
+
+import { STORAGE_KEYS, SAVE_GAME_CONFIG, MODE_RULES, BOARD_SIZE_PRESETS } from './config';
+import { isValidBoardSize, isValidBoardMask } from './board';
+import { isValidPiecePack } from './piecePacks';
+import { createBoardMask, BOARD_SHAPE_NAMES } from './boardMasks';
+import { SavedGame, GameSettings, BoardSizeName } from './types';
+
+/**
+ * Checks that parsed data has the shape of a SavedGame for the current format version
+ */
+function isValidSavedGame(data: unknown): data is SavedGame {
+    if (!data || typeof data !== 'object') {
+        return false;
+    }
+    const saved = data as Partial<SavedGame>;
+    const state = saved.state;
+    return saved.version === SAVE_GAME_CONFIG.version &&
+        Object.keys(MODE_RULES).includes(saved.mode as string) &&
+        isValidBoardSize(saved.boardSize) &&
+        (saved.boardMask === undefined || isValidBoardMask(saved.boardMask, saved.boardSize)) &&
+        (saved.piecePack === undefined || isValidPiecePack(saved.piecePack)) &&
+        typeof saved.seed === 'number' &&
+        typeof saved.rngState === 'number' &&
+        typeof saved.shapesPlacedThisTurn === 'number' &&
+        typeof saved.undosUsed === 'number' &&
+        (saved.hintsUsed === undefined || typeof saved.hintsUsed === 'number') &&
+        (saved.botTurns === undefined || typeof saved.botTurns === 'number') &&
+        Array.isArray(saved.shapePointValues) &&
+        Array.isArray(saved.colorScheme) &&
+        Array.isArray(saved.moves) &&
+        !!state &&
+        Array.isArray(state.board) &&
+        Array.isArray(state.queue) &&
+        Array.isArray(state.placedBlocks) &&
+        typeof state.score === 'number' &&
+        typeof state.level === 'number' &&
+        typeof state.rotationsUsed === 'number' &&
+        typeof state.mirrorsUsed === 'number';
+}
+
+/**
+ * Saves the current game, replacing any earlier save
+ * @param saved - Snapshot from GameEngine.toSaveData()
+ */
+export function saveGame(saved: SavedGame): void {
+    try {
+        localStorage.setItem(STORAGE_KEYS.savedGame, JSON.stringify(saved));
+    } catch (e) {
+        console.warn('Failed to save game to localStorage:', e);
+    }
+}
+
+/**
+ * Loads the saved game, if there is a usable one
+ * Saves from another format version or that fail validation are discarded
+ * @returns The saved game, or null if there is nothing to resume
+ */
+export function loadSavedGame(): SavedGame | null {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS.savedGame);
+        if (!stored) {
+            return null;
+        }
+        const parsed: unknown = JSON.parse(stored);
+        if (!isValidSavedGame(parsed)) {
+            console.warn('[SAVE] Discarding saved game with unsupported format');
+            clearSavedGame();
+            return null;
+        }
+        return parsed;
+    } catch (e) {
+        console.warn('Failed to load saved game from localStorage:', e);
+        return null;
+    }
+}
+
+/**
+ * Works out the mode and board settings a saved game was played with, so the settings can follow the resumed game
+ * @param saved - Saved game to match
+ * @returns The settings, or null if the board isn't one of the presets and outlines
+ */
+export function getSavedGameSettings(saved: SavedGame): Pick<GameSettings, 'mode' | 'boardSize' | 'boardShape'> | null {
+    const boardSize = (Object.keys(BOARD_SIZE_PRESETS) as BoardSizeName[]).find(name =>
+        BOARD_SIZE_PRESETS[name].width === saved.boardSize.width && BOARD_SIZE_PRESETS[name].height === saved.boardSize.height
+    );
+    const boardShape = BOARD_SHAPE_NAMES.find(shape =>
+        JSON.stringify(createBoardMask(shape, saved.boardSize)) === JSON.stringify(saved.boardMask ?? null)
+    );
+    return boardSize && boardShape ? { mode: saved.mode, boardSize, boardShape } : null;
+}
+
+/**
+ * Removes the saved game (after game over or when a new game starts)
+ */
+export function clearSavedGame(): void {
+    try {
+        localStorage.removeItem(STORAGE_KEYS.savedGame);
+    } catch (e) {
+        console.warn('Failed to clear saved game from localStorage:', e);
+    }
+}
@@ -1,111 +1,95 @@
 /**
- * Shape definitions and generator for tetromino pieces (4 blocks each)
+ * Shape generator and lookups for the active piece pack
+ * Shape indices, colors and point values all refer to the piece's position in the pack
  */
 
-import { Shape, Position } from './types';
+import { Shape, RandomSource, PiecePack, PackPiece, PieceTransform, TransformTokens, ReachableOrientation, DealRequest, DealResult } from './types';
 import { Board } from './board';
-import { getValidPositions } from './validator';
 import { getColorSet, getColorSetIndex } from './colorConfig';
-import { EASY_MODE_CONFIG, GAMEPLAY_CONFIG } from './config';
-import { BOARD_CELL_COUNT } from './constants';
+import { EASY_MODE_CONFIG, GAMEPLAY_CONFIG, ADAPTIVE_CONFIG } from './config';
+import { SeededRandom, randomInt, shuffleInPlace } from './random';
+import { CLASSIC_PIECE_PACK } from './piecePacks';
+import { canPlaceAll } from './solver';
+import { AdaptiveDealRules, getAdaptiveDealRules } from './adaptive';
 
 /**
- * Monomino shape (1 block)
+ * Easy mode deals like adaptive mode at its easiest: small pieces favored, the whole hand guaranteed to fit
+ * Read at deal time, since the hand size can be overridden (see withConfigOverrides)
  */
-const MONOMINO: Shape[] = [
-    // Single block (X)
-    [{ x: 0, y: 0 }],
-];
+function getEasyDealRules(): AdaptiveDealRules {
+    return { sizeBias: 1, guaranteedPieces: GAMEPLAY_CONFIG.shapesPerTurn };
+}
 
 /**
- * Domino shape (2 blocks)
+ * Pack the queue is dealt from (classic pieces unless a game picks another)
  */
-const DOMINO: Shape[] = [
-    // Horizontal domino
-    [{ x: 0, y: 0 }, { x: 1, y: 0 }],
-];
+let ACTIVE_PIECE_PACK: PiecePack = CLASSIC_PIECE_PACK;
 
 /**
- * Tromino shapes (3 blocks)
+ * Switches the pack shapes are dealt from and looked up in
+ * Call randomizeShapePointValues() or setShapePointValues() afterwards so values match the new pieces
+ * @param pack - Validated pack (see parsePiecePack)
  */
-const TROMINOES: Shape[] = [
-    // Three block horizontal line (XXX)
-    [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }],
-    // L-shape (XX/X)
-    [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }],
-];
+export function setActivePiecePack(pack: PiecePack): void {
+    ACTIVE_PIECE_PACK = pack;
+}
 
 /**
- * Nonomino shapes (9 blocks)
+ * Gets the pack shapes are currently dealt from
  */
-const NONOMINOES: Shape[] = [
-    // Three block box (3x3 square)
-    [
-        { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 },
-        { x: 0, y: 1 }, { x: 1, y: 1 }, { x: 2, y: 1 },
-        { x: 0, y: 2 }, { x: 1, y: 2 }, { x: 2, y: 2 },
-    ],
-];
+export function getActivePiecePack(): PiecePack {
+    return ACTIVE_PIECE_PACK;
+}
 
 /**
- * Tetromino shapes (4 blocks each)
- * Standard Tetris pieces: I, O, T, S, Z, J, L
+ * Creates a shuffled set of point values per cell for each piece in the active pack
+ * Pieces with a fixed point value keep it; the rest get 1..n in random order
+ * @param random - Random source used for the shuffle
  */
-const TETROMINOES: Shape[] = [
-    // I-piece (line)
-    [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }],
-    
-    // O-piece (square)
-    [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }],
-    
-    // T-piece
-    [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }, { x: 2, y: 1 }],
-    
-    // S-piece
-    [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }],
-    
-    // Z-piece
-    [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 1 }],
-    
-    // J-piece
-    [{ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }, { x: 2, y: 1 }],
-    
-    // L-piece
-    [{ x: 2, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }, { x: 2, y: 1 }],
-];
+function createShapePointValues(random: RandomSource): number[] {
+    const pieces = ACTIVE_PIECE_PACK.pieces;
+    // Draw once per piece (fixed ones included) so the random stream advances the same for any mix of pieces
+    const draws = shuffleInPlace(pieces.map((_, i) => i), random);
+    const values = pieces.map(piece => piece.pointValue ?? 0);
+    pieces
+        .map((_, i) => i)
+        .filter(i => pieces[i].pointValue === undefined)
+        .sort((a, b) => draws[a] - draws[b])
+        .forEach((pieceIndex, rank) => {
+            values[pieceIndex] = rank + 1;
+        });
+    return values;
+}
 
 /**
- * Combined pool of all available shapes (monomino + domino + trominoes + tetrominoes + nonominoes)
- * Note: Monomino (index 0) always scores 0 points
+ * Point values for the current session, randomly assigned at module load
+ * Re-shuffled from the game's random source whenever a new game starts
  */
-const ALL_SHAPES: Shape[] = [...MONOMINO, ...DOMINO, ...TROMINOES, ...TETROMINOES, ...NONOMINOES];
+let SHAPE_POINT_VALUES: number[] = createShapePointValues(Math.random);
 
 /**
- * Pool of shapes excluding the monomino (single dot piece)
- * Used for normal random generation - monomino only appears in easy mode fallback
+ * Re-assigns the per-session shape point values
+ * Called when a game starts so the same seed always yields the same values
+ * @param random - Random source used for the shuffle
  */
-const SHAPES_WITHOUT_MONOMINO: Shape[] = [...DOMINO, ...TROMINOES, ...TETROMINOES, ...NONOMINOES];
+export function randomizeShapePointValues(random: RandomSource = Math.random): void {
+    SHAPE_POINT_VALUES = createShapePointValues(random);
+}
 
 /**
- * Point values for each shape (0 for single block, 1-8 for others, randomly assigned at module load)
- * Maps shape index to point value per cell
- * Note: Index 0 (single block) always scores 0 points
+ * Gets a copy of the per-session shape point values (for saving a game)
  */
-const SHAPE_POINT_VALUES: number[] = (() => {
-    // Single block (index 0) always scores 0, others get 1-8
-    const values = Array.from({ length: ALL_SHAPES.length }, (_, i) => i === 0 ? 0 : i);
-    // Shuffle the array to randomize point assignments (but keep index 0 as 0)
-    for (let i = values.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [values[i], values[j]] = [values[j], values[i]];
-    }
-    // Ensure index 0 is always 0 (single block)
-    const zeroIndex = values.indexOf(0);
-    if (zeroIndex !== 0) {
-        [values[0], values[zeroIndex]] = [values[zeroIndex], values[0]];
-    }
-    return values;
-})();
+export function getShapePointValues(): number[] {
+    return [...SHAPE_POINT_VALUES];
+}
+
+/**
+ * Restores per-session shape point values from a saved game
+ * @param values - Point values indexed by the shape's position in the active pack
+ */
+export function setShapePointValues(values: number[]): void {
+    SHAPE_POINT_VALUES = [...values];
+}
 
 /**
  * Keeps all colors within a narrow hue band (same general color family) while
@@ -115,7 +99,7 @@ function generateMonochromaticColorScheme(): string[] {
     const colors: string[] = [];
     const baseHue = Math.random() * 360;
     const hueJitterRange = 8; // degrees
-    const shapeCount = ALL_SHAPES.length;
+    const shapeCount = ACTIVE_PIECE_PACK.pieces.length;
 
     for (let i = 0; i < shapeCount; i++) {
         const progress = shapeCount > 1 ? i / (shapeCount - 1) : 0;
@@ -195,6 +179,21 @@ export function updateColorScheme(level: number): void {
     SHAPE_COLORS = colorSet.colors;
 }
 
+/**
+ * Gets a copy of the active shape color palette (for saving a game)
+ */
+export function getShapeColorScheme(): string[] {
+    return [...SHAPE_COLORS];
+}
+
+/**
+ * Restores the shape color palette from a saved game
+ * @param colors - Palette indexed by shape index
+ */
+export function setShapeColorScheme(colors: string[]): void {
+    SHAPE_COLORS = [...colors];
+}
+
 /**
  * Rotates a shape by 90, 180, or 270 degrees clockwise
  * Rotates around the center of the shape's bounding box
@@ -249,218 +248,128 @@ function rotateShape(shape: Shape, rotations: number): Shape {
 }
 
 /**
- * Gets the size (number of blocks) of a shape
- * @param shape - The shape to measure
- * @returns Number of blocks in the shape
+ * Mirrors a shape left to right, keeping it at (0, 0)
+ * @param shape - The shape to mirror
+ * @returns A new mirrored shape
  */
-function getShapeSize(shape: Shape): number {
-    return shape.length;
+function mirrorShape(shape: Shape): Shape {
+    const maxX = Math.max(...shape.map(cell => cell.x));
+    return shape.map(cell => ({ x: maxX - cell.x, y: cell.y }));
 }
 
 /**
- * Generates a random shape from the pool with random rotation
- * Excludes monomino (single dot piece) - it only appears in easy mode fallback
- * @param weightedForEasy - If true, smaller shapes are more likely to appear
- * @returns A random shape with random rotation applied
+ * Lists every orientation a pack piece can be dealt in (its allowed rotations, mirrored too if allowed)
+ * @param piece - Pack piece
  */
-function getRandomShape(weightedForEasy: boolean = false): Shape {
-    if (!weightedForEasy) {
-        // Normal random selection
-        const index = Math.floor(Math.random() * SHAPES_WITHOUT_MONOMINO.length);
-        const baseShape = SHAPES_WITHOUT_MONOMINO[index];
-    
-    // Apply random rotation (0, 90, 180, or 270 degrees)
-    const rotations = Math.floor(Math.random() * 4);
-    
-        return rotateShape(baseShape, rotations);
-    }
-    
-    // Weighted selection for easy mode: smaller shapes are more likely
-    // Weight inversely proportional to size (smaller = higher weight)
-    const weights: Array<{ shape: Shape; weight: number }> = [];
-    
-    for (const shape of SHAPES_WITHOUT_MONOMINO) {
-        const size = getShapeSize(shape);
-        // Weight = 1/size, so smaller shapes get higher weights
-        // For example: 2 blocks = 0.5, 3 blocks = 0.33, 4 blocks = 0.25, 9 blocks = 0.11
-        const weight = 1 / size;
-        weights.push({ shape, weight });
-    }
-    
-    // Calculate total weight
-    const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
-    
-    // Select a random value between 0 and totalWeight
-    let random = Math.random() * totalWeight;
-    
-    // Find which shape this random value corresponds to
-    for (const { shape, weight } of weights) {
-        random -= weight;
-        if (random <= 0) {
-            // Apply random rotation (0, 90, 180, or 270 degrees)
-            const rotations = Math.floor(Math.random() * 4);
-            return rotateShape(shape, rotations);
-        }
-    }
-    
-    // Fallback (shouldn't happen)
-    const index = Math.floor(Math.random() * SHAPES_WITHOUT_MONOMINO.length);
-    const baseShape = SHAPES_WITHOUT_MONOMINO[index];
-    const rotations = Math.floor(Math.random() * 4);
-    return rotateShape(baseShape, rotations);
+function getPieceOrientations(piece: PackPiece): Shape[] {
+    const rotated = piece.rotations.map(rotation => rotateShape(piece.cells, rotation));
+    return piece.mirror ? [...rotated, ...rotated.map(mirrorShape)] : rotated;
 }
 
 /**
- * Generates three random shapes for the player's queue
- * Each shape is randomly rotated
- * @returns An array of 3 shapes
+ * Gets the size (number of blocks) of a shape
+ * @param shape - The shape to measure
+ * @returns Number of blocks in the shape
  */
-export function generateShapes(): Shape[] {
-    return [getRandomShape(), getRandomShape(), getRandomShape()];
+function getShapeSize(shape: Shape): number {
+    return shape.length;
 }
 
 /**
- * Finds all valid positions where a shape can be placed on a grid array
- * @param grid - 2D boolean array representing the board state
- * @param shape - The shape to find positions for
- * @returns Array of valid positions
- */
-function getValidPositionsForGrid(grid: boolean[][], shape: Shape): Position[] {
-    const validPositions: Position[] = [];
-    const BOARD_SIZE = BOARD_CELL_COUNT;
-
-    // Try all possible positions on the board
-    for (let y = 0; y < BOARD_SIZE; y++) {
-        for (let x = 0; x < BOARD_SIZE; x++) {
-            const position: Position = { x, y };
-            let canPlace = true;
-
-            // Check each block in the shape
-            for (const block of shape) {
-                const blockX = position.x + block.x;
-                const blockY = position.y + block.y;
-
-                // Check if block is within board boundaries
-                if (blockX < 0 || blockX >= BOARD_SIZE || blockY < 0 || blockY >= BOARD_SIZE) {
-                    canPlace = false;
-                    break;
-                }
-
-                // Check if the cell is empty
-                if (grid[blockY][blockX]) {
-                    canPlace = false;
-                    break;
-                }
-            }
+ * Picks a piece with probability proportional to its weight
+ * @param pieces - Candidates (all with weight above 0)
+ * @param weightOf - Weight of each candidate
+ * @param random - Random source for the pick
+ */
+function pickWeightedPiece(pieces: PackPiece[], weightOf: (piece: PackPiece) => number, random: RandomSource): PackPiece {
+    const totalWeight = pieces.reduce((sum, piece) => sum + weightOf(piece), 0);
 
-            if (canPlace) {
-                validPositions.push(position);
-            }
+    // Select a random value between 0 and totalWeight
+    let remaining = random() * totalWeight;
+
+    // Find which piece this random value corresponds to
+    for (const piece of pieces) {
+        remaining -= weightOf(piece);
+        if (remaining <= 0) {
+            return piece;
         }
     }
 
-    return validPositions;
+    // Fallback for floating point rounding (shouldn't happen)
+    return pieces[pieces.length - 1];
 }
 
 /**
- * Places a shape on a grid array at the given position
- * @param grid - 2D boolean array representing the board state (modified in-place)
- * @param shape - The shape to place
- * @param position - Position where the shape should be placed
+ * Generates a random shape from the active pack with one of its allowed rotations (and mirrored half the time if allowed)
+ * Pieces with weight 0 (like the classic monomino) are never dealt
+ * @param sizeBias - Each weight is divided by the piece's size to this power: 0 deals by weight alone,
+ *                   1 makes smaller shapes more likely (easy mode), below 0 makes bigger ones more likely
+ * @param random - Random source used for the shape and rotation picks
+ * @returns A random shape with random rotation applied
  */
-function placeShapeOnGrid(grid: boolean[][], shape: Shape, position: Position): void {
-    const BOARD_SIZE = BOARD_CELL_COUNT;
-
-    for (const block of shape) {
-        const x = position.x + block.x;
-        const y = position.y + block.y;
-        if (x >= 0 && x < BOARD_SIZE && y >= 0 && y < BOARD_SIZE) {
-            grid[y][x] = true;
-        }
-    }
+function getRandomShape(sizeBias: number = 0, random: RandomSource = Math.random): Shape {
+    const dealt = ACTIVE_PIECE_PACK.pieces.filter(piece => piece.weight > 0);
+    // With a bias of 1 and equal weights: 2 blocks = 0.5, 3 blocks = 0.33, 4 blocks = 0.25, 9 blocks = 0.11
+    const piece = pickWeightedPiece(dealt, candidate => candidate.weight / Math.pow(getShapeSize(candidate.cells), sizeBias), random);
+
+    const rotations = piece.rotations[randomInt(piece.rotations.length, random)];
+    const shape = rotateShape(piece.cells, rotations);
+    // Only free pieces draw for mirroring, so packs without them deal the same as before
+    return piece.mirror && randomInt(2, random) === 1 ? mirrorShape(shape) : shape;
 }
 
 /**
- * Simulates line clearing on a grid array
- * Finds and clears all full rows and columns
- * @param grid - 2D boolean array representing the board state (modified in-place)
+ * Generates a hand of random shapes for the player's queue
+ * Each shape is randomly rotated
+ * @param random - Random source used for the picks
+ * @returns GAMEPLAY_CONFIG.shapesPerTurn shapes
  */
-function simulateLineClearing(grid: boolean[][]): void {
-    const BOARD_SIZE = BOARD_CELL_COUNT;
-
-    // Find full rows
-    const fullRows: number[] = [];
-    for (let row = 0; row < BOARD_SIZE; row++) {
-        if (grid[row].every(cell => cell === true)) {
-            fullRows.push(row);
-        }
-    }
-
-    // Find full columns
-    const fullColumns: number[] = [];
-    for (let col = 0; col < BOARD_SIZE; col++) {
-        let isFull = true;
-        for (let row = 0; row < BOARD_SIZE; row++) {
-            if (!grid[row][col]) {
-                isFull = false;
-                break;
-            }
-        }
-        if (isFull) {
-            fullColumns.push(col);
-        }
-    }
-
-    // Clear full rows
-    for (const row of fullRows) {
-        grid[row].fill(false);
-    }
-
-    // Clear full columns
-    for (const col of fullColumns) {
-        for (let row = 0; row < BOARD_SIZE; row++) {
-            grid[row][col] = false;
-        }
-    }
+export function generateShapes(random: RandomSource = Math.random): Shape[] {
+    return Array.from({ length: GAMEPLAY_CONFIG.shapesPerTurn }, () => getRandomShape(0, random));
 }
 
 /**
- * Generates shapes for easy mode using state simulation
- * Guarantees that all three pieces can be placed sequentially by simulating
- * placements on a virtual board and running line-clearing logic after each placement
+ * Generates shapes for easy mode
+ * Each draw is kept only if the solver can still place the whole hand so far, in some order and
+ * with line clears in between, so the whole hand is guaranteed to fit
+ * A piece that only fits after the player turns it counts as fitting while the tokens last
  * @param board - The game board to check against
- * @returns An array of 3 shapes that can be placed sequentially
+ * @param random - Random source used for the shape picks
+ * @param tokens - Rotation and mirror tokens the player has left (none by default)
+ * @returns GAMEPLAY_CONFIG.shapesPerTurn shapes that can all be placed
  */
-export function generateEasyShapes(board: Board): Shape[] {
+export function generateEasyShapes(
+    board: Board,
+    random: RandomSource = Math.random,
+    tokens: TransformTokens = { rotationsRemaining: 0, mirrorsRemaining: 0 }
+): Shape[] {
+    return generateGuaranteedHand(board, random, tokens, getEasyDealRules()).shapes;
+}
+
+/**
+ * Deals a hand whose first rules.guaranteedPieces pieces are drawn until the hand so far can be placed,
+ * also reporting how many pieces had to be dealt at random
+ * After EASY_MODE_CONFIG.attemptsPerPiece draws without a fitting piece, the rest of the guaranteed pieces
+ * are dealt at random and may not fit; pieces past the guarantee are drawn once with the rules' size bias
+ */
+function generateGuaranteedHand(
+    board: Board,
+    random: RandomSource,
+    tokens: TransformTokens,
+    rules: AdaptiveDealRules
+): { shapes: Shape[]; fallbackPieces: number } {
     const hand: Shape[] = [];
-    const MAX_ATTEMPTS_PER_PIECE = 50;
     
-    // Create virtual board as a deep copy of current board state
-    const virtualGrid = board.getGrid().map(row => [...row]);
-    
-    // Generate 3 pieces sequentially
-    for (let pieceIndex = 0; pieceIndex < 3; pieceIndex++) {
+    // Generate the guaranteed pieces sequentially
+    for (let pieceIndex = 0; pieceIndex < rules.guaranteedPieces; pieceIndex++) {
         let pieceFound = false;
         let attempts = 0;
         
-        // Try to find a piece that fits
-        while (!pieceFound && attempts < MAX_ATTEMPTS_PER_PIECE) {
+        // Try to find a piece that still leaves the hand placeable
+        while (!pieceFound && attempts < EASY_MODE_CONFIG.attemptsPerPiece) {
             attempts++;
-            const candidate = getRandomShape(true); // Weighted for easy mode
-            
-            // Check if candidate fits anywhere on virtual board
-            const validPositions = getValidPositionsForGrid(virtualGrid, candidate);
-            
-            if (validPositions.length > 0) {
-                // Piece fits! Place it on virtual board
-                // Pick a random valid position
-                const position = validPositions[Math.floor(Math.random() * validPositions.length)];
-                placeShapeOnGrid(virtualGrid, candidate, position);
-                
-                // Simulate line clearing
-                simulateLineClearing(virtualGrid);
-                
-                // Add to hand
+            const candidate = getRandomShape(rules.sizeBias, random);
+            if (canPlaceAll(board, [...hand, candidate], tokens)) {
                 hand.push(candidate);
                 pieceFound = true;
             }
@@ -472,18 +381,47 @@ export function generateEasyShapes(board: Board): Shape[] {
         }
     }
     
-    // If we couldn't generate all 3 pieces, fill remaining slots with random pieces
-    while (hand.length < 3) {
+    // If we couldn't generate every guaranteed piece, fill those slots with random pieces
+    const fallbackPieces = rules.guaranteedPieces - hand.length;
+    while (hand.length < rules.guaranteedPieces) {
         // Use completely random (not weighted) for fallback
-        hand.push(getRandomShape(false));
+        hand.push(getRandomShape(0, random));
+    }
+    while (hand.length < GAMEPLAY_CONFIG.shapesPerTurn) {
+        hand.push(getRandomShape(rules.sizeBias, random));
     }
     
-    return hand;
+    return { shapes: hand, fallbackPieces };
+}
+
+/**
+ * Deals the hand for a DealRequest exactly as the engine deals it in place
+ * Safe to call off the main thread; the request's pack is only active while dealing
+ * @param request - Board, pack, mode, tokens and random state to deal from
+ * @returns The hand and the random state after dealing
+ */
+export function dealHand(request: DealRequest): DealResult {
+    const previousPack = ACTIVE_PIECE_PACK;
+    ACTIVE_PIECE_PACK = request.piecePack;
+    try {
+        const board = new Board(request.boardSize, request.boardMask);
+        board.setFilledBits(request.filled);
+        const rng = new SeededRandom(request.seed);
+        rng.setState(request.rngState);
+        const { shapes, fallbackPieces } = request.mode === 'hard'
+            ? { shapes: generateShapes(rng.source), fallbackPieces: 0 }
+            : generateGuaranteedHand(board, rng.source, request.tokens, request.mode === 'adaptive'
+                ? getAdaptiveDealRules(request.difficulty ?? ADAPTIVE_CONFIG.initialDifficulty)
+                : getEasyDealRules());
+        return { shapes, rngState: rng.getState(), fallbackPieces };
+    } finally {
+        ACTIVE_PIECE_PACK = previousPack;
+    }
 }
 
 /**
  * Gets a color for a shape based on its index in the shape pool
- * @param shapeIndex - Index of the shape in ALL_SHAPES array
+ * @param shapeIndex - Index of the shape in the active piece pack
  * @returns A hex color string
  */
 export function getShapeColor(shapeIndex: number): string {
@@ -529,46 +467,134 @@ function shapesMatch(shape1: Shape, shape2: Shape): boolean {
 }
 
 /**
- * Gets the index of a shape in the ALL_SHAPES array
- * Tries all rotations to find a match, since shapes may be rotated
- * @param shape - The shape to find (may be rotated)
- * @returns The index of the base shape, or -1 if not found
+ * Gets the index of a shape in the active piece pack
+ * Tries each piece's allowed orientations to find a match, since shapes may be rotated or mirrored
+ * @param shape - The shape to find (may be rotated or mirrored)
+ * @returns The index of the pack piece, or -1 if not found
  */
 export function getShapeIndex(shape: Shape): number {
-    // Try to find exact match first
-    for (let i = 0; i < ALL_SHAPES.length; i++) {
-        const baseShape = ALL_SHAPES[i];
-        
-        // Try all 4 rotations (0, 90, 180, 270 degrees)
-        for (let rot = 0; rot < 4; rot++) {
-            const rotated = rotateShape(baseShape, rot);
-            if (shapesMatch(shape, rotated)) {
-                return i;
-            }
+    const pieces = ACTIVE_PIECE_PACK.pieces;
+    for (let i = 0; i < pieces.length; i++) {
+        if (getPieceOrientations(pieces[i]).some(orientation => shapesMatch(shape, orientation))) {
+            return i;
         }
     }
     
     return -1;
 }
 
+/**
+ * Turns a piece a quarter clockwise or mirrors it, as the player does with a queued piece
+ * Orientations the pack doesn't deal are skipped, so the result is always recognized as the same piece
+ * @param shape - Piece in its current orientation
+ * @param transform - 'rotate' or 'mirror'
+ * @returns The piece in its new orientation, or null if the transform would leave it unchanged
+ */
+export function transformShape(shape: Shape, transform: PieceTransform): Shape | null {
+    const shapeIndex = getShapeIndex(shape);
+    if (shapeIndex < 0) {
+        return null;
+    }
+    const orientations = getPieceOrientations(ACTIVE_PIECE_PACK.pieces[shapeIndex]);
+    const isDealt = (candidate: Shape) => orientations.some(orientation => shapesMatch(candidate, orientation));
+
+    if (transform === 'mirror') {
+        const mirrored = mirrorShape(shape);
+        return isDealt(mirrored) && !shapesMatch(mirrored, shape) ? mirrored : null;
+    }
+
+    let rotated = shape;
+    for (let turn = 1; turn < 4; turn++) {
+        rotated = rotateShape(rotated, 1);
+        if (shapesMatch(rotated, shape)) {
+            // Symmetric piece: a turn changes nothing
+            return null;
+        }
+        if (isDealt(rotated)) {
+            return rotated;
+        }
+    }
+    return null;
+}
+
+/**
+ * Gets a pack piece in a chosen orientation (used for authored layouts such as puzzles)
+ * @param piece - Pack piece
+ * @param rotations - Quarter turns clockwise (0-3), applied after mirroring
+ * @param mirrored - Whether the piece is mirrored first
+ * @returns The turned piece starting at (0, 0), or null if the pack never deals the piece that way
+ */
+export function orientPiece(piece: PackPiece, rotations: number, mirrored: boolean): Shape | null {
+    const shape = rotateShape(mirrored ? mirrorShape(piece.cells) : piece.cells, rotations);
+    return getPieceOrientations(piece).some(orientation => shapesMatch(shape, orientation)) ? normalizeShape(shape) : null;
+}
+
+/**
+ * Lists every orientation the player can still turn a piece into with the tokens left
+ * Each orientation is listed once, with the fewest tokens that reach it; the piece as it is comes first
+ * @param shape - Piece in its current orientation
+ * @param tokens - Rotation and mirror tokens left
+ */
+export function getReachableOrientations(shape: Shape, tokens: TransformTokens): ReachableOrientation[] {
+    // More than three turns or one mirror never reaches anything new
+    const rotationLimit = Math.min(tokens.rotationsRemaining ?? 3, 3);
+    const mirrorLimit = Math.min(tokens.mirrorsRemaining ?? 1, 1);
+
+    const countOf = (state: ReachableOrientation, transform: PieceTransform) =>
+        state.transforms.filter(applied => applied === transform).length;
+
+    // Breadth-first over (orientation, tokens spent); the same orientation with other tokens left can lead elsewhere
+    const visited: ReachableOrientation[] = [{ shape, transforms: [] }];
+    for (let i = 0; i < visited.length; i++) {
+        const state = visited[i];
+        const next: ReachableOrientation[] = [];
+        if (countOf(state, 'rotate') < rotationLimit) {
+            const rotated = transformShape(state.shape, 'rotate');
+            if (rotated) next.push({ shape: rotated, transforms: [...state.transforms, 'rotate'] });
+        }
+        if (countOf(state, 'mirror') < mirrorLimit) {
+            const mirrored = transformShape(state.shape, 'mirror');
+            if (mirrored) next.push({ shape: mirrored, transforms: [...state.transforms, 'mirror'] });
+        }
+        for (const candidate of next) {
+            const seen = visited.some(other =>
+                countOf(other, 'rotate') === countOf(candidate, 'rotate') &&
+                countOf(other, 'mirror') === countOf(candidate, 'mirror') &&
+                shapesMatch(other.shape, candidate.shape)
+            );
+            if (!seen) {
+                visited.push(candidate);
+            }
+        }
+    }
+
+    const reachable: ReachableOrientation[] = [];
+    for (const state of visited) {
+        if (!reachable.some(orientation => shapesMatch(orientation.shape, state.shape))) {
+            reachable.push(state);
+        }
+    }
+    return reachable;
+}
+
 /**
  * Gets the point value per cell for a shape based on its index and level
- * @param shapeIndex - Index of the shape in ALL_SHAPES array
+ * Pieces with a fixed point value in the pack use it as their base value; a fixed 0 never scores
+ * @param shapeIndex - Index of the shape in the active piece pack
  * @param level - Current game level (adds 10 points per level, every 10 levels)
  * @returns Point value per cell
  */
 export function getShapePointValue(shapeIndex: number, level: number = 0): number {
-    // Single block (index 0) always scores 0 points
-    if (shapeIndex === 0) {
-        return 0;
-    }
     if (shapeIndex < 0 || shapeIndex >= SHAPE_POINT_VALUES.length) {
         return 1; // Default to 1 if shape not found
     }
     const baseValue = SHAPE_POINT_VALUES[shapeIndex];
+    // Pieces fixed at 0 (like the classic monomino) stay worthless at every level
+    if (baseValue === 0) {
+        return 0;
+    }
     // Level is already Math.floor(totalShapesPlaced / shapesPerValueTier), so multiply by pointsPerTier to get the bonus
     // Every tier of shapes placed = +pointsPerTier points
     const levelBonus = level * GAMEPLAY_CONFIG.pointsPerTier;
     return baseValue + levelBonus;
 }
-
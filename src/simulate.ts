@@ -0,0 +1,155 @@
+/**
+ * Node entry point for batch simulations: npm run simulate -- --games 200 --agent greedy --mode hard
+ * Prints a JSON report (summary and every game) or CSV (summary or per-game rows) to stdout
+ */
+
+import { AgentName, GameMode, BoardSizeName, BoardShapeName } from './types';
+import { runSimulation, summaryToCsv, gamesToCsv, SimulationOptions, ConfigOverrides } from './simulation';
+import { AGENTS } from './agents';
+import { BOARD_SIZE_PRESETS, MODE_RULES } from './config';
+import { BOARD_SHAPE_NAMES } from './boardMasks';
+
+/**
+ * The parts of Node's process this file uses (the project is typed for the browser)
+ */
+interface NodeProcess {
+    argv: string[];
+    stdout: { write(text: string): void };
+    stderr: { write(text: string): void };
+    exitCode?: number;
+}
+
+declare const process: NodeProcess;
+
+type OutputFormat = 'json' | 'csv' | 'games-csv';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Options:
+  --games <n>           Games to play (default 100)
+  --agent <name>        ${Object.keys(AGENTS).join(' | ')} (default greedy)
+  --mode <mode>         ${Object.keys(MODE_RULES).join(' | ')} (default easy)
+  --seed <n>            Seed of the first game; game i uses seed + i (default 1)
+  --board <size>        ${Object.keys(BOARD_SIZE_PRESETS).join(' | ')} (default standard)
+  --shape <shape>       ${BOARD_SHAPE_NAMES.join(' | ')} (default square)
+  --max-turns <n>       Stop a game after this many placements
+  --set <key>=<value>   Override a config value, e.g. gameplay.levelProgressPerLine=10,
+                        easyMode.attemptsPerPiece=20 or adaptive.clearStep=0.2 (repeatable)
+  --format <format>     json | csv (summary) | games-csv (one row per game) (default json)
+  --verbose             Keep the engine's console logging
+`;
+
+/**
+ * Checks that a value is one of the allowed names
+ */
+function parseChoice<T extends string>(option: string, value: string, choices: readonly string[]): T {
+    if (!choices.includes(value)) {
+        throw new Error(`${option} must be one of: ${choices.join(', ')}`);
+    }
+    return value as T;
+}
+
+/**
+ * Parses a positive whole number
+ */
+function parseCount(option: string, value: string): number {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`${option} must be a positive whole number`);
+    }
+    return count;
+}
+
+/**
+ * Parses a --set override into the overrides object
+ */
+function addOverride(overrides: ConfigOverrides, assignment: string): void {
+    const match = /^(gameplay|easyMode|adaptive)\.(\w+)=(.+)$/.exec(assignment);
+    if (!match) {
+        throw new Error(`--set expects gameplay.<key>=<number>, easyMode.<key>=<number> or adaptive.<key>=<number>, got "${assignment}"`);
+    }
+    const [, section, key, raw] = match;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+        throw new Error(`--set ${section}.${key} needs a number, got "${raw}"`);
+    }
+    const target = (overrides[section as keyof ConfigOverrides] ??= {}) as Record<string, number>;
+    target[key] = value;
+}
+
+/**
+ * Parses the command line
+ * @returns The simulation to run, the output format and whether to keep logging; null for --help
+ */
+function parseArgs(args: string[]): { options: SimulationOptions; format: OutputFormat; verbose: boolean } | null {
+    const options: SimulationOptions = { games: 100, agent: 'greedy', mode: 'easy', seed: 1, overrides: {} };
+    let format: OutputFormat = 'json';
+    let verbose = false;
+
+    for (let i = 0; i < args.length; i++) {
+        const option = args[i];
+        if (option === '--help' || option === '-h') return null;
+        if (option === '--verbose') {
+            verbose = true;
+            continue;
+        }
+        const value = args[++i];
+        if (value === undefined) {
+            throw new Error(`${option} needs a value`);
+        }
+        switch (option) {
+            case '--games': options.games = parseCount(option, value); break;
+            case '--agent': options.agent = parseChoice<AgentName>(option, value, Object.keys(AGENTS)); break;
+            case '--mode': options.mode = parseChoice<GameMode>(option, value, Object.keys(MODE_RULES)); break;
+            case '--seed':
+                options.seed = Number(value);
+                if (!Number.isInteger(options.seed)) throw new Error('--seed must be a whole number');
+                break;
+            case '--board': options.boardSize = parseChoice<BoardSizeName>(option, value, Object.keys(BOARD_SIZE_PRESETS)); break;
+            case '--shape': options.boardShape = parseChoice<BoardShapeName>(option, value, BOARD_SHAPE_NAMES); break;
+            case '--max-turns': options.maxTurns = parseCount(option, value); break;
+            case '--set': addOverride(options.overrides!, value); break;
+            case '--format': format = parseChoice<OutputFormat>(option, value, ['json', 'csv', 'games-csv']); break;
+            default: throw new Error(`Unknown option: ${option}`);
+        }
+    }
+    return { options, format, verbose };
+}
+
+function main(): void {
+    let parsed: ReturnType<typeof parseArgs>;
+    try {
+        parsed = parseArgs(process.argv.slice(2));
+    } catch (e) {
+        process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+        process.exitCode = 1;
+        return;
+    }
+    if (!parsed) {
+        process.stdout.write(USAGE);
+        return;
+    }
+
+    const { options, format, verbose } = parsed;
+    if (!verbose) {
+        // The engine logs every color scheme change; keep stdout for the report
+        console.log = () => {};
+    }
+    const startedAt = Date.now();
+    try {
+        const report = runSimulation(options, (game, index) => {
+            process.stderr.write(`\rGame ${index + 1}/${options.games}: score ${game.score}, ${game.turns} turns`);
+        });
+        process.stderr.write(`\nPlayed ${options.games} games in ${((Date.now() - startedAt) / 1000).toFixed(1)}s\n`);
+        if (format === 'json') {
+            process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+        } else {
+            process.stdout.write(format === 'csv' ? summaryToCsv(report.summary) : gamesToCsv(report.games));
+        }
+    } catch (e) {
+        process.stderr.write(`\nSimulation failed: ${e instanceof Error ? e.message : String(e)}\n`);
+        process.exitCode = 1;
+    }
+}
+
+main();
@@ -0,0 +1,290 @@
+/**
+ * Headless batch simulation: plays seeded games with a bot agent and summarizes how they went
+ * Used to measure balance changes (GAMEPLAY_CONFIG, EASY_MODE_CONFIG, ADAPTIVE_CONFIG) before shipping them; see simulate.ts for the CLI
+ */
+
+import { AgentName, GameMode, BoardSizeName, BoardShapeName, PiecePack } from './types';
+import { GameEngine } from './engine';
+import { SeededRandom } from './random';
+import { getAgent, playAgentTurn } from './agents';
+import { createBoardMask } from './boardMasks';
+import { CLASSIC_PIECE_PACK } from './piecePacks';
+import { BOARD_SIZE_PRESETS, GAMEPLAY_CONFIG, EASY_MODE_CONFIG, ADAPTIVE_CONFIG, SIMULATION_CONFIG } from './config';
+
+/**
+ * Config values to change for a simulation run (all tunables are numbers)
+ */
+export interface ConfigOverrides {
+    gameplay?: { [K in keyof typeof GAMEPLAY_CONFIG]?: number };
+    easyMode?: { [K in keyof typeof EASY_MODE_CONFIG]?: number };
+    adaptive?: { [K in keyof typeof ADAPTIVE_CONFIG]?: number };
+}
+
+export interface SimulationOptions {
+    games: number;                 // Number of games to play
+    agent: AgentName;              // Strategy that plays every game
+    mode: GameMode;
+    seed: number;                  // Seed of the first game; game i is dealt from seed + i
+    boardSize?: BoardSizeName;     // Standard if omitted
+    boardShape?: BoardShapeName;   // Square if omitted
+    piecePack?: PiecePack;         // Classic pieces if omitted
+    maxTurns?: number;             // Placements after which a game is stopped, checked between hands (SIMULATION_CONFIG.maxTurns if omitted)
+    overrides?: ConfigOverrides;
+}
+
+/**
+ * How one simulated game went
+ */
+export interface SimulatedGame {
+    seed: number;
+    score: number;                 // Final score, including the game over bonus
+    turns: number;                 // Placements made
+    hands: number;                 // Hands dealt, including the opening hand
+    linesCleared: number;
+    level: number;                 // Level reached
+    boardClears: number;           // Clears that emptied the whole board
+    fallbackHands: number;         // Hands where easy mode dealt pieces at random
+    fallbackPieces: number;        // Pieces dealt at random in those hands
+    difficulty: number | null;     // Adaptive mode's difficulty at the end (null in other modes)
+    finished: boolean;             // False if the game was stopped at maxTurns before game over
+}
+
+/**
+ * Mean and percentiles of one measurement across games
+ */
+export interface DistributionSummary {
+    mean: number;
+    min: number;
+    p10: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p90: number;
+    max: number;
+}
+
+export interface SimulationSummary {
+    games: number;
+    finishedGames: number;         // Games that reached game over within maxTurns
+    score: DistributionSummary;
+    turns: DistributionSummary;
+    linesCleared: DistributionSummary;
+    level: DistributionSummary;
+    boardClears: DistributionSummary;
+    boardClearGameRate: number;    // Share of games with at least one board clear
+    boardClearsPer100Turns: number;
+    fallbackHandRate: number;      // Share of dealt hands where easy mode fell back to random pieces
+    fallbackPiecesPerHand: number; // Random fallback pieces per dealt hand
+}
+
+export interface SimulationReport {
+    options: Required<Omit<SimulationOptions, 'piecePack'>> & { piecePack: string };
+    summary: SimulationSummary;
+    games: SimulatedGame[];
+}
+
+const DISTRIBUTION_KEYS: (keyof DistributionSummary)[] = ['mean', 'min', 'p10', 'p25', 'p50', 'p75', 'p90', 'max'];
+
+/**
+ * Runs code with config values changed, putting the original values back afterwards
+ * The engine reads these configs at call time, so the overrides apply to everything run inside
+ * @param overrides - Values to change
+ * @param run - Code to run with the overrides in place
+ */
+export function withConfigOverrides<T>(overrides: ConfigOverrides, run: () => T): T {
+    const targets: [Record<string, number>, Record<string, number | undefined> | undefined][] = [
+        [GAMEPLAY_CONFIG as Record<string, number>, overrides.gameplay],
+        [EASY_MODE_CONFIG as Record<string, number>, overrides.easyMode],
+        [ADAPTIVE_CONFIG as Record<string, number>, overrides.adaptive],
+    ];
+    const previous = targets.map(([config, changes]) => {
+        const saved: Record<string, number> = {};
+        for (const [key, value] of Object.entries(changes ?? {})) {
+            if (!(key in config)) {
+                throw new Error(`Unknown config key: ${key}`);
+            }
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                throw new Error(`Config value for ${key} must be a number`);
+            }
+            if (config === GAMEPLAY_CONFIG && key === 'shapesPerTurn' && (!Number.isInteger(value) || value < 1)) {
+                throw new Error('Config value for shapesPerTurn must be a whole number of at least 1');
+            }
+            saved[key] = config[key];
+        }
+        return saved;
+    });
+    targets.forEach(([config, changes]) => Object.assign(config, changes ?? {}));
+    try {
+        return run();
+    } finally {
+        targets.forEach(([config], index) => Object.assign(config, previous[index]));
+    }
+}
+
+/**
+ * Plays one seeded game with an agent until game over (or maxTurns)
+ * The agent gets its own random source derived from the seed, so every game is reproducible
+ * @param seed - Seed the game is dealt from
+ * @param options - Agent, mode, board and limits (games and seed are ignored)
+ */
+export function simulateGame(seed: number, options: SimulationOptions): SimulatedGame {
+    const size = BOARD_SIZE_PRESETS[options.boardSize ?? 'standard'];
+    const engine = new GameEngine({
+        mode: options.mode,
+        rng: new SeededRandom(seed),
+        boardSize: size,
+        boardMask: createBoardMask(options.boardShape ?? 'square', size),
+        piecePack: options.piecePack ?? CLASSIC_PIECE_PACK,
+    });
+    const agent = getAgent(options.agent);
+    const agentRandom = new SeededRandom(seed ^ SIMULATION_CONFIG.agentSeedMask);
+    const maxTurns = options.maxTurns ?? SIMULATION_CONFIG.maxTurns;
+    let boardClears = 0;
+    engine.on('linesCleared', clear => {
+        if (clear.boardCleared) boardClears++;
+    });
+
+    while (!engine.getState().gameOver && engine.getState().turn < maxTurns) {
+        if (playAgentTurn(engine, agent, agentRandom.source) === 0) {
+            break;
+        }
+    }
+    const finished = engine.getState().gameOver;
+    if (finished) {
+        engine.awardGameOverBonus();
+    }
+
+    const state = engine.getState();
+    const deals = engine.getDealStats();
+    return {
+        seed,
+        score: state.score,
+        turns: state.turn,
+        hands: deals.hands,
+        linesCleared: state.linesCleared,
+        level: state.level,
+        boardClears,
+        fallbackHands: deals.fallbackHands,
+        fallbackPieces: deals.fallbackPieces,
+        difficulty: engine.getDifficulty(),
+        finished,
+    };
+}
+
+/**
+ * Computes the mean and percentiles (linear interpolation between closest ranks)
+ * @param values - One measurement per game (must not be empty)
+ */
+export function summarizeDistribution(values: number[]): DistributionSummary {
+    const sorted = [...values].sort((a, b) => a - b);
+    const percentile = (p: number) => {
+        const rank = (sorted.length - 1) * p;
+        const lower = Math.floor(rank);
+        const upper = Math.ceil(rank);
+        return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+    };
+    return {
+        mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+        min: sorted[0],
+        p10: percentile(0.1),
+        p25: percentile(0.25),
+        p50: percentile(0.5),
+        p75: percentile(0.75),
+        p90: percentile(0.9),
+        max: sorted[sorted.length - 1],
+    };
+}
+
+/**
+ * Summarizes a batch of simulated games
+ * @param games - Simulated games (must not be empty)
+ */
+export function summarizeGames(games: SimulatedGame[]): SimulationSummary {
+    const total = (pick: (game: SimulatedGame) => number) => games.reduce((sum, game) => sum + pick(game), 0);
+    const hands = total(game => game.hands);
+    const turns = total(game => game.turns);
+    return {
+        games: games.length,
+        finishedGames: games.filter(game => game.finished).length,
+        score: summarizeDistribution(games.map(game => game.score)),
+        turns: summarizeDistribution(games.map(game => game.turns)),
+        linesCleared: summarizeDistribution(games.map(game => game.linesCleared)),
+        level: summarizeDistribution(games.map(game => game.level)),
+        boardClears: summarizeDistribution(games.map(game => game.boardClears)),
+        boardClearGameRate: games.filter(game => game.boardClears > 0).length / games.length,
+        boardClearsPer100Turns: turns > 0 ? (total(game => game.boardClears) / turns) * 100 : 0,
+        fallbackHandRate: hands > 0 ? total(game => game.fallbackHands) / hands : 0,
+        fallbackPiecesPerHand: hands > 0 ? total(game => game.fallbackPieces) / hands : 0,
+    };
+}
+
+/**
+ * Plays a batch of seeded games and summarizes them
+ * @param options - Games, agent, mode, board, limits and config overrides
+ * @param onGame - Called after each game (e.g. for progress output)
+ */
+export function runSimulation(options: SimulationOptions, onGame?: (game: SimulatedGame, index: number) => void): SimulationReport {
+    if (!Number.isInteger(options.games) || options.games < 1) {
+        throw new Error('Simulation needs at least one game');
+    }
+    const overrides = options.overrides ?? {};
+    const games = withConfigOverrides(overrides, () => {
+        const played: SimulatedGame[] = [];
+        for (let i = 0; i < options.games; i++) {
+            played.push(simulateGame(options.seed + i, options));
+            onGame?.(played[i], i);
+        }
+        return played;
+    });
+    return {
+        options: {
+            games: options.games,
+            agent: options.agent,
+            mode: options.mode,
+            seed: options.seed,
+            boardSize: options.boardSize ?? 'standard',
+            boardShape: options.boardShape ?? 'square',
+            piecePack: (options.piecePack ?? CLASSIC_PIECE_PACK).name,
+            maxTurns: options.maxTurns ?? SIMULATION_CONFIG.maxTurns,
+            overrides,
+        },
+        summary: summarizeGames(games),
+        games,
+    };
+}
+
+/**
+ * Formats a number for CSV output (up to four decimals)
+ */
+function formatCsvNumber(value: number): string {
+    return String(Math.round(value * 10000) / 10000);
+}
+
+/**
+ * Formats the summary as CSV: one row per measurement with its mean and percentiles;
+ * rates fill the mean column only
+ */
+export function summaryToCsv(summary: SimulationSummary): string {
+    const rows = [['metric', ...DISTRIBUTION_KEYS].join(',')];
+    const distributions: (keyof SimulationSummary)[] = ['score', 'turns', 'linesCleared', 'level', 'boardClears'];
+    for (const metric of distributions) {
+        const distribution = summary[metric] as DistributionSummary;
+        rows.push([metric, ...DISTRIBUTION_KEYS.map(key => formatCsvNumber(distribution[key]))].join(','));
+    }
+    const rates: (keyof SimulationSummary)[] = ['games', 'finishedGames', 'boardClearGameRate', 'boardClearsPer100Turns', 'fallbackHandRate', 'fallbackPiecesPerHand'];
+    for (const metric of rates) {
+        rows.push([metric, formatCsvNumber(summary[metric] as number), ...DISTRIBUTION_KEYS.slice(1).map(() => '')].join(','));
+    }
+    return rows.join('\n') + '\n';
+}
+
+/**
+ * Formats the games as CSV, one row per game
+ */
+export function gamesToCsv(games: SimulatedGame[]): string {
+    const columns: (keyof SimulatedGame)[] = [
+        'seed', 'score', 'turns', 'hands', 'linesCleared', 'level', 'boardClears', 'fallbackHands', 'fallbackPieces', 'difficulty', 'finished',
+    ];
+    const rows = games.map(game => columns.map(column => String(game[column] ?? '')).join(','));
+    return [columns.join(','), ...rows].join('\n') + '\n';
+}
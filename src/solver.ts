@@ -0,0 +1,312 @@
+/**
+ * Exhaustive solver for the hand: tries every order and position of the queued pieces (and, with tokens,
+ * every orientation the player can still turn them into), simulating line clears between placements,
+ * and scores the boards it ends on with a pluggable evaluation function
+ */
+
+import { Shape, Position, PieceTransform, TransformTokens, ReachableOrientation } from './types';
+import { Board } from './board';
+import { getPlacementMasks, findFullLinesInBits, clearLinesInBits, bitsToGrid } from './bitboard';
+import { getReachableOrientations } from './shapes';
+import { SOLVER_CONFIG } from './config';
+
+/**
+ * One placement of a plan
+ */
+export interface SolverStep {
+    queueIndex: number;
+    transforms: PieceTransform[];  // Turns to apply to the piece before placing it (empty without tokens)
+    position: Position;
+}
+
+/**
+ * The board a plan ends on, as seen by the evaluation function
+ */
+export interface SolverEndState {
+    grid: boolean[][];             // Filled cells after the last placement and its clears
+    playable: boolean[][];         // Cells that can hold blocks
+    linesCleared: number;          // Rows and columns cleared while playing the plan
+}
+
+/**
+ * Scores the board a plan ends on; higher is better
+ */
+export type BoardEvaluation = (end: SolverEndState) => number;
+
+/**
+ * Weights for createWeightedEvaluation (see SOLVER_CONFIG.weights)
+ */
+export interface EvaluationWeights {
+    linesCleared: number;
+    emptyCells: number;
+    holes: number;
+    regions: number;
+}
+
+/**
+ * The best plan found for a hand
+ */
+export interface SolverResult {
+    steps: SolverStep[];           // Placements in order
+    value: number;                 // Evaluation of the board the plan ends on
+    complete: boolean;             // Whether every queued piece gets placed
+    exhaustive: boolean;           // False if the node budget ran out before every line was tried
+}
+
+export interface SolverOptions {
+    evaluate?: BoardEvaluation;    // Scores end states (evaluateBoard if omitted)
+    tokens?: TransformTokens;      // Rotations and mirrors the plan may spend (none if omitted)
+    stopAtFirst?: boolean;         // Return the first plan that places every piece (for feasibility checks)
+    maxNodes?: number;             // Boards searched at most (SOLVER_CONFIG.maxNodes if omitted)
+}
+
+const NO_TOKENS: TransformTokens = { rotationsRemaining: 0, mirrorsRemaining: 0 };
+
+/**
+ * Counts the empty playable cells
+ */
+export function countEmptyCells(grid: boolean[][], playable: boolean[][]): number {
+    let count = 0;
+    for (let y = 0; y < grid.length; y++) {
+        for (let x = 0; x < grid[y].length; x++) {
+            if (playable[y][x] && !grid[y][x]) count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * Counts empty playable cells with no empty playable neighbour (only a single cell could ever fill them)
+ */
+export function countHoles(grid: boolean[][], playable: boolean[][]): number {
+    const isOpen = (x: number, y: number) =>
+        y >= 0 && y < grid.length && x >= 0 && x < grid[y].length && playable[y][x] && !grid[y][x];
+    let count = 0;
+    for (let y = 0; y < grid.length; y++) {
+        for (let x = 0; x < grid[y].length; x++) {
+            if (isOpen(x, y) && !isOpen(x - 1, y) && !isOpen(x + 1, y) && !isOpen(x, y - 1) && !isOpen(x, y + 1)) {
+                count++;
+            }
+        }
+    }
+    return count;
+}
+
+/**
+ * Counts the separate edge-connected regions of empty playable cells
+ */
+export function countEmptyRegions(grid: boolean[][], playable: boolean[][]): number {
+    const seen = grid.map(row => row.map(() => false));
+    let regions = 0;
+    for (let y = 0; y < grid.length; y++) {
+        for (let x = 0; x < grid[y].length; x++) {
+            if (seen[y][x] || grid[y][x] || !playable[y][x]) continue;
+            regions++;
+            const stack: Position[] = [{ x, y }];
+            seen[y][x] = true;
+            while (stack.length > 0) {
+                const cell = stack.pop()!;
+                for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+                    const nx = cell.x + dx;
+                    const ny = cell.y + dy;
+                    if (ny >= 0 && ny < grid.length && nx >= 0 && nx < grid[ny].length &&
+                        !seen[ny][nx] && !grid[ny][nx] && playable[ny][nx]) {
+                        seen[ny][nx] = true;
+                        stack.push({ x: nx, y: ny });
+                    }
+                }
+            }
+        }
+    }
+    return regions;
+}
+
+/**
+ * Builds an evaluation that rewards clears and open space and penalizes holes and fragmentation
+ * @param weights - How much each term counts
+ */
+export function createWeightedEvaluation(weights: EvaluationWeights): BoardEvaluation {
+    return ({ grid, playable, linesCleared }) =>
+        linesCleared * weights.linesCleared +
+        countEmptyCells(grid, playable) * weights.emptyCells -
+        countHoles(grid, playable) * weights.holes -
+        Math.max(countEmptyRegions(grid, playable) - 1, 0) * weights.regions;
+}
+
+/**
+ * Default evaluation, weighted by SOLVER_CONFIG.weights
+ */
+export const evaluateBoard: BoardEvaluation = createWeightedEvaluation(SOLVER_CONFIG.weights);
+
+/**
+ * Takes the turns of an orientation off the tokens left
+ */
+export function spendTokens(tokens: TransformTokens, orientation: ReachableOrientation): TransformTokens {
+    const rotations = orientation.transforms.filter(transform => transform === 'rotate').length;
+    const mirrors = orientation.transforms.length - rotations;
+    return {
+        rotationsRemaining: tokens.rotationsRemaining === null ? null : tokens.rotationsRemaining - rotations,
+        mirrorsRemaining: tokens.mirrorsRemaining === null ? null : tokens.mirrorsRemaining - mirrors,
+    };
+}
+
+/**
+ * Searches every order, orientation and position of the queued pieces for the best plan
+ * A plan that places every piece always beats one that doesn't; among equals the evaluation decides,
+ * and ties go to the first plan found, so the result is deterministic
+ * Moves that clear lines and score well are tried first, so a search cut short by the budget still finds good plans
+ * @param board - Board to plan on (not modified)
+ * @param queue - Queued pieces (empty slots are skipped)
+ * @param options - Evaluation, tokens, early exit and node budget
+ * @returns The best plan, or null if no piece can be placed at all
+ */
+export function solveHand(board: Board, queue: (Shape | null)[], options: SolverOptions = {}): SolverResult | null {
+    const pieces = queue
+        .map((shape, queueIndex) => ({ shape, queueIndex }))
+        .filter((piece): piece is { shape: Shape; queueIndex: number } => piece.shape !== null)
+        .map(piece => ({ ...piece, key: piece.shape.map(block => `${block.x},${block.y}`).sort().join(';') }));
+    if (pieces.length === 0) {
+        return null;
+    }
+
+    const size = board.getDimensions();
+    const layout = board.getLayout();
+    const playableBits = board.getPlayableBits();
+    const playable = board.getPlayableGrid();
+    const evaluate = options.evaluate ?? evaluateBoard;
+    const maxNodes = options.maxNodes ?? SOLVER_CONFIG.maxNodes;
+    // Placing A then B often lands on the same board as B then A; each state only needs searching once.
+    // Tokens are kept apart from the rest of the state: a board already reached with at least as many
+    // tokens left can't lead anywhere better, since end states are scored without them
+    const visited = new Map<string, TransformTokens[]>();
+    const orientations = new Map<string, ReachableOrientation[]>();
+    let nodes = 0;
+    let cutShort = false;
+    let finished = false;
+    let best: SolverResult | null = null;
+
+    const orientationsOf = (piece: typeof pieces[number], tokens: TransformTokens): ReachableOrientation[] => {
+        if (tokens.rotationsRemaining === 0 && tokens.mirrorsRemaining === 0) {
+            return [{ shape: piece.shape, transforms: [] }];
+        }
+        // More than three turns or one mirror never reaches anything new, so larger counts share an entry
+        const key = `${piece.queueIndex}|${Math.min(tokens.rotationsRemaining ?? 3, 3)},${Math.min(tokens.mirrorsRemaining ?? 1, 1)}`;
+        let reachable = orientations.get(key);
+        if (!reachable) {
+            reachable = getReachableOrientations(piece.shape, tokens);
+            orientations.set(key, reachable);
+        }
+        return reachable;
+    };
+
+    const isCovered = (key: string, tokens: TransformTokens, last: boolean): boolean => {
+        const seen = visited.get(key);
+        if (!seen) {
+            visited.set(key, [tokens]);
+            return false;
+        }
+        const atLeast = (had: number | null, has: number | null) => had === null || (has !== null && had >= has);
+        // After the last piece the tokens left don't matter at all
+        if (last || seen.some(other =>
+            atLeast(other.rotationsRemaining, tokens.rotationsRemaining) && atLeast(other.mirrorsRemaining, tokens.mirrorsRemaining)
+        )) {
+            return true;
+        }
+        seen.push(tokens);
+        return false;
+    };
+
+    const consider = (steps: SolverStep[], value: number, complete: boolean) => {
+        if (steps.length === 0 || (best && steps.length < best.steps.length)) return;
+        if (!best || steps.length > best.steps.length || value > best.value) {
+            best = { steps, value, complete, exhaustive: true };
+        }
+        if (complete && options.stopAtFirst) {
+            finished = true;
+        }
+    };
+
+    const search = (
+        filled: bigint,
+        remaining: typeof pieces,
+        tokens: TransformTokens,
+        steps: SolverStep[],
+        linesCleared: number
+    ): void => {
+        const empty = playableBits & ~filled;
+        const moves: {
+            step: SolverStep;
+            filled: bigint;
+            remaining: typeof pieces;
+            tokens: TransformTokens;
+            cleared: number;
+            value: number;
+        }[] = [];
+        let extended = false;
+        for (const piece of remaining) {
+            // Identical pieces are interchangeable, so only the first one left is ever placed
+            if (remaining.some(other => other.queueIndex < piece.queueIndex && other.key === piece.key)) continue;
+            const rest = remaining.filter(other => other !== piece);
+            for (const orientation of orientationsOf(piece, tokens)) {
+                const restTokens = spendTokens(tokens, orientation);
+                for (const { position, mask } of getPlacementMasks(orientation.shape, size)) {
+                    if ((mask & empty) !== mask) continue;
+                    extended = true;
+                    const placed = filled | mask;
+                    const lines = findFullLinesInBits(placed, playableBits, layout);
+                    const cleared = lines.rows.length + lines.columns.length;
+                    const next = clearLinesInBits(placed, lines, layout);
+                    const key = `${next.toString(36)}|${rest.map(other => other.queueIndex).join(',')}|${linesCleared + cleared}`;
+                    if (isCovered(key, restTokens, rest.length === 0)) continue;
+                    moves.push({
+                        step: { queueIndex: piece.queueIndex, transforms: orientation.transforms, position: { ...position } },
+                        filled: next,
+                        remaining: rest,
+                        tokens: restTokens,
+                        cleared,
+                        value: evaluate({ grid: bitsToGrid(next, size), playable, linesCleared: linesCleared + cleared }),
+                    });
+                }
+            }
+        }
+        if (!extended) {
+            // No piece left fits: the plan ends short of the whole hand
+            consider(steps, evaluate({ grid: bitsToGrid(filled, size), playable, linesCleared }), false);
+            return;
+        }
+        // Stable, so equal moves keep the board's row-major order
+        moves.sort((a, b) => b.cleared - a.cleared || b.value - a.value);
+        for (const move of moves) {
+            if (finished) return;
+            if (nodes >= maxNodes) {
+                cutShort = true;
+                return;
+            }
+            nodes++;
+            const moveSteps = [...steps, move.step];
+            if (move.remaining.length === 0) {
+                consider(moveSteps, move.value, true);
+            } else {
+                search(move.filled, move.remaining, move.tokens, moveSteps, linesCleared + move.cleared);
+            }
+        }
+    };
+
+    search(board.getFilledBits(), pieces, options.tokens ?? NO_TOKENS, [], 0);
+
+    const result = best as SolverResult | null;
+    if (!result) {
+        return null;
+    }
+    return { ...result, exhaustive: !cutShort };
+}
+
+/**
+ * Checks whether every queued piece can be placed in some order (with line clears in between)
+ * @param board - Board to check against
+ * @param queue - Pieces to place
+ * @param tokens - Rotations and mirrors the player can still spend (none if omitted)
+ */
+export function canPlaceAll(board: Board, queue: (Shape | null)[], tokens: TransformTokens = NO_TOKENS): boolean {
+    return solveHand(board, queue, { tokens, stopAtFirst: true, evaluate: () => 0 })?.complete ?? false;
+}
@@ -0,0 +1,24 @@
+/**
+ * Web Worker entry: runs solver jobs (deals, solves, bot plans and puzzle checks) off the main thread
+ * Jobs arrive one at a time from SolverWorkerClient; cancelling a running job terminates this worker
+ */
+
+import { runSolverJob, SolverWorkerRequest, SolverWorkerResponse } from './solverJobs';
+
+/**
+ * The parts of the dedicated worker scope this file uses (the DOM lib doesn't describe it)
+ */
+interface SolverWorkerScope {
+    onmessage: ((event: MessageEvent<SolverWorkerRequest>) => void) | null;
+    postMessage(message: SolverWorkerResponse): void;
+}
+
+const scope = self as unknown as SolverWorkerScope;
+
+scope.onmessage = ({ data }) => {
+    try {
+        scope.postMessage({ id: data.id, result: runSolverJob(data.type, data.payload) });
+    } catch (e) {
+        scope.postMessage({ id: data.id, error: e instanceof Error ? e.message : String(e) });
+    }
+};
@@ -0,0 +1,114 @@
+/**
+ * Jobs the solver worker runs: the typed request/response protocol and the code that answers it
+ * runSolverJob() is plain synchronous code, so it runs the same inside the worker or on the main thread
+ */
+
+import { BoardSize, BoardMask, PiecePack, Shape, TransformTokens, DealRequest, DealResult, AgentName, Puzzle } from './types';
+import { Board } from './board';
+import { dealHand, getActivePiecePack, setActivePiecePack } from './shapes';
+import { solveHand, SolverResult, SolverStep } from './solver';
+import { getAgent } from './agents';
+import { solvePuzzle, PuzzleSolution } from './puzzleSolver';
+
+/**
+ * A hand to solve on a board (the default evaluation is used; functions can't be sent to a worker)
+ */
+export interface SolveRequest {
+    boardSize: BoardSize;
+    boardMask: BoardMask | null;
+    filled: bigint;                // Filled cells (see bitboard.ts)
+    piecePack: PiecePack;          // Pack the pieces come from (turning a piece looks up its orientations)
+    queue: (Shape | null)[];
+    tokens?: TransformTokens;      // Rotations and mirrors the plan may spend (none if omitted)
+    maxNodes?: number;             // Boards searched at most (SOLVER_CONFIG.maxNodes if omitted)
+}
+
+/**
+ * A turn for a bot agent to plan (agents that make random choices use Math.random)
+ */
+export interface PlanRequest extends SolveRequest {
+    agent: AgentName;
+}
+
+/**
+ * Payload and result of each job type
+ */
+export interface SolverJobMap {
+    deal: { payload: DealRequest; result: DealResult };
+    solve: { payload: SolveRequest; result: SolverResult | null };
+    plan: { payload: PlanRequest; result: SolverStep[] };
+    puzzle: { payload: Puzzle; result: PuzzleSolution };
+}
+
+export type SolverJobType = keyof SolverJobMap;
+export type SolverJobPayload<K extends SolverJobType> = SolverJobMap[K]['payload'];
+export type SolverJobResult<K extends SolverJobType> = SolverJobMap[K]['result'];
+
+/**
+ * Message posted to the worker
+ */
+export type SolverWorkerRequest = {
+    [K in SolverJobType]: { id: number; type: K; payload: SolverJobPayload<K> }
+}[SolverJobType];
+
+/**
+ * Message the worker posts back for a request with the same id
+ */
+export type SolverWorkerResponse =
+    | { id: number; result: SolverJobResult<SolverJobType> }
+    | { id: number; error: string };
+
+const NO_TOKENS: TransformTokens = { rotationsRemaining: 0, mirrorsRemaining: 0 };
+
+/**
+ * Builds the request's board and runs a search on it with the request's pack active,
+ * putting the previous pack back afterwards
+ */
+function withRequestBoard<T>(request: SolveRequest, search: (board: Board) => T): T {
+    const previousPack = getActivePiecePack();
+    setActivePiecePack(request.piecePack);
+    try {
+        const board = new Board(request.boardSize, request.boardMask);
+        board.setFilledBits(request.filled);
+        return search(board);
+    } finally {
+        setActivePiecePack(previousPack);
+    }
+}
+
+/**
+ * Solves a hand
+ */
+function solveRequest(request: SolveRequest): SolverResult | null {
+    return withRequestBoard(request, board => solveHand(board, request.queue, { tokens: request.tokens, maxNodes: request.maxNodes }));
+}
+
+/**
+ * Plans a turn with a bot agent
+ */
+function planRequest(request: PlanRequest): SolverStep[] {
+    return withRequestBoard(request, board =>
+        getAgent(request.agent).planTurn({ board, queue: request.queue, tokens: request.tokens ?? NO_TOKENS }, Math.random)
+    );
+}
+
+/**
+ * Runs one job to completion
+ * @param type - Job type
+ * @param payload - The job's request
+ * @returns The job's result
+ */
+export function runSolverJob<K extends SolverJobType>(type: K, payload: SolverJobPayload<K>): SolverJobResult<K> {
+    switch (type) {
+        case 'deal':
+            return dealHand(payload as DealRequest) as SolverJobResult<K>;
+        case 'solve':
+            return solveRequest(payload as SolveRequest) as SolverJobResult<K>;
+        case 'plan':
+            return planRequest(payload as PlanRequest) as SolverJobResult<K>;
+        case 'puzzle':
+            return solvePuzzle(payload as Puzzle) as SolverJobResult<K>;
+        default:
+            throw new Error(`Unknown solver job: ${type}`);
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * Main-thread side of the solver worker: queues jobs, matches responses to requests and cancels jobs
+ * Without Worker support (tests, old browsers) jobs run on the main thread between frames instead
+ */
+
+import { runSolverJob, SolverJobType, SolverJobPayload, SolverJobResult, SolverWorkerRequest, SolverWorkerResponse } from './solverJobs';
+
+/**
+ * Rejection reason for a job that was cancelled before it finished
+ */
+export class SolverJobCancelledError extends Error {
+    constructor() {
+        super('Solver job cancelled');
+        this.name = 'SolverJobCancelledError';
+    }
+}
+
+/**
+ * A job in flight
+ */
+export interface SolverTask<T> {
+    promise: Promise<T>;           // Resolves with the result; rejects with SolverJobCancelledError if cancelled
+    cancel(): void;
+}
+
+interface QueuedJob {
+    request: SolverWorkerRequest;
+    resolve: (result: never) => void;
+    reject: (reason: unknown) => void;
+}
+
+/**
+ * Starts the bundled solver worker
+ * @returns The worker, or null where workers aren't available
+ */
+function createSolverWorker(): Worker | null {
+    if (typeof Worker === 'undefined') {
+        return null;
+    }
+    try {
+        return new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+        console.warn('[WORKER] Failed to start solver worker, solving on the main thread:', e);
+        return null;
+    }
+}
+
+/**
+ * Runs solver jobs one at a time on a worker
+ * Only one job is posted at a time, so a queued job can be dropped before the worker sees it;
+ * cancelling the running job terminates the worker and a fresh one picks up the rest of the queue
+ */
+export class SolverWorkerClient {
+    private readonly createWorker: () => Worker | null;
+    private worker: Worker | null = null;
+    private workerFailed: boolean = false;  // Once a worker has crashed, jobs run on the main thread
+    private queue: QueuedJob[] = [];
+    private running: QueuedJob | null = null;
+    private nextId: number = 1;
+
+    /**
+     * @param createWorker - Starts a worker (the bundled solver worker if omitted; return null to run jobs in-thread)
+     */
+    constructor(createWorker: () => Worker | null = createSolverWorker) {
+        this.createWorker = createWorker;
+    }
+
+    /**
+     * Queues a job
+     * @param type - Job type
+     * @param payload - The job's request
+     * @returns The pending result and a way to cancel it
+     */
+    run<K extends SolverJobType>(type: K, payload: SolverJobPayload<K>): SolverTask<SolverJobResult<K>> {
+        const request = { id: this.nextId++, type, payload } as SolverWorkerRequest;
+        let job: QueuedJob | null = null;
+        const promise = new Promise<SolverJobResult<K>>((resolve, reject) => {
+            job = { request, resolve: resolve as (result: never) => void, reject };
+        });
+        this.queue.push(job!);
+        this.pump();
+        return { promise, cancel: () => this.cancel(request.id) };
+    }
+
+    /**
+     * Cancels every queued and running job
+     */
+    cancelAll(): void {
+        [...this.queue, ...(this.running ? [this.running] : [])].forEach(job => this.cancel(job.request.id));
+    }
+
+    /**
+     * Cancels all jobs and stops the worker
+     */
+    dispose(): void {
+        this.cancelAll();
+        this.worker?.terminate();
+        this.worker = null;
+    }
+
+    /**
+     * Drops a queued job, or stops the worker if the job is already running
+     */
+    private cancel(id: number): void {
+        const queued = this.queue.find(job => job.request.id === id);
+        if (queued) {
+            this.queue = this.queue.filter(job => job !== queued);
+            queued.reject(new SolverJobCancelledError());
+            return;
+        }
+        if (this.running?.request.id !== id) {
+            return;
+        }
+        const running = this.running;
+        this.running = null;
+        // A worker can't be interrupted mid-search; a new one is started for the next job
+        this.worker?.terminate();
+        this.worker = null;
+        running.reject(new SolverJobCancelledError());
+        this.pump();
+    }
+
+    /**
+     * Starts the next queued job if nothing is running
+     */
+    private pump(): void {
+        if (this.running || this.queue.length === 0) {
+            return;
+        }
+        const job = this.queue.shift()!;
+        this.running = job;
+        const worker = this.getWorker();
+        if (worker) {
+            worker.postMessage(job.request);
+            return;
+        }
+        // Yield first so callers always get their result asynchronously, as they would from a worker
+        setTimeout(() => {
+            if (this.running !== job) return;
+            try {
+                this.finish(job, { id: job.request.id, result: runSolverJob(job.request.type, job.request.payload) });
+            } catch (e) {
+                this.finish(job, { id: job.request.id, error: e instanceof Error ? e.message : String(e) });
+            }
+        }, 0);
+    }
+
+    /**
+     * Gets the worker, starting one if needed
+     */
+    private getWorker(): Worker | null {
+        if (!this.worker && !this.workerFailed) {
+            this.worker = this.createWorker();
+            if (!this.worker) {
+                this.workerFailed = true;
+                return null;
+            }
+            this.worker.onmessage = (event: MessageEvent<SolverWorkerResponse>) => {
+                if (this.running && this.running.request.id === event.data.id) {
+                    this.finish(this.running, event.data);
+                }
+            };
+            this.worker.onerror = event => {
+                console.warn('[WORKER] Solver worker failed, solving on the main thread:', event.message);
+                this.worker?.terminate();
+                this.worker = null;
+                this.workerFailed = true;
+                // Run the job that was on the broken worker again in-thread
+                const job = this.running;
+                this.running = null;
+                if (job) this.queue.unshift(job);
+                this.pump();
+            };
+        }
+        return this.worker;
+    }
+
+    /**
+     * Settles a job's promise and moves on to the next job
+     */
+    private finish(job: QueuedJob, response: SolverWorkerResponse): void {
+        this.running = null;
+        if ('error' in response) {
+            job.reject(new Error(response.error));
+        } else {
+            job.resolve(response.result as never);
+        }
+        this.pump();
+    }
+}
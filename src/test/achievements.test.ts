@@ -0,0 +1,83 @@
+/**
+ * Tests for achievement conditions and stored unlocks
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ACHIEVEMENTS, getUnlockedAchievements, checkAchievements, recordAchievementEvent } from '../achievements';
+import { LineClearResult } from '../types';
+import { GAMEPLAY_CONFIG, STORAGE_KEYS } from '../config';
+
+function lineClear(overrides: Partial<LineClearResult> = {}): LineClearResult {
+  return {
+    rows: [0],
+    columns: [],
+    linesCleared: 1,
+    points: 80,
+    boardCleared: false,
+    cells: [{ x: 0, y: 0, color: '#fff', pointValue: 10 }],
+    ...overrides,
+  };
+}
+
+const ids = (achievements: { id: string }[]) => achievements.map(achievement => achievement.id);
+
+describe('achievements', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should give every achievement its own id', () => {
+    expect(new Set(ids(ACHIEVEMENTS)).size).toBe(ACHIEVEMENTS.length);
+  });
+
+  it('should unlock line clear achievements from the clear', () => {
+    expect(ids(checkAchievements('linesCleared', lineClear()))).toEqual(['first-clear']);
+    expect(ids(checkAchievements('linesCleared', lineClear({ rows: [0, 1], columns: [2, 3], linesCleared: 4 }))))
+      .toEqual(['first-clear', 'four-at-once']);
+    expect(ids(checkAchievements('linesCleared', lineClear({ boardCleared: true })))).toContain('clean-sweep');
+  });
+
+  it('should only count blocks past the explosion threshold as explosions', () => {
+    const cell = (pointValue: number) => ({ x: 0, y: 0, color: '#fff', pointValue });
+    const threshold = GAMEPLAY_CONFIG.explosionThreshold;
+    expect(ids(checkAchievements('linesCleared', lineClear({ cells: [cell(threshold)] })))).not.toContain('kaboom');
+    expect(ids(checkAchievements('linesCleared', lineClear({ cells: [cell(10), cell(threshold + 1)] })))).toContain('kaboom');
+  });
+
+  it('should unlock reaching level 10', () => {
+    expect(checkAchievements('levelUp', { previousLevel: 8, level: 9 })).toEqual([]);
+    expect(ids(checkAchievements('levelUp', { previousLevel: 9, level: 10 }))).toEqual(['level-10']);
+  });
+
+  it('should only count 20,000 points in hard mode games the player played alone', () => {
+    const game = { score: 20000, linesCleared: 150, level: 16, daily: false, botTurns: 0 };
+    expect(ids(checkAchievements('gameFinished', { ...game, mode: 'hard' }))).toEqual(['hard-20k']);
+    expect(checkAchievements('gameFinished', { ...game, mode: 'easy' })).toEqual([]);
+    expect(checkAchievements('gameFinished', { ...game, score: 19999, mode: 'hard' })).toEqual([]);
+    expect(checkAchievements('gameFinished', { ...game, mode: 'hard', daily: true })).toEqual([]);
+    expect(checkAchievements('gameFinished', { ...game, mode: 'hard', botTurns: 1 })).toEqual([]);
+  });
+
+  it('should only count 3 star puzzle solves', () => {
+    const result = { puzzleId: 'p', solved: true, stars: 3, piecesPlaced: 4, score: 200 };
+    expect(ids(checkAchievements('puzzleFinished', result))).toEqual(['three-stars']);
+    expect(checkAchievements('puzzleFinished', { ...result, stars: 2 })).toEqual([]);
+  });
+
+  it('should store unlocks and only report each achievement once', () => {
+    expect(ids(recordAchievementEvent('linesCleared', lineClear(), 1000))).toEqual(['first-clear']);
+    expect(getUnlockedAchievements()).toEqual({ 'first-clear': 1000 });
+
+    expect(ids(recordAchievementEvent('linesCleared', lineClear({ linesCleared: 4 }), 2000))).toEqual(['four-at-once']);
+    expect(recordAchievementEvent('linesCleared', lineClear({ linesCleared: 4 }), 3000)).toEqual([]);
+    expect(getUnlockedAchievements()).toEqual({ 'first-clear': 1000, 'four-at-once': 2000 });
+  });
+
+  it('should ignore corrupted storage and unknown achievements', () => {
+    localStorage.setItem(STORAGE_KEYS.achievements, 'not json');
+    expect(getUnlockedAchievements()).toEqual({});
+
+    localStorage.setItem(STORAGE_KEYS.achievements, JSON.stringify({ 'first-clear': 1000, 'retired': 1000, 'kaboom': 'yesterday' }));
+    expect(getUnlockedAchievements()).toEqual({ 'first-clear': 1000 });
+  });
+});
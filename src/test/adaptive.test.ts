@@ -0,0 +1,96 @@
+/**
+ * Tests for adaptive mode's difficulty tracking and dealing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createAdaptiveState, updateAdaptiveState, getAdaptiveDealRules } from '../adaptive';
+import { GameEngine } from '../engine';
+import { Board } from '../board';
+import { SeededRandom } from '../random';
+import { ReplayPlayer } from '../replay';
+import { greedyAgent, playAgentTurn } from '../agents';
+import { dealHand } from '../shapes';
+import { canPlaceAll } from '../solver';
+import { CLASSIC_PIECE_PACK } from '../piecePacks';
+import { ADAPTIVE_CONFIG } from '../config';
+
+describe('adaptive', () => {
+  it('should raise the difficulty while the player clears lines on an open board', () => {
+    const start = createAdaptiveState();
+    const next = updateAdaptiveState(start, 0.1, 3);
+    expect(next.difficulty).toBeGreaterThan(start.difficulty);
+    expect(next).toMatchObject({ recentClears: [3], linesAtHandStart: 3, nearDeathHands: 0 });
+  });
+
+  it('should give relief as the board fills, and more when it is nearly full', () => {
+    const start = createAdaptiveState();
+    const filling = updateAdaptiveState(start, 0.5, 0);
+    const nearDeath = updateAdaptiveState(start, ADAPTIVE_CONFIG.nearDeathFill, 0);
+    expect(filling.difficulty).toBeLessThan(start.difficulty);
+    expect(nearDeath.difficulty).toBeLessThan(filling.difficulty - ADAPTIVE_CONFIG.nearDeathDrop);
+    expect(nearDeath.nearDeathHands).toBe(1);
+    // Never below 0
+    expect(updateAdaptiveState({ ...start, difficulty: 0.05 }, 0.9, 0).difficulty).toBe(0);
+  });
+
+  it('should only remember the last few hands', () => {
+    let state = createAdaptiveState();
+    for (let hand = 1; hand <= ADAPTIVE_CONFIG.recentHands + 2; hand++) {
+      state = updateAdaptiveState(state, 0.2, state.linesAtHandStart + hand);
+    }
+    expect(state.recentClears).toHaveLength(ADAPTIVE_CONFIG.recentHands);
+    expect(state.recentClears[state.recentClears.length - 1]).toBe(ADAPTIVE_CONFIG.recentHands + 2);
+    expect(state.difficulty).toBe(1);
+  });
+
+  it('should slide the piece-size bias and the fit guarantee with the difficulty', () => {
+    expect(getAdaptiveDealRules(0)).toEqual({ sizeBias: ADAPTIVE_CONFIG.easiestSizeBias, guaranteedPieces: 3 });
+    expect(getAdaptiveDealRules(1)).toEqual({ sizeBias: ADAPTIVE_CONFIG.hardestSizeBias, guaranteedPieces: 0 });
+    expect(getAdaptiveDealRules(0.5).guaranteedPieces).toBe(2);
+  });
+
+  it('should deal a hand that fits at the lowest difficulty', () => {
+    const board = new Board();
+    for (let y = 0; y < 6; y++) {
+      board.placeShape([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }, { x: 4, y: 0 }], { x: y % 2, y });
+    }
+    for (let seed = 1; seed <= 5; seed++) {
+      const hand = dealHand({
+        id: 1, mode: 'adaptive', boardSize: board.getDimensions(), boardMask: null, filled: board.getFilledBits(),
+        piecePack: CLASSIC_PIECE_PACK, seed, rngState: seed, tokens: { rotationsRemaining: 0, mirrorsRemaining: 0 }, difficulty: 0,
+      });
+      expect(canPlaceAll(board, hand.shapes)).toBe(true);
+    }
+  });
+
+  it('should track the difficulty through a game, undo and a replay', () => {
+    const engine = new GameEngine({ mode: 'adaptive', rng: new SeededRandom(12) });
+    expect(engine.getDifficulty()).toBe(ADAPTIVE_CONFIG.initialDifficulty);
+    playAgentTurn(engine, greedyAgent);
+    const afterHand = engine.getDifficulty();
+    expect(afterHand).not.toBe(ADAPTIVE_CONFIG.initialDifficulty);
+    expect(engine.getState().adaptive?.recentClears).toHaveLength(1);
+
+    engine.undo();
+    expect(engine.getDifficulty()).toBe(ADAPTIVE_CONFIG.initialDifficulty);
+    const move = engine.getLegalMoves()[0];
+    engine.place(move.queueIndex, move.position);
+
+    while (!engine.getState().gameOver && engine.getState().turn < 60) {
+      playAgentTurn(engine, greedyAgent);
+    }
+    const player = new ReplayPlayer(engine.getReplay());
+    while (!player.isFinished()) {
+      player.step();
+    }
+    expect(player.getEngine().getState()).toEqual(engine.getState());
+  });
+
+  it('should keep other modes free of adaptive tracking', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(4) });
+    expect(engine.getDifficulty()).toBeNull();
+    engine.setMode('adaptive');
+    expect(engine.getDifficulty()).toBe(ADAPTIVE_CONFIG.initialDifficulty);
+    expect(engine.toSaveData().state.adaptive).toEqual(createAdaptiveState());
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for the bot agents
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AGENTS, greedyAgent, randomAgent, lookaheadAgent, createWeightedAgent, playAgentTurn, createAgentView } from '../agents';
+import { runSolverJob } from '../solverJobs';
+import { GameEngine } from '../engine';
+import { Board } from '../board';
+import { SeededRandom } from '../random';
+import { CLASSIC_PIECE_PACK } from '../piecePacks';
+import { AgentName, Shape, TransformTokens } from '../types';
+
+const VERTICAL_DOMINO: Shape = [{ x: 0, y: 0 }, { x: 0, y: 1 }];
+const HORIZONTAL_DOMINO: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }];
+const IPIECE: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }];
+const BOX: Shape = [0, 1, 2].flatMap(y => [0, 1, 2].map(x => ({ x, y })));
+const NO_TOKENS: TransformTokens = { rotationsRemaining: 0, mirrorsRemaining: 0 };
+
+/**
+ * An 8x8 board with only the listed cells empty
+ */
+function createBoardWithEmpty(empty: string[]): Board {
+  const board = new Board();
+  board.setGrid(Array.from({ length: 8 }, (_, y) =>
+    Array.from({ length: 8 }, (__, x) => !empty.includes(`${x},${y}`))
+  ));
+  return board;
+}
+
+describe('agents', () => {
+  it('should plan a whole legal turn with every built-in agent', () => {
+    for (const name of Object.keys(AGENTS) as AgentName[]) {
+      const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(11) });
+      const queued = engine.getState().queue.filter(Boolean).length;
+      expect(AGENTS[name].name).toBe(name);
+      const random = new SeededRandom(3);
+      expect(playAgentTurn(engine, AGENTS[name], () => random.next())).toBe(queued);
+      expect(engine.getShapesPlacedThisTurn()).toBe(0);
+    }
+  });
+
+  it('should take the line clear with the greedy and weighted agents', () => {
+    // Row 0 is full except for a four-cell slot on the left; the rest of the board is open
+    const board = new Board();
+    for (let x = 4; x < 8; x++) {
+      board.placeShape([{ x: 0, y: 0 }], { x, y: 0 });
+    }
+    const view = { board, queue: [HORIZONTAL_DOMINO, IPIECE, null], tokens: NO_TOKENS };
+    for (const agent of [greedyAgent, createWeightedAgent()]) {
+      const steps = agent.planTurn(view, Math.random);
+      expect(steps[0]).toEqual({ queueIndex: 1, transforms: [], position: { x: 0, y: 0 } });
+      expect(steps).toHaveLength(2);
+    }
+    // Planning never touches the board it was given
+    expect(board.getGrid()[0].filter(Boolean)).toHaveLength(4);
+  });
+
+  it('should make the same random choices from the same random source', () => {
+    const view = { board: new Board(), queue: [IPIECE, BOX, HORIZONTAL_DOMINO], tokens: NO_TOKENS };
+    const plan = (seed: number) => {
+      const random = new SeededRandom(seed);
+      return randomAgent.planTurn(view, () => random.next());
+    };
+    expect(plan(7)).toEqual(plan(7));
+    expect(plan(7)).not.toEqual(plan(8));
+    expect(plan(7)).toHaveLength(3);
+  });
+
+  it('should only turn pieces when they do not fit as dealt', () => {
+    const board = createBoardWithEmpty(['0,0', '1,0']);
+    const queue = [VERTICAL_DOMINO];
+    const oneRotation = { rotationsRemaining: 1, mirrorsRemaining: 0 };
+    for (const agent of [randomAgent, greedyAgent, lookaheadAgent, createWeightedAgent()]) {
+      expect(agent.planTurn({ board, queue, tokens: NO_TOKENS }, Math.random)).toEqual([]);
+      expect(agent.planTurn({ board, queue, tokens: oneRotation }, Math.random)).toEqual([
+        { queueIndex: 0, transforms: ['rotate'], position: { x: 0, y: 0 } },
+      ]);
+    }
+    expect(greedyAgent.planTurn({ board: new Board(), queue, tokens: oneRotation }, Math.random)[0].transforms).toEqual([]);
+  });
+
+  it('should plan the same turn through the worker job', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(21) });
+    const view = createAgentView(engine);
+    const planned = runSolverJob('plan', {
+      agent: 'lookahead',
+      boardSize: view.board.getDimensions(),
+      boardMask: null,
+      filled: view.board.getFilledBits(),
+      piecePack: CLASSIC_PIECE_PACK,
+      queue: view.queue,
+      tokens: view.tokens,
+    });
+    expect(planned).toEqual(lookaheadAgent.planTurn(view, Math.random));
+  });
+
+  it('should drive a seeded game to the end', () => {
+    const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(42) });
+    let turns = 0;
+    while (!engine.getState().gameOver && turns < 200) {
+      expect(playAgentTurn(engine, greedyAgent)).toBeGreaterThan(0);
+      turns++;
+    }
+    expect(engine.getState().gameOver).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for bitboard helpers and the Board façade over them
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBitboardLayout, gridToBits, bitsToGrid, cellBit, getPlacementMasks, findFullLinesInBits, clearLinesInBits } from '../bitboard';
+import { Board } from '../board';
+import { createBoardMask } from '../boardMasks';
+import { getValidPositions } from '../validator';
+import { Shape } from '../types';
+
+const L_SHAPE: Shape = [{ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }];
+
+describe('bitboard', () => {
+  it('should number cells row by row', () => {
+    expect(cellBit(8, 0, 0)).toBe(1n);
+    expect(cellBit(8, 7, 0)).toBe(1n << 7n);
+    expect(cellBit(8, 0, 1)).toBe(1n << 8n);
+    expect(cellBit(16, 15, 15)).toBe(1n << 255n);
+  });
+
+  it('should round-trip grids of any supported size', () => {
+    const size = { width: 10, height: 6 };
+    const grid = bitsToGrid(0n, size).map((row, y) => row.map((_, x) => (x * 3 + y) % 4 === 0));
+    expect(bitsToGrid(gridToBits(grid), size)).toEqual(grid);
+  });
+
+  it('should build one mask per in-bounds offset', () => {
+    const size = { width: 6, height: 4 };
+    const masks = getPlacementMasks(L_SHAPE, size);
+    expect(masks).toHaveLength(5 * 3);
+    expect(masks[0]).toEqual({ position: { x: 0, y: 0 }, mask: cellBit(6, 0, 0) | cellBit(6, 0, 1) | cellBit(6, 1, 1) });
+    // Cached per shape and size
+    expect(getPlacementMasks([...L_SHAPE], size)).toBe(masks);
+  });
+
+  it('should find and clear full lines against the playable cells only', () => {
+    const size = { width: 4, height: 4 };
+    const layout = getBitboardLayout(size);
+    const playable = layout.rows.reduce((all, row) => all | row, 0n) & ~cellBit(4, 3, 0);
+    const filled = (layout.rows[0] & playable) | layout.columns[1];
+    const lines = findFullLinesInBits(filled, playable, layout);
+    expect(lines).toEqual({ rows: [0], columns: [1] });
+    expect(clearLinesInBits(filled, lines, layout)).toBe(0n);
+  });
+
+  it('should report the same positions through the Board façade', () => {
+    const board = new Board({ width: 8, height: 8 }, createBoardMask('donut', { width: 8, height: 8 }));
+    board.placeShape(L_SHAPE, { x: 0, y: 0 });
+    const grid = board.getGrid();
+    const playable = board.getPlayableGrid();
+    const expected = [];
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        if (L_SHAPE.every(block => playable[y + block.y]?.[x + block.x] && !grid[y + block.y][x + block.x])) {
+          expected.push({ x, y });
+        }
+      }
+    }
+    expect(getValidPositions(board, L_SHAPE)).toEqual(expected);
+
+    const copy = new Board();
+    copy.setFilledBits(board.getFilledBits());
+    expect(copy.getGrid()).toEqual(grid);
+    expect(board.getEmptyBits() & board.getFilledBits()).toBe(0n);
+  });
+});
@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Board } from '../board';
+import { Board, isValidBoardMask } from '../board';
+import { createBoardMask } from '../boardMasks';
 import { Position, Shape } from '../types';
 
 // Test shapes
@@ -153,6 +154,16 @@ describe('Board', () => {
       board.reset();
       expect(board.isEmpty()).toBe(true);
     });
+
+    it('should restore a saved grid without sharing it', () => {
+      board.placeShape(DOMINO, { x: 2, y: 3 });
+      const saved = board.getGrid();
+      board.reset();
+      board.setGrid(saved);
+      expect(board.isCellEmpty({ x: 2, y: 3 })).toBe(false);
+      saved[3][2] = false;
+      expect(board.isCellEmpty({ x: 2, y: 3 })).toBe(false);
+    });
   });
 
   describe('getEmptyCells', () => {
@@ -167,5 +178,116 @@ describe('Board', () => {
       expect(emptyCells).toHaveLength(63);
     });
   });
-});
 
+  describe('custom sizes', () => {
+    it('should create a board with the given width and height', () => {
+      const wide = new Board({ width: 10, height: 6 });
+      const grid = wide.getGrid();
+      expect(grid).toHaveLength(6);
+      expect(grid[0]).toHaveLength(10);
+      expect(wide.getDimensions()).toEqual({ width: 10, height: 6 });
+      expect(wide.getEmptyCells()).toHaveLength(60);
+    });
+
+    it('should respect non-square bounds', () => {
+      const wide = new Board({ width: 10, height: 6 });
+      expect(wide.isCellEmpty({ x: 9, y: 5 })).toBe(true);
+      expect(wide.isCellEmpty({ x: 10, y: 0 })).toBe(false);
+      expect(wide.isCellEmpty({ x: 0, y: 6 })).toBe(false);
+    });
+
+    it('should detect full rows and columns using the board dimensions', () => {
+      const wide = new Board({ width: 10, height: 6 });
+      for (let x = 0; x < 10; x++) {
+        wide.placeShape(MONOMINO, { x, y: 2 });
+      }
+      for (let y = 0; y < 6; y++) {
+        wide.placeShape(MONOMINO, { x: 7, y });
+      }
+      expect(wide.getFullRows()).toEqual([2]);
+      expect(wide.getFullColumns()).toEqual([7]);
+    });
+
+    it('should change size on reset', () => {
+      board.placeShape(MONOMINO, { x: 0, y: 0 });
+      board.reset({ width: 6, height: 6 });
+      expect(board.isEmpty()).toBe(true);
+      expect(board.getDimensions()).toEqual({ width: 6, height: 6 });
+      board.reset();
+      expect(board.getDimensions()).toEqual({ width: 6, height: 6 });
+    });
+  });
+
+  describe('masks', () => {
+    // 4x4 board with a missing top-left corner and a blocked cell in the middle
+    const MASK = [
+      ' ...',
+      '....',
+      '..#.',
+      '....',
+    ];
+    let masked: Board;
+
+    beforeEach(() => {
+      masked = new Board({ width: 4, height: 4 }, MASK);
+    });
+
+    it('should report the type of every cell', () => {
+      expect(masked.getCellType({ x: 0, y: 0 })).toBe('missing');
+      expect(masked.getCellType({ x: 2, y: 2 })).toBe('blocked');
+      expect(masked.getCellType({ x: 1, y: 1 })).toBe('open');
+      expect(masked.isPlayable({ x: 0, y: 0 })).toBe(false);
+      expect(masked.isPlayable({ x: 2, y: 2 })).toBe(false);
+      expect(masked.isPlayable({ x: 3, y: 3 })).toBe(true);
+    });
+
+    it('should only fill playable cells when placing', () => {
+      masked.placeShape(MONOMINO, { x: 0, y: 0 });
+      masked.placeShape(DOMINO, { x: 1, y: 2 });
+      expect(masked.getGrid()[0][0]).toBe(false);
+      expect(masked.getGrid()[2][1]).toBe(true);
+      expect(masked.getGrid()[2][2]).toBe(false);
+    });
+
+    it('should count a line as full once its playable cells are filled', () => {
+      masked.placeShape(DOMINO, { x: 0, y: 2 });
+      expect(masked.isRowFull(2)).toBe(false);
+      masked.placeShape(MONOMINO, { x: 3, y: 2 });
+      expect(masked.isRowFull(2)).toBe(true);
+
+      for (let x = 1; x < 4; x++) {
+        masked.placeShape(MONOMINO, { x, y: 0 });
+      }
+      expect(masked.getFullRows()).toEqual([0, 2]);
+      expect(masked.isColumnFull(0)).toBe(false);
+    });
+
+    it('should only list playable cells as empty', () => {
+      expect(masked.getEmptyCells()).toHaveLength(14);
+    });
+
+    it('should keep the mask on reset unless the size changes', () => {
+      masked.reset();
+      expect(masked.getMask()).toEqual(MASK);
+      masked.reset({ width: 6, height: 6 });
+      expect(masked.getMask()).toBeNull();
+    });
+
+    it('should reject masks that do not match the board', () => {
+      expect(() => new Board({ width: 4, height: 4 }, ['....'])).toThrow();
+      expect(isValidBoardMask(['?...', '....', '....', '....'], { width: 4, height: 4 })).toBe(false);
+      expect(isValidBoardMask(['    ', '    ', '####', '    '], { width: 4, height: 4 })).toBe(false);
+      expect(isValidBoardMask(MASK, { width: 4, height: 4 })).toBe(true);
+    });
+
+    it('should build valid masks for the built-in shapes', () => {
+      const size = { width: 8, height: 8 };
+      expect(createBoardMask('square', size)).toBeNull();
+      for (const shape of ['cross', 'donut', 'pillars'] as const) {
+        expect(isValidBoardMask(createBoardMask(shape, size), size)).toBe(true);
+      }
+      expect(createBoardMask('cross', size)?.[0]).toBe('  ....  ');
+      expect(createBoardMask('pillars', size)?.[2]).toBe('..#..#..');
+    });
+  });
+});
@@ -5,10 +5,12 @@
 import { describe, it, expect } from 'vitest';
 import {
   BOARD_CONFIG,
+  BOARD_SIZE_PRESETS,
   GAMEPLAY_CONFIG,
   ANIMATION_CONFIG,
   GAME_OVER_CONFIG,
   EASY_MODE_CONFIG,
+  MODE_RULES,
   SOUND_CONFIG,
   DEFAULT_SETTINGS,
   STORAGE_KEYS,
@@ -22,6 +24,19 @@ describe('config', () => {
       expect(BOARD_CONFIG.cellCount).toBeGreaterThan(0);
       expect(BOARD_CONFIG.cellCount).toBe(8);
     });
+
+    it('should offer board size presets within the supported range', () => {
+      expect(BOARD_SIZE_PRESETS.quick).toEqual({ width: 6, height: 6 });
+      expect(BOARD_SIZE_PRESETS.standard).toEqual({ width: 8, height: 8 });
+      expect(BOARD_SIZE_PRESETS.marathon).toEqual({ width: 10, height: 10 });
+      for (const size of Object.values(BOARD_SIZE_PRESETS)) {
+        for (const side of [size.width, size.height]) {
+          expect(side).toBeGreaterThanOrEqual(BOARD_CONFIG.minCellCount);
+          expect(side).toBeLessThanOrEqual(BOARD_CONFIG.maxCellCount);
+        }
+      }
+      expect(BOARD_SIZE_PRESETS[DEFAULT_SETTINGS.boardSize]).toEqual(BOARD_SIZE_PRESETS.standard);
+    });
   });
 
   describe('GAMEPLAY_CONFIG', () => {
@@ -53,8 +68,30 @@ describe('config', () => {
 
   describe('EASY_MODE_CONFIG', () => {
     it('should have positive attempt counts', () => {
-      expect(EASY_MODE_CONFIG.maxOptimisticAttempts).toBeGreaterThan(0);
-      expect(EASY_MODE_CONFIG.fallbackAttempts).toBeGreaterThan(0);
+      expect(EASY_MODE_CONFIG.attemptsPerPiece).toBeGreaterThan(0);
+    });
+  });
+
+  describe('MODE_RULES', () => {
+    it('should define valid undo limits for every mode', () => {
+      for (const rules of Object.values(MODE_RULES)) {
+        if (rules.undoLimit !== null) {
+          expect(Number.isInteger(rules.undoLimit)).toBe(true);
+          expect(rules.undoLimit).toBeGreaterThanOrEqual(0);
+        }
+      }
+      expect(MODE_RULES.hard.undoLimit).toBe(0);
+    });
+
+    it('should define valid rotation and mirror token counts for every mode', () => {
+      for (const rules of Object.values(MODE_RULES)) {
+        for (const tokens of [rules.rotationTokens, rules.mirrorTokens]) {
+          if (tokens !== null) {
+            expect(Number.isInteger(tokens)).toBe(true);
+            expect(tokens).toBeGreaterThanOrEqual(0);
+          }
+        }
+      }
     });
   });
 
@@ -86,6 +123,7 @@ describe('config', () => {
       expect(STORAGE_KEYS.settings).toBeTruthy();
       expect(STORAGE_KEYS.highScores.easy).toBeTruthy();
       expect(STORAGE_KEYS.highScores.hard).toBeTruthy();
+      expect(STORAGE_KEYS.savedGame).toBeTruthy();
     });
   });
 
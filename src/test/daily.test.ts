@@ -0,0 +1,94 @@
+/**
+ * Tests for the daily challenge's seed, stored results, history and share text
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getDailyDate, getDailySeed, getDailyResults, getDailyResult, recordDailyResult, getDailyHistory, createDailyShareText } from '../daily';
+import { GameEngine } from '../engine';
+import { SeededRandom } from '../random';
+import { DailyResult } from '../types';
+import { DAILY_CONFIG, STORAGE_KEYS } from '../config';
+import { playMoves } from './helpers';
+
+const RESULT: DailyResult = {
+  date: '2026-03-01',
+  score: 1234,
+  linesCleared: 12,
+  level: 3,
+  piecesPlaced: 40,
+  finished: true,
+  board: '🟦⬜⬜⬜\n⬛⬜⬜⬜\n⬜⬜⬜⬜\n⬜⬜⬜⬛',
+};
+
+describe('daily challenge', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should name days by their local date', () => {
+    expect(getDailyDate(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(getDailyDate(new Date(2026, 11, 31, 0, 0))).toBe('2026-12-31');
+  });
+
+  it('should give each date its own fixed seed', () => {
+    expect(getDailySeed('2026-03-01')).toBe(getDailySeed('2026-03-01'));
+    expect(getDailySeed('2026-03-01')).not.toBe(getDailySeed('2026-03-02'));
+    expect(Number.isInteger(getDailySeed('2026-03-01'))).toBe(true);
+    expect(getDailySeed('2026-03-01')).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should deal the same game from a date\'s seed', () => {
+    const deal = () => {
+      const engine = new GameEngine({ mode: DAILY_CONFIG.mode, rng: new SeededRandom(getDailySeed('2026-03-01')) });
+      return engine.getState().queue;
+    };
+    expect(deal()).toEqual(deal());
+  });
+
+  it('should deal the daily opening in its own mode when a game in another mode is reset into it', () => {
+    const seed = getDailySeed('2026-03-01');
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(3) });
+    playMoves(engine, 2);
+    engine.reset(new SeededRandom(seed), undefined, null, undefined, DAILY_CONFIG.mode);
+    expect(engine.getMode()).toBe(DAILY_CONFIG.mode);
+    expect(engine.getState()).toEqual(new GameEngine({ mode: DAILY_CONFIG.mode, rng: new SeededRandom(seed) }).getState());
+  });
+
+  it('should store one result per day, replacing it as the attempt goes on', () => {
+    expect(getDailyResult(RESULT.date)).toBeNull();
+    recordDailyResult({ ...RESULT, score: 0, finished: false, board: '' });
+    expect(getDailyResult(RESULT.date)).toMatchObject({ score: 0, finished: false });
+    recordDailyResult(RESULT);
+    recordDailyResult({ ...RESULT, date: '2026-03-02' });
+    expect(getDailyResult(RESULT.date)).toEqual(RESULT);
+    expect(Object.keys(getDailyResults())).toEqual(['2026-03-01', '2026-03-02']);
+  });
+
+  it('should ignore corrupted results', () => {
+    localStorage.setItem(STORAGE_KEYS.dailyResults, '{not json');
+    expect(getDailyResults()).toEqual({});
+    localStorage.setItem(STORAGE_KEYS.dailyResults, JSON.stringify({
+      '2026-03-01': RESULT,
+      '2026-03-02': { ...RESULT, date: '2026-03-02', score: 'lots' },
+      '2026-03-03': RESULT,
+    }));
+    expect(getDailyResults()).toEqual({ '2026-03-01': RESULT });
+  });
+
+  it('should list the history calendar oldest first, across month ends', () => {
+    recordDailyResult(RESULT);
+    const history = getDailyHistory('2026-03-02', 4);
+    expect(history.map(day => day.date)).toEqual(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02']);
+    expect(history.map(day => day.result?.score ?? null)).toEqual([null, null, 1234, null]);
+    expect(getDailyHistory('2026-03-02')).toHaveLength(DAILY_CONFIG.historyDays);
+  });
+
+  it('should build a share text with the board picture and score', () => {
+    expect(createDailyShareText(RESULT)).toBe(
+      `${DAILY_CONFIG.shareTitle} 2026-03-01\n${RESULT.board}\nScore: 1,234\nLines: 12\nLevel: 3`
+    );
+    expect(createDailyShareText({ ...RESULT, finished: false, board: '' })).toBe(
+      `${DAILY_CONFIG.shareTitle} 2026-03-01 (unfinished)\nScore: 1,234\nLines: 12\nLevel: 3`
+    );
+  });
+});
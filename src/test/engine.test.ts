@@ -0,0 +1,935 @@
+/**
+ * Tests for the headless game engine
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameEngine } from '../engine';
+import { SeededRandom } from '../random';
+import { Shape, GameEventName, BoardRelief } from '../types';
+import { GAMEPLAY_CONFIG, MODE_RULES, BLITZ_CONFIG, ZEN_CONFIG } from '../config';
+import { createBoardMask } from '../boardMasks';
+import { parsePiecePack } from '../piecePacks';
+import { getShapeIndex, getShapePointValue, dealHand } from '../shapes';
+import { checkGameOver } from '../gameOver';
+import { Board } from '../board';
+import { randomAgent, playAgentTurn } from '../agents';
+import { getPuzzle } from '../puzzles';
+import { playMoves } from './helpers';
+
+/**
+ * Fills every cell of the rows the shape covers at (0, 0), except the shape's own cells,
+ * so placing the shape there completes those rows
+ */
+function fillRowsAroundShape(engine: GameEngine, shape: Shape): number[] {
+  const board = engine.getBoard();
+  const rows = [...new Set(shape.map(cell => cell.y))];
+  for (const y of rows) {
+    for (let x = 0; x < board.getWidth(); x++) {
+      if (!shape.some(cell => cell.x === x && cell.y === y)) {
+        board.placeShape([{ x: 0, y: 0 }], { x, y });
+      }
+    }
+  }
+  return rows;
+}
+
+describe('GameEngine', () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(1234) });
+  });
+
+  describe('initial state', () => {
+    it('should start with an empty board and a full queue', () => {
+      const state = engine.getState();
+      expect(state.board.every(row => row.every(cell => !cell))).toBe(true);
+      expect(state.queue).toHaveLength(GAMEPLAY_CONFIG.shapesPerTurn);
+      expect(state.queue.every(shape => shape !== null)).toBe(true);
+      expect(state.score).toBe(0);
+      expect(state.level).toBe(1);
+      expect(state.gameOver).toBe(false);
+    });
+
+    it('should return copies of its state', () => {
+      const state = engine.getState();
+      state.queue[0] = null;
+      state.board[0][0] = true;
+      expect(engine.getState().queue[0]).not.toBeNull();
+      expect(engine.getBoard().isCellEmpty({ x: 0, y: 0 })).toBe(true);
+    });
+  });
+
+  describe('place', () => {
+    it('should place a queued shape and leave its slot empty', () => {
+      const result = engine.place(0, { x: 0, y: 0 });
+      expect(result).not.toBeNull();
+      const state = engine.getState();
+      expect(state.queue[0]).toBeNull();
+      expect(state.placedBlocks).toHaveLength(1);
+      expect(state.turn).toBe(1);
+      expect(state.board[0][0]).toBe(true);
+    });
+
+    it('should reject illegal moves without changing state', () => {
+      expect(engine.place(5, { x: 0, y: 0 })).toBeNull();
+      expect(engine.place(0, { x: 100, y: 100 })).toBeNull();
+      engine.place(0, { x: 0, y: 0 });
+      expect(engine.place(0, { x: 4, y: 4 })).toBeNull();
+      expect(engine.getState().turn).toBe(1);
+    });
+
+    it('should refill the queue after every shape of the turn is placed', () => {
+      for (let i = 0; i < GAMEPLAY_CONFIG.shapesPerTurn; i++) {
+        const move = engine.getLegalMoves()[0];
+        const result = engine.place(move.queueIndex, move.position);
+        expect(result?.queueRefilled).toBe(i === GAMEPLAY_CONFIG.shapesPerTurn - 1);
+      }
+      expect(engine.getState().queue.every(shape => shape !== null)).toBe(true);
+      expect(engine.getShapesPlacedThisTurn()).toBe(0);
+    });
+
+    it('should clear completed rows and award points', () => {
+      const shape = engine.getState().queue[0]!;
+      const rows = fillRowsAroundShape(engine, shape);
+
+      const result = engine.place(0, { x: 0, y: 0 });
+
+      expect(result?.clear).not.toBeNull();
+      expect(result?.clear?.rows).toEqual(rows);
+      expect(result?.clear?.points).toBeGreaterThan(0);
+      const state = engine.getState();
+      expect(state.linesCleared).toBeGreaterThanOrEqual(rows.length);
+      expect(state.score).toBe(result?.clear?.points);
+      for (const y of rows) {
+        expect(state.board[y].every(cell => !cell)).toBe(true);
+      }
+    });
+  });
+
+  describe('getLegalMoves', () => {
+    it('should only list moves that place successfully', () => {
+      const moves = engine.getLegalMoves();
+      expect(moves.length).toBeGreaterThan(0);
+      const move = moves[moves.length - 1];
+      expect(engine.place(move.queueIndex, move.position)).not.toBeNull();
+    });
+
+    it('should not list moves for empty queue slots', () => {
+      engine.place(0, { x: 0, y: 0 });
+      expect(engine.getLegalMoves().some(move => move.queueIndex === 0)).toBe(false);
+    });
+  });
+
+  describe('board size', () => {
+    it.each([
+      { width: 6, height: 6 },
+      { width: 10, height: 10 },
+      { width: 10, height: 6 },
+    ])('should play a $width x $height game to the end inside the board', size => {
+      const sized = new GameEngine({ mode: 'easy', rng: new SeededRandom(77), boardSize: size });
+      expect(sized.getBoardSize()).toEqual(size);
+      playMoves(sized, 1000, 'last', ({ position }, shape) => {
+        expect(shape.every(cell =>
+          position.x + cell.x < size.width && position.y + cell.y < size.height
+        )).toBe(true);
+      });
+      const state = sized.getState();
+      expect(state.gameOver).toBe(true);
+      expect(state.board).toHaveLength(size.height);
+      expect(state.board[0]).toHaveLength(size.width);
+    });
+
+    it('should clear rows as wide as the board', () => {
+      const wide = new GameEngine({ mode: 'hard', rng: new SeededRandom(5), boardSize: { width: 10, height: 6 } });
+      const shape = wide.getState().queue[0]!;
+      const rows = fillRowsAroundShape(wide, shape);
+      expect(wide.place(0, { x: 0, y: 0 })?.clear?.rows).toEqual([...rows].sort((a, b) => a - b));
+    });
+
+    it('should only resize before the first placement', () => {
+      const quick = { width: 6, height: 6 };
+      expect(engine.setBoardSize(quick)).toBe(true);
+      expect(engine.getState()).toEqual(
+        new GameEngine({ mode: 'hard', rng: new SeededRandom(1234), boardSize: quick }).getState()
+      );
+
+      engine.place(0, { x: 0, y: 0 });
+      expect(engine.setBoardSize({ width: 10, height: 10 })).toBe(false);
+      expect(engine.getBoardSize()).toEqual(quick);
+
+      engine.reset(new SeededRandom(1), { width: 10, height: 10 });
+      expect(engine.getBoardSize()).toEqual({ width: 10, height: 10 });
+    });
+  });
+
+  describe('piece packs', () => {
+    const BARS = parsePiecePack({
+      name: 'Bars',
+      pieces: [
+        { name: 'Dot', cells: [{ x: 0, y: 0 }], pointValue: 7, weight: 0 },
+        { name: 'Bar', cells: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }], rotations: [0] },
+      ],
+    });
+
+    it('should only deal dealable pieces in their allowed rotations', () => {
+      const bars = new GameEngine({ mode: 'hard', rng: new SeededRandom(3), piecePack: BARS });
+      for (let i = 0; i < 30 && !bars.getState().gameOver; i++) {
+        for (const shape of bars.getState().queue) {
+          if (shape) {
+            expect(shape).toEqual(BARS.pieces[1].cells);
+          }
+        }
+        const move = bars.getLegalMoves()[0];
+        bars.place(move.queueIndex, move.position);
+      }
+    });
+
+    it('should look shapes up in the active pack and keep fixed point values', () => {
+      new GameEngine({ mode: 'easy', rng: new SeededRandom(3), piecePack: BARS });
+      expect(getShapeIndex([{ x: 0, y: 0 }])).toBe(0);
+      expect(getShapeIndex([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }])).toBe(1);
+      expect(getShapeIndex([{ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 0, y: 2 }])).toBe(-1);
+      expect(getShapePointValue(0, 4)).toBe(7 + 4 * GAMEPLAY_CONFIG.pointsPerTier);
+      expect(getShapePointValue(1, 0)).toBe(1);
+    });
+
+    it('should match classic pentominoes in every rotation and mirror image', () => {
+      new GameEngine({ mode: 'easy', rng: new SeededRandom(3) });
+      const fIndex = getShapeIndex([{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 2 }]);
+      expect(fIndex).toBeGreaterThan(0);
+      // Mirrored F, then mirrored F turned a quarter
+      expect(getShapeIndex([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 1 }, { x: 1, y: 2 }])).toBe(fIndex);
+      expect(getShapeIndex([{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }, { x: 2, y: 1 }, { x: 2, y: 2 }])).toBe(fIndex);
+    });
+
+    it('should deal only shapes it can look up', () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const classic = new GameEngine({ mode: seed % 2 ? 'easy' : 'hard', rng: new SeededRandom(seed) });
+        for (const shape of classic.getState().queue) {
+          expect(getShapeIndex(shape!)).toBeGreaterThan(0);
+        }
+      }
+    });
+
+    it('should only change the pack before the first placement', () => {
+      expect(engine.setPiecePack(BARS)).toBe(true);
+      expect(engine.getReplay().piecePack).toEqual(BARS);
+      engine.place(0, { x: 0, y: 0 });
+      expect(engine.setPiecePack(parsePiecePack({ name: 'Other', pieces: BARS.pieces }))).toBe(false);
+      expect(engine.getPiecePack()).toBe(BARS);
+    });
+
+    it('should leave the classic pieces out of saves and replays', () => {
+      expect(engine.getReplay().piecePack).toBeUndefined();
+      expect(engine.toSaveData().piecePack).toBeUndefined();
+    });
+  });
+
+  describe('board masks', () => {
+    it.each(['cross', 'donut', 'pillars'] as const)('should play a %s game to the end on playable cells only', shape => {
+      const size = { width: 8, height: 8 };
+      const boardMask = createBoardMask(shape, size)!;
+      const masked = new GameEngine({ mode: 'easy', rng: new SeededRandom(77), boardSize: size, boardMask });
+      playMoves(masked, 1000, 'last', () => {
+        masked.getState().board.forEach((row, y) => row.forEach((filled, x) => {
+          if (filled) {
+            expect(boardMask[y][x]).toBe('.');
+          }
+        }));
+      });
+      expect(masked.getState().gameOver).toBe(true);
+    });
+
+    it('should only change the mask before the first placement', () => {
+      const size = { width: 8, height: 8 };
+      const cross = createBoardMask('cross', size);
+      expect(engine.setBoardSize(size, cross)).toBe(true);
+      expect(engine.getBoardMask()).toEqual(cross);
+
+      engine.place(0, { x: 2, y: 2 });
+      expect(engine.setBoardSize(size, null)).toBe(false);
+      expect(engine.getBoardMask()).toEqual(cross);
+    });
+  });
+
+  describe('determinism', () => {
+    it('should play out identically for the same seed', () => {
+      const play = (seed: number) => {
+        const run = new GameEngine({ mode: 'hard', rng: new SeededRandom(seed) });
+        for (let i = 0; i < 30 && !run.getState().gameOver; i++) {
+          const move = run.getLegalMoves()[0];
+          run.place(move.queueIndex, move.position);
+        }
+        return run.getState();
+      };
+      const first = play(99);
+      const second = play(99);
+      expect(second.board).toEqual(first.board);
+      expect(second.queue).toEqual(first.queue);
+      expect(second.score).toBe(first.score);
+    });
+
+    it('should restart from a new seed on reset', () => {
+      engine.place(0, { x: 0, y: 0 });
+      engine.reset(new SeededRandom(1234));
+      const fresh = new GameEngine({ mode: 'hard', rng: new SeededRandom(1234) });
+      expect(engine.getState()).toEqual(fresh.getState());
+    });
+  });
+
+  describe('events', () => {
+    it('should emit shapePlaced for every placement', () => {
+      const placed: number[] = [];
+      engine.on('shapePlaced', ({ queueIndex, turn }) => placed.push(queueIndex * 10 + turn));
+      engine.place(1, { x: 0, y: 0 });
+      expect(placed).toEqual([11]);
+    });
+
+    it('should emit clear events in order with the clear details', () => {
+      const fired: GameEventName[] = [];
+      (['shapePlaced', 'linesCleared', 'scoreChanged', 'levelUp', 'queueRefilled', 'gameOver'] as GameEventName[])
+        .forEach(event => engine.on(event, () => fired.push(event)));
+      let points = 0;
+      engine.on('linesCleared', clear => { points = clear.points; });
+      let score = 0;
+      engine.on('scoreChanged', payload => { score = payload.score; });
+
+      fillRowsAroundShape(engine, engine.getState().queue[0]!);
+      engine.place(0, { x: 0, y: 0 });
+
+      expect(fired).toEqual(['shapePlaced', 'linesCleared', 'scoreChanged']);
+      expect(points).toBeGreaterThan(0);
+      expect(score).toBe(engine.getState().score);
+    });
+
+    it('should emit queueRefilled when the last shape of a turn is placed', () => {
+      let refills = 0;
+      engine.on('queueRefilled', ({ queue }) => {
+        refills++;
+        expect(queue.every(shape => shape !== null)).toBe(true);
+      });
+      for (let i = 0; i < GAMEPLAY_CONFIG.shapesPerTurn; i++) {
+        const move = engine.getLegalMoves()[0];
+        engine.place(move.queueIndex, move.position);
+      }
+      expect(refills).toBe(1);
+    });
+
+    it('should emit gameOver once and stop delivering to removed listeners', () => {
+      let gameOvers = 0;
+      let placements = 0;
+      engine.on('gameOver', () => gameOvers++);
+      const unsubscribe = engine.on('shapePlaced', () => placements++);
+      engine.place(engine.getLegalMoves()[0].queueIndex, engine.getLegalMoves()[0].position);
+      unsubscribe();
+      for (let i = 0; i < 500 && !engine.getState().gameOver; i++) {
+        const move = engine.getLegalMoves()[0];
+        engine.place(move.queueIndex, move.position);
+      }
+      expect(gameOvers).toBe(1);
+      expect(placements).toBe(1);
+    });
+
+    it('should keep notifying other listeners when one throws', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      let notified = false;
+      engine.on('shapePlaced', () => { throw new Error('boom'); });
+      engine.on('shapePlaced', () => { notified = true; });
+      engine.place(0, { x: 0, y: 0 });
+      expect(notified).toBe(true);
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('undo and redo', () => {
+    let easyEngine: GameEngine;
+
+    beforeEach(() => {
+      easyEngine = new GameEngine({ mode: 'easy', rng: new SeededRandom(77) });
+    });
+
+    const playFirstMove = (target: GameEngine) => {
+      const move = target.getLegalMoves()[0];
+      target.place(move.queueIndex, move.position);
+    };
+
+    it('should restore the exact state from before a placement with a clear', () => {
+      fillRowsAroundShape(easyEngine, easyEngine.getState().queue[0]!);
+      playFirstMove(easyEngine);
+      const before = easyEngine.getState();
+      const beforeBlocks = before.placedBlocks.map(block => ({ ...block }));
+
+      fillRowsAroundShape(easyEngine, easyEngine.getState().queue[1]!);
+      expect(easyEngine.place(1, { x: 0, y: 0 })?.clear).not.toBeNull();
+
+      expect(easyEngine.undo()).toBe(true);
+      const after = easyEngine.getState();
+      expect(after.score).toBe(before.score);
+      expect(after.levelProgress).toBe(before.levelProgress);
+      expect(after.linesCleared).toBe(before.linesCleared);
+      expect(after.queue).toEqual(before.queue);
+      expect(after.placedBlocks).toEqual(beforeBlocks);
+    });
+
+    it('should redo an undone placement and deal the same refilled queue', () => {
+      for (let i = 0; i < GAMEPLAY_CONFIG.shapesPerTurn; i++) {
+        playFirstMove(easyEngine);
+      }
+      const refilled = easyEngine.getState();
+
+      easyEngine.undo();
+      expect(easyEngine.getShapesPlacedThisTurn()).toBe(GAMEPLAY_CONFIG.shapesPerTurn - 1);
+      expect(easyEngine.redo()).toBe(true);
+      expect(easyEngine.getState()).toEqual(refilled);
+
+      easyEngine.undo();
+      playFirstMove(easyEngine);
+      expect(easyEngine.getState().queue).toEqual(refilled.queue);
+    });
+
+    it('should drop redo history after a new placement', () => {
+      playFirstMove(easyEngine);
+      easyEngine.undo();
+      expect(easyEngine.canRedo()).toBe(true);
+      playFirstMove(easyEngine);
+      expect(easyEngine.canRedo()).toBe(false);
+      expect(easyEngine.redo()).toBe(false);
+    });
+
+    it('should enforce the per-mode undo limit', () => {
+      const limit = MODE_RULES.easy.undoLimit ?? 0;
+      for (let i = 0; i < limit; i++) {
+        playFirstMove(easyEngine);
+        expect(easyEngine.undo()).toBe(true);
+      }
+      playFirstMove(easyEngine);
+      expect(easyEngine.canUndo()).toBe(false);
+      expect(easyEngine.undo()).toBe(false);
+      expect(easyEngine.getUndoStatus()).toEqual({ undosUsed: limit, undosRemaining: 0 });
+    });
+
+    it('should not allow undo in hard mode', () => {
+      playFirstMove(engine);
+      expect(engine.canUndo()).toBe(false);
+      expect(engine.undo()).toBe(false);
+    });
+
+    it('should emit undone and reset the allowance for a new game', () => {
+      const statuses: (number | null)[] = [];
+      easyEngine.on('undone', status => statuses.push(status.undosRemaining));
+      playFirstMove(easyEngine);
+      easyEngine.undo();
+      expect(statuses).toEqual([(MODE_RULES.easy.undoLimit ?? 0) - 1]);
+
+      easyEngine.reset(new SeededRandom(1));
+      expect(easyEngine.getUndoStatus().undosUsed).toBe(0);
+      expect(easyEngine.canUndo()).toBe(false);
+    });
+
+    it('should keep the game started after undoing back to the first move', () => {
+      const queue = easyEngine.getState().queue;
+      playFirstMove(easyEngine);
+      easyEngine.undo();
+      expect(easyEngine.getState().queue).toEqual(queue);
+      expect(easyEngine.hasStarted()).toBe(true);
+      // A re-deal would hand the undo back and deal the hands the player has already seen
+      expect(easyEngine.setMode('hard')).toBe(false);
+      expect(easyEngine.setBoardSize({ width: 6, height: 6 })).toBe(false);
+      expect(easyEngine.getUndoStatus().undosUsed).toBe(1);
+    });
+  });
+
+  describe('hints', () => {
+    it('should enforce the per-mode hint limit and keep used hints through undo', () => {
+      const easy = new GameEngine({ mode: 'easy', rng: new SeededRandom(8) });
+      const limit = MODE_RULES.easy.hintLimit ?? 0;
+      const statuses: (number | null)[] = [];
+      easy.on('hintUsed', status => statuses.push(status.hintsRemaining));
+      for (let i = 0; i < limit; i++) {
+        expect(easy.useHint()).toBe(true);
+      }
+      expect(easy.canUseHint()).toBe(false);
+      expect(easy.useHint()).toBe(false);
+      expect(statuses).toEqual(Array.from({ length: limit }, (_, i) => limit - i - 1));
+
+      const move = easy.getLegalMoves()[0];
+      easy.place(move.queueIndex, move.position);
+      easy.undo();
+      expect(easy.getHintStatus()).toEqual({ hintsUsed: limit, hintsRemaining: 0 });
+      expect(easy.toSaveData().hintsUsed).toBe(limit);
+
+      easy.reset(new SeededRandom(1));
+      expect(easy.getHintStatus().hintsUsed).toBe(0);
+    });
+
+    it('should not allow hints in hard mode', () => {
+      expect(engine.canUseHint()).toBe(false);
+      expect(engine.useHint()).toBe(false);
+    });
+  });
+
+  describe('bot turns', () => {
+    it('should count bot turns through undo, saves and until the next game', () => {
+      const easy = new GameEngine({ mode: 'easy', rng: new SeededRandom(8) });
+      const move = easy.getLegalMoves()[0];
+      easy.place(move.queueIndex, move.position);
+      easy.recordBotTurn();
+      expect(easy.undo()).toBe(true);
+      expect(easy.getBotTurns()).toBe(1);
+
+      const resumed = new GameEngine({ mode: 'easy', rng: new SeededRandom(1) });
+      resumed.loadSaveData(easy.toSaveData());
+      expect(resumed.getBotTurns()).toBe(1);
+
+      easy.reset(new SeededRandom(1));
+      expect(easy.getBotTurns()).toBe(0);
+    });
+  });
+
+  describe('blitz clock', () => {
+    it('should end the game when the clock runs out and keep the time left in saves', () => {
+      const blitz = new GameEngine({ mode: 'blitz', rng: new SeededRandom(4) });
+      const limitMs = BLITZ_CONFIG.timeLimitSeconds * 1000;
+      const gameOver = vi.fn();
+      blitz.on('gameOver', gameOver);
+      expect(blitz.getTimeLeft()).toBe(limitMs);
+
+      expect(blitz.tickClock(1500)).toBe(false);
+      const resumed = new GameEngine({ mode: 'easy', rng: new SeededRandom(1) });
+      resumed.loadSaveData(JSON.parse(JSON.stringify(blitz.toSaveData())));
+      expect(resumed.getTimeLeft()).toBe(limitMs - 1500);
+
+      expect(blitz.tickClock(limitMs)).toBe(true);
+      expect(blitz.getTimeLeft()).toBe(0);
+      expect(blitz.getState().gameOver).toBe(true);
+      expect(gameOver).toHaveBeenCalledTimes(1);
+      expect(blitz.tickClock(1000)).toBe(false);
+
+      expect(engine.getTimeLeft()).toBeNull();
+      expect(engine.tickClock(limitMs)).toBe(false);
+      expect(engine.getState().gameOver).toBe(false);
+    });
+
+    it('should add bonus seconds for every cleared line', () => {
+      const blitz = new GameEngine({ mode: 'blitz', rng: new SeededRandom(4) });
+      blitz.tickClock(10000);
+      const queueIndex = blitz.getState().queue.findIndex(Boolean);
+      const rows = fillRowsAroundShape(blitz, blitz.getState().queue[queueIndex]!);
+      const result = blitz.place(queueIndex, { x: 0, y: 0 });
+      expect(result?.clear?.linesCleared).toBeGreaterThanOrEqual(rows.length);
+      const bonusMs = result!.clear!.linesCleared * BLITZ_CONFIG.bonusSecondsPerLine * 1000 +
+        (result!.clear!.boardCleared ? BLITZ_CONFIG.boardClearBonusSeconds * 1000 : 0);
+      expect(blitz.getTimeLeft()).toBe(BLITZ_CONFIG.timeLimitSeconds * 1000 - 10000 + bonusMs);
+    });
+  });
+
+  describe('endless mode', () => {
+    it('should clear the oldest blocks instead of ending the game when no piece fits', () => {
+      const zen = new GameEngine({ mode: 'zen', rng: new SeededRandom(2), boardSize: { width: 6, height: 6 } });
+      const reliefs: BoardRelief[] = [];
+      const gameOver = vi.fn();
+      zen.on('boardRelieved', relief => reliefs.push(relief));
+      zen.on('gameOver', gameOver);
+      const random = new SeededRandom(9);
+      let blocksBefore = zen.getState().placedBlocks;
+      while (reliefs.length === 0 && zen.getState().turn < 500) {
+        blocksBefore = zen.getState().placedBlocks;
+        playAgentTurn(zen, randomAgent, random.source);
+      }
+
+      expect(reliefs).toHaveLength(1);
+      expect(gameOver).not.toHaveBeenCalled();
+      const state = zen.getState();
+      expect(state.gameOver).toBe(false);
+      expect(state.boardReliefs).toBe(1);
+      expect(zen.getLegalMoves().length + zen.getTurnedMoves().length).toBeGreaterThan(0);
+      // The cleared blocks are older than every block left on the board
+      const filledBefore = blocksBefore.reduce((sum, block) => sum + block.shape.length, 0);
+      expect(reliefs[0].cells.length).toBeGreaterThanOrEqual(Math.ceil(filledBefore * ZEN_CONFIG.reliefShare));
+      const oldestLeft = Math.min(...state.placedBlocks.map(block => block.totalShapesPlacedAtPlacement));
+      const cleared = blocksBefore.filter(block => !state.placedBlocks.some(left => left.totalShapesPlacedAtPlacement === block.totalShapesPlacedAtPlacement));
+      expect(cleared.every(block => block.totalShapesPlacedAtPlacement < oldestLeft)).toBe(true);
+    });
+  });
+
+  describe('hold slot', () => {
+    let holdEngine: GameEngine;
+
+    beforeEach(() => {
+      holdEngine = new GameEngine({ mode: 'easy', rng: new SeededRandom(99), holdEnabled: true });
+    });
+
+    it('should do nothing while the hold slot is off', () => {
+      expect(engine.isHoldEnabled()).toBe(false);
+      expect(engine.hold(0)).toBeNull();
+      expect(engine.getState().held).toBeNull();
+    });
+
+    it('should stash a piece and count its queue slot as used', () => {
+      const queue = holdEngine.getState().queue;
+      const events: unknown[] = [];
+      holdEngine.on('pieceHeld', event => events.push(event));
+
+      const result = holdEngine.hold(1);
+      expect(result).toEqual({ held: queue[1], released: null, queueRefilled: false, gameOver: false });
+      expect(holdEngine.getState().held).toEqual(queue[1]);
+      expect(holdEngine.getState().queue[1]).toBeNull();
+      expect(holdEngine.getShapesPlacedThisTurn()).toBe(1);
+      expect(events).toEqual([{ queueIndex: 1, held: queue[1], released: null }]);
+      expect(holdEngine.getReplay().moves).toEqual([[1]]);
+    });
+
+    it('should swap with the held piece without using up the slot', () => {
+      const queue = holdEngine.getState().queue;
+      holdEngine.hold(0);
+      const result = holdEngine.hold(2);
+      expect(result?.held).toEqual(queue[2]);
+      expect(result?.released).toEqual(queue[0]);
+      expect(holdEngine.getState().queue[2]).toEqual(queue[0]);
+      expect(holdEngine.getShapesPlacedThisTurn()).toBe(1);
+      // An emptied slot has nothing to hold
+      expect(holdEngine.hold(0)).toBeNull();
+    });
+
+    it('should refill the queue once every slot is placed or held', () => {
+      holdEngine.hold(0);
+      for (const queueIndex of [1, 2]) {
+        const move = holdEngine.getLegalMoves().find(candidate => candidate.queueIndex === queueIndex)!;
+        holdEngine.place(move.queueIndex, move.position);
+      }
+      expect(holdEngine.getState().queue.every(shape => shape !== null)).toBe(true);
+      expect(holdEngine.getState().held).not.toBeNull();
+    });
+
+    it('should undo a hold', () => {
+      const before = holdEngine.getState();
+      holdEngine.hold(0);
+      expect(holdEngine.undo()).toBe(true);
+      expect(holdEngine.getState()).toEqual(before);
+      expect(holdEngine.getShapesPlacedThisTurn()).toBe(0);
+    });
+
+    it('should keep the hold slot on until it is empty', () => {
+      holdEngine.hold(0);
+      expect(holdEngine.setHoldEnabled(false)).toBe(false);
+      expect(holdEngine.isHoldEnabled()).toBe(true);
+      holdEngine.reset(new SeededRandom(5));
+      expect(holdEngine.getState().held).toBeNull();
+      expect(holdEngine.setHoldEnabled(false)).toBe(true);
+    });
+
+    it('should restore the held piece from a save', () => {
+      holdEngine.hold(0);
+      const restored = new GameEngine({ mode: 'easy', rng: new SeededRandom(1) });
+      restored.loadSaveData(holdEngine.toSaveData());
+      expect(restored.getState().held).toEqual(holdEngine.getState().held);
+      expect(restored.isHoldEnabled()).toBe(true);
+    });
+
+    it('should only end the game when neither the queue nor the held piece fits', () => {
+      const board = new Board();
+      for (let y = 0; y < board.getHeight(); y++) {
+        for (let x = 0; x < board.getWidth(); x++) {
+          if (x !== 0 || y !== 0) {
+            board.placeShape([{ x: 0, y: 0 }], { x, y });
+          }
+        }
+      }
+      const domino: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }];
+      const dot: Shape = [{ x: 0, y: 0 }];
+      expect(checkGameOver(board, [domino])).toBe(true);
+      expect(checkGameOver(board, [domino], dot)).toBe(false);
+    });
+  });
+
+  describe('rotation and mirroring', () => {
+    const singlePiecePack = (cells: Shape, options: { rotations?: number[]; mirror?: boolean } = {}) =>
+      parsePiecePack({ name: 'Single', pieces: [{ name: 'Piece', cells, ...options }] });
+    const BAR: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }];
+    const HOOK: Shape = [{ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 0, y: 2 }, { x: 1, y: 2 }];
+
+    it('should rotate a queued piece and record the turn', () => {
+      const easy = new GameEngine({ mode: 'easy', rng: new SeededRandom(3), piecePack: singlePiecePack(BAR) });
+      const before = easy.getState().queue[0]!;
+      const events: unknown[] = [];
+      easy.on('pieceTransformed', event => events.push(event));
+
+      const result = easy.transform(0, 'rotate');
+      expect(result?.shape).not.toEqual(before);
+      expect(getShapeIndex(result!.shape)).toBe(0);
+      expect(easy.getState().queue[0]).toEqual(result!.shape);
+      expect(easy.getState().rotationsUsed).toBe(1);
+      expect(easy.getTransformTokens().rotationsRemaining).toBe(MODE_RULES.easy.rotationTokens);
+      expect(events).toHaveLength(1);
+      expect(easy.getReplay().moves).toEqual([[0, 1]]);
+    });
+
+    it('should refuse turns that change nothing without spending a token', () => {
+      const square = new GameEngine({
+        mode: 'easy',
+        rng: new SeededRandom(3),
+        piecePack: singlePiecePack([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }]),
+      });
+      expect(square.transform(0, 'rotate')).toBeNull();
+      expect(square.transform(0, 'mirror')).toBeNull();
+      expect(square.getState().rotationsUsed).toBe(0);
+      expect(square.getState().mirrorsUsed).toBe(0);
+    });
+
+    it('should only turn pieces into orientations the pack deals', () => {
+      const fixed = new GameEngine({ mode: 'easy', rng: new SeededRandom(3), piecePack: singlePiecePack(BAR, { rotations: [0] }) });
+      expect(fixed.transform(0, 'rotate')).toBeNull();
+      const hooks = new GameEngine({ mode: 'easy', rng: new SeededRandom(3), piecePack: singlePiecePack(HOOK) });
+      // Without the mirror flag the mirrored hook is another piece
+      expect(hooks.transform(0, 'mirror')).toBeNull();
+    });
+
+    it('should stop mirroring once the mode\'s tokens are spent', () => {
+      const limit = MODE_RULES.easy.mirrorTokens ?? 0;
+      const hooks = new GameEngine({ mode: 'easy', rng: new SeededRandom(3), piecePack: singlePiecePack(HOOK, { mirror: true }) });
+      for (let i = 0; i < limit; i++) {
+        expect(hooks.transform(0, 'mirror')).not.toBeNull();
+        expect(hooks.getTransformTokens().mirrorsRemaining).toBe(limit - i - 1);
+      }
+      expect(hooks.transform(0, 'mirror')).toBeNull();
+      expect(hooks.getState().mirrorsUsed).toBe(limit);
+    });
+
+    it('should not allow turns in hard mode', () => {
+      expect(MODE_RULES.hard.rotationTokens).toBe(0);
+      expect(engine.transform(0, 'rotate')).toBeNull();
+      expect(engine.transform(0, 'mirror')).toBeNull();
+      expect(engine.getTurnedMoves()).toEqual([]);
+    });
+
+    it('should keep turns made before an undone placement', () => {
+      const easy = new GameEngine({ mode: 'easy', rng: new SeededRandom(3), piecePack: singlePiecePack(BAR) });
+      easy.transform(0, 'rotate');
+      const turned = easy.getState();
+      const move = easy.getLegalMoves()[0];
+      easy.place(move.queueIndex, move.position);
+      easy.undo();
+      expect(easy.getState()).toEqual(turned);
+      expect(easy.getReplay().moves).toEqual([[0, 1]]);
+    });
+
+    it('should undo a turn on its own and keep its token spent', () => {
+      const easy = new GameEngine({ mode: 'easy', rng: new SeededRandom(3), piecePack: singlePiecePack(BAR) });
+      const move = easy.getLegalMoves()[0];
+      easy.place(move.queueIndex, move.position);
+      const placed = easy.getState();
+      const index = placed.queue.findIndex(shape => shape !== null);
+      easy.transform(index, 'rotate');
+
+      expect(easy.undo()).toBe(true);
+      const undone = easy.getState();
+      expect(undone.queue).toEqual(placed.queue);
+      expect(undone.placedBlocks).toEqual(placed.placedBlocks);
+      expect(undone.rotationsUsed).toBe(1);
+      expect(easy.getReplay().moves).toEqual([[move.queueIndex, move.position.x, move.position.y], [-1, 1]]);
+
+      expect(easy.redo()).toBe(true);
+      expect(easy.getState().rotationsUsed).toBe(1);
+      expect(easy.getReplay().moves).toHaveLength(2);
+    });
+
+    it('should list placements that need a turn', () => {
+      const easy = new GameEngine({ mode: 'easy', rng: new SeededRandom(3), piecePack: singlePiecePack(BAR) });
+      const turned = easy.getTurnedMoves();
+      expect(turned.length).toBeGreaterThan(0);
+      expect(turned.every(move => move.transforms.length === 1 && move.transforms[0] === 'rotate')).toBe(true);
+    });
+
+    it('should only end the game when no reachable orientation fits', () => {
+      new GameEngine({ mode: 'easy', rng: new SeededRandom(3) });
+      const board = new Board();
+      for (let y = 0; y < board.getHeight(); y++) {
+        for (let x = 0; x < board.getWidth(); x++) {
+          if (x !== 0 || y > 1) {
+            board.placeShape([{ x: 0, y: 0 }], { x, y });
+          }
+        }
+      }
+      const domino: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }];
+      expect(checkGameOver(board, [domino])).toBe(true);
+      expect(checkGameOver(board, [domino], null, { rotationsRemaining: 1, mirrorsRemaining: 0 })).toBe(false);
+      // A mirrored domino lies the same way, so a mirror alone doesn't help
+      expect(checkGameOver(board, [domino], null, { rotationsRemaining: 0, mirrorsRemaining: null })).toBe(true);
+    });
+  });
+
+  describe('deferred deals', () => {
+    /**
+     * Places the first legal move of each piece in the opening hand
+     */
+    const emptyQueue = (run: GameEngine) => playMoves(run, GAMEPLAY_CONFIG.shapesPerTurn);
+
+    it('should ask for the next hand and deal it exactly as in place', () => {
+      for (const mode of ['easy', 'hard'] as const) {
+        const inPlace = new GameEngine({ mode, rng: new SeededRandom(31) });
+        const deferred = new GameEngine({ mode, rng: new SeededRandom(31), deferDeals: true });
+        const requests: number[] = [];
+        deferred.on('dealRequested', request => requests.push(request.id));
+
+        emptyQueue(inPlace);
+        emptyQueue(deferred);
+        expect(deferred.isDealPending()).toBe(true);
+        expect(deferred.getState().queue.every(shape => shape === null)).toBe(true);
+
+        const request = deferred.getPendingDeal()!;
+        expect(requests).toEqual([request.id]);
+        expect(deferred.completeDeal(request.id, dealHand(request))).toBe(true);
+        expect(deferred.getState()).toEqual(inPlace.getState());
+        expect(deferred.getReplay().moves).toEqual(inPlace.getReplay().moves);
+        expect(deferred.getRandom().getState()).toBe(inPlace.getRandom().getState());
+      }
+    });
+
+    it('should ignore hands for a deal that is no longer pending', () => {
+      const deferred = new GameEngine({ mode: 'easy', rng: new SeededRandom(32), deferDeals: true });
+      emptyQueue(deferred);
+      const request = deferred.getPendingDeal()!;
+      const hand = dealHand(request);
+      expect(deferred.completeDeal(request.id + 1, hand)).toBe(false);
+
+      // Undo restores the queue from before the last placement, so the deal is dropped
+      expect(deferred.undo()).toBe(true);
+      expect(deferred.isDealPending()).toBe(false);
+      expect(deferred.completeDeal(request.id, hand)).toBe(false);
+
+      // Redo puts the empty queue back and asks again for the same hand
+      const requests: number[] = [];
+      deferred.on('dealRequested', next => requests.push(next.id));
+      expect(deferred.redo()).toBe(true);
+      const again = deferred.getPendingDeal()!;
+      expect(requests).toEqual([again.id]);
+      expect(dealHand(again)).toEqual(hand);
+    });
+
+    it('should deal in place when resuming a game saved while a deal was pending', () => {
+      const deferred = new GameEngine({ mode: 'hard', rng: new SeededRandom(33), deferDeals: true });
+      emptyQueue(deferred);
+      const hand = dealHand(deferred.getPendingDeal()!);
+
+      const resumed = new GameEngine({ mode: 'hard', deferDeals: true });
+      resumed.loadSaveData(deferred.toSaveData());
+      expect(resumed.isDealPending()).toBe(false);
+      expect(resumed.getState().queue).toEqual(hand.shapes);
+    });
+  });
+
+  describe('puzzles', () => {
+    const upsideDown = getPuzzle('upside-down')!;
+    const firstClear = getPuzzle('first-clear')!;
+
+    it('should start with the puzzle\'s blocks and first hand', () => {
+      engine.startPuzzle(firstClear);
+      const state = engine.getState();
+      expect(state.placedBlocks).toHaveLength(firstClear.blocks.length);
+      expect(engine.getBoard().isCellEmpty({ x: 0, y: 7 })).toBe(false);
+      expect(state.queue).toEqual(firstClear.hands[0]);
+      expect(state.puzzle).toEqual({ id: 'first-clear', handsDealt: 1, solved: false });
+      expect(engine.getRules()).toBe(firstClear.rules);
+      expect(engine.getPuzzleResult()).toBeNull();
+    });
+
+    it('should finish as solved once the goal is met, announcing the result before game over', () => {
+      engine.startPuzzle(upsideDown);
+      const events: string[] = [];
+      engine.on('puzzleFinished', result => {
+        events.push('puzzleFinished');
+        expect(result).toEqual({ puzzleId: 'upside-down', solved: true, stars: 3, piecesPlaced: 1, score: engine.getState().score });
+      });
+      engine.on('gameOver', () => events.push('gameOver'));
+
+      engine.transform(0, 'rotate');
+      engine.transform(0, 'rotate');
+      expect(engine.place(0, { x: 2, y: 0 })).not.toBeNull();
+      expect(engine.getState().gameOver).toBe(true);
+      expect(events).toEqual(['puzzleFinished', 'gameOver']);
+    });
+
+    it('should end unsolved when the hands run out', () => {
+      engine.startPuzzle(upsideDown);
+      engine.place(1, { x: 0, y: 6 });
+      engine.place(2, { x: 4, y: 4 });
+      engine.place(0, { x: 0, y: 3 });
+      expect(engine.getState().gameOver).toBe(true);
+      expect(engine.getPuzzleResult()).toMatchObject({ solved: false, stars: 0, piecesPlaced: 3 });
+    });
+
+    it('should undo a finished hand along with the puzzle progress', () => {
+      engine.startPuzzle(firstClear);
+      engine.place(0, { x: 0, y: 0 });
+      engine.place(1, { x: 3, y: 0 });
+      engine.place(2, { x: 0, y: 3 });
+      expect(engine.getState().puzzle?.handsDealt).toBe(2);
+      expect(engine.getState().queue).toEqual(firstClear.hands[1]);
+
+      expect(engine.undo()).toBe(true);
+      expect(engine.getState().puzzle?.handsDealt).toBe(1);
+      expect(engine.getState().queue).toEqual([null, null, firstClear.hands[0][2]]);
+    });
+
+    it('should go back to a checkpoint, even from game over', () => {
+      engine.startPuzzle(upsideDown);
+      const checkpoint = engine.createCheckpoint();
+      const queue = engine.getState().queue;
+      engine.place(1, { x: 0, y: 6 });
+      engine.place(2, { x: 4, y: 4 });
+      engine.place(0, { x: 0, y: 3 });
+      expect(engine.getState().gameOver).toBe(true);
+
+      engine.restoreCheckpoint(checkpoint);
+      expect(engine.getState().gameOver).toBe(false);
+      expect(engine.getState().queue).toEqual(queue);
+      expect(engine.getState().placedBlocks).toHaveLength(upsideDown.blocks.length);
+      expect(engine.getPuzzleResult()).toBeNull();
+      expect(engine.canUndo()).toBe(false);
+
+      // The checkpoint is unchanged by play after restoring it
+      engine.place(1, { x: 0, y: 6 });
+      engine.restoreCheckpoint(checkpoint);
+      expect(engine.getState().queue).toEqual(queue);
+    });
+
+    it('should keep the puzzle\'s board, pack and hold rules until reset', () => {
+      engine.startPuzzle(firstClear);
+      expect(engine.setBoardSize({ width: 10, height: 10 })).toBe(false);
+      expect(engine.setPiecePack(parsePiecePack({ name: 'Dots', pieces: [{ name: 'Dot', cells: [{ x: 0, y: 0 }] }] }))).toBe(false);
+      expect(engine.isHoldEnabled()).toBe(false);
+
+      engine.reset();
+      expect(engine.getPuzzle()).toBeNull();
+      expect(engine.getState().puzzle).toBeNull();
+      expect(engine.getState().placedBlocks).toEqual([]);
+      expect(engine.getRules()).toBe(MODE_RULES.hard);
+    });
+  });
+
+  describe('game over bonus', () => {
+    it('should only award a bonus once the game is over', () => {
+      engine.place(0, { x: 0, y: 0 });
+      expect(engine.awardBonusCell(0, 0)).toBe(0);
+    });
+
+    it('should award points for every remaining cell and empty the board', () => {
+      for (let i = 0; i < 500 && !engine.getState().gameOver; i++) {
+        const move = engine.getLegalMoves()[0];
+        engine.place(move.queueIndex, move.position);
+      }
+      expect(engine.getState().gameOver).toBe(true);
+      expect(engine.getLegalMoves()).toEqual([]);
+
+      const scoreBefore = engine.getState().score;
+      const cells = engine.getGameOverBonusCells();
+      const bonus = engine.awardGameOverBonus();
+      expect(bonus).toBe(cells.reduce((sum, cell) => sum + cell.pointValue, 0));
+      expect(engine.getState().score).toBe(scoreBefore + bonus);
+      expect(engine.getBoard().isEmpty()).toBe(true);
+      expect(engine.getState().placedBlocks).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the browser game's stored results, on a canvas whose drawing calls do nothing
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Game } from '../game';
+import { GameEngine } from '../engine';
+import { SeededRandom } from '../random';
+import { getHighScores } from '../highScores';
+import { getLastReplay } from '../replay';
+import { getDailyDate, getDailyResult } from '../daily';
+import { DEFAULT_SETTINGS } from '../config';
+import { playMoves } from './helpers';
+
+/**
+ * 2D context stand-in: every method is a no-op, text measures 0 wide and gradients take color stops
+ */
+function createContextStub(): CanvasRenderingContext2D {
+  const methods: Record<string, unknown> = {
+    measureText: () => ({ width: 0 }),
+    createLinearGradient: () => ({ addColorStop: () => {} }),
+    createRadialGradient: () => ({ addColorStop: () => {} }),
+  };
+  return new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => key in target ? target[key] : methods[key as string] ?? (() => {}),
+    set: (target, key, value) => {
+      target[key] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+}
+
+/**
+ * Starts a game in a mode and waits for its first hand (deals run as solver jobs)
+ * @returns The game and its engine
+ */
+async function startGame(mode: 'hard' | 'blitz'): Promise<{ game: Game; engine: GameEngine }> {
+  const game = new Game(document.createElement('canvas'), { ...DEFAULT_SETTINGS, mode, soundEnabled: false }, new SeededRandom(1));
+  const engine = (game as unknown as { engine: GameEngine }).engine;
+  await waitForDeal(engine);
+  return { game, engine };
+}
+
+/**
+ * Waits until the engine's pending deal (if any) has arrived
+ */
+async function waitForDeal(engine: GameEngine): Promise<void> {
+  while (engine.isDealPending()) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+describe('Game', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(createContextStub());
+    // jsdom has no object URLs; the renderer makes one for its block icon
+    URL.createObjectURL = () => 'blob:icon';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should record a blitz game whose clock runs out on an empty board', async () => {
+    const { engine } = await startGame('blitz');
+    // Fill the rest of the rows the first piece covers at (0, 0), so placing it clears the whole board
+    const shape = engine.getState().queue[0]!;
+    const board = engine.getBoard();
+    for (const y of new Set(shape.map(cell => cell.y))) {
+      for (let x = 0; x < board.getWidth(); x++) {
+        if (!shape.some(cell => cell.x === x && cell.y === y)) {
+          board.placeShape([{ x: 0, y: 0 }], { x, y });
+        }
+      }
+    }
+    engine.place(0, { x: 0, y: 0 });
+    const { score } = engine.getState();
+    expect(score).toBeGreaterThan(0);
+    expect(board.getFillRatio()).toBe(0);
+
+    vi.useFakeTimers();
+    engine.tickClock(engine.getTimeLeft()!);
+    expect(engine.getState().gameOver).toBe(true);
+    vi.runAllTimers();
+
+    expect(getHighScores('blitz').ever).toBe(score);
+    expect(getLastReplay()?.score).toBe(score);
+  });
+
+  it('should keep the ranked daily result current while the attempt is played', async () => {
+    const { game, engine } = await startGame('hard');
+    expect(game.startDaily(true)).toBe(true);
+    await waitForDeal(engine);
+    expect(getDailyResult(getDailyDate())).toMatchObject({ score: 0, piecesPlaced: 0, finished: false });
+
+    playMoves(engine, 2);
+    const { score, totalShapesPlaced } = engine.getState();
+    expect(getDailyResult(getDailyDate())).toMatchObject({ score, piecesPlaced: totalShapesPlaced, finished: false });
+    expect(totalShapesPlaced).toBe(2);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Helpers shared by the test files
+ */
+
+import { expect } from 'vitest';
+import { GameEngine, LegalMove } from '../engine';
+import { Shape } from '../types';
+
+/**
+ * Plays a number of legal moves, stopping early at game over
+ * When nothing fits as dealt, a piece is turned first, so recorded games also cover transform moves
+ * @param pick - Which legal move to play each time: the first, or the last to follow a different line
+ * @param onPlaced - Called after each placement with the move and the piece as it was placed
+ */
+export function playMoves(
+  engine: GameEngine,
+  count: number,
+  pick: 'first' | 'last' = 'first',
+  onPlaced?: (move: LegalMove, shape: Shape) => void
+): void {
+  for (let i = 0; i < count && !engine.getState().gameOver; i++) {
+    const turned = engine.getTurnedMoves()[0];
+    if (engine.getLegalMoves().length === 0 && turned) {
+      turned.transforms.forEach(transform => engine.transform(turned.queueIndex, transform));
+    }
+    const moves = engine.getLegalMoves();
+    expect(moves.length, `no legal move before move ${i + 1} of a game that is not over`).toBeGreaterThan(0);
+    const move = pick === 'first' ? moves[0] : moves[moves.length - 1];
+    const shape = engine.getState().queue[move.queueIndex]!;
+    engine.place(move.queueIndex, move.position);
+    onPlaced?.(move, shape);
+  }
+}
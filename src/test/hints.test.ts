@@ -0,0 +1,54 @@
+/**
+ * Tests for the move hints built from solver plans
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHint, explainHint } from '../hints';
+import { lookaheadAgent } from '../agents';
+import { Board } from '../board';
+import { Shape, TransformTokens } from '../types';
+
+const VERTICAL_DOMINO: Shape = [{ x: 0, y: 0 }, { x: 0, y: 1 }];
+const IPIECE: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }];
+const NO_TOKENS: TransformTokens = { rotationsRemaining: 0, mirrorsRemaining: 0 };
+
+describe('hints', () => {
+  it('should explain which lines a move clears, numbered from 1', () => {
+    expect(explainHint({ rows: [2], columns: [4] }, [], true, 3)).toBe('Clears row 3 and column 5');
+    expect(explainHint({ rows: [0, 1, 7], columns: [] }, [], true, 3)).toBe('Clears rows 1, 2 and 8');
+    expect(explainHint({ rows: [], columns: [] }, [], true, 2)).toBe('Leaves room for the rest of the hand');
+    expect(explainHint({ rows: [], columns: [] }, [], false, 2)).toBe('Not every piece fits; this places the most');
+    expect(explainHint({ rows: [], columns: [] }, ['mirror', 'rotate', 'rotate'], true, 1))
+      .toBe('Keeps the board as open as possible (mirror it and rotate it twice first)');
+  });
+
+  it('should hint the solver move that clears a line', () => {
+    // Row 0 is full except for a four-cell slot on the left
+    const board = new Board();
+    for (let x = 4; x < 8; x++) {
+      board.placeShape([{ x: 0, y: 0 }], { x, y: 0 });
+    }
+    const queue = [null, IPIECE, null];
+    const steps = lookaheadAgent.planTurn({ board, queue, tokens: NO_TOKENS }, Math.random);
+    expect(createHint(board, queue, steps)).toEqual({
+      queueIndex: 1,
+      transforms: [],
+      shape: IPIECE,
+      position: { x: 0, y: 0 },
+      lines: { rows: [0], columns: [] },
+      explanation: 'Clears row 1',
+    });
+  });
+
+  it('should show turned pieces in their placed orientation', () => {
+    const board = new Board();
+    const hint = createHint(board, [VERTICAL_DOMINO], [{ queueIndex: 0, transforms: ['rotate'], position: { x: 2, y: 5 } }]);
+    expect(hint?.shape).toEqual([{ x: 0, y: 0 }, { x: 1, y: 0 }]);
+    expect(hint?.position).toEqual({ x: 2, y: 5 });
+    expect(hint?.explanation).toBe('Keeps the board as open as possible (rotate it once first)');
+  });
+
+  it('should give no hint for an empty plan', () => {
+    expect(createHint(new Board(), [IPIECE], [])).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for piece pack parsing and storage
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parsePiecePack, isValidPiecePack, loadStoredPiecePack, storePiecePack, CLASSIC_PIECE_PACK } from '../piecePacks';
+import { STORAGE_KEYS } from '../config';
+
+const TWO_PIECES = {
+  name: 'Two pieces',
+  pieces: [
+    { name: 'Bar', cells: [{ x: 2, y: 5 }, { x: 3, y: 5 }, { x: 4, y: 5 }], weight: 3, rotations: [1, 0, 1] },
+    { name: 'Dot', cells: [{ x: 0, y: 0 }], pointValue: 7 },
+  ],
+};
+
+describe('piecePacks', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should normalize cells and fill in defaults', () => {
+    const pack = parsePiecePack(TWO_PIECES);
+    expect(pack.name).toBe('Two pieces');
+    expect(pack.pieces[0]).toEqual({
+      name: 'Bar',
+      cells: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }],
+      weight: 3,
+      rotations: [0, 1],
+      mirror: false,
+    });
+    expect(pack.pieces[1]).toEqual({
+      name: 'Dot',
+      cells: [{ x: 0, y: 0 }],
+      pointValue: 7,
+      weight: 1,
+      rotations: [0, 1, 2, 3],
+      mirror: false,
+    });
+  });
+
+  it('should accept its own output', () => {
+    const pack = parsePiecePack(TWO_PIECES);
+    expect(parsePiecePack(pack)).toEqual(pack);
+  });
+
+  it.each([
+    ['disconnected cells', { cells: [{ x: 0, y: 0 }, { x: 1, y: 1 }] }, /not connected/],
+    ['repeated cells', { cells: [{ x: 0, y: 0 }, { x: 0, y: 0 }] }, /twice/],
+    ['non-integer cells', { cells: [{ x: 0.5, y: 0 }] }, /integer/],
+    ['oversized pieces', { cells: [0, 1, 2, 3, 4, 5].map(x => ({ x, y: 0 })) }, /wider or taller/],
+    ['negative weights', { weight: -1 }, /weight/],
+    ['unknown rotations', { rotations: [4] }, /rotations/],
+    ['negative point values', { pointValue: -2 }, /pointValue/],
+    ['non-boolean mirror flags', { mirror: 'yes' }, /mirror/],
+  ])('should reject %s', (_, override, message) => {
+    const piece = { name: 'Bad', cells: [{ x: 0, y: 0 }], ...override };
+    expect(() => parsePiecePack({ name: 'Broken', pieces: [piece] })).toThrow(message);
+  });
+
+  it('should reject packs nothing can be dealt from', () => {
+    expect(() => parsePiecePack({ name: 'Empty', pieces: [] })).toThrow();
+    expect(() => parsePiecePack({ name: 'Idle', pieces: [{ name: 'Dot', cells: [{ x: 0, y: 0 }], weight: 0 }] }))
+      .toThrow(/weight above 0/);
+    expect(isValidPiecePack({ pieces: TWO_PIECES.pieces })).toBe(false);
+  });
+
+  it('should load the classic pieces from the bundled pack', () => {
+    expect(CLASSIC_PIECE_PACK.pieces).toHaveLength(26);
+    expect(CLASSIC_PIECE_PACK.pieces[0]).toMatchObject({ name: 'Monomino', pointValue: 0, weight: 0 });
+    expect(CLASSIC_PIECE_PACK.pieces.slice(1, 12).every(piece => piece.weight === 1)).toBe(true);
+  });
+
+  it('should include the twelve free pentominoes with point values and weights', () => {
+    const pentominoes = CLASSIC_PIECE_PACK.pieces.filter(piece => piece.name.startsWith('Pentomino'));
+    expect(pentominoes.map(piece => piece.name.slice(-1)).join('')).toBe('FILNPTUVWXYZ');
+    expect(pentominoes.every(piece =>
+      piece.cells.length === 5 && piece.pointValue !== undefined && piece.weight > 0
+    )).toBe(true);
+    // Only the chiral pentominoes need their mirror image dealt
+    expect(pentominoes.filter(piece => piece.mirror).map(piece => piece.name.slice(-1)).join('')).toBe('FLNPYZ');
+  });
+
+  it('should remember the chosen pack', () => {
+    const pack = parsePiecePack(TWO_PIECES);
+    storePiecePack(pack);
+    expect(loadStoredPiecePack()).toEqual(pack);
+    storePiecePack(null);
+    expect(loadStoredPiecePack()).toBeNull();
+  });
+
+  it('should ignore an unreadable stored pack', () => {
+    localStorage.setItem(STORAGE_KEYS.piecePack, '{"name": "Half"}');
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadStoredPiecePack()).toBeNull();
+    warnSpy.mockRestore();
+  });
+});
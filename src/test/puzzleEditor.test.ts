@@ -0,0 +1,122 @@
+/**
+ * Tests for the puzzle editor's tools and puzzle files
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PuzzleEditor } from '../puzzleEditor';
+import { PUZZLES } from '../puzzles';
+import firstClearData from '../puzzles/first-clear.json';
+
+describe('PuzzleEditor', () => {
+  let editor: PuzzleEditor;
+
+  beforeEach(() => {
+    editor = new PuzzleEditor();
+  });
+
+  it('should start with an open standard board and one empty hand', () => {
+    expect(editor.getBoardSize()).toEqual({ width: 8, height: 8 });
+    expect(editor.getBoard().isEmpty()).toBe(true);
+    expect(editor.getHandPosition()).toEqual({ index: 0, count: 1 });
+    expect(editor.getHandShapes()).toEqual([null, null, null]);
+    expect(() => editor.toPuzzle()).toThrow('Hand 1 must have 1 to 3 pieces');
+  });
+
+  it('should stamp whole pieces only where they fit', () => {
+    editor.setBrush({ piece: 'T', turns: 2, mirror: false });
+    expect(editor.tapCell({ x: 0, y: 0 })).toBe(true);
+    expect(editor.tapCell({ x: 1, y: 1 })).toBe(false);
+    expect(editor.tapCell({ x: 7, y: 7 })).toBe(false);
+    expect(editor.getData().blocks).toEqual([{ piece: 'T', turns: 2, x: 0, y: 0 }]);
+    expect(editor.getPlacedBlocks()[0].shapeIndex).toBe(6);
+    expect(editor.getBoard().isCellEmpty({ x: 1, y: 1 })).toBe(false);
+  });
+
+  it('should paint single cells as the selected piece and clear them on a second tap', () => {
+    editor.setTool('paint');
+    editor.setBrush({ piece: 'Z', turns: 0, mirror: false });
+    expect(editor.tapCell({ x: 3, y: 4 })).toBe(true);
+    expect(editor.getData().blocks).toEqual([{ paint: 'Z', x: 3, y: 4 }]);
+    expect(editor.getPlacedBlocks()[0]).toMatchObject({ shape: [{ x: 0, y: 0 }], shapeIndex: 8 });
+    expect(editor.tapCell({ x: 3, y: 4 })).toBe(true);
+    expect(editor.getData().blocks).toBeUndefined();
+  });
+
+  it('should block cells and erase blocks and blocked cells', () => {
+    editor.setTool('blocked');
+    expect(editor.tapCell({ x: 2, y: 2 })).toBe(true);
+    expect(editor.getData().board?.[2]).toBe('..#.....');
+    editor.setTool('piece');
+    expect(editor.tapCell({ x: 2, y: 1 })).toBe(false);
+    expect(editor.tapCell({ x: 4, y: 4 })).toBe(true);
+
+    editor.setTool('erase');
+    expect(editor.tapCell({ x: 5, y: 5 })).toBe(true);
+    expect(editor.tapCell({ x: 2, y: 2 })).toBe(true);
+    expect(editor.tapCell({ x: 2, y: 2 })).toBe(false);
+    // A plain standard board is left out of the file
+    expect(editor.getData()).not.toHaveProperty('board');
+    expect(editor.getData()).not.toHaveProperty('blocks');
+  });
+
+  it('should refuse brushes the classic pack never deals', () => {
+    expect(editor.setBrush({ piece: 'J', turns: 0, mirror: true })).toBe(false);
+    expect(editor.setBrush({ piece: 'Blob', turns: 0, mirror: false })).toBe(false);
+    expect(editor.getBrush()).toEqual({ piece: 'O', turns: 0, mirror: false });
+  });
+
+  it('should build hands from the selected piece', () => {
+    editor.setBrush({ piece: 'I', turns: 1, mirror: false });
+    expect(editor.tapHandSlot(2)).toBe(true);
+    editor.setBrush({ piece: 'Domino', turns: 0, mirror: false });
+    expect(editor.tapHandSlot(1)).toBe(true);
+    expect(editor.tapHandSlot(2)).toBe(true);
+    expect(editor.tapHandSlot(2)).toBe(true);
+    expect(editor.getData().hands).toEqual([[{ piece: 'I', turns: 1 }, 'Domino']]);
+
+    editor.addHand();
+    expect(editor.getHandPosition()).toEqual({ index: 1, count: 2 });
+    editor.tapHandSlot(0);
+    editor.tapHandSlot(2);
+    // Tapping a filled slot takes its piece out
+    expect(editor.tapHandSlot(0)).toBe(true);
+    expect(editor.getData().hands[1]).toEqual(['Domino']);
+    editor.tapHandSlot(1);
+    expect(editor.getData().hands[1]).toEqual(['Domino', 'Domino']);
+
+    editor.selectHand(0);
+    expect(editor.removeHand()).toBe(true);
+    expect(editor.removeHand()).toBe(false);
+    expect(editor.getData().hands).toEqual([['Domino', 'Domino']]);
+  });
+
+  it('should drop blocks that no longer fit when the board shrinks', () => {
+    editor.tapCell({ x: 0, y: 0 });
+    editor.tapCell({ x: 6, y: 6 });
+    editor.setBoardSize({ width: 6, height: 6 });
+    expect(editor.getData().board).toHaveLength(6);
+    expect(editor.getData().blocks).toEqual([{ piece: 'O', x: 0, y: 0 }]);
+    editor.setBoardSize({ width: 2, height: 40 });
+    expect(editor.getBoardSize()).toEqual({ width: 4, height: 16 });
+  });
+
+  it('should load a puzzle file and write it back unchanged', () => {
+    editor.load(firstClearData);
+    expect(editor.getData()).toEqual(firstClearData);
+    expect(editor.toPuzzle()).toEqual(PUZZLES.find(puzzle => puzzle.id === 'first-clear'));
+    expect(() => editor.load({ ...firstClearData, hands: [] })).toThrow('at least one hand');
+    // A failed load keeps the puzzle being edited
+    expect(editor.getData()).toEqual(firstClearData);
+  });
+
+  it('should turn a finished design into a playable puzzle', () => {
+    editor.setTitle('two-lines', 'Two Lines');
+    editor.setGoal({ type: 'linesAtOnce', lines: 2 });
+    editor.setStars(3, 2);
+    editor.setTokens(1, 0);
+    editor.tapHandSlot(0);
+    const puzzle = editor.toPuzzle();
+    expect(puzzle).toMatchObject({ id: 'two-lines', name: 'Two Lines', goal: { type: 'linesAtOnce', lines: 2 }, stars: { two: 3, three: 2 } });
+    expect(puzzle.rules.rotationTokens).toBe(1);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for the puzzle solvability check
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solvePuzzle } from '../puzzleSolver';
+import { PUZZLES, parsePuzzle } from '../puzzles';
+import { GameEngine } from '../engine';
+import { SeededRandom } from '../random';
+import { getActivePiecePack, getShapePointValues, getShapeColorScheme } from '../shapes';
+import { PUZZLE_CONFIG } from '../config';
+
+describe('solvePuzzle', () => {
+  it('should solve every built-in puzzle with a line of play that works', () => {
+    for (const puzzle of PUZZLES) {
+      const solution = solvePuzzle(puzzle);
+      expect(solution.steps, puzzle.id).not.toBeNull();
+
+      // Replaying the steps solves the puzzle
+      const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(PUZZLE_CONFIG.seed) });
+      engine.startPuzzle(puzzle);
+      for (const step of solution.steps!) {
+        step.transforms.forEach(transform => engine.transform(step.queueIndex, transform));
+        expect(engine.place(step.queueIndex, step.position)).not.toBeNull();
+      }
+      expect(engine.getPuzzleResult()?.solved, puzzle.id).toBe(true);
+    }
+  });
+
+  it('should report a puzzle that can\'t be solved once every line is tried', () => {
+    const puzzle = parsePuzzle({
+      id: 'impossible',
+      name: 'Impossible',
+      hands: [['Monomino', 'Domino']],
+      goal: { type: 'linesAtOnce', lines: 1 },
+      stars: { two: 2, three: 1 },
+    });
+    expect(solvePuzzle(puzzle)).toMatchObject({ steps: null, exhaustive: true });
+  });
+
+  it('should give up when the node budget runs out', () => {
+    const solution = solvePuzzle(PUZZLES.find(puzzle => puzzle.id === 'pillars')!, 5);
+    expect(solution).toEqual({ steps: null, nodes: 5, exhaustive: false });
+  });
+
+  it('should leave the shape globals as they were', () => {
+    const pack = getActivePiecePack();
+    const pointValues = getShapePointValues();
+    const colors = getShapeColorScheme();
+    solvePuzzle(PUZZLES[0]);
+    expect(getActivePiecePack()).toBe(pack);
+    expect(getShapePointValues()).toEqual(pointValues);
+    expect(getShapeColorScheme()).toEqual(colors);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for puzzle parsing, goals, ratings and stored progress
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parsePuzzle, PUZZLES, getPuzzle, isPuzzleGoalMet, ratePuzzle, getPuzzleProgress, recordPuzzleResult } from '../puzzles';
+import { LineClearResult } from '../types';
+import { PUZZLE_CONFIG, STORAGE_KEYS } from '../config';
+
+const SMALL_PUZZLE = {
+  id: 'small',
+  name: 'Small',
+  board: ['......', '......', '......', '......', '..#...', '......'],
+  blocks: [{ piece: 'Tromino I', x: 0, y: 5 }, { piece: 'Tromino L', x: 4, y: 0, turns: 1 }],
+  hands: [['Domino', { piece: 'T', turns: 2 }]],
+  goal: { type: 'linesAtOnce', lines: 2 },
+  stars: { two: 2, three: 1 },
+  rotations: 1,
+};
+
+function clearOf(linesCleared: number, boardCleared: boolean): LineClearResult {
+  return { rows: [], columns: [], linesCleared, points: 0, boardCleared, cells: [] };
+}
+
+describe('puzzles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should turn pieces, size the board from its rows and fill in the rules', () => {
+    const puzzle = parsePuzzle(SMALL_PUZZLE);
+    expect(puzzle.boardSize).toEqual({ width: 6, height: 6 });
+    expect(puzzle.boardMask).toEqual(SMALL_PUZZLE.board);
+    expect(puzzle.blocks[0]).toEqual({ shape: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }], position: { x: 0, y: 5 }, shapeIndex: 2 });
+    // The T is dealt pointing down after two quarter turns
+    expect(puzzle.hands[0][1]).toEqual(expect.arrayContaining([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 1, y: 1 }]));
+    expect(puzzle.rules).toEqual({ ...PUZZLE_CONFIG.rules, rotationTokens: 1 });
+  });
+
+  it('should fill a single cell for a painted block, colored and scored as the named piece', () => {
+    const puzzle = parsePuzzle({ ...SMALL_PUZZLE, blocks: [{ paint: 'T', x: 3, y: 3 }] });
+    expect(puzzle.blocks).toEqual([{ shape: [{ x: 0, y: 0 }], position: { x: 3, y: 3 }, shapeIndex: 6 }]);
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, blocks: [{ paint: 'Blob', x: 0, y: 0 }] })).toThrow('unknown piece "Blob"');
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, blocks: [{ paint: 'T', x: 2, y: 4 }] })).toThrow('not open');
+  });
+
+  it('should default to a plain standard board with no blocks', () => {
+    const puzzle = parsePuzzle({ ...SMALL_PUZZLE, board: undefined, blocks: undefined });
+    expect(puzzle.boardSize).toEqual({ width: 8, height: 8 });
+    expect(puzzle.boardMask).toBeNull();
+    expect(puzzle.blocks).toEqual([]);
+  });
+
+  it('should reject invalid puzzles with a helpful message', () => {
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, id: '' })).toThrow('needs an id');
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, hands: [] })).toThrow('at least one hand');
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, hands: [['O', 'O', 'O', 'O']] })).toThrow('Hand 1 must have 1 to 3 pieces');
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, hands: [['Blob']] })).toThrow('unknown piece "Blob"');
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, board: ['...', '...'] })).toThrow('Puzzle board must be');
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, goal: { type: 'win' } })).toThrow('goal type');
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, goal: { type: 'score', points: 0 } })).toThrow('goal points');
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, stars: { two: 1, three: 2 } })).toThrow('stars.three');
+    // A mirrored J is an L, which the J is never dealt as
+    expect(() => parsePuzzle({ ...SMALL_PUZZLE, hands: [[{ piece: 'J', mirror: true }]] })).toThrow('never dealt in');
+  });
+
+  it('should reject blocks that leave the open cells, overlap or fill a line', () => {
+    const withBlocks = (blocks: unknown[]) => parsePuzzle({ ...SMALL_PUZZLE, blocks });
+    expect(() => withBlocks([{ piece: 'I', x: 4, y: 0 }])).toThrow('off the board or not open');
+    expect(() => withBlocks([{ piece: 'O', x: 2, y: 3 }])).toThrow('not open');
+    expect(() => withBlocks([{ piece: 'O', x: 0, y: 0 }, { piece: 'Domino', x: 1, y: 1 }])).toThrow('overlaps');
+    expect(() => withBlocks([{ piece: 'Tromino I', x: 0, y: 0 }, { piece: 'Tromino I', x: 3, y: 0 }])).toThrow('whole row or column');
+  });
+
+  it('should ship valid built-in puzzles with unique ids', () => {
+    expect(PUZZLES.length).toBeGreaterThan(0);
+    expect(new Set(PUZZLES.map(puzzle => puzzle.id)).size).toBe(PUZZLES.length);
+    expect(getPuzzle(PUZZLES[0].id)).toBe(PUZZLES[0]);
+    expect(getPuzzle('missing')).toBeNull();
+  });
+
+  it('should check each kind of goal against a clear', () => {
+    expect(isPuzzleGoalMet({ type: 'clearBoard' }, clearOf(1, true), 0)).toBe(true);
+    expect(isPuzzleGoalMet({ type: 'clearBoard' }, clearOf(2, false), 0)).toBe(false);
+    expect(isPuzzleGoalMet({ type: 'linesAtOnce', lines: 2 }, clearOf(2, false), 0)).toBe(true);
+    expect(isPuzzleGoalMet({ type: 'linesAtOnce', lines: 3 }, clearOf(2, false), 0)).toBe(false);
+    expect(isPuzzleGoalMet({ type: 'score', points: 50 }, clearOf(1, false), 50)).toBe(true);
+    expect(isPuzzleGoalMet({ type: 'score', points: 50 }, clearOf(1, false), 49)).toBe(false);
+  });
+
+  it('should rate solves by the pieces placed', () => {
+    const puzzle = parsePuzzle({ ...SMALL_PUZZLE, stars: { two: 5, three: 3 } });
+    expect(ratePuzzle(puzzle, true, 3)).toBe(3);
+    expect(ratePuzzle(puzzle, true, 5)).toBe(2);
+    expect(ratePuzzle(puzzle, true, 6)).toBe(1);
+    expect(ratePuzzle(puzzle, false, 1)).toBe(0);
+  });
+
+  it('should keep the best rating per puzzle', () => {
+    const result = { puzzleId: 'small', solved: true, stars: 2, piecesPlaced: 4, score: 30 };
+    expect(recordPuzzleResult(result)).toBe(true);
+    expect(recordPuzzleResult({ ...result, stars: 1 })).toBe(false);
+    expect(recordPuzzleResult({ ...result, solved: false, stars: 0 })).toBe(false);
+    expect(getPuzzleProgress()).toEqual({ small: 2 });
+    expect(recordPuzzleResult({ ...result, stars: 3 })).toBe(true);
+    expect(getPuzzleProgress()).toEqual({ small: 3 });
+  });
+
+  it('should ignore corrupted progress', () => {
+    localStorage.setItem(STORAGE_KEYS.puzzleProgress, '{not json');
+    expect(getPuzzleProgress()).toEqual({});
+    localStorage.setItem(STORAGE_KEYS.puzzleProgress, JSON.stringify({ small: 'three', other: 1 }));
+    expect(getPuzzleProgress()).toEqual({ other: 1 });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for seeded random generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SeededRandom, randomInt, shuffleInPlace } from '../random';
+import { Board } from '../board';
+import { generateShapes, generateEasyShapes, randomizeShapePointValues, getShapePointValue } from '../shapes';
+
+describe('random', () => {
+  describe('SeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = new SeededRandom(1234);
+      const b = new SeededRandom(1234);
+      const seqA = Array.from({ length: 10 }, () => a.next());
+      const seqB = Array.from({ length: 10 }, () => b.next());
+      expect(seqA).toEqual(seqB);
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      const a = new SeededRandom(1);
+      const b = new SeededRandom(2);
+      expect(a.next()).not.toBe(b.next());
+    });
+
+    it('should return values in [0, 1)', () => {
+      const rng = new SeededRandom(99);
+      for (let i = 0; i < 1000; i++) {
+        const value = rng.next();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('should resume from a saved state', () => {
+      const rng = new SeededRandom(7);
+      rng.next();
+      const state = rng.getState();
+      const expected = [rng.next(), rng.next()];
+      rng.setState(state);
+      expect([rng.next(), rng.next()]).toEqual(expected);
+      expect(rng.getSeed()).toBe(7);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should pick integers within range', () => {
+      const rng = new SeededRandom(5);
+      for (let i = 0; i < 100; i++) {
+        const value = randomInt(4, rng.source);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(4);
+      }
+    });
+
+    it('should shuffle deterministically without losing items', () => {
+      const first = shuffleInPlace([1, 2, 3, 4, 5, 6], new SeededRandom(3).source);
+      const second = shuffleInPlace([1, 2, 3, 4, 5, 6], new SeededRandom(3).source);
+      expect(first).toEqual(second);
+      expect([...first].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+  });
+
+  describe('seeded game randomness', () => {
+    it('should generate the same queues for the same seed', () => {
+      expect(generateShapes(new SeededRandom(42).source)).toEqual(generateShapes(new SeededRandom(42).source));
+      expect(generateEasyShapes(new Board(), new SeededRandom(42).source))
+        .toEqual(generateEasyShapes(new Board(), new SeededRandom(42).source));
+    });
+
+    it('should assign the same point values for the same seed', () => {
+      randomizeShapePointValues(new SeededRandom(11).source);
+      const first = Array.from({ length: 13 }, (_, i) => getShapePointValue(i));
+      randomizeShapePointValues(new SeededRandom(11).source);
+      const second = Array.from({ length: 13 }, (_, i) => getShapePointValue(i));
+      expect(first).toEqual(second);
+      expect(first[0]).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for replay recording, playback and storage
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameEngine } from '../engine';
+import { SeededRandom } from '../random';
+import { ReplayPlayer, encodeReplay, decodeReplay, recordReplay, getLastReplay, getBestReplay } from '../replay';
+import { GameReplay } from '../types';
+import { createBoardMask } from '../boardMasks';
+import { parsePiecePack } from '../piecePacks';
+import { greedyAgent, playAgentTurn } from '../agents';
+import { playMoves } from './helpers';
+
+/**
+ * Runs a replay to the end and returns the engine it was played on
+ */
+function playReplay(replay: GameReplay): GameEngine {
+  const player = new ReplayPlayer(replay);
+  while (!player.isFinished()) {
+    player.step();
+  }
+  return player.getEngine();
+}
+
+describe('replay', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should record the seed, mode and every move', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(17) });
+    playMoves(engine, 4, 'last');
+    const replay = engine.getReplay();
+    expect(replay.seed).toBe(17);
+    expect(replay.mode).toBe('easy');
+    expect(replay.moves).toHaveLength(4);
+    expect(replay.score).toBe(engine.getState().score);
+  });
+
+  it('should reproduce the game exactly when played back', () => {
+    const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(2024) });
+    playMoves(engine, 500, 'last');
+    expect(engine.getState().gameOver).toBe(true);
+
+    const replayed = playReplay(engine.getReplay());
+    expect(replayed.getState()).toEqual(engine.getState());
+  });
+
+  it('should drop undone moves from the log', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(8) });
+    playMoves(engine, 3, 'last');
+    engine.undo();
+    playMoves(engine, 2, 'last');
+    const replay = engine.getReplay();
+    expect(replay.moves).toHaveLength(4);
+    expect(playReplay(replay).getState()).toEqual(engine.getState());
+  });
+
+  it('should replay a game with an undone turn to the same end', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(4) });
+    const index = engine.getState().queue.findIndex((_, queueIndex) => engine.transform(queueIndex, 'mirror'));
+    expect(index).toBeGreaterThanOrEqual(0);
+    engine.undo();
+    while (!engine.getState().gameOver) {
+      playAgentTurn(engine, greedyAgent, () => 0);
+    }
+    const replay = engine.getReplay();
+    expect(replay.moves[0]).toEqual([-1, 2]);
+
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+    expect(playReplay(replay).getState()).toEqual(engine.getState());
+  });
+
+  it('should stay replayable when the mode changes before the first move', () => {
+    const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(9) });
+    engine.setMode('easy');
+    playMoves(engine, 6, 'last');
+    expect(playReplay(engine.getReplay()).getState()).toEqual(engine.getState());
+  });
+
+  it('should keep the mode of a game in progress so the whole log replays', () => {
+    const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(9) });
+    playMoves(engine, 4, 'last');
+    expect(engine.setMode('easy')).toBe(false);
+    expect(engine.getMode()).toBe('hard');
+    playMoves(engine, 8, 'last');
+    const replay = engine.getReplay();
+    expect(replay.mode).toBe('hard');
+    expect(playReplay(replay).getState()).toEqual(engine.getState());
+  });
+
+  it('should replay games on other board sizes', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(6), boardSize: { width: 10, height: 6 } });
+    playMoves(engine, 12, 'last');
+    const replay = engine.getReplay();
+    expect(replay.boardSize).toEqual({ width: 10, height: 6 });
+    expect(playReplay(replay).getState()).toEqual(engine.getState());
+  });
+
+  it('should treat replays without a board size as 8x8', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(6) });
+    playMoves(engine, 5, 'last');
+    const { boardSize, ...legacy } = engine.getReplay();
+    expect(boardSize).toEqual({ width: 8, height: 8 });
+    expect(decodeReplay(encodeReplay(legacy))).toEqual(legacy);
+    expect(playReplay(legacy).getState()).toEqual(engine.getState());
+  });
+
+  it('should replay games on masked boards', () => {
+    const boardMask = createBoardMask('donut', { width: 8, height: 8 })!;
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(6), boardMask });
+    playMoves(engine, 12, 'last');
+    const replay = engine.getReplay();
+    expect(replay.boardMask).toEqual(boardMask);
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+    expect(playReplay(replay).getState()).toEqual(engine.getState());
+  });
+
+  it('should replay games dealt from another piece pack', () => {
+    const piecePack = parsePiecePack({
+      name: 'Corners',
+      pieces: [{ name: 'Corner', cells: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }] }],
+    });
+    const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(6), piecePack });
+    playMoves(engine, 12, 'last');
+    const replay = engine.getReplay();
+    // A classic game in between switches the active pack back
+    new GameEngine({ mode: 'hard', rng: new SeededRandom(1) });
+
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+    expect(playReplay(replay).getState()).toEqual(engine.getState());
+  });
+
+  it('should share replays dealt from a pack with non-Latin-1 names', () => {
+    const piecePack = parsePiecePack({
+      name: 'Ecken 🧩 角',
+      pieces: [{ name: 'Ecke ✨', cells: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }] }],
+    });
+    const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(6), piecePack });
+    playMoves(engine, 4, 'last');
+    const replay = engine.getReplay();
+
+    const code = encodeReplay(replay);
+    expect(code).toMatch(/^[A-Za-z0-9+/=]+$/);
+    expect(decodeReplay(code)).toEqual(replay);
+  });
+
+  it('should still decode codes made before names were encoded as UTF-8', () => {
+    const piecePack = parsePiecePack({
+      name: 'Café',
+      pieces: [{ name: 'Équerre', cells: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }] }],
+    });
+    const engine = new GameEngine({ mode: 'hard', rng: new SeededRandom(6), piecePack });
+    playMoves(engine, 3, 'last');
+    const replay = engine.getReplay();
+    // btoa straight over the JSON, as codes were made before
+    const moves = replay.moves.map(move => move.join('.')).join(',');
+    const code = btoa(JSON.stringify({ ...replay, moves }));
+    expect(decodeReplay(code)).toEqual(replay);
+  });
+
+  it('should replay moves into and out of the hold slot', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(21), holdEnabled: true });
+    engine.hold(0);
+    playMoves(engine, 3, 'last');
+    engine.hold(engine.getState().queue.findIndex(shape => shape !== null));
+    playMoves(engine, 3, 'last');
+    const replay = engine.getReplay();
+    expect(replay.moves.filter(move => move.length === 1)).toHaveLength(2);
+
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+    expect(playReplay(replay).getState()).toEqual(engine.getState());
+  });
+
+  it('should replay rotated and mirrored pieces', () => {
+    const piecePack = parsePiecePack({
+      name: 'Hooks',
+      pieces: [{ name: 'Hook', cells: [{ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 0, y: 2 }, { x: 1, y: 2 }], mirror: true }],
+    });
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(30), piecePack });
+    engine.transform(0, 'rotate');
+    engine.transform(1, 'mirror');
+    playMoves(engine, 4, 'last');
+    const replay = engine.getReplay();
+    expect(replay.moves.slice(0, 2)).toEqual([[0, 1], [1, 2]]);
+
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+    expect(playReplay(replay).getState()).toEqual(engine.getState());
+  });
+
+  it('should step one move at a time', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(4) });
+    playMoves(engine, 2, 'last');
+    const player = new ReplayPlayer(engine.getReplay());
+    expect(player.getMoveIndex()).toBe(0);
+    expect(player.step()).not.toBeNull();
+    expect(player.getMoveIndex()).toBe(1);
+    player.step();
+    expect(player.isFinished()).toBe(true);
+    expect(player.step()).toBeNull();
+  });
+
+  it('should round-trip replay codes', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(12) });
+    playMoves(engine, 5, 'last');
+    const replay = engine.getReplay();
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+  });
+
+  it('should reject invalid replay codes', () => {
+    expect(decodeReplay('not a replay')).toBeNull();
+    expect(decodeReplay(btoa(JSON.stringify({ version: 99, moves: '' })))).toBeNull();
+  });
+
+  it('should keep the last game and the best game per mode', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(3) });
+    playMoves(engine, 2, 'last');
+    const good = { ...engine.getReplay(), score: 500 };
+    const worse = { ...engine.getReplay(), score: 100 };
+
+    recordReplay(good);
+    recordReplay(worse);
+
+    expect(getLastReplay()?.score).toBe(100);
+    expect(getBestReplay('easy')?.score).toBe(500);
+    expect(getBestReplay('hard')).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for saving and resuming an in-progress game
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameEngine } from '../engine';
+import { SeededRandom } from '../random';
+import { saveGame, loadSavedGame, clearSavedGame, getSavedGameSettings } from '../savedGame';
+import { STORAGE_KEYS, SAVE_GAME_CONFIG } from '../config';
+import { createBoardMask } from '../boardMasks';
+import { getShapePointValue, getShapeColor, randomizeShapePointValues, updateColorScheme } from '../shapes';
+import { playMoves } from './helpers';
+
+describe('savedGame', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should return null when nothing is saved', () => {
+    expect(loadSavedGame()).toBeNull();
+  });
+
+  it('should round-trip a game through localStorage', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(31) });
+    playMoves(engine, 7);
+
+    saveGame(engine.toSaveData());
+    const loaded = loadSavedGame();
+
+    expect(loaded).not.toBeNull();
+    expect(loaded?.version).toBe(SAVE_GAME_CONFIG.version);
+    expect(loaded?.state).toEqual(engine.getState());
+    expect(loaded?.shapesPlacedThisTurn).toBe(engine.getShapesPlacedThisTurn());
+  });
+
+  it('should resume with the same point values and colors and continue identically', () => {
+    const original = new GameEngine({ mode: 'hard', rng: new SeededRandom(5) });
+    playMoves(original, 5);
+    saveGame(original.toSaveData());
+    const pointValues = Array.from({ length: 13 }, (_, i) => getShapePointValue(i));
+    const colors = Array.from({ length: 13 }, (_, i) => getShapeColor(i));
+
+    // Simulate a reload: a fresh session with different point values and palette
+    randomizeShapePointValues(new SeededRandom(999).source);
+    updateColorScheme(20);
+    const resumed = new GameEngine({ mode: 'hard', rng: new SeededRandom(1) });
+    resumed.loadSaveData(loadSavedGame()!);
+
+    expect(resumed.getState()).toEqual(original.getState());
+    expect(Array.from({ length: 13 }, (_, i) => getShapePointValue(i))).toEqual(pointValues);
+    expect(Array.from({ length: 13 }, (_, i) => getShapeColor(i))).toEqual(colors);
+
+    playMoves(original, 10);
+    playMoves(resumed, 10);
+    expect(resumed.getState()).toEqual(original.getState());
+  });
+
+  it('should restore the board size', () => {
+    const quick = new GameEngine({ mode: 'easy', rng: new SeededRandom(21), boardSize: { width: 6, height: 6 } });
+    playMoves(quick, 4);
+    saveGame(quick.toSaveData());
+
+    const resumed = new GameEngine({ mode: 'easy', rng: new SeededRandom(1) });
+    resumed.loadSaveData(loadSavedGame()!);
+    expect(resumed.getBoardSize()).toEqual({ width: 6, height: 6 });
+    expect(resumed.getState()).toEqual(quick.getState());
+  });
+
+  it('should restore the board mask', () => {
+    const boardMask = createBoardMask('pillars', { width: 8, height: 8 })!;
+    const pillars = new GameEngine({ mode: 'easy', rng: new SeededRandom(21), boardMask });
+    playMoves(pillars, 4);
+    saveGame(pillars.toSaveData());
+
+    const resumed = new GameEngine({ mode: 'easy', rng: new SeededRandom(1) });
+    resumed.loadSaveData(loadSavedGame()!);
+    expect(resumed.getBoardMask()).toEqual(boardMask);
+    expect(resumed.getState()).toEqual(pillars.getState());
+  });
+
+  it('should work out the mode and board settings a save was played with', () => {
+    const boardMask = createBoardMask('donut', { width: 10, height: 10 })!;
+    const marathon = new GameEngine({ mode: 'adaptive', rng: new SeededRandom(21), boardSize: { width: 10, height: 10 }, boardMask });
+    expect(getSavedGameSettings(marathon.toSaveData())).toEqual({ mode: 'adaptive', boardSize: 'marathon', boardShape: 'donut' });
+
+    const plain = new GameEngine({ mode: 'hard', rng: new SeededRandom(21) });
+    expect(getSavedGameSettings(plain.toSaveData())).toEqual({ mode: 'hard', boardSize: 'standard', boardShape: 'square' });
+
+    const custom = new GameEngine({ mode: 'easy', rng: new SeededRandom(21), boardSize: { width: 7, height: 5 } });
+    expect(getSavedGameSettings(custom.toSaveData())).toBeNull();
+  });
+
+  it('should discard saves from another format version', () => {
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(2) });
+    localStorage.setItem(STORAGE_KEYS.savedGame, JSON.stringify({ ...engine.toSaveData(), version: SAVE_GAME_CONFIG.version + 1 }));
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadSavedGame()).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEYS.savedGame)).toBeNull();
+    warnSpy.mockRestore();
+  });
+
+  it('should ignore unreadable saves', () => {
+    localStorage.setItem(STORAGE_KEYS.savedGame, '{not json');
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadSavedGame()).toBeNull();
+    warnSpy.mockRestore();
+  });
+
+  it('should clear the save', () => {
+    saveGame(new GameEngine({ mode: 'easy', rng: new SeededRandom(3) }).toSaveData());
+    clearSavedGame();
+    expect(loadSavedGame()).toBeNull();
+  });
+});
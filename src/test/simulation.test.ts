@@ -0,0 +1,96 @@
+/**
+ * Tests for the headless batch simulation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runSimulation, simulateGame, summarizeDistribution, withConfigOverrides, summaryToCsv, gamesToCsv } from '../simulation';
+import { GAMEPLAY_CONFIG, EASY_MODE_CONFIG } from '../config';
+import { GameEngine } from '../engine';
+import { SeededRandom } from '../random';
+
+describe('simulation', () => {
+  it('should compute the mean and interpolated percentiles', () => {
+    expect(summarizeDistribution([40, 10, 30, 20, 50])).toEqual({
+      mean: 30, min: 10, p10: 14, p25: 20, p50: 30, p75: 40, p90: 46, max: 50,
+    });
+    expect(summarizeDistribution([7]).p90).toBe(7);
+  });
+
+  it('should play the same games from the same seeds', () => {
+    const options = { games: 3, agent: 'random' as const, mode: 'hard' as const, seed: 10 };
+    const first = runSimulation(options);
+    expect(runSimulation(options).games).toEqual(first.games);
+    expect(first.games.map(game => game.seed)).toEqual([10, 11, 12]);
+    expect(first.summary.finishedGames).toBe(3);
+    expect(first.summary.score.min).toBe(Math.min(...first.games.map(game => game.score)));
+    expect(first.options).toMatchObject({ boardSize: 'standard', boardShape: 'square', piecePack: 'Classic' });
+  });
+
+  it('should stop long games at the turn limit without the game over bonus', () => {
+    const game = simulateGame(3, { games: 1, agent: 'greedy', mode: 'hard', seed: 3, maxTurns: 6 });
+    expect(game.turns).toBe(6);
+    expect(game.finished).toBe(false);
+    expect(game.hands).toBe(3);
+  });
+
+  it('should apply config overrides only while the simulation runs', () => {
+    const perTurn = GAMEPLAY_CONFIG.shapesPerTurn;
+    const report = runSimulation({
+      games: 1, agent: 'greedy', mode: 'easy', seed: 5, maxTurns: 6,
+      overrides: { gameplay: { shapesPerTurn: 2 }, easyMode: { attemptsPerPiece: 1 } },
+    });
+    // Two placements per hand: the opening hand plus one refill every second placement
+    expect(report.games[0].hands).toBe(4);
+    expect(GAMEPLAY_CONFIG.shapesPerTurn).toBe(perTurn);
+    expect(EASY_MODE_CONFIG.attemptsPerPiece).toBe(50);
+    expect(() => withConfigOverrides({ gameplay: { nope: 1 } as never }, () => 0)).toThrow('Unknown config key');
+    expect(GAMEPLAY_CONFIG.shapesPerTurn).toBe(perTurn);
+  });
+
+  it('should deal and play hands of the overridden size in every mode', () => {
+    for (const mode of ['easy', 'hard', 'adaptive'] as const) {
+      const queue = withConfigOverrides({ gameplay: { shapesPerTurn: 4 } }, () =>
+        new GameEngine({ mode, rng: new SeededRandom(2) }).getState().queue
+      );
+      expect(queue).toHaveLength(4);
+      expect(queue.every(shape => shape !== null)).toBe(true);
+
+      for (const shapesPerTurn of [2, 4]) {
+        const game = runSimulation({
+          games: 1, agent: 'greedy', mode, seed: 2, maxTurns: 8, overrides: { gameplay: { shapesPerTurn } },
+        }).games[0];
+        expect(game.turns).toBe(8);
+        // The opening hand plus a refill after every full hand
+        expect(game.hands).toBe(1 + 8 / shapesPerTurn);
+      }
+    }
+    const finished = runSimulation({ games: 2, agent: 'greedy', mode: 'hard', seed: 2, overrides: { gameplay: { shapesPerTurn: 4 } } });
+    expect(finished.summary.finishedGames).toBe(2);
+    expect(() => withConfigOverrides({ gameplay: { shapesPerTurn: 2.5 } }, () => 0)).toThrow('shapesPerTurn');
+    expect(() => withConfigOverrides({ gameplay: { shapesPerTurn: 0 } }, () => 0)).toThrow('shapesPerTurn');
+  });
+
+  it('should count easy mode hands that fell back to random pieces', () => {
+    const strict = runSimulation({
+      games: 2, agent: 'greedy', mode: 'easy', seed: 1, boardSize: 'quick',
+      overrides: { easyMode: { attemptsPerPiece: 1 } },
+    });
+    const fallbackHands = strict.games.reduce((sum, game) => sum + game.fallbackHands, 0);
+    expect(fallbackHands).toBeGreaterThan(0);
+    expect(strict.summary.fallbackHandRate).toBeGreaterThan(0);
+    expect(runSimulation({ games: 2, agent: 'greedy', mode: 'hard', seed: 1 }).summary.fallbackHandRate).toBe(0);
+  });
+
+  it('should format the summary and the games as CSV', () => {
+    const report = runSimulation({ games: 2, agent: 'greedy', mode: 'hard', seed: 8 });
+    const summaryRows = summaryToCsv(report.summary).trim().split('\n');
+    expect(summaryRows[0]).toBe('metric,mean,min,p10,p25,p50,p75,p90,max');
+    expect(summaryRows.find(row => row.startsWith('score,'))?.split(',')).toHaveLength(9);
+    expect(summaryRows).toContain('games,2,,,,,,,');
+
+    const gameRows = gamesToCsv(report.games).trim().split('\n');
+    expect(gameRows).toHaveLength(3);
+    expect(gameRows[1].split(',')[0]).toBe('8');
+    expect(gameRows[1].split(',')[1]).toBe(String(report.games[0].score));
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for the hand solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solveHand, canPlaceAll, countHoles, countEmptyRegions, createWeightedEvaluation } from '../solver';
+import { Board } from '../board';
+import { SeededRandom } from '../random';
+import { generateShapes } from '../shapes';
+import { Shape } from '../types';
+
+const VERTICAL_DOMINO: Shape = [{ x: 0, y: 0 }, { x: 0, y: 1 }];
+const HORIZONTAL_DOMINO: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }];
+const IPIECE: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }];
+const HORIZONTAL_TROMINO: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }];
+const BOX: Shape = [0, 1, 2].flatMap(y => [0, 1, 2].map(x => ({ x, y })));
+
+/**
+ * A full 8x8 board except for the given cells
+ */
+function createBoardWithEmptyCells(empty: string[]): Board {
+  const board = new Board();
+  board.setGrid(Array.from({ length: 8 }, (_, y) =>
+    Array.from({ length: 8 }, (__, x) => !empty.includes(`${x},${y}`))
+  ));
+  return board;
+}
+
+/**
+ * A full board with a four-cell slot at the left of the top row and single-cell holes that keep every
+ * other row and column from clearing; the hole under (5, 0) only becomes a vertical slot once row 0 clears
+ */
+function createSlotBoard(): Board {
+  return createBoardWithEmptyCells(['0,0', '1,0', '2,0', '3,0', '5,1', '7,2', '4,3', '6,4', '1,5', '5,5', '3,6', '6,7', '0,3', '2,4']);
+}
+
+describe('solver', () => {
+  it('should find an order that only works with a line clear in between', () => {
+    const result = solveHand(createSlotBoard(), [VERTICAL_DOMINO, IPIECE, null]);
+    expect(result?.complete).toBe(true);
+    expect(result?.steps.map(step => step.queueIndex)).toEqual([1, 0]);
+    expect(result?.steps[1].position).toEqual({ x: 5, y: 0 });
+    expect(result?.exhaustive).toBe(true);
+  });
+
+  it('should place as many pieces as it can when the hand does not fit', () => {
+    const result = solveHand(createSlotBoard(), [VERTICAL_DOMINO, BOX, IPIECE]);
+    expect(result?.complete).toBe(false);
+    expect(result?.steps.length).toBe(2);
+    expect(solveHand(createSlotBoard(), [VERTICAL_DOMINO])).toBeNull();
+    expect(solveHand(new Board(), [null, null, null])).toBeNull();
+  });
+
+  it('should turn pieces only while the tokens last', () => {
+    expect(canPlaceAll(createSlotBoard(), [VERTICAL_DOMINO])).toBe(false);
+    const turned = solveHand(createSlotBoard(), [VERTICAL_DOMINO], { tokens: { rotationsRemaining: 1, mirrorsRemaining: 0 } });
+    expect(turned?.complete).toBe(true);
+    expect(turned?.steps[0].transforms).toEqual(['rotate']);
+    expect(turned?.steps[0].position.y).toBe(0);
+  });
+
+  it('should rank end states with the evaluation it is given', () => {
+    const prefersCorner = solveHand(new Board(), [HORIZONTAL_DOMINO], {
+      evaluate: ({ grid }) => (grid[7][7] ? 1 : 0),
+    });
+    expect(prefersCorner?.steps[0].position).toEqual({ x: 6, y: 7 });
+    expect(prefersCorner?.value).toBe(1);
+  });
+
+  it('should return the best plan found so far when the node budget runs out', () => {
+    const result = solveHand(new Board(), [IPIECE, IPIECE, IPIECE], { maxNodes: 5 });
+    expect(result?.complete).toBe(true);
+    expect(result?.exhaustive).toBe(false);
+    expect(solveHand(createSlotBoard(), [VERTICAL_DOMINO, IPIECE])?.exhaustive).toBe(true);
+  });
+
+  it('should search an opening hand on an empty board in full', () => {
+    for (const seed of [1, 7, 37]) {
+      const result = solveHand(new Board(), generateShapes(new SeededRandom(seed).source));
+      expect(result?.complete).toBe(true);
+      expect(result?.exhaustive).toBe(true);
+    }
+  });
+
+  it('should turn a piece that already fits when only that completes the hand', () => {
+    // A three-cell slot in the top row and a two-cell slot down the right edge; single-cell holes keep
+    // every row and column from clearing
+    const board = createBoardWithEmptyCells(['0,0', '1,0', '2,0', '7,6', '7,7', '5,0', '0,3', '2,3', '1,5', '7,2', '3,6', '4,7', '4,1', '6,4']);
+    const hand = [HORIZONTAL_DOMINO, HORIZONTAL_TROMINO];
+    const tokens = { rotationsRemaining: 1, mirrorsRemaining: 0 };
+    expect(solveHand(board, [HORIZONTAL_DOMINO])?.complete).toBe(true);
+    expect(canPlaceAll(board, hand)).toBe(false);
+
+    const result = solveHand(board, hand, { tokens });
+    expect(result?.complete).toBe(true);
+    expect(result?.exhaustive).toBe(true);
+    expect(result?.steps.find(step => step.queueIndex === 0)).toMatchObject({ transforms: ['rotate'], position: { x: 7, y: 6 } });
+    expect(canPlaceAll(board, hand, tokens)).toBe(true);
+  });
+
+  it('should keep a search with unlimited tokens within the node budget', () => {
+    const shapes = generateShapes(new SeededRandom(7).source);
+    const started = performance.now();
+    const result = solveHand(new Board(), shapes, { tokens: { rotationsRemaining: null, mirrorsRemaining: null } });
+    expect(performance.now() - started).toBeLessThan(4000);
+    expect(result?.complete).toBe(true);
+    expect(result?.exhaustive).toBe(false);
+  });
+
+  it('should stop at the first complete plan when asked', () => {
+    const result = solveHand(new Board(), [IPIECE, IPIECE, IPIECE], { stopAtFirst: true });
+    expect(result?.complete).toBe(true);
+    expect(result?.steps.map(step => step.position)).toEqual([{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 0, y: 0 }]);
+  });
+
+  it('should find the same plan for the same seed', () => {
+    const shapes = generateShapes(new SeededRandom(8).source);
+    expect(solveHand(new Board(), shapes)).toEqual(solveHand(new Board(), shapes));
+  });
+
+  describe('evaluation', () => {
+    const playable = [[true, true, true], [true, true, true], [true, true, false]];
+    const grid = [[false, true, false], [true, true, true], [false, false, false]];
+
+    it('should count holes and separate empty regions', () => {
+      // (0, 0) and (2, 0) are walled in; the bottom row is one region ((2, 2) is not playable)
+      expect(countHoles(grid, playable)).toBe(2);
+      expect(countEmptyRegions(grid, playable)).toBe(3);
+    });
+
+    it('should weigh clears, open cells, holes and regions', () => {
+      const evaluate = createWeightedEvaluation({ linesCleared: 10, emptyCells: 1, holes: 4, regions: 3 });
+      // 2 lines, 4 empty cells, 2 holes, 2 extra regions
+      expect(evaluate({ grid, playable, linesCleared: 2 })).toBe(20 + 4 - 8 - 6);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for the solver worker client and its jobs
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SolverWorkerClient, SolverJobCancelledError } from '../solverWorkerClient';
+import { runSolverJob, SolverWorkerRequest } from '../solverJobs';
+import { GameEngine } from '../engine';
+import { SeededRandom } from '../random';
+import { Board } from '../board';
+import { CLASSIC_PIECE_PACK } from '../piecePacks';
+import { solveHand } from '../solver';
+import { Shape } from '../types';
+
+const IPIECE: Shape = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }];
+
+/**
+ * Stands in for a Worker: records posted jobs and lets the test answer them
+ */
+class FakeWorker {
+  posted: SolverWorkerRequest[] = [];
+  terminated = false;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  postMessage(request: SolverWorkerRequest): void {
+    this.posted.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  answer(request: SolverWorkerRequest): void {
+    this.onmessage?.({ data: { id: request.id, result: runSolverJob(request.type, request.payload) } });
+  }
+}
+
+const solveRequest = (queue: (Shape | null)[]) => ({
+  boardSize: { width: 8, height: 8 },
+  boardMask: null,
+  filled: 0n,
+  piecePack: CLASSIC_PIECE_PACK,
+  queue,
+});
+
+describe('SolverWorkerClient', () => {
+  it('should run jobs on the main thread without worker support', async () => {
+    const client = new SolverWorkerClient(() => null);
+    const engine = new GameEngine({ mode: 'easy', rng: new SeededRandom(5), deferDeals: true });
+    while (engine.getState().queue.some(Boolean)) {
+      const move = engine.getLegalMoves()[0];
+      engine.place(move.queueIndex, move.position);
+    }
+    const request = engine.getPendingDeal()!;
+
+    const [dealt, solved] = await Promise.all([
+      client.run('deal', request).promise,
+      client.run('solve', solveRequest([IPIECE, IPIECE])).promise,
+    ]);
+    expect(engine.completeDeal(request.id, dealt)).toBe(true);
+    expect(solved).toEqual(solveHand(new Board(), [IPIECE, IPIECE]));
+  });
+
+  it('should post one job at a time and match answers by id', async () => {
+    const worker = new FakeWorker();
+    const client = new SolverWorkerClient(() => worker as unknown as Worker);
+    const first = client.run('solve', solveRequest([IPIECE]));
+    const second = client.run('solve', solveRequest([IPIECE, IPIECE]));
+    expect(worker.posted).toHaveLength(1);
+
+    worker.answer(worker.posted[0]);
+    expect((await first.promise)?.steps).toHaveLength(1);
+    expect(worker.posted).toHaveLength(2);
+    worker.answer(worker.posted[1]);
+    expect((await second.promise)?.steps).toHaveLength(2);
+  });
+
+  it('should drop queued jobs and restart the worker for a cancelled running job', async () => {
+    const workers: FakeWorker[] = [];
+    const client = new SolverWorkerClient(() => {
+      workers.push(new FakeWorker());
+      return workers[workers.length - 1] as unknown as Worker;
+    });
+    const running = client.run('solve', solveRequest([IPIECE]));
+    const queued = client.run('solve', solveRequest([IPIECE]));
+    const last = client.run('solve', solveRequest([IPIECE, IPIECE]));
+
+    queued.cancel();
+    await expect(queued.promise).rejects.toBeInstanceOf(SolverJobCancelledError);
+    running.cancel();
+    await expect(running.promise).rejects.toBeInstanceOf(SolverJobCancelledError);
+
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+    expect(workers[1].posted.map(request => request.payload)).toEqual([solveRequest([IPIECE, IPIECE])]);
+    // An answer from the terminated worker is never delivered
+    workers[1].answer(workers[1].posted[0]);
+    expect((await last.promise)?.steps).toHaveLength(2);
+  });
+
+  it('should fall back to the main thread when the worker fails', async () => {
+    const worker = new FakeWorker();
+    const client = new SolverWorkerClient(() => worker as unknown as Worker);
+    const task = client.run('solve', solveRequest([IPIECE]));
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    worker.onerror?.({ message: 'boom' });
+    expect((await task.promise)?.complete).toBe(true);
+    expect(worker.terminated).toBe(true);
+    warnSpy.mockRestore();
+  });
+});
@@ -37,6 +37,13 @@ describe('validator', () => {
       expect(canPlaceShape(board, MONOMINO, { x: 0, y: 0 })).toBe(false);
     });
 
+    it('should reject placement on blocked or missing cells', () => {
+      const masked = new Board({ width: 4, height: 4 }, [' ...', '....', '..#.', '....']);
+      expect(canPlaceShape(masked, MONOMINO, { x: 0, y: 0 })).toBe(false);
+      expect(canPlaceShape(masked, DOMINO, { x: 1, y: 2 })).toBe(false);
+      expect(canPlaceShape(masked, DOMINO, { x: 0, y: 1 })).toBe(true);
+    });
+
     it('should allow placement adjacent to occupied cells', () => {
       board.placeShape(MONOMINO, { x: 0, y: 0 });
       expect(canPlaceShape(board, MONOMINO, { x: 1, y: 0 })).toBe(true);
@@ -71,6 +78,15 @@ describe('validator', () => {
       const positions = getValidPositions(board, MONOMINO);
       expect(positions).toHaveLength(0);
     });
+
+    it('should search the whole of a non-square board', () => {
+      const wide = new Board({ width: 10, height: 6 });
+      const positions = getValidPositions(wide, IPIECE);
+      // 7 starting columns per row fit a 4-wide piece on a 10-wide board
+      expect(positions).toHaveLength(7 * 6);
+      expect(positions.some(p => p.x === 6 && p.y === 5)).toBe(true);
+      expect(canPlaceShape(wide, IPIECE, { x: 7, y: 0 })).toBe(false);
+    });
   });
 
   describe('canPlaceAnyShape', () => {
@@ -16,6 +16,31 @@ export interface Position {
  */
 export type Shape = Position[];
 
+/**
+ * Dimensions of a game board in cells
+ */
+export interface BoardSize {
+    width: number;                 // Number of columns
+    height: number;                // Number of rows
+}
+
+/**
+ * Kind of board cell: open cells can be filled, blocked cells are permanent obstacles
+ * and missing cells are not part of the board at all (holes and irregular outlines)
+ */
+export type BoardCellType = 'open' | 'blocked' | 'missing';
+
+/**
+ * Board mask as text rows (indexed [y][x]), one character per cell - see BOARD_MASK_CHARS
+ */
+export type BoardMask = string[];
+
+/**
+ * A source of random numbers in [0, 1), compatible with Math.random
+ * Game code takes one of these instead of calling Math.random directly so runs can be seeded
+ */
+export type RandomSource = () => number;
+
 /**
  * Represents a block that has been placed on the board
  * Contains the shape definition and its absolute position on the board
@@ -35,7 +60,7 @@ export interface PlacedBlock {
  * Represents the current state of the game
  */
 export interface GameState {
-    board: boolean[][];           // 8x8 grid, true = filled, false = empty
+    board: boolean[][];           // height x width grid indexed [y][x], true = filled, false = empty
     queue: (Shape | null)[];      // Current queue of 3 shapes to place (null = empty slot)
     placedBlocks: PlacedBlock[];   // All blocks currently on the board
     score: number;                 // Current score
@@ -45,8 +70,365 @@ export interface GameState {
     totalShapesPlaced: number;     // Total shapes placed this game (for point value calculation)
     turn: number;                  // Turn counter (increments each time a block is placed)
     linesCleared: number;          // Total lines/columns cleared this game
+    held: Shape | null;            // Piece stashed in the hold slot (always null when the hold slot is off)
+    rotationsUsed: number;         // Rotation tokens spent this game
+    mirrorsUsed: number;           // Mirror tokens spent this game
+    adaptive: AdaptiveState | null; // Adaptive mode's difficulty tracking (null in other modes)
+    timeLeftMs: number | null;     // Blitz mode's clock (null in untimed modes)
+    boardReliefs: number;          // Times this game cleared part of the board because no piece fit (endless modes only)
+    puzzle: PuzzleState | null;    // Progress through the puzzle being played (null outside puzzles)
+}
+
+/**
+ * How adaptive mode reads the player, updated each time a hand is dealt (see adaptive.ts)
+ * Derived only from the game itself, so seeded games and replays deal the same hands
+ */
+export interface AdaptiveState {
+    difficulty: number;            // 0 = most relief (small pieces, whole hand fits) to 1 = no help (big pieces, no guarantee)
+    recentClears: number[];        // Lines cleared in each of the last few hands, oldest first
+    linesAtHandStart: number;      // Lines cleared this game when the current hand was dealt
+    nearDeathHands: number;        // Hands this game that were dealt onto a nearly full board
+}
+
+/**
+ * Progress through an authored puzzle, kept in the game state so undo rolls it back
+ */
+export interface PuzzleState {
+    id: string;                    // Puzzle being played
+    handsDealt: number;            // Hands from the puzzle's list dealt so far, including the opening hand
+    solved: boolean;               // The goal has been met
+}
+
+/**
+ * A single board cell together with its current point value
+ * Used for cells removed by a line clear and for the game over bonus
+ */
+export interface ScoredCell {
+    x: number;
+    y: number;
+    color: string;
+    pointValue: number;
+}
+
+/**
+ * Outcome of clearing full rows and columns after a placement
+ */
+export interface LineClearResult {
+    rows: number[];
+    columns: number[];
+    linesCleared: number;
+    points: number;
+    boardCleared: boolean;
+    cells: ScoredCell[];           // Cells removed by the clear, valued as they were when cleared
+}
+
+/**
+ * Blocks cleared to keep an endless (zen) game going after the player ran out of moves
+ */
+export interface BoardRelief {
+    cells: ScoredCell[];           // Cells removed, oldest blocks first (they score nothing)
+    reliefs: number;               // Reliefs this game, including this one
+}
+
+/**
+ * Payloads for every event a game emits, keyed by event name
+ * Listeners fire after the engine state is fully updated, so getState() is safe to call from them
+ */
+export interface GameEventMap {
+    shapePlaced: {
+        queueIndex: number;        // Queue slot the shape was taken from
+        shape: Shape;
+        position: Position;
+        placedBlock: PlacedBlock;
+        turn: number;              // Turn counter after the placement
+    };
+    linesCleared: LineClearResult;
+    boardRelieved: BoardRelief;    // Endless modes only, in place of gameOver
+    puzzleFinished: PuzzleResult;  // Puzzles only, just before gameOver
+    levelUp: {
+        previousLevel: number;
+        level: number;
+    };
+    queueRefilled: {
+        queue: (Shape | null)[];
+    };
+    pieceHeld: {
+        queueIndex: number;        // Queue slot the piece was taken from
+        held: Shape;               // Piece now in the hold slot
+        released: Shape | null;    // Piece swapped out of the hold slot into the queue, if any
+    };
+    pieceTransformed: {
+        queueIndex: number;        // Queue slot of the piece
+        transform: PieceTransform;
+        shape: Shape;              // The piece in its new orientation
+        tokens: TransformTokens;   // Tokens left after this one was spent
+    };
+    gameOver: {
+        score: number;             // Score before the game over bonus is awarded
+        level: number;
+        turn: number;
+        linesCleared: number;
+    };
+    scoreChanged: {
+        score: number;
+        delta: number;
+    };
+    undone: UndoStatus;
+    redone: UndoStatus;
+    hintUsed: HintStatus;
+    dealRequested: DealRequest;    // Only with deferred deals: the queue stays empty until completeDeal()
+}
+
+/**
+ * Everything needed to deal the next hand away from the engine (e.g. in a worker)
+ * Dealing from the same request always gives the same hand, so seeded games stay replayable
+ */
+export interface DealRequest {
+    id: number;                    // Identifies the refill the hand is for (see GameEngine.completeDeal)
+    mode: GameMode;
+    boardSize: BoardSize;
+    boardMask: BoardMask | null;
+    filled: bigint;                // Board cells after the placement that emptied the queue (see bitboard.ts)
+    piecePack: PiecePack;
+    seed: number;
+    rngState: number;              // Random source state to deal from
+    tokens: TransformTokens;       // Rotation and mirror tokens left (easy mode deals pieces that fit once turned)
+    difficulty?: number;           // Adaptive mode only: difficulty to deal the hand at
+}
+
+/**
+ * A hand dealt for a DealRequest
+ */
+export interface DealResult {
+    shapes: Shape[];
+    rngState: number;              // Random source state after dealing
+    fallbackPieces: number;        // Pieces dealt at random because easy mode found none that fit (0 in hard mode)
+}
+
+/**
+ * How much of the undo allowance has been used this game
+ */
+export interface UndoStatus {
+    undosUsed: number;
+    undosRemaining: number | null; // null = unlimited
+}
+
+/**
+ * How much of the hint allowance has been used this game
+ */
+export interface HintStatus {
+    hintsUsed: number;
+    hintsRemaining: number | null; // null = unlimited
+}
+
+/**
+ * A move the solver recommends, shown on the board until the position changes
+ */
+export interface MoveHint {
+    queueIndex: number;            // Queue slot of the recommended piece
+    transforms: PieceTransform[];  // Turns to make before placing it (empty to place it as dealt)
+    shape: Shape;                  // The piece in the orientation it should be placed
+    position: Position;
+    lines: { rows: number[]; columns: number[] }; // Lines the placement clears
+    explanation: string;           // Short reason for the move, e.g. "Clears row 3 and column 5"
+}
+
+/**
+ * How many rotations and mirrors the player can still make this game
+ */
+export interface TransformTokens {
+    rotationsRemaining: number | null; // null = unlimited
+    mirrorsRemaining: number | null;   // null = unlimited
+}
+
+/**
+ * A change the player can make to a queued piece's orientation
+ */
+export type PieceTransform = 'rotate' | 'mirror';
+
+/**
+ * An orientation a piece can be turned into, with the turns that get it there
+ */
+export interface ReachableOrientation {
+    shape: Shape;
+    transforms: PieceTransform[];  // Turns to apply in order (empty for the piece as it is)
 }
 
+export type GameEventName = keyof GameEventMap;
+export type GameEventListener<K extends GameEventName> = (payload: GameEventMap[K]) => void;
+
+/**
+ * One recorded move: [queueIndex, x, y] for a placement, [queueIndex] for moving a piece into the hold slot,
+ * or [queueIndex, transformCode] for rotating (1) or mirroring (2) a queued piece
+ * A queueIndex of -1 with a transformCode only spends the token: the turn it paid for was undone
+ * Stored as a tuple to keep replay logs compact
+ */
+export type ReplayMove =
+    | [queueIndex: number, x: number, y: number]
+    | [queueIndex: number]
+    | [queueIndex: number, transformCode: number];
+
+/**
+ * A complete game log: replaying the moves against a fresh engine with the same seed and mode
+ * reproduces the game exactly
+ */
+export interface GameReplay {
+    version: number;               // Replay format version (see REPLAY_CONFIG)
+    seed: number;
+    mode: GameMode;
+    boardSize?: BoardSize;         // Missing in replays recorded before board sizes were configurable (8x8)
+    boardMask?: BoardMask;         // Missing for plain boards
+    piecePack?: PiecePack;         // Missing for the classic pieces
+    moves: ReplayMove[];
+    score: number;                 // Final score (for display; the moves are the source of truth)
+    recordedAt: number;            // Timestamp when the game finished
+}
+
+/**
+ * Buttons in the replay control bar drawn under the queue
+ */
+export type ReplayControl = 'playPause' | 'step' | 'speed' | 'exit';
+
+/**
+ * What the replay control bar shows
+ */
+export interface ReplayStatus {
+    playing: boolean;
+    speed: number;                 // Playback speed multiplier
+    moveIndex: number;             // Moves applied so far
+    totalMoves: number;
+}
+
+/**
+ * Versioned snapshot of an in-progress game, stored so a run survives page reloads
+ */
+export interface SavedGame {
+    version: number;               // Save format version (see SAVE_GAME_CONFIG)
+    savedAt: number;               // Timestamp of the save
+    mode: GameMode;
+    boardSize: BoardSize;
+    boardMask?: BoardMask;         // Missing for plain boards
+    piecePack?: PiecePack;         // Missing for the classic pieces
+    seed: number;                  // Seed the game was started with
+    rngState: number;              // Random generator state, so the rest of the run plays out the same
+    state: GameState;              // Board, queue, placed blocks, score and level progress
+    shapesPlacedThisTurn: number;
+    shapePointValues: number[];    // Per-session point values (SHAPE_POINT_VALUES)
+    colorScheme: string[];         // Active shape color palette
+    undosUsed: number;
+    hintsUsed?: number;            // Missing in saves from before hints
+    botTurns?: number;             // Missing in saves from before bot turns were counted
+    moves: ReplayMove[];           // Moves so far, so the finished game can still be replayed
+}
+
+/**
+ * One piece in a piece pack
+ */
+export interface PackPiece {
+    name: string;
+    cells: Shape;                  // Normalized so the piece starts at (0, 0)
+    pointValue?: number;           // Fixed base points per cell (0 never scores); shuffled per game if missing
+    weight: number;                // Relative chance of being dealt (0 = never dealt)
+    rotations: number[];           // Allowed quarter turns clockwise (0-3)
+    mirror: boolean;               // Also dealt mirrored (free pieces like the F or L pentomino)
+}
+
+/**
+ * A validated set of pieces the queue is dealt from
+ * Packs are written as JSON (see piecePack.ts for the format); piece order sets colors and point values
+ */
+export interface PiecePack {
+    name: string;
+    pieces: PackPiece[];
+}
+
+/**
+ * What a puzzle asks the player to do
+ * clearBoard: empty the whole board with a clear; linesAtOnce: clear this many lines with one placement;
+ * score: reach this many points
+ */
+export type PuzzleGoal =
+    | { type: 'clearBoard' }
+    | { type: 'linesAtOnce'; lines: number }
+    | { type: 'score'; points: number };
+
+/**
+ * A block on a puzzle's starting board
+ */
+export interface PuzzleBlock {
+    shape: Shape;                  // The classic piece in the orientation it lies in, or a single painted cell
+    position: Position;
+    shapeIndex: number;            // Classic piece the block is colored and scored as
+}
+
+/**
+ * A validated authored puzzle: a fixed starting board, fixed hands and a goal
+ * Puzzles are written as JSON (see puzzles.ts for the format) and always use the classic pieces
+ */
+export interface Puzzle {
+    id: string;                    // Stable key for stored progress
+    name: string;
+    boardSize: BoardSize;
+    boardMask: BoardMask | null;   // null for a plain board
+    blocks: PuzzleBlock[];         // Starting blocks
+    hands: Shape[][];              // Hands dealt in order, one to three pieces each
+    goal: PuzzleGoal;
+    stars: { two: number; three: number }; // Most pieces placed for a two- and three-star solve
+    rules: ModeRules;              // Undo, tokens and hints while the puzzle is played
+}
+
+/**
+ * A piece as written in a puzzle file: a classic piece name, or one turned into another orientation
+ */
+export type PuzzlePieceRef = string | { piece: string; turns?: number; mirror?: boolean };
+
+/**
+ * A starting block as written in a puzzle file: a whole piece, or one painted cell colored like a piece
+ */
+export type PuzzleBlockData =
+    | { piece: string; turns?: number; mirror?: boolean; x: number; y: number }
+    | { paint: string; x: number; y: number };
+
+/**
+ * A puzzle file (see puzzles.ts for the format)
+ */
+export interface PuzzleData {
+    id: string;
+    name: string;
+    board?: string[];
+    blocks?: PuzzleBlockData[];
+    hands: PuzzlePieceRef[][];
+    goal: PuzzleGoal;
+    stars: { two: number; three: number };
+    rotations?: number;
+    mirrors?: number;
+}
+
+/**
+ * How a puzzle attempt ended
+ */
+export interface PuzzleResult {
+    puzzleId: string;
+    solved: boolean;
+    stars: number;                 // 1-3 for a solve, 0 otherwise
+    piecesPlaced: number;
+    score: number;
+}
+
+/**
+ * What the puzzle editor does to a board cell when it is tapped
+ * paint: fill or empty one cell in the selected piece's color; piece: stamp the selected piece there;
+ * blocked: block or reopen the cell; erase: remove the block covering the cell
+ */
+export type EditorTool = 'paint' | 'piece' | 'blocked' | 'erase';
+
+/**
+ * What a tap on the canvas landed on (see InputHandler.setTapHandler)
+ */
+export type CanvasTarget =
+    | { type: 'cell'; position: Position }
+    | { type: 'queue'; index: number };
+
 /**
  * Represents a drag operation in progress
  */
@@ -61,12 +443,24 @@ export interface DragState {
         x: number;
         y: number;
     };
+    isOverHoldSlot?: boolean;      // Whether the dragged piece would drop into the hold slot
     previewLinesCleared?: {       // Lines/columns that would be cleared if placed here
         rows: number[];
         columns: number[];
     };
 }
 
+/**
+ * Where a board sits on the canvas: the board is scaled to fit the square board area and centered in it
+ */
+export interface BoardLayout {
+    width: number;                 // Columns
+    height: number;                // Rows
+    cellSize: number;              // Pixel size of one cell
+    originX: number;               // Canvas x of the board's left edge
+    originY: number;               // Canvas y of the board's top edge
+}
+
 /**
  * Represents a cell that is animating out (being removed)
  */
@@ -84,7 +478,98 @@ export interface AnimatingCell {
  * User-adjustable game settings exposed through the settings panel
  */
 export type ThemeName = 'classic' | 'midnight' | 'sunset';
-export type GameMode = 'easy' | 'hard';
+export type GameMode = 'easy' | 'hard' | 'adaptive' | 'blitz' | 'zen';
+export type BoardSizeName = 'quick' | 'standard' | 'marathon';
+export type BoardShapeName = 'square' | 'cross' | 'donut' | 'pillars';
+export type AgentName = 'random' | 'greedy' | 'lookahead' | 'weighted';
+
+/**
+ * Rules that differ between game modes
+ */
+export interface ModeRules {
+    undoLimit: number | null;      // Undos allowed per game (null = unlimited, 0 = disabled)
+    rotationTokens: number | null; // Quarter turns the player may make per game (null = unlimited, 0 = disabled)
+    mirrorTokens: number | null;   // Mirrors the player may make per game (null = unlimited, 0 = disabled)
+    hintLimit: number | null;      // Hints allowed per game (null = unlimited, 0 = disabled)
+    endless: boolean;              // Running out of moves clears part of the board instead of ending the game
+}
+
+/**
+ * Extra facts stored alongside a high score so assisted runs can be told apart
+ */
+export interface ScoreRecordDetails {
+    undos?: number;                // Undos used during the game
+    rotations?: number;            // Rotation tokens spent, when any
+    mirrors?: number;              // Mirror tokens spent, when any
+    hints?: number;                // Hints shown, when any
+    botTurns?: number;             // Turns Auto Place played, when any
+    difficulty?: number;           // Adaptive mode's difficulty when the game ended
+    timeLimit?: number;            // Starting clock in seconds, for timed (blitz) games
+    boardSize?: string;            // Board dimensions as "WxH"
+    boardShape?: BoardShapeName;   // Board outline, when not a plain square
+    piecePack?: string;            // Piece pack name, when not the classic pieces
+}
+
+/**
+ * Running totals for endless (zen) sessions, kept instead of high scores
+ */
+export interface ZenStats {
+    sessions: number;              // Sessions finished (a session ends when a new game is started)
+    piecesPlaced: number;
+    linesCleared: number;
+    reliefs: number;               // Times the board was partly cleared to keep going
+    points: number;
+}
+
+/**
+ * The daily challenge being played: every player gets the same game for a calendar date (see daily.ts)
+ */
+export interface DailyGame {
+    date: string;                  // Local calendar date, YYYY-MM-DD
+    ranked: boolean;               // The day's one ranked attempt (false for practice)
+}
+
+/**
+ * A day's ranked daily challenge attempt, kept apart from the high scores
+ */
+export interface DailyResult {
+    date: string;                  // Local calendar date, YYYY-MM-DD
+    score: number;
+    linesCleared: number;
+    level: number;
+    piecesPlaced: number;
+    finished: boolean;             // False while the attempt is running, or if it was abandoned before game over
+    board: string;                 // Emoji picture of the final board (see Renderer.generateEmojiGrid); empty if unfinished
+}
+
+/**
+ * Events achievements are checked on: some of the engine's, plus gameFinished once a game's final score is counted
+ */
+export type AchievementEventMap = Pick<GameEventMap, 'linesCleared' | 'levelUp' | 'puzzleFinished'> & {
+    gameFinished: {
+        mode: GameMode;
+        score: number;             // Final score, game over bonus included
+        linesCleared: number;
+        level: number;
+        daily: boolean;            // Whether the game was a daily challenge
+        botTurns: number;          // Turns a bot played
+    };
+};
+
+export type AchievementEventName = keyof AchievementEventMap;
+
+/**
+ * An achievement and the condition that unlocks it, checked each time its event fires (see achievements.ts)
+ */
+export type Achievement = {
+    [K in AchievementEventName]: {
+        id: string;                // Stable key for stored unlocks
+        name: string;
+        description: string;
+        event: K;
+        condition: (payload: AchievementEventMap[K]) => boolean;
+    };
+}[AchievementEventName];
 
 export interface GameSettings {
     showGrid: boolean;
@@ -93,7 +578,12 @@ export interface GameSettings {
     soundEnabled: boolean;
     theme: ThemeName;
     mode: GameMode;
+    boardSize: BoardSizeName;
+    boardShape: BoardShapeName;
     showPointValues: boolean; // Dev setting: show point values on blocks and in queue
+    showDevOverlay: boolean;  // Dev setting: show mode, board fill and adaptive difficulty over the board
     autoplaceEnabled: boolean; // Enable/disable autoplace button functionality
+    botStrategy: AgentName; // Agent behind Auto Place and the bot demo
+    holdSlot: Record<GameMode, boolean>; // Whether each mode has a hold slot
 }
 
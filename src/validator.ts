@@ -4,9 +4,7 @@
 
 import { Position, Shape } from './types';
 import { Board } from './board';
-import { BOARD_CELL_COUNT } from './constants';
-
-const BOARD_SIZE = BOARD_CELL_COUNT;
+import { getPlacementMasks } from './bitboard';
 
 /**
  * Checks if a shape can be placed at the given position on the board
@@ -22,12 +20,7 @@ export function canPlaceShape(board: Board, shape: Shape, position: Position): b
         const x = position.x + block.x;
         const y = position.y + block.y;
 
-        // Check if block is within board boundaries
-        if (x < 0 || x >= BOARD_SIZE || y < 0 || y >= BOARD_SIZE) {
-            return false;
-        }
-
-        // Check if the cell is empty
+        // Check if the cell is on the board, playable (not blocked or missing) and empty
         if (!board.isCellEmpty({ x, y })) {
             return false;
         }
@@ -43,21 +36,11 @@ export function canPlaceShape(board: Board, shape: Shape, position: Position): b
  * @returns Array of valid positions
  */
 export function getValidPositions(board: Board, shape: Shape): Position[] {
-    const validPositions: Position[] = [];
-
-    // Try all possible positions on the board
-    // Start from 0 and let canPlaceShape handle boundary validation
-    // This ensures shapes with negative coordinates (from rotation) can still be placed in early columns
-    for (let y = 0; y < BOARD_SIZE; y++) {
-        for (let x = 0; x < BOARD_SIZE; x++) {
-            const position: Position = { x, y };
-            if (canPlaceShape(board, shape, position)) {
-                validPositions.push(position);
-            }
-        }
-    }
-
-    return validPositions;
+    // Every in-bounds offset has a precomputed mask; the shape fits where all of its cells are empty
+    const empty = board.getEmptyBits();
+    return getPlacementMasks(shape, board.getDimensions())
+        .filter(({ mask }) => (mask & empty) === mask)
+        .map(({ position }) => ({ ...position }));
 }
 
 /**
@@ -68,13 +51,10 @@ export function getValidPositions(board: Board, shape: Shape): Position[] {
  * @returns True if at least one shape can be placed
  */
 export function canPlaceAnyShape(board: Board, shapes: Shape[]): boolean {
-    for (const shape of shapes) {
-        const validPositions = getValidPositions(board, shape);
-        if (validPositions.length > 0) {
-            return true;
-        }
-    }
-    return false;
+    const empty = board.getEmptyBits();
+    return shapes.some(shape =>
+        getPlacementMasks(shape, board.getDimensions()).some(({ mask }) => (mask & empty) === mask)
+    );
 }
 
 /**